@@ -1,114 +1,74 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Address.sol";
 import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
-import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-
-interface IMyToken is IERC20 {
-    function mint(address to, uint256 amount) external;
-}
+import "./DynamicPresaleBase.sol";
+import "./DynamicPresaleExtension.sol";
+import "./libraries/PurchaseVouchers.sol";
 
 /// @title DynamicPresale - Dynamic Token Presale Contract
 /// @notice Handles multi-phase presale, buy, claim, refund, and withdraw logic
-contract DynamicPresale is ReentrancyGuard, Pausable, Ownable {
+/// @dev The ETH buy path and the views live here. Role-gated operations, auctions, ERC-20 payments and settlement
+/// are delegated to a DynamicPresaleExtension, which shares this storage layout.
+contract DynamicPresale is DynamicPresaleBase {
     using EnumerableSet for EnumerableSet.AddressSet;
-    using Address for address payable;
-
-    struct Phase {
-        uint256 priceWei; // price per token unit in wei
-        uint256 supply;   // tokens available in this phase (token units)
-        uint256 sold;     // tokens sold in this phase (token units)
-        uint256 start;    // unix timestamp
-        uint256 end;      // unix timestamp
-    }
-
-    IMyToken public immutable token;
-    uint8 public immutable tokenDecimals;
-    uint256 public immutable tokenUnit;
-
-    uint256 public softCap;     
-    uint256 public minBuy;      
-    uint256 public maxPerWallet; 
-
-    Phase[] public phases;
-
-    uint256 public totalRaised;    
-    uint256 public totalTokensSold; 
-    bool public saleEnded;
-    bool public softCapReached;
-
-    mapping(address => uint256) public contributionsWei;
-    mapping(address => uint256) public pendingTokens;   
-    EnumerableSet.AddressSet private buyers;
-
-    mapping(address => uint256) private _escrowPayments;
-
-    uint256 public totalEscrow;
-
-    event Purchased(address indexed buyer, uint256 indexed phaseId, uint256 ethAmount, uint256 tokensAmount);
-    event Claimed(address indexed buyer, uint256 tokensAmount);
-    event RefundRequested(address indexed buyer, uint256 ethAmount);
-    event PaymentQueued(address indexed dest, uint256 amount);
-    event PhaseAdded(uint256 indexed phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end);
-    event SoftCapReached(uint256 totalRaised);
-    event Withdrawn(address indexed beneficiary, uint256 amount);
-    event SaleEnded(bool softCapReached);
-    event PaymentsWithdrawn(address indexed payee, uint256 amount);
 
-    modifier onlyWhileActive() {
-        require(!saleEnded, "Presale: sale ended");
-        _;
-    }
+    address public immutable extension;
 
+    /// @param extension_ DynamicPresaleExtension deployed beforehand with the same token, decimals and forwarder.
+    /// Deploying it separately keeps this contract's init code under the size limit.
     constructor(
         address token_,
         uint8 tokenDecimals_,
         uint256 softCap_,
         uint256 minBuy_,
-        uint256 maxPerWallet_
-    ) Ownable(msg.sender) {
-        require(token_ != address(0), "Presale: token address zero");
+        uint256 maxPerWallet_,
+        address trustedForwarder_,
+        address extension_
+    ) DynamicPresaleBase(token_, tokenDecimals_, trustedForwarder_) {
+        _initSaleParams(softCap_, minBuy_, maxPerWallet_);
+        // the extension's immutables are the ones used when delegating to it
+        DynamicPresaleExtension ext = DynamicPresaleExtension(extension_);
+        require(
+            address(ext.token()) == token_ &&
+                ext.tokenDecimals() == tokenDecimals_ &&
+                ext.trustedForwarder() == trustedForwarder_,
+            "Presale: extension mismatch"
+        );
+        extension = extension_;
+    }
+
+    /// @dev Shared with DynamicPresaleUpgradeable.initialize, which sets these per proxy
+    function _initSaleParams(uint256 softCap_, uint256 minBuy_, uint256 maxPerWallet_) internal {
         require(softCap_ > 0, "Presale: softCap must be greater than 0");
         require(minBuy_ > 0, "Presale: minBuy must be greater than 0");
         require(maxPerWallet_ >= minBuy_, "Presale: maxPerWallet must be >= minBuy");
 
-        token = IMyToken(token_);
-        tokenDecimals = tokenDecimals_;
-        tokenUnit = 10 ** uint256(tokenDecimals_);
         softCap = softCap_;
         minBuy = minBuy_;
         maxPerWallet = maxPerWallet_;
+        parameterDelay = DEFAULT_PARAMETER_DELAY;
     }
 
     // -------------------------
     // Pull-payment (local)
     // -------------------------
 
-    function _asyncTransfer(address dest, uint256 amount) internal {
-        require(dest != address(0), "Presale: dest zero");
-        require(amount > 0, "Presale: zero amount");
-        _escrowPayments[dest] += amount;
-        totalEscrow += amount;
-        emit PaymentQueued(dest, amount);
-    }
-
     function withdrawPayments() external nonReentrant {
-        uint256 payment = _escrowPayments[msg.sender];
+        address payee = _msgSender();
+        uint256 payment = _escrowPayments[payee];
         require(payment > 0, "Presale: no payments");
 
-        _escrowPayments[msg.sender] = 0;
+        _escrowPayments[payee] = 0;
         if (totalEscrow >= payment) {
             totalEscrow -= payment;
         } else {
             totalEscrow = 0;
         }
 
-        Address.sendValue(payable(msg.sender), payment);
-        emit PaymentsWithdrawn(msg.sender, payment);
+        Address.sendValue(payable(payee), payment);
+        emit PaymentsWithdrawn(payee, payment);
     }
 
     function paymentsOf(address account) external view returns (uint256) {
@@ -119,149 +79,231 @@ contract DynamicPresale is ReentrancyGuard, Pausable, Ownable {
         return totalEscrow;
     }
 
+    function tokenPaymentsOf(address payToken, address account) external view returns (uint256) {
+        return _tokenEscrowPayments[payToken][account];
+    }
+
     // -------------------------
-    // Phase management
+    // Referrals
     // -------------------------
 
-    function addPhase(uint256 priceWei, uint256 supply, uint256 start, uint256 end) external onlyOwner {
-        require(priceWei > 0, "Presale: price must be greater than 0");
-        require(supply > 0, "Presale: supply must be greater than 0");
-        require(start < end, "Presale: invalid phase time");
-        require(start > block.timestamp, "Presale: start time must be in future");
-
-        for (uint256 i = 0; i < phases.length; i++) {
-            require(start >= phases[i].end || end <= phases[i].start, "Presale: overlapping phases");
+    function _bindReferrer(address buyer, address referrer) internal {
+        if (referrerOf[buyer] != address(0)) return; // first referrer sticks
+        require(referrer != address(0), "Presale: referrer zero");
+        require(referrer != buyer, "Presale: self-referral");
+        // Bounded so a long chain cannot make binding run out of gas; rewards only go one level up anyway
+        address r = referrerOf[referrer];
+        for (uint256 depth = 0; r != address(0) && depth < MAX_REFERRAL_DEPTH; depth++) {
+            require(r != buyer, "Presale: circular referral");
+            r = referrerOf[r];
         }
 
-        phases.push(Phase({ priceWei: priceWei, supply: supply, sold: 0, start: start, end: end }));
-        emit PhaseAdded(phases.length - 1, priceWei, supply, start, end);
+        referrerOf[buyer] = referrer;
+        referralCount[referrer] += 1;
+        emit ReferrerSet(buyer, referrer);
     }
 
-    function updatePhase(uint256 phaseId, uint256 newStart, uint256 newEnd) external onlyOwner {
-        require(phaseId < phases.length, "Presale: invalid phase ID");
-        require(newStart < newEnd, "Presale: invalid phase time");
-        Phase storage phase = phases[phaseId];
-        require(block.timestamp < phase.start, "Presale: cannot update active/past phase");
+    function _rewardReferrer(address buyer, uint256 tokensAllocated, uint256 cost) internal {
+        address referrer = referrerOf[buyer];
+        if (referrer == address(0) || referralBonusBps == 0) return;
 
-        for (uint256 i = 0; i < phases.length; i++) {
-            if (i == phaseId) continue;
-            require(newStart >= phases[i].end || newEnd <= phases[i].start, "Presale: overlapping phases");
+        if (referralRewardInEth) {
+            uint256 reward = (cost * referralBonusBps) / 10_000;
+            if (reward == 0) return;
+            referralRewardsWei[referrer] += reward;
+            totalReferralRewardsWei += reward;
+            emit ReferralRewarded(referrer, buyer, 0, reward);
+        } else {
+            uint256 bonus = (tokensAllocated * referralBonusBps) / 10_000;
+            if (bonus == 0) return;
+            pendingTokens[referrer] += bonus;
+            referralTokensEarned[referrer] += bonus;
+            buyers.add(referrer); // so claimFor and distribution runs pay the bonus
+            emit ReferralRewarded(referrer, buyer, bonus, 0);
         }
+    }
+
+    // -------------------------
+    // Buy
+    // -------------------------
 
-        phase.start = newStart;
-        phase.end = newEnd;
+    function buy() external payable nonReentrant whenNotPaused onlyWhileActive {
+        address buyer = _msgSender();
+        _buy(buyer, buyer, new bytes32[](0), false);
     }
 
-    function pausePhase(uint256 phaseId) external onlyOwner {
-        require(phaseId < phases.length, "Presale: invalid phase ID");
-        phases[phaseId].end = block.timestamp;
+    /// @notice Buy during an allowlisted phase
+    /// @param proof Merkle proof of the caller against the active phase's allowlist root
+    function buyWithProof(bytes32[] calldata proof) external payable nonReentrant whenNotPaused onlyWhileActive {
+        address buyer = _msgSender();
+        _buy(buyer, buyer, proof, false);
     }
 
-    // -------------------------
-    // Buy / Claim / Refund
-    // -------------------------
+    /// @notice Buy for another wallet (gifts, custodians, fiat on-ramps). The beneficiary is credited with the
+    /// contribution and tokens, and its limits and allowlist apply; the excess and any later refund of this ETH
+    /// are queued for `refundTo`, which requests it with requestSponsoredRefund.
+    /// @param refundTo Refund address of the payer
+    /// @param proof Merkle proof of the beneficiary for allowlisted phases, empty otherwise
+    function buyFor(address beneficiary, address refundTo, bytes32[] calldata proof)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        onlyWhileActive
+    {
+        require(beneficiary != address(0), "Presale: beneficiary address zero");
+        require(refundTo != address(0), "Presale: refund address zero");
+        _buy(beneficiary, refundTo, proof, false);
+    }
 
-    function _currentPhaseIndex() internal view returns (bool, uint256) {
-        for (uint256 i = 0; i < phases.length; i++) {
-            Phase storage p = phases[i];
-            bool timeOk = (p.start == 0 || block.timestamp >= p.start) && (p.end == 0 || block.timestamp <= p.end);
-            bool hasSupply = p.sold < p.supply;
-            if (timeOk && hasSupply) return (true, i);
+    /// @notice Queue the refund of the ETH the caller sponsored for `beneficiary` as buyFor refund address,
+    /// whenever requestRefund refunds: in full after a failed or cancelled sale, pro-rata after halted tranches
+    /// @dev The beneficiary's pendingTokens are left alone: a full refund is only possible once claims are
+    /// blocked for good, and after halted tranches the tokens stay claimable as for every other refund
+    function requestSponsoredRefund(address beneficiary) external nonReentrant whenNotPaused {
+        address refundTo = _msgSender();
+        require(saleEnded, "Presale: sale not ended");
+        uint256 sponsored = sponsoredWei[beneficiary][refundTo];
+        uint256 refund = sponsored;
+        if (trancheSchedule.halted) {
+            refund = ProceedsTranches.refundOf(trancheSchedule, sponsored);
+        } else {
+            require(!softCapReached || saleCancelled, "Presale: softCap reached");
         }
-        return (false, 0);
+        require(refund > 0, "Presale: nothing to refund");
+
+        sponsoredWei[beneficiary][refundTo] = 0;
+        totalSponsoredWei[beneficiary] -= sponsored;
+        contributionsWei[beneficiary] -= sponsored;
+        _asyncTransfer(refundTo, refund);
+        emit RefundRequested(refundTo, refund);
     }
 
-    function buy() external payable nonReentrant whenNotPaused onlyWhileActive {
-        require(msg.value >= minBuy, "Presale: below min buy");
+    /// @notice Buy on behalf of a referral link. The referrer is bound on the first referred purchase.
+    /// @param referrer Affiliate credited for this and later ETH purchases of the caller
+    /// @param proof Merkle proof for allowlisted phases, empty otherwise
+    function buyWithReferrer(address referrer, bytes32[] calldata proof)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        onlyWhileActive
+    {
+        address buyer = _msgSender();
+        _bindReferrer(buyer, referrer);
+        _buy(buyer, buyer, proof, false);
+    }
+
+    /// @notice Buy with a voucher from voucherSigner, which stands in for the allowlist proof
+    /// @param voucher Approval for the caller to send up to `maxAmount` wei before `expiry`
+    /// @param signature EIP-712 signature of `voucher` by voucherSigner
+    function buyWithVoucher(Voucher calldata voucher, bytes calldata signature)
+        external
+        payable
+        nonReentrant
+        whenNotPaused
+        onlyWhileActive
+    {
+        address buyer = _msgSender();
+        require(voucherSigner != address(0), "Presale: vouchers disabled");
+        require(voucher.buyer == buyer, "Presale: voucher not for caller");
+        require(block.timestamp <= voucher.expiry, "Presale: voucher expired");
+        require(msg.value <= voucher.maxAmount, "Presale: above voucher amount");
+        require(!voucherNonceUsed[buyer][voucher.nonce], "Presale: voucher used");
+        require(PurchaseVouchers.signer(voucher, signature) == voucherSigner, "Presale: invalid voucher");
+
+        voucherNonceUsed[buyer][voucher.nonce] = true;
+        emit VoucherRedeemed(buyer, voucher.nonce, msg.value);
+        _buy(buyer, buyer, new bytes32[](0), true);
+    }
 
+    /// @param buyer Wallet credited with the purchase, the caller unless it comes through buyFor
+    /// @param refundTo Receives the excess; any other address than `buyer` also gets the refunds of this ETH
+    /// @param vouched The purchase carries a redeemed voucher, which replaces the allowlist checks
+    function _buy(address buyer, address refundTo, bytes32[] memory proof, bool vouched) internal {
+        require(vouched || !vouchersRequired, "Presale: voucher required");
         (bool found, uint256 phaseId) = _currentPhaseIndex();
         require(found, "Presale: no active phase");
+        require(msg.value >= _minBuyFor(phaseId), "Presale: below min buy");
+        require(!_isAuction(phaseId), "Presale: auction phase");
+        require(vouched || _isAllowlisted(phaseId, buyer, proof), "Presale: not allowlisted");
 
-        Phase storage phase = phases[phaseId];
-
-        uint256 tokensToBuy = (msg.value * tokenUnit) / phase.priceWei;
-        require(tokensToBuy > 0, "Presale: zero tokens");
-
-        uint256 available = phase.supply - phase.sold;
-        uint256 tokensAllocated = tokensToBuy > available ? available : tokensToBuy;
-
-        uint256 cost = (tokensAllocated * phase.priceWei) / tokenUnit;
-        require(contributionsWei[msg.sender] + cost <= maxPerWallet, "Presale: above max per wallet");
+        (PhaseFill[] memory fills, uint256 tokensAllocated, uint256 cost, bool capped) =
+            _fillPhases(phaseId, msg.value, buyer, proof, vouched);
+        require(tokensAllocated > 0, "Presale: zero tokens");
 
         uint256 excess = msg.value - cost;
 
-        phase.sold += tokensAllocated;
         totalRaised += cost;
         totalTokensSold += tokensAllocated;
-        contributionsWei[msg.sender] += cost;
-        pendingTokens[msg.sender] += tokensAllocated;
-        buyers.add(msg.sender);
+        pendingTokens[buyer] += tokensAllocated;
+        buyers.add(buyer);
 
         if (excess > 0) {
-            _asyncTransfer(msg.sender, excess);
+            _asyncTransfer(refundTo, excess);
         }
-
-        emit Purchased(msg.sender, phaseId, cost, tokensAllocated);
-
-        if (!softCapReached && totalRaised >= softCap) {
-            softCapReached = true;
-            emit SoftCapReached(totalRaised);
+        if (refundTo != buyer) {
+            sponsoredWei[buyer][refundTo] += cost;
+            totalSponsoredWei[buyer] += cost;
         }
-    }
-
-    function claim() external nonReentrant whenNotPaused {
-        require(saleEnded, "Presale: sale not ended");
-        require(softCapReached, "Presale: softCap not reached");
-
-        uint256 amount = pendingTokens[msg.sender];
-        require(amount > 0, "Presale: nothing to claim");
-
-        pendingTokens[msg.sender] = 0;
-        token.mint(msg.sender, amount);
-        emit Claimed(msg.sender, amount);
-    }
-
-    function requestRefund() external nonReentrant whenNotPaused {
-        require(saleEnded, "Presale: sale not ended");
-        require(!softCapReached, "Presale: softCap reached");
-
-        uint256 contributed = contributionsWei[msg.sender];
-        require(contributed > 0, "Presale: nothing to refund");
 
-        contributionsWei[msg.sender] = 0;
-        pendingTokens[msg.sender] = 0;
+        for (uint256 i = 0; i < fills.length; i++) {
+            PhaseFill memory fill = fills[i];
+            // each fill counts against its own phase's cap, or the sale-wide one
+            _addWalletContribution(fill.phaseId, buyer, fill.cost, 0);
+            contributionsWei[buyer] += fill.cost;
+            phases[fill.phaseId].sold += fill.tokens;
+            emit Purchased(buyer, fill.phaseId, fill.cost, fill.tokens, _msgSender());
+            _rewardReferrer(buyer, fill.tokens, fill.cost);
+        }
 
-        _asyncTransfer(msg.sender, contributed);
-        emit RefundRequested(msg.sender, contributed);
+        _checkSoftCap();
+        _checkHardCap(capped);
     }
 
-    // -------------------------
-    // Admin actions
-    // -------------------------
-
-    function withdrawProceeds(address payable beneficiary) external onlyOwner nonReentrant {
-        require(saleEnded, "Presale: sale not ended");
-        require(softCapReached, "Presale: softCap not reached");
-
-        uint256 currentBalance = address(this).balance;
-        require(currentBalance > totalEscrow, "Presale: nothing withdrawable (reserved escrow)");
-        uint256 withdrawable = currentBalance - totalEscrow;
-        Address.sendValue(beneficiary, withdrawable);
-        emit Withdrawn(beneficiary, withdrawable);
-    }
+    /// @dev Split `amount` wei over `startPhase` and, with spillover enabled, the following phases that are
+    /// still open for it. Later phases are entered before their start time once the earlier ones sell out.
+    /// A spilled remainder must meet the phase's minBuy and stops at `buyer`'s cap there, like at the hard cap;
+    /// what is left over is refunded. `buyer` is also checked against the allowlist of each spilled-into phase
+    /// unless `vouched`; address(0) skips the wallet checks (views).
+    function _fillPhases(uint256 startPhase, uint256 amount, address buyer, bytes32[] memory proof, bool vouched)
+        internal
+        view
+        returns (PhaseFill[] memory fills, uint256 tokens, uint256 cost, bool capped)
+    {
+        PhaseFill[] memory buffer = new PhaseFill[](phases.length - startPhase);
+        uint256 count;
+
+        for (uint256 i = startPhase; i < phases.length && amount > cost && !capped; i++) {
+            Phase storage phase = phases[i];
+            uint256 budget = amount - cost;
+            if (i != startPhase) {
+                if (!spilloverEnabled) break;
+                if (block.timestamp > phase.end || phase.sold >= phase.supply || _isAuction(i)) continue;
+                if (buyer != address(0)) {
+                    if (!vouched && !_isAllowlisted(i, buyer, proof)) continue;
+                    uint256 room = _walletRoom(i, buyer, cost);
+                    if (budget > room) budget = room;
+                }
+                if (budget < _minBuyFor(i)) continue;
+            }
 
-    function endSale() external onlyOwner {
-        require(!saleEnded, "Presale: already ended");
-        saleEnded = true;
-        emit SaleEnded(softCapReached);
-    }
+            (uint256 phaseTokens, uint256 phaseCost) = _tokensFor(i, budget);
+            if (hardCap > 0 && phaseCost > _hardCapRoom() - cost) {
+                (phaseTokens, phaseCost) = _tokensFor(i, _hardCapRoom() - cost);
+                capped = true;
+            }
+            if (phaseTokens == 0) break;
 
-    function pause() external onlyOwner {
-        _pause();
-    }
+            buffer[count++] = PhaseFill({ phaseId: i, tokens: phaseTokens, cost: phaseCost });
+            tokens += phaseTokens;
+            cost += phaseCost;
+        }
 
-    function unpause() external onlyOwner {
-        _unpause();
+        fills = new PhaseFill[](count);
+        for (uint256 j = 0; j < count; j++) {
+            fills[j] = buffer[j];
+        }
     }
 
     // -------------------------
@@ -287,24 +329,80 @@ contract DynamicPresale is ReentrancyGuard, Pausable, Ownable {
         return phases[phaseId];
     }
 
+    /// @notice Spot price in wei per whole token of a phase, following its bonding curve and USD price
+    function getPhasePrice(uint256 phaseId) external view returns (uint256) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        Phase storage phase = phases[phaseId];
+        return PhasePricing.priceAt(_basePriceWei(phaseId), phase.priceIncrementWei, phase.stepSize, phase.sold, tokenUnit);
+    }
+
+    /// @notice Checked ETH/USD feed answer, in units of `priceFeedDecimals`
+    function getEthUsdPrice() external view returns (uint256) {
+        require(address(priceFeed) != address(0), "Presale: no price feed");
+        return PriceFeed.latestPrice(priceFeed, maxPriceAge, maxPriceDeviationBps);
+    }
+
+    /// @notice Current Dutch auction price of `phaseId` in wei per whole token
+    function getAuctionPrice(uint256 phaseId) external view returns (uint256) {
+        require(auctions[phaseId].startPrice != 0, "Presale: not an auction phase");
+        return _auctionPrice(phaseId, block.timestamp);
+    }
+
+    /// @notice Check whether `account` may buy in `phaseId` with the given proof
+    function isAllowlisted(uint256 phaseId, address account, bytes32[] calldata proof) external view returns (bool) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        return _isAllowlisted(phaseId, account, proof);
+    }
+
     function totalPhases() external view returns (uint256) {
         return phases.length;
     }
 
-    function calculateTokens(uint256 ethAmount) external view returns (uint256 tokens, uint256 cost, uint256 excess) {
+    /// @notice Preview an ETH purchase, including the per-phase breakdown when it spills over
+    /// @dev Allowlists and wallet caps of spilled-into phases are not checked here
+    function calculateTokens(uint256 ethAmount)
+        external
+        view
+        returns (uint256 tokens, uint256 cost, uint256 excess, PhaseFill[] memory fills)
+    {
         (bool found, uint256 phaseId) = _currentPhaseIndex();
-        if (!found) return (0, 0, ethAmount);
+        if (!found) return (0, 0, ethAmount, fills);
+
+        if (auctions[phaseId].startPrice != 0) {
+            (tokens, cost) = _auctionQuote(phaseId, _auctionPrice(phaseId, block.timestamp), ethAmount);
+            fills = new PhaseFill[](1);
+            fills[0] = PhaseFill({ phaseId: phaseId, tokens: tokens, cost: cost });
+            return (tokens, cost, ethAmount - cost, fills);
+        }
+
+        (fills, tokens, cost, ) = _fillPhases(phaseId, ethAmount, address(0), new bytes32[](0), false);
+        excess = ethAmount - cost;
+    }
+
+    function calculateTokensWithToken(address payToken, uint256 amount)
+        external
+        view
+        returns (uint256 tokens, uint256 cost, uint256 excess)
+    {
+        (bool found, uint256 phaseId) = _currentPhaseIndex();
+        if (!found) return (0, 0, amount);
+        uint256 tokenPrice = phaseTokenPrices[phaseId][payToken];
+        if (tokenPrice == 0) return (0, 0, amount);
         Phase memory phase = phases[phaseId];
 
-        uint256 tokensToBuy = (ethAmount * tokenUnit) / phase.priceWei;
+        uint256 tokensToBuy = (amount * tokenUnit) / tokenPrice;
         uint256 available = phase.supply - phase.sold;
         uint256 tokensAllocated = tokensToBuy > available ? available : tokensToBuy;
 
-        cost = (tokensAllocated * phase.priceWei) / tokenUnit;
-        excess = ethAmount - cost;
+        cost = (tokensAllocated * tokenPrice) / tokenUnit;
+        excess = amount - cost;
         return (tokensAllocated, cost, excess);
     }
 
+    function getPaymentTokens() external view returns (address[] memory) {
+        return paymentTokens.values();
+    }
+
     function remainingTokensInCurrentPhase() external view returns (uint256) {
         (bool found, uint256 idx) = _currentPhaseIndex();
         if (!found) return 0;
@@ -315,25 +413,270 @@ contract DynamicPresale is ReentrancyGuard, Pausable, Ownable {
         return buyers.length();
     }
 
+    /// @notice Up to `limit` buyers starting at `offset`, in order of their first purchase
+    function getBuyers(uint256 offset, uint256 limit) external view returns (address[] memory page) {
+        uint256 total = buyers.length();
+        if (offset >= total) return new address[](0);
+        if (limit > total - offset) limit = total - offset;
+        page = new address[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = buyers.at(offset + i);
+        }
+    }
+
+    /// @notice Payees splitting the ETH proceeds, their shares in basis points and the ETH released to each.
+    /// Empty when withdrawProceeds pays out.
+    function getPayees()
+        external
+        view
+        returns (address[] memory accounts, uint256[] memory sharesBps, uint256[] memory released)
+    {
+        return ProceedsSplit.payeesOf(payeeSplit);
+    }
+
+    /// @notice ETH that releaseProceeds would pay `payee` once the sale succeeded
+    function pendingProceeds(address payee) external view returns (uint256) {
+        return ProceedsSplit.pending(payeeSplit, payee, _withdrawableProceeds());
+    }
+
+    /// @notice Milestone tranches of the ETH proceeds (empty when withdrawProceeds pays out), the ETH withdrawn
+    /// through them and the buyers' vote to halt the rest
+    function getTranches()
+        external
+        view
+        returns (
+            Tranche[] memory tranches,
+            uint256 withdrawn,
+            uint256 haltQuorumBps,
+            uint256 haltVotesWei,
+            bool halted,
+            uint256 refundPool
+        )
+    {
+        TrancheSchedule storage schedule = trancheSchedule;
+        return (
+            schedule.tranches,
+            schedule.withdrawn,
+            schedule.haltQuorumBps,
+            schedule.haltVotesWei,
+            schedule.halted,
+            schedule.refundPool
+        );
+    }
+
+    /// @notice Whether `buyer` voted to halt the tranches, and the refund requestRefund would queue for them
+    function trancheVoteOf(address buyer) external view returns (bool voted, uint256 refund) {
+        voted = trancheSchedule.votedToHalt[buyer];
+        refund = ProceedsTranches.refundOf(trancheSchedule, contributionsWei[buyer] - totalSponsoredWei[buyer]);
+    }
+
     // -------------------------
-    // Admin setters (optional, owner-only)
+    // Extension calls
     // -------------------------
+    // Implemented and documented in DynamicPresaleExtension
+
+    function withdrawTokenPayments(address /* payToken */) external {
+        _delegate();
+    }
+
+    function addPhase(uint256 /* priceWei */, uint256 /* supply */, uint256 /* start */, uint256 /* end */) external {
+        _delegate();
+    }
+
+    function updatePhase(
+        uint256 /* phaseId */,
+        uint256 /* priceWei */,
+        uint256 /* supply */,
+        uint256 /* newStart */,
+        uint256 /* newEnd */
+    ) external {
+        _delegate();
+    }
+
+    function setPhaseCurve(uint256 /* phaseId */, uint256 /* priceIncrementWei */, uint256 /* stepSize */) external {
+        _delegate();
+    }
+
+    function setPhaseLimits(uint256 /* phaseId */, uint256 /* minBuy_ */, uint256 /* maxPerWallet_ */) external {
+        _delegate();
+    }
+
+    function setPhaseAuction(
+        uint256 /* phaseId */,
+        uint256 /* startPrice */,
+        uint256 /* floorPrice */,
+        uint256 /* decayPerSecond */
+    ) external {
+        _delegate();
+    }
+
+    function setPhaseTokenPrice(uint256 /* phaseId */, address /* payToken */, uint256 /* price */) external {
+        _delegate();
+    }
+
+    function setPriceFeed(address /* feed */, uint256 /* maxAge */, uint256 /* maxDeviationBps */) external {
+        _delegate();
+    }
+
+    function setPhaseUsdPrice(uint256 /* phaseId */, uint256 /* usdCents */) external {
+        _delegate();
+    }
+
+    function setSpilloverEnabled(bool /* enabled */) external {
+        _delegate();
+    }
+
+    function pausePhase(uint256 /* phaseId */) external {
+        _delegate();
+    }
+
+    function setVestingConfig(
+        address /* vesting_ */,
+        uint256 /* tgeBps */,
+        uint256 /* cliff */,
+        uint256 /* duration */
+    ) external {
+        _delegate();
+    }
+
+    function setAllowlistRoot(bytes32 /* root */) external {
+        _delegate();
+    }
+
+    function setPhaseAllowlistRoot(uint256 /* phaseId */, bytes32 /* root */) external {
+        _delegate();
+    }
+
+    function setVoucherSigner(address /* signer */) external {
+        _delegate();
+    }
+
+    function setReferralConfig(uint256 /* bonusBps */, bool /* rewardInEth */) external {
+        _delegate();
+    }
+
+    function claimReferralRewards() external {
+        _delegate();
+    }
+
+    function bid(bytes32[] calldata /* proof */) external payable {
+        _delegate();
+    }
+
+    function settleAuction(uint256 /* phaseId */) external {
+        _delegate();
+    }
+
+    function settleAuctionBid(uint256 /* phaseId */, address /* bidder */) external {
+        _delegate();
+    }
+
+    function buyWithToken(address /* payToken */, uint256 /* amount */, bytes32[] calldata /* proof */) external {
+        _delegate();
+    }
+
+    function claim() external {
+        _delegate();
+    }
+
+    function claimFor(address[] calldata /* buyers_ */) external {
+        _delegate();
+    }
+
+    function requestRefund() external {
+        _delegate();
+    }
+
+    function withdrawProceeds(address payable /* beneficiary */) external {
+        _delegate();
+    }
+
+    function releaseProceeds(address payable /* payee */) external {
+        _delegate();
+    }
+
+    function withdrawTranche(uint256 /* index */, address payable /* beneficiary */) external {
+        _delegate();
+    }
+
+    function voteToHaltTranches() external {
+        _delegate();
+    }
+
+    function withdrawTokenProceeds(address /* payToken */, address /* beneficiary */) external {
+        _delegate();
+    }
+
+    function endSale() external {
+        _delegate();
+    }
+
+    function cancelSale() external {
+        _delegate();
+    }
+
+    function finalize() external {
+        _delegate();
+    }
+
+    function pause() external {
+        _delegate();
+    }
+
+    function unpause() external {
+        _delegate();
+    }
+
+    function setSoftCap(uint256 /* newSoftCap */) external {
+        _delegate();
+    }
+
+    function setPayees(address[] calldata /* newPayees */, uint256[] calldata /* sharesBps */) external {
+        _delegate();
+    }
+
+    function setTranches(
+        uint256[] calldata /* bps */,
+        uint256[] calldata /* unlockTimes */,
+        bool[] calldata /* needsApproval */,
+        uint256 /* haltQuorumBps */
+    ) external {
+        _delegate();
+    }
+
+    function approveTranche(uint256 /* index */) external {
+        _delegate();
+    }
+
+    function setHardCap(uint256 /* newHardCap */) external {
+        _delegate();
+    }
+
+    function setMinBuy(uint256 /* newMinBuy */) external {
+        _delegate();
+    }
+
+    function setMaxPerWallet(uint256 /* newMaxPerWallet */) external {
+        _delegate();
+    }
+
+    function setParameterDelay(uint256 /* newDelay */) external {
+        _delegate();
+    }
 
-    function setSoftCap(uint256 newSoftCap) external onlyOwner {
-        require(newSoftCap > 0, "Presale: softCap > 0");
-        require(!softCapReached, "Presale: softCap already reached");
-        softCap = newSoftCap;
+    function executeParameterChange(SaleParam /* param */) external {
+        _delegate();
     }
 
-    function setMinBuy(uint256 newMinBuy) external onlyOwner {
-        require(newMinBuy > 0, "Presale: minBuy > 0");
-        require(newMinBuy <= maxPerWallet, "Presale: minBuy <= maxPerWallet");
-        minBuy = newMinBuy;
+    function cancelParameterChange(SaleParam /* param */) external {
+        _delegate();
     }
 
-    function setMaxPerWallet(uint256 newMaxPerWallet) external onlyOwner {
-        require(newMaxPerWallet >= minBuy, "Presale: maxPerWallet >= minBuy");
-        maxPerWallet = newMaxPerWallet;
+    /// @dev Run this call on the extension against this contract's storage, bubbling up its revert reason.
+    /// Each wrapper has the signature of its extension function, so the calldata is forwarded as is; forwarded
+    /// calls keep their ERC-2771 sender suffix and the extension resolves the same _msgSender().
+    function _delegate() private {
+        Address.functionDelegateCall(extension, msg.data);
     }
 
     receive() external payable {}
@@ -0,0 +1,459 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./libraries/PhasePricing.sol";
+import "./libraries/PhaseConfig.sol";
+import "./libraries/PriceFeed.sol";
+import "./libraries/ProceedsSplit.sol";
+import "./libraries/ProceedsTranches.sol";
+
+interface IMyToken is IERC20 {
+    function mint(address to, uint256 amount) external;
+}
+
+interface ITokenVesting {
+    function createVesting(
+        address beneficiary,
+        uint256 totalAmount,
+        uint256 start,
+        uint256 duration,
+        uint256 cliff,
+        bool revocable
+    ) external returns (uint256 scheduleId);
+}
+
+/// @title DynamicPresaleStorageV1 - State of the first upgradeable, Ownable DynamicPresale
+/// @dev Declared ahead of AccessControl so proxies of that version keep every slot: the role mapping and later
+/// state come after it. Do not add state here; append it to DynamicPresaleBase.
+abstract contract DynamicPresaleStorageV1 is ReentrancyGuard, Pausable {
+    struct AuctionBid {
+        uint256 tokens; // token units won
+        uint256 paid;   // wei paid at the bid prices, overpayment is refunded on settlement
+    }
+
+    // Ownable owner of that version; DynamicPresaleUpgradeable.initializeV2 moves it to the roles
+    /// @custom:oz-renamed-from _owner
+    address internal _legacyOwner;
+
+    uint256 public softCap;     
+    uint256 public minBuy;      
+    uint256 public maxPerWallet; 
+    uint256 public hardCap;      // 0 = no hard cap
+    bool public spilloverEnabled; // ETH buys that exhaust a phase continue into the following phases
+
+    Phase[] public phases;
+
+    uint256 public totalRaised;    
+    uint256 public totalTokensSold; 
+    bool public saleEnded;
+    bool public softCapReached;
+    // Set once any phase gets its own limits or an auction. They share the slot every buy already reads,
+    // so sales without either feature skip the per-phase lookups.
+    bool public phaseLimitsSet;
+    bool public hasAuctions;
+    // ETH/USD feed for USD-priced phases, packed into the same slot; address(0) prices every phase in wei
+    AggregatorV3Interface public priceFeed;
+    uint8 public priceFeedDecimals;
+    // Set together with voucherSigner: purchases then need a signed voucher (KYC-gated sale)
+    bool public vouchersRequired;
+    // Set by the first claim or payout of proceeds or referral rewards; cancelSale is possible after the sale
+    // ended until then. Packed into the slot of saleEnded, which every payout reads, to keep claims cheap.
+    bool public payoutsStarted;
+
+    mapping(address => uint256) public contributionsWei;
+    mapping(address => uint256) public pendingTokens;   
+    EnumerableSet.AddressSet internal buyers;
+
+    mapping(address => uint256) internal _escrowPayments;
+
+    uint256 public totalEscrow;
+
+    bytes32 public allowlistRoot;
+    mapping(uint256 => bytes32) public phaseAllowlistRoots;
+
+    // ERC-20 (stablecoin) payments, kept apart from the ETH accounting above
+    mapping(uint256 => mapping(address => uint256)) public phaseTokenPrices; // phaseId => payToken => price per token unit
+    EnumerableSet.AddressSet internal paymentTokens;
+
+    mapping(address => uint256) public totalRaisedInToken;    // payToken => amount raised
+    uint256 public totalRaisedTokenValueWei;                   // ETH value of token purchases along the phase price curve, counts towards softCap
+    mapping(address => mapping(address => uint256)) public tokenContributions; // buyer => payToken => amount
+    mapping(address => uint256) public tokenContributionsValueWei;             // buyer => ETH value of token purchases
+
+    mapping(address => mapping(address => uint256)) internal _tokenEscrowPayments; // payToken => dest => amount
+    mapping(address => uint256) public totalTokenEscrow;                         // payToken => escrowed amount
+
+    // claimFor batch bound, so one distribution call stays well inside the block gas limit
+    uint256 public constant MAX_CLAIM_BATCH = 100;
+
+    // Referral program: a buyer is bound to one referrer on their first referred purchase
+    uint256 public constant MAX_REFERRAL_BONUS_BPS = 2000;
+    uint256 public constant MAX_REFERRAL_DEPTH = 8; // referrer chain levels checked for cycles on binding
+    uint256 public referralBonusBps;     // bonus in basis points of the referred ETH purchase
+    bool public referralRewardInEth;     // true: ETH bonus queued on success, false: bonus tokens added to pendingTokens
+    mapping(address => address) public referrerOf;
+    mapping(address => uint256) public referralCount;
+    mapping(address => uint256) public referralTokensEarned;
+    mapping(address => uint256) public referralRewardsWei; // unclaimed ETH rewards
+    uint256 public totalReferralRewardsWei;                // reserved from proceeds until claimed
+
+    // Vesting claim mode: when `vesting` is set, claim() mints tgeUnlockBps immediately and vests the rest
+    ITokenVesting public vesting;
+    uint256 public tgeUnlockBps;
+    uint256 public vestingCliff;    // seconds from claim
+    uint256 public vestingDuration; // seconds from claim
+
+    // Dutch auction phases, keyed by phaseId; bids count towards the totals once settled
+    mapping(uint256 => Auction) public auctions;
+    mapping(uint256 => mapping(address => AuctionBid)) public auctionBids;
+    uint256 public totalAuctionDeposits; // unsettled bid ETH, reserved from proceeds
+
+    // phaseId => buyer => wei value contributed in that phase (ETH cost, token purchase value, bid cost).
+    // Only tracked for phases with their own maxPerWallet, which keeps plain buys at their old gas cost.
+    mapping(uint256 => mapping(address => uint256)) public phaseContributionsWei;
+
+    // USD pricing: a phase with a USD price sells at its wei equivalent at the current feed answer
+    mapping(uint256 => uint256) public phaseUsdPrices; // phaseId => US cents per whole token, 0 = priced in wei
+    uint256 public maxPriceAge;          // seconds before a feed answer is stale
+    uint256 public maxPriceDeviationBps; // largest move from the previous round, 0 = unchecked
+
+    // Purchase vouchers: EIP-712 approvals from voucherSigner, each nonce redeemable once per buyer
+    address public voucherSigner;
+    mapping(address => mapping(uint256 => bool)) public voucherNonceUsed;
+}
+
+/// @title DynamicPresaleBase - Storage, events and shared internals of DynamicPresale
+/// @dev DynamicPresale and DynamicPresaleExtension both inherit this, so the extension can run on the
+/// presale's storage through delegatecall. Only append new state variables at the end.
+/// Operations are split across roles; DEFAULT_ADMIN_ROLE manages them and the sale configuration.
+abstract contract DynamicPresaleBase is DynamicPresaleStorageV1, AccessControl, ERC2771Context {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    bytes32 public constant PHASE_MANAGER_ROLE = keccak256("PHASE_MANAGER_ROLE"); // phases, auctions, prices, allowlists
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");               // pause, unpause
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");         // proceeds withdrawals, claimFor
+
+    /// @dev Sale parameters whose changes go through the timelock
+    enum SaleParam {
+        SoftCap,
+        MinBuy,
+        MaxPerWallet
+    }
+
+    struct PendingChange {
+        uint256 value;
+        uint256 eta; // earliest execution time, 0 = nothing queued
+    }
+
+    /// @dev One phase's share of a purchase that may spill over into later phases
+    struct PhaseFill {
+        uint256 phaseId;
+        uint256 tokens;
+        uint256 cost;
+    }
+
+    IMyToken public immutable token;
+    uint8 public immutable tokenDecimals;
+    uint256 public immutable tokenUnit;
+
+    // Timelocked parameter changes: setSoftCap, setMinBuy and setMaxPerWallet queue a change that
+    // executeParameterChange applies once parameterDelay has passed, so buyers see it coming
+    uint256 public constant DEFAULT_PARAMETER_DELAY = 2 days;
+    uint256 public constant MAX_PARAMETER_DELAY = 30 days;
+    uint256 public parameterDelay;
+    mapping(SaleParam => PendingChange) public pendingChanges;
+
+    // Emergency refund mode: cancelSale ends the sale for good, blocks claims and withdrawals,
+    // and lets every buyer take back their contribution even after the soft cap
+    bool public saleCancelled;
+
+    // Proceeds split: with payees set, ETH proceeds are released to each payee by share instead of withdrawProceeds
+    uint256 public constant MAX_PAYEES = 10;
+    PayeeSplit internal payeeSplit;
+
+    // Proceeds tranches: with a schedule set, ETH proceeds are withdrawn per milestone instead of withdrawProceeds
+    uint256 public constant MAX_TRANCHES = 10;
+    TrancheSchedule internal trancheSchedule;
+
+    // Purchases for another wallet (buyFor): the ETH sponsored for a beneficiary is booked per refund address,
+    // which requests its own refund of it; the beneficiary's refunds only cover the rest
+    mapping(address => mapping(address => uint256)) public sponsoredWei; // beneficiary => refundTo => ETH
+    mapping(address => uint256) public totalSponsoredWei;                // beneficiary => ETH contributed through buyFor
+
+    /// @dev `buyer` is credited with the tokens; `payer` sent the ETH, a different wallet for buyFor
+    event Purchased(
+        address indexed buyer,
+        uint256 indexed phaseId,
+        uint256 ethAmount,
+        uint256 tokensAmount,
+        address payer
+    );
+    event Claimed(address indexed buyer, uint256 tokensAmount);
+    event RefundRequested(address indexed buyer, uint256 ethAmount);
+    event PaymentQueued(address indexed dest, uint256 amount);
+    event PhaseAdded(uint256 indexed phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end);
+    event PhaseUpdated(uint256 indexed phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end);
+    event PhaseCurveSet(uint256 indexed phaseId, uint256 priceIncrementWei, uint256 stepSize);
+    event PhaseLimitsSet(uint256 indexed phaseId, uint256 minBuy, uint256 maxPerWallet);
+    event PriceFeedSet(address indexed feed, uint256 maxAge, uint256 maxDeviationBps);
+    event PhaseUsdPriceSet(uint256 indexed phaseId, uint256 usdCents);
+    event VoucherSignerSet(address indexed signer);
+    event VoucherRedeemed(address indexed buyer, uint256 indexed nonce, uint256 ethAmount);
+    event SoftCapReached(uint256 totalRaised);
+    event Withdrawn(address indexed beneficiary, uint256 amount);
+    event SaleEnded(bool softCapReached);
+    event HardCapSet(uint256 hardCap);
+    event SpilloverSet(bool enabled);
+    event HardCapReached(uint256 totalRaised);
+    event PaymentsWithdrawn(address indexed payee, uint256 amount);
+    event AllowlistRootSet(bytes32 root);
+    event PhaseAllowlistRootSet(uint256 indexed phaseId, bytes32 root);
+    event PhaseTokenPriceSet(uint256 indexed phaseId, address indexed payToken, uint256 price);
+    event PurchasedWithToken(
+        address indexed buyer,
+        uint256 indexed phaseId,
+        address indexed payToken,
+        uint256 paidAmount,
+        uint256 tokensAmount
+    );
+    event TokenRefundRequested(address indexed buyer, address indexed payToken, uint256 amount);
+    event TokenPaymentQueued(address indexed dest, address indexed payToken, uint256 amount);
+    event TokenPaymentsWithdrawn(address indexed payee, address indexed payToken, uint256 amount);
+    event TokenWithdrawn(address indexed beneficiary, address indexed payToken, uint256 amount);
+    event ReferralConfigSet(uint256 bonusBps, bool rewardInEth);
+    event ReferrerSet(address indexed buyer, address indexed referrer);
+    event ReferralRewarded(address indexed referrer, address indexed buyer, uint256 tokensAmount, uint256 ethAmount);
+    event ReferralRewardsClaimed(address indexed referrer, uint256 amount);
+    event VestingConfigSet(address indexed vesting, uint256 tgeUnlockBps, uint256 cliff, uint256 duration);
+    event ClaimVested(address indexed buyer, uint256 indexed scheduleId, uint256 tgeAmount, uint256 vestedAmount);
+    event AuctionSet(uint256 indexed phaseId, uint256 startPrice, uint256 floorPrice, uint256 decayPerSecond);
+    event AuctionBidPlaced(address indexed bidder, uint256 indexed phaseId, uint256 price, uint256 tokens, uint256 paid);
+    event AuctionSettled(uint256 indexed phaseId, uint256 clearingPrice, uint256 tokensSold);
+    event AuctionBidSettled(address indexed bidder, uint256 indexed phaseId, uint256 tokens, uint256 cost, uint256 refund);
+    event SaleCancelled(uint256 totalRaised);
+    event ParameterDelaySet(uint256 delay);
+    event ParameterChangeQueued(SaleParam indexed param, uint256 value, uint256 eta);
+    event ParameterChangeExecuted(SaleParam indexed param, uint256 value, uint256 eta);
+    event ParameterChangeCancelled(SaleParam indexed param, uint256 value, uint256 eta);
+    event PayeesSet(address[] payees, uint256[] sharesBps);
+    event TranchesSet(uint256[] bps, uint256[] unlockTimes, bool[] needsApproval, uint256 haltQuorumBps);
+    event TrancheApproved(uint256 indexed index);
+    event TrancheWithdrawn(uint256 indexed index, uint256 amount);
+    event TrancheHaltVoted(address indexed voter, uint256 weight, uint256 totalVotes);
+    event TranchesHalted(uint256 refundPool);
+
+    modifier onlyWhileActive() {
+        require(!saleEnded, "Presale: sale ended");
+        _;
+    }
+
+    /// @param trustedForwarder_ ERC-2771 forwarder relaying signed calls (e.g. gasless claims), address(0) for none
+    constructor(address token_, uint8 tokenDecimals_, address trustedForwarder_)
+        ERC2771Context(trustedForwarder_)
+    {
+        require(token_ != address(0), "Presale: token address zero");
+        _grantRoles(msg.sender);
+        token = IMyToken(token_);
+        tokenDecimals = tokenDecimals_;
+        tokenUnit = 10 ** uint256(tokenDecimals_);
+    }
+
+    /// @dev Give `admin` DEFAULT_ADMIN_ROLE and every operational role
+    function _grantRoles(address admin) internal {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(PHASE_MANAGER_ROLE, admin);
+        _grantRole(PAUSER_ROLE, admin);
+        _grantRole(TREASURER_ROLE, admin);
+    }
+
+    // -------------------------
+    // ERC-2771
+    // -------------------------
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
+
+    function _asyncTransfer(address dest, uint256 amount) internal {
+        require(dest != address(0), "Presale: dest zero");
+        require(amount > 0, "Presale: zero amount");
+        _escrowPayments[dest] += amount;
+        totalEscrow += amount;
+        emit PaymentQueued(dest, amount);
+    }
+
+    function _allowlistRootFor(uint256 phaseId) internal view returns (bytes32) {
+        bytes32 root = phaseAllowlistRoots[phaseId];
+        return root != bytes32(0) ? root : allowlistRoot;
+    }
+
+    function _isAllowlisted(uint256 phaseId, address account, bytes32[] memory proof) internal view returns (bool) {
+        bytes32 root = _allowlistRootFor(phaseId);
+        if (root == bytes32(0)) return true;
+        // Leaf encoding matches @openzeppelin/merkle-tree StandardMerkleTree with ["address"]
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account))));
+        return MerkleProof.verify(proof, root, leaf);
+    }
+
+    function _currentPhaseIndex() internal view returns (bool, uint256) {
+        for (uint256 i = 0; i < phases.length; i++) {
+            Phase storage p = phases[i];
+            bool timeOk = (p.start == 0 || block.timestamp >= p.start) && (p.end == 0 || block.timestamp <= p.end);
+            bool hasSupply = p.sold < p.supply;
+            if (timeOk && hasSupply) return (true, i);
+        }
+        return (false, 0);
+    }
+
+    function _isAuction(uint256 phaseId) internal view returns (bool) {
+        return hasAuctions && auctions[phaseId].startPrice != 0;
+    }
+
+    /// @dev Auction price of `phaseId` at time `t`, decaying linearly from startPrice to floorPrice
+    function _auctionPrice(uint256 phaseId, uint256 t) internal view returns (uint256) {
+        Auction storage auction = auctions[phaseId];
+        uint256 start = phases[phaseId].start;
+        if (t <= start) return auction.startPrice;
+        uint256 drop = auction.decayPerSecond * (t - start);
+        if (drop >= auction.startPrice - auction.floorPrice) return auction.floorPrice;
+        return auction.startPrice - drop;
+    }
+
+    /// @dev Tokens `amount` wei buys at `price` in an auction phase, capped by its remaining supply
+    function _auctionQuote(uint256 phaseId, uint256 price, uint256 amount) internal view returns (uint256 tokens, uint256 cost) {
+        Phase storage phase = phases[phaseId];
+        tokens = (amount * tokenUnit) / price;
+        if (tokens > phase.supply - phase.sold) tokens = phase.supply - phase.sold;
+        cost = (tokens * price) / tokenUnit;
+    }
+
+    function _contributionValueWei(address buyer) internal view returns (uint256) {
+        return contributionsWei[buyer] + tokenContributionsValueWei[buyer];
+    }
+
+    function _minBuyFor(uint256 phaseId) internal view returns (uint256) {
+        uint256 phaseMin = phaseLimitsSet ? phases[phaseId].minBuy : 0;
+        return phaseMin > 0 ? phaseMin : minBuy;
+    }
+
+    /// @dev Counts `amount` wei towards the phase's own cap when it has one, otherwise checks it against the
+    /// sale-wide maxPerWallet, which the caller credits itself. `unsettled` is bid ETH not yet in the contributions.
+    function _addWalletContribution(uint256 phaseId, address buyer, uint256 amount, uint256 unsettled) internal {
+        uint256 phaseMax = phaseLimitsSet ? phases[phaseId].maxPerWallet : 0;
+        if (phaseMax > 0) {
+            uint256 contributed = phaseContributionsWei[phaseId][buyer] + amount;
+            require(contributed <= phaseMax, "Presale: above phase max per wallet");
+            phaseContributionsWei[phaseId][buyer] = contributed;
+        } else {
+            require(_contributionValueWei(buyer) + unsettled + amount <= maxPerWallet, "Presale: above max per wallet");
+        }
+    }
+
+    /// @dev Wei `buyer` may still spend in `phaseId`: what is left of the phase's own cap, or of the sale-wide
+    /// maxPerWallet after the `pending` wei already allocated by the current purchase
+    function _walletRoom(uint256 phaseId, address buyer, uint256 pending) internal view returns (uint256) {
+        uint256 phaseMax = phaseLimitsSet ? phases[phaseId].maxPerWallet : 0;
+        uint256 cap = phaseMax > 0 ? phaseMax : maxPerWallet;
+        // _contributionValueWei spelled out, which keeps it inlined on the buy path
+        uint256 used = phaseMax > 0
+            ? phaseContributionsWei[phaseId][buyer]
+            : contributionsWei[buyer] + tokenContributionsValueWei[buyer] + pending;
+        return cap > used ? cap - used : 0;
+    }
+
+    function _raisedValueWei() internal view returns (uint256) {
+        return totalRaised + totalRaisedTokenValueWei;
+    }
+
+    /// @dev Wei still purchasable under the hard cap; unsettled bid ETH is already committed against it
+    function _hardCapRoom() internal view returns (uint256) {
+        uint256 committed = _raisedValueWei() + totalAuctionDeposits;
+        return hardCap > committed ? hardCap - committed : 0;
+    }
+
+    function _checkSoftCap() internal {
+        uint256 raisedValue = _raisedValueWei();
+        if (!softCapReached && raisedValue >= softCap) {
+            softCapReached = true;
+            emit SoftCapReached(raisedValue);
+        }
+    }
+
+    /// @dev Starting price of a phase in wei per whole token: its priceWei, or its USD price at the feed answer
+    function _basePriceWei(uint256 phaseId) internal view returns (uint256) {
+        if (address(priceFeed) != address(0)) {
+            uint256 usdCents = phaseUsdPrices[phaseId];
+            if (usdCents > 0) {
+                uint256 ethUsd = PriceFeed.latestPrice(priceFeed, maxPriceAge, maxPriceDeviationBps);
+                return PriceFeed.usdCentsToWei(usdCents, ethUsd, priceFeedDecimals);
+            }
+        }
+        return phases[phaseId].priceWei;
+    }
+
+    /// @dev Wei cost of the next `amount` token units of a phase along its price curve
+    function _costOf(uint256 phaseId, uint256 amount) internal view returns (uint256) {
+        Phase storage phase = phases[phaseId];
+        uint256 priceWei = _basePriceWei(phaseId);
+        if (phase.priceIncrementWei == 0) return (amount * priceWei) / tokenUnit;
+        return PhasePricing.costOf(priceWei, phase.priceIncrementWei, phase.stepSize, phase.sold, amount, tokenUnit);
+    }
+
+    /// @dev Most of a phase's remaining supply that `budget` wei buys along its price curve, and its cost.
+    /// Clipping a purchase to the hard cap room leaves the cap exhausted down to rounding dust.
+    function _tokensFor(uint256 phaseId, uint256 budget) internal view returns (uint256 tokens, uint256 cost) {
+        Phase storage phase = phases[phaseId];
+        uint256 priceWei = _basePriceWei(phaseId);
+        uint256 available = phase.supply - phase.sold;
+        if (phase.priceIncrementWei == 0) {
+            tokens = (budget * tokenUnit) / priceWei;
+            if (tokens > available) tokens = available;
+            return (tokens, (tokens * priceWei) / tokenUnit);
+        }
+        return PhasePricing.tokensFor(
+            priceWei,
+            phase.priceIncrementWei,
+            phase.stepSize,
+            phase.sold,
+            budget,
+            available,
+            tokenUnit
+        );
+    }
+
+    function _checkHardCap(bool capped) internal {
+        if (hardCap == 0) return;
+        uint256 raisedValue = _raisedValueWei();
+        if (capped || raisedValue >= hardCap) {
+            emit HardCapReached(raisedValue);
+            _endSale();
+        }
+    }
+
+    /// @dev ETH in the contract beyond escrowed refunds, unclaimed referral rewards and unsettled bids
+    function _withdrawableProceeds() internal view returns (uint256) {
+        uint256 currentBalance = address(this).balance;
+        uint256 reserved = totalEscrow + totalReferralRewardsWei + totalAuctionDeposits;
+        return currentBalance > reserved ? currentBalance - reserved : 0;
+    }
+
+    function _endSale() internal {
+        saleEnded = true;
+        emit SaleEnded(softCapReached);
+    }
+}
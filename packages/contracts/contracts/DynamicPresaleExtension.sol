@@ -0,0 +1,750 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./DynamicPresaleBase.sol";
+
+/// @title DynamicPresaleExtension - Role-gated operations, auctions, ERC-20 payments and settlement of DynamicPresale
+/// @notice Not called directly: deployed once per presale, which takes its address and delegatecalls into it,
+/// so everything here runs on the presale's storage, balance and address
+/// @dev Keeps the presale under the contract size limit. The ETH buy path stays in DynamicPresale.
+contract DynamicPresaleExtension is DynamicPresaleBase {
+    using EnumerableSet for EnumerableSet.AddressSet;
+    using Address for address payable;
+    using SafeERC20 for IERC20;
+
+    constructor(address token_, uint8 tokenDecimals_, address trustedForwarder_)
+        DynamicPresaleBase(token_, tokenDecimals_, trustedForwarder_)
+    {}
+
+    // -------------------------
+    // Pull-payment (local)
+    // -------------------------
+
+    function _asyncTransferToken(address dest, address payToken, uint256 amount) internal {
+        require(dest != address(0), "Presale: dest zero");
+        require(amount > 0, "Presale: zero amount");
+        _tokenEscrowPayments[payToken][dest] += amount;
+        totalTokenEscrow[payToken] += amount;
+        emit TokenPaymentQueued(dest, payToken, amount);
+    }
+
+    /// @notice Withdraw ERC-20 refunds queued for the caller in `payToken`
+    function withdrawTokenPayments(address payToken) external nonReentrant {
+        address payee = _msgSender();
+        uint256 payment = _tokenEscrowPayments[payToken][payee];
+        require(payment > 0, "Presale: no payments");
+
+        _tokenEscrowPayments[payToken][payee] = 0;
+        if (totalTokenEscrow[payToken] >= payment) {
+            totalTokenEscrow[payToken] -= payment;
+        } else {
+            totalTokenEscrow[payToken] = 0;
+        }
+
+        IERC20(payToken).safeTransfer(payee, payment);
+        emit TokenPaymentsWithdrawn(payee, payToken, payment);
+    }
+
+    // -------------------------
+    // Phase management
+    // -------------------------
+
+    function addPhase(uint256 priceWei, uint256 supply, uint256 start, uint256 end)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        PhaseConfig.addPhase(phases, priceWei, supply, start, end);
+    }
+
+    /// @notice Reschedule and reprice a phase that has not started yet
+    /// @dev Spillover may already have sold from an upcoming phase, so supply cannot drop below `sold`
+    function updatePhase(uint256 phaseId, uint256 priceWei, uint256 supply, uint256 newStart, uint256 newEnd)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        PhaseConfig.updatePhase(phases, phaseId, priceWei, supply, newStart, newEnd);
+    }
+
+    /// @notice Turn an upcoming phase into a bonding curve starting at its priceWei. Zero increment makes it flat again.
+    /// @param priceIncrementWei Price rise per whole token sold (linear) or per step (stepwise)
+    /// @param stepSize Token units per price step, 0 for a linear curve
+    function setPhaseCurve(uint256 phaseId, uint256 priceIncrementWei, uint256 stepSize)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        PhaseConfig.setCurve(phases, phaseId, priceIncrementWei, stepSize);
+    }
+
+    /// @notice Override the global minBuy and maxPerWallet for an upcoming phase. Zero keeps the global value.
+    /// @dev A phase maxPerWallet caps what each wallet spends in that phase and replaces the sale-wide cap there
+    function setPhaseLimits(uint256 phaseId, uint256 minBuy_, uint256 maxPerWallet_)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        PhaseConfig.setLimits(phases, phaseId, minBuy_, maxPerWallet_, minBuy);
+        if (minBuy_ > 0 || maxPerWallet_ > 0) phaseLimitsSet = true;
+    }
+
+    /// @notice Run an upcoming phase as a Dutch auction instead of selling at its priceWei
+    /// @param startPrice Price in wei per whole token when the phase starts
+    /// @param floorPrice Lowest price the auction decays to
+    /// @param decayPerSecond Price drop in wei per whole token per second
+    function setPhaseAuction(uint256 phaseId, uint256 startPrice, uint256 floorPrice, uint256 decayPerSecond)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        PhaseConfig.setAuction(phases, auctions, phaseId, startPrice, floorPrice, decayPerSecond);
+        hasAuctions = true;
+    }
+
+    /// @notice Accept `payToken` in a phase at `price` payToken units per whole sale token. Zero stops accepting it.
+    function setPhaseTokenPrice(uint256 phaseId, address payToken, uint256 price)
+        external
+        onlyRole(PHASE_MANAGER_ROLE)
+    {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        require(payToken != address(0), "Presale: pay token zero");
+        phaseTokenPrices[phaseId][payToken] = price;
+        // never removed, so refunds can still find every token a buyer may have paid with
+        if (price > 0) paymentTokens.add(payToken);
+        emit PhaseTokenPriceSet(phaseId, payToken, price);
+    }
+
+    /// @notice Set the ETH/USD feed used by USD-priced phases. Without a feed they fall back to their priceWei.
+    /// @param maxAge Seconds after which a feed answer is rejected as stale
+    /// @param maxDeviationBps Largest move from the previous round in basis points, 0 to skip the check
+    function setPriceFeed(address feed, uint256 maxAge, uint256 maxDeviationBps) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (feed != address(0)) {
+            require(maxAge > 0, "Presale: zero max price age");
+            priceFeedDecimals = AggregatorV3Interface(feed).decimals();
+        }
+        priceFeed = AggregatorV3Interface(feed);
+        maxPriceAge = maxAge;
+        maxPriceDeviationBps = maxDeviationBps;
+        emit PriceFeedSet(feed, maxAge, maxDeviationBps);
+    }
+
+    /// @notice Price a phase in US cents per whole token instead of its priceWei. Zero goes back to priceWei.
+    /// @dev A bonding curve still adds its wei increments on top of the converted starting price
+    function setPhaseUsdPrice(uint256 phaseId, uint256 usdCents) external onlyRole(PHASE_MANAGER_ROLE) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        require(usdCents == 0 || address(priceFeed) != address(0), "Presale: no price feed");
+        phaseUsdPrices[phaseId] = usdCents;
+        emit PhaseUsdPriceSet(phaseId, usdCents);
+    }
+
+    /// @notice Let ETH purchases that exhaust the active phase continue into the following phases at their prices
+    function setSpilloverEnabled(bool enabled) external onlyRole(PHASE_MANAGER_ROLE) {
+        spilloverEnabled = enabled;
+        emit SpilloverSet(enabled);
+    }
+
+    function pausePhase(uint256 phaseId) external onlyRole(PHASE_MANAGER_ROLE) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        phases[phaseId].end = block.timestamp;
+    }
+
+    // -------------------------
+    // Vesting claim mode
+    // -------------------------
+
+    /// @notice Route claims through TokenVesting. The presale must be a vesting creator on `vesting_`.
+    /// @dev Pass address(0) to go back to minting the full balance at claim
+    /// @param vesting_ TokenVesting contract receiving the locked part
+    /// @param tgeBps Share of pendingTokens minted directly at claim, in basis points
+    /// @param cliff Cliff of the created schedule in seconds
+    /// @param duration Duration of the created schedule in seconds
+    function setVestingConfig(address vesting_, uint256 tgeBps, uint256 cliff, uint256 duration)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        require(!saleEnded, "Presale: sale ended");
+        if (vesting_ != address(0)) {
+            require(tgeBps <= 10_000, "Presale: TGE unlock too high");
+            require(duration > 0, "Presale: zero vesting duration");
+            require(cliff <= duration, "Presale: cliff greater than duration");
+        }
+        vesting = ITokenVesting(vesting_);
+        tgeUnlockBps = tgeBps;
+        vestingCliff = cliff;
+        vestingDuration = duration;
+        emit VestingConfigSet(vesting_, tgeBps, cliff, duration);
+    }
+
+    // -------------------------
+    // Allowlist
+    // -------------------------
+
+    /// @notice Set the global allowlist root, used by every phase without its own root. Zero disables gating.
+    function setAllowlistRoot(bytes32 root) external onlyRole(PHASE_MANAGER_ROLE) {
+        allowlistRoot = root;
+        emit AllowlistRootSet(root);
+    }
+
+    /// @notice Set a phase-specific allowlist root that overrides the global one. Zero falls back to the global root.
+    function setPhaseAllowlistRoot(uint256 phaseId, bytes32 root) external onlyRole(PHASE_MANAGER_ROLE) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        phaseAllowlistRoots[phaseId] = root;
+        emit PhaseAllowlistRootSet(phaseId, root);
+    }
+
+    /// @notice Require a voucher signed by `signer` for every purchase. address(0) opens the sale again.
+    /// @dev Token purchases and auction bids have no voucher variant, so they are closed while vouchers are required
+    function setVoucherSigner(address signer) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        voucherSigner = signer;
+        vouchersRequired = signer != address(0);
+        emit VoucherSignerSet(signer);
+    }
+
+    // -------------------------
+    // Referrals
+    // -------------------------
+
+    /// @notice Configure the referral bonus. `rewardInEth` pays a share of the purchase in ETH, otherwise bonus tokens.
+    function setReferralConfig(uint256 bonusBps, bool rewardInEth) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(bonusBps <= MAX_REFERRAL_BONUS_BPS, "Presale: referral bonus too high");
+        referralBonusBps = bonusBps;
+        referralRewardInEth = rewardInEth;
+        emit ReferralConfigSet(bonusBps, rewardInEth);
+    }
+
+    /// @notice Queue the caller's ETH referral rewards for withdrawal once the sale succeeded
+    function claimReferralRewards() external nonReentrant whenNotPaused {
+        address referrer = _msgSender();
+        _startPayout();
+
+        uint256 amount = referralRewardsWei[referrer];
+        require(amount > 0, "Presale: no referral rewards");
+
+        referralRewardsWei[referrer] = 0;
+        totalReferralRewardsWei -= amount;
+        _asyncTransfer(referrer, amount);
+        emit ReferralRewardsClaimed(referrer, amount);
+    }
+
+    // -------------------------
+    // Dutch auctions
+    // -------------------------
+
+    /// @notice Bid in the active Dutch auction phase: locks the tokens `msg.value` buys at the current price
+    /// @dev Everyone pays the clearing price in the end; the difference is queued in escrow by settleAuctionBid
+    /// @param proof Merkle proof for allowlisted phases, empty otherwise
+    function bid(bytes32[] calldata proof) external payable nonReentrant whenNotPaused onlyWhileActive {
+        address bidder = _msgSender();
+        require(!vouchersRequired, "Presale: voucher required");
+        (bool found, uint256 phaseId) = _currentPhaseIndex();
+        require(found, "Presale: no active phase");
+        require(msg.value >= _minBuyFor(phaseId), "Presale: below min buy");
+        Auction storage auction = auctions[phaseId];
+        require(auction.startPrice != 0, "Presale: not an auction phase");
+        require(_isAllowlisted(phaseId, bidder, proof), "Presale: not allowlisted");
+
+        uint256 price = _auctionPrice(phaseId, block.timestamp);
+        (uint256 tokens, uint256 paid) = _auctionQuote(phaseId, price, msg.value);
+        require(tokens > 0, "Presale: zero tokens");
+
+        AuctionBid storage b = auctionBids[phaseId][bidder];
+        _addWalletContribution(phaseId, bidder, paid, b.paid);
+        require(hardCap == 0 || paid <= _hardCapRoom(), "Presale: above hard cap");
+
+        Phase storage phase = phases[phaseId];
+        phase.sold += tokens;
+        b.tokens += tokens;
+        b.paid += paid;
+        totalAuctionDeposits += paid;
+
+        if (msg.value > paid) {
+            _asyncTransfer(bidder, msg.value - paid);
+        }
+        // a sold-out auction clears at the price of the bid that took the last tokens
+        if (phase.sold == phase.supply) {
+            auction.clearingPrice = price;
+        }
+        emit AuctionBidPlaced(bidder, phaseId, price, tokens, paid);
+    }
+
+    /// @notice Fix the clearing price of a closed auction and count it towards the totals. Callable by anyone.
+    /// @dev Once the sale has ended the soft cap outcome is final, so a late settlement no longer changes it
+    function settleAuction(uint256 phaseId) external {
+        require(auctions[phaseId].startPrice != 0, "Presale: not an auction phase");
+        require(!auctions[phaseId].settled, "Presale: auction settled");
+        Phase storage phase = phases[phaseId];
+        require(
+            block.timestamp > phase.end || phase.sold >= phase.supply || saleCancelled,
+            "Presale: auction still running"
+        );
+        _settleAuction(phaseId);
+    }
+
+    /// @notice Credit a bidder's tokens at the clearing price and queue their overpayment. Callable by anyone.
+    function settleAuctionBid(uint256 phaseId, address bidder) external nonReentrant {
+        require(auctions[phaseId].settled, "Presale: auction not settled");
+        require(auctionBids[phaseId][bidder].tokens > 0, "Presale: no bid");
+        _settleAuctionBid(phaseId, bidder);
+    }
+
+    function _settleAuction(uint256 phaseId) internal {
+        Auction storage auction = auctions[phaseId];
+        Phase storage phase = phases[phaseId];
+        if (auction.clearingPrice == 0) {
+            auction.clearingPrice = _auctionPrice(phaseId, phase.end);
+        }
+        auction.settled = true;
+
+        totalRaised += (phase.sold * auction.clearingPrice) / tokenUnit;
+        totalTokensSold += phase.sold;
+        emit AuctionSettled(phaseId, auction.clearingPrice, phase.sold);
+
+        if (!saleEnded) {
+            _checkSoftCap();
+            _checkHardCap(false);
+        }
+    }
+
+    function _settleAuctionBid(uint256 phaseId, address bidder) internal {
+        AuctionBid memory b = auctionBids[phaseId][bidder];
+        delete auctionBids[phaseId][bidder];
+
+        uint256 cost = (b.tokens * auctions[phaseId].clearingPrice) / tokenUnit;
+        // bids are rounded down one at a time, so the total paid can trail the cost by a few wei
+        if (cost > b.paid) cost = b.paid;
+
+        totalAuctionDeposits -= b.paid;
+        contributionsWei[bidder] += cost;
+        if (phaseLimitsSet && phases[phaseId].maxPerWallet > 0) phaseContributionsWei[phaseId][bidder] -= b.paid - cost;
+        pendingTokens[bidder] += b.tokens;
+        buyers.add(bidder);
+        if (b.paid > cost) {
+            _asyncTransfer(bidder, b.paid - cost);
+        }
+        emit AuctionBidSettled(bidder, phaseId, b.tokens, cost, b.paid - cost);
+    }
+
+    /// @dev Settle `account`'s bids in every settled auction before it claims or asks for a refund
+    function _settleAuctionBids(address account) internal {
+        if (!hasAuctions) return;
+        for (uint256 i = 0; i < phases.length; i++) {
+            if (auctions[i].settled && auctionBids[i][account].tokens > 0) {
+                _settleAuctionBid(i, account);
+            }
+        }
+    }
+
+    // -------------------------
+    // ERC-20 purchases
+    // -------------------------
+
+    /// @notice Buy with an accepted ERC-20 (e.g. USDC) at the active phase's token price
+    /// @dev The token price is flat; the phase's bonding curve only sets the ETH value counted towards the caps.
+    /// Only the cost of the allocated tokens is pulled, so a clipped purchase leaves no excess to refund
+    /// @param payToken ERC-20 used for payment (must be approved for at least `amount`)
+    /// @param amount Maximum amount of payToken to spend
+    /// @param proof Merkle proof for allowlisted phases (empty when the phase is open)
+    function buyWithToken(
+        address payToken,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external nonReentrant whenNotPaused onlyWhileActive {
+        address buyer = _msgSender();
+        require(!vouchersRequired, "Presale: voucher required");
+        (bool found, uint256 phaseId) = _currentPhaseIndex();
+        require(found, "Presale: no active phase");
+        require(_isAllowlisted(phaseId, buyer, proof), "Presale: not allowlisted");
+
+        require(!_isAuction(phaseId), "Presale: auction phase");
+        uint256 tokenPrice = phaseTokenPrices[phaseId][payToken];
+        require(tokenPrice > 0, "Presale: payment token not accepted");
+
+        Phase storage phase = phases[phaseId];
+
+        uint256 tokensToBuy = (amount * tokenUnit) / tokenPrice;
+        require(tokensToBuy > 0, "Presale: zero tokens");
+        require(_costOf(phaseId, tokensToBuy) >= _minBuyFor(phaseId), "Presale: below min buy");
+
+        uint256 available = phase.supply - phase.sold;
+        uint256 tokensAllocated = tokensToBuy > available ? available : tokensToBuy;
+        uint256 valueWei = _costOf(phaseId, tokensAllocated);
+        bool capped = hardCap > 0 && valueWei > _hardCapRoom();
+        if (capped) {
+            (tokensAllocated, valueWei) = _tokensFor(phaseId, _hardCapRoom());
+        }
+        require(tokensAllocated > 0, "Presale: hard cap reached");
+
+        uint256 cost = (tokensAllocated * tokenPrice) / tokenUnit;
+        _addWalletContribution(phaseId, buyer, valueWei, 0);
+
+        phase.sold += tokensAllocated;
+        totalTokensSold += tokensAllocated;
+        totalRaisedInToken[payToken] += cost;
+        totalRaisedTokenValueWei += valueWei;
+        tokenContributions[buyer][payToken] += cost;
+        tokenContributionsValueWei[buyer] += valueWei;
+        pendingTokens[buyer] += tokensAllocated;
+        buyers.add(buyer);
+
+        IERC20(payToken).safeTransferFrom(buyer, address(this), cost);
+
+        emit PurchasedWithToken(buyer, phaseId, payToken, cost, tokensAllocated);
+
+        _checkSoftCap();
+        _checkHardCap(capped);
+    }
+
+    // -------------------------
+    // Claim / Refund
+    // -------------------------
+
+    function claim() external nonReentrant whenNotPaused {
+        _startPayout();
+        require(_claim(_msgSender()), "Presale: nothing to claim");
+    }
+
+    /// @notice Claim on behalf of `buyers_`, e.g. to distribute tokens after the sale
+    /// @dev Wallets with nothing to claim are skipped; page through getBuyers in batches of MAX_CLAIM_BATCH
+    function claimFor(address[] calldata buyers_) external onlyRole(TREASURER_ROLE) nonReentrant whenNotPaused {
+        _startPayout();
+        require(buyers_.length <= MAX_CLAIM_BATCH, "Presale: batch too large");
+        for (uint256 i = 0; i < buyers_.length; i++) {
+            _claim(buyers_[i]);
+        }
+    }
+
+    /// @dev Mint `buyer`'s pending tokens, split between TGE unlock and vesting when configured.
+    /// Returns false if there was nothing to claim
+    function _claim(address buyer) private returns (bool) {
+        _settleAuctionBids(buyer);
+
+        uint256 amount = pendingTokens[buyer];
+        if (amount == 0) return false;
+
+        pendingTokens[buyer] = 0;
+        if (address(vesting) == address(0)) {
+            token.mint(buyer, amount);
+            emit Claimed(buyer, amount);
+            return true;
+        }
+
+        uint256 tgeAmount = (amount * tgeUnlockBps) / 10_000;
+        uint256 vestedAmount = amount - tgeAmount;
+        if (tgeAmount > 0) {
+            token.mint(buyer, tgeAmount);
+        }
+
+        uint256 scheduleId;
+        if (vestedAmount > 0) {
+            token.mint(address(vesting), vestedAmount);
+            scheduleId = vesting.createVesting(buyer, vestedAmount, block.timestamp, vestingDuration, vestingCliff, false);
+        }
+        // ClaimVested directly follows Claimed so indexers can pair them
+        emit Claimed(buyer, amount);
+        emit ClaimVested(buyer, scheduleId, tgeAmount, vestedAmount);
+        return true;
+    }
+
+    /// @notice Queue the caller's contribution for withdrawal after a failed or cancelled sale, or their
+    /// pro-rata share of the remaining proceeds once buyers voted to halt the tranches (tokens stay claimable)
+    function requestRefund() external nonReentrant whenNotPaused {
+        address buyer = _msgSender();
+        require(saleEnded, "Presale: sale not ended");
+        // settled bids count towards the contribution at the clearing price, overpayments go to the escrow
+        _settleAuctionBids(buyer);
+        if (trancheSchedule.halted) {
+            _refundHaltedTranches(buyer);
+            return;
+        }
+        require(!softCapReached || saleCancelled, "Presale: softCap reached");
+
+        uint256 sponsored = totalSponsoredWei[buyer];
+        uint256 contributed = contributionsWei[buyer] - sponsored;
+        require(contributed > 0 || tokenContributionsValueWei[buyer] > 0, "Presale: nothing to refund");
+
+        // ETH sponsored through buyFor stays booked for requestSponsoredRefund
+        contributionsWei[buyer] = sponsored;
+        pendingTokens[buyer] = 0;
+
+        if (contributed > 0) {
+            _asyncTransfer(buyer, contributed);
+        }
+        _refundTokenContributions(buyer);
+        emit RefundRequested(buyer, contributed);
+    }
+
+    function _refundHaltedTranches(address buyer) internal {
+        uint256 sponsored = totalSponsoredWei[buyer];
+        uint256 refund = ProceedsTranches.refundOf(trancheSchedule, contributionsWei[buyer] - sponsored);
+        require(refund > 0, "Presale: nothing to refund");
+        contributionsWei[buyer] = sponsored;
+        _asyncTransfer(buyer, refund);
+        emit RefundRequested(buyer, refund);
+    }
+
+    function _refundTokenContributions(address buyer) internal {
+        if (tokenContributionsValueWei[buyer] == 0) return;
+        tokenContributionsValueWei[buyer] = 0;
+
+        uint256 count = paymentTokens.length();
+        for (uint256 i = 0; i < count; i++) {
+            address payToken = paymentTokens.at(i);
+            uint256 paid = tokenContributions[buyer][payToken];
+            if (paid == 0) continue;
+
+            tokenContributions[buyer][payToken] = 0;
+            _asyncTransferToken(buyer, payToken, paid);
+            emit TokenRefundRequested(buyer, payToken, paid);
+        }
+    }
+
+    // -------------------------
+    // Admin actions
+    // -------------------------
+
+    function withdrawProceeds(address payable beneficiary) external onlyRole(TREASURER_ROLE) nonReentrant {
+        _startPayout();
+        require(payeeSplit.payees.length == 0, "Presale: proceeds split between payees");
+        require(trancheSchedule.tranches.length == 0, "Presale: proceeds released in tranches");
+
+        uint256 withdrawable = _withdrawableProceeds();
+        require(withdrawable > 0, "Presale: nothing withdrawable (reserved escrow)");
+        Address.sendValue(beneficiary, withdrawable);
+        emit Withdrawn(beneficiary, withdrawable);
+    }
+
+    /// @notice Pay `payee` their share of the ETH proceeds not yet released to them. Callable by anyone,
+    /// the ETH always goes to the payee. Proceeds made withdrawable later (e.g. settled bids) can be released again.
+    function releaseProceeds(address payable payee) external nonReentrant {
+        _startPayout();
+
+        uint256 amount = ProceedsSplit.release(payeeSplit, payee, _withdrawableProceeds());
+        Address.sendValue(payee, amount);
+        emit Withdrawn(payee, amount);
+    }
+
+    /// @notice Withdraw ERC-20 proceeds in `payToken`, keeping queued token refunds in escrow
+    function withdrawTokenProceeds(address payToken, address beneficiary)
+        external
+        onlyRole(TREASURER_ROLE)
+        nonReentrant
+    {
+        _startPayout();
+        require(beneficiary != address(0), "Presale: beneficiary zero");
+
+        uint256 currentBalance = IERC20(payToken).balanceOf(address(this));
+        require(currentBalance > totalTokenEscrow[payToken], "Presale: nothing withdrawable (reserved escrow)");
+        uint256 withdrawable = currentBalance - totalTokenEscrow[payToken];
+        IERC20(payToken).safeTransfer(beneficiary, withdrawable);
+        emit TokenWithdrawn(beneficiary, payToken, withdrawable);
+    }
+
+    function endSale() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(!saleEnded, "Presale: already ended");
+        _endSale();
+    }
+
+    /// @notice Permanently end the sale in refund mode: claims and withdrawals are blocked and every buyer
+    /// can requestRefund their ETH and token contributions, whether or not the soft cap was reached.
+    /// Also possible after the sale ended (finalize, hard cap) as long as no tokens, proceeds or referral
+    /// rewards have left the contract yet.
+    /// Unclaimed ETH referral rewards are void and their reserve goes back to the buyers' refunds.
+    function cancelSale() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(!saleCancelled, "Presale: sale cancelled");
+        require(!payoutsStarted, "Presale: payouts started");
+        saleCancelled = true;
+        delete totalReferralRewardsWei;
+        if (!saleEnded) _endSale();
+        emit SaleCancelled(_raisedValueWei());
+    }
+
+    /// @notice End the sale once every phase is over. Callable by anyone.
+    function finalize() external {
+        require(!saleEnded, "Presale: already ended");
+        require(phases.length > 0, "Presale: no phases");
+
+        uint256 lastEnd;
+        for (uint256 i = 0; i < phases.length; i++) {
+            if (phases[i].end > lastEnd) lastEnd = phases[i].end;
+        }
+        require(block.timestamp > lastEnd, "Presale: sale still running");
+
+        // count closed auctions before the soft cap outcome becomes final
+        for (uint256 i = 0; i < phases.length; i++) {
+            if (auctions[i].startPrice != 0 && !auctions[i].settled) _settleAuction(i);
+        }
+        if (!saleEnded) _endSale();
+    }
+
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+
+    // -------------------------
+    // Admin setters (optional, DEFAULT_ADMIN_ROLE)
+    // -------------------------
+
+    /// @notice Queue a new soft cap, applied by executeParameterChange after parameterDelay
+    function setSoftCap(uint256 newSoftCap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkSoftCap(newSoftCap);
+        _queueChange(SaleParam.SoftCap, newSoftCap);
+    }
+
+    /// @notice Split the ETH proceeds between `newPayees` by `sharesBps`, which must total 10000.
+    /// Replaces the previous payees; an empty list goes back to withdrawProceeds. ERC-20 proceeds are not split.
+    function setPayees(address[] calldata newPayees, uint256[] calldata sharesBps)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+        onlyWhileActive
+    {
+        require(trancheSchedule.tranches.length == 0, "Presale: proceeds released in tranches");
+        ProceedsSplit.setPayees(payeeSplit, MAX_PAYEES, newPayees, sharesBps);
+    }
+
+    /// @notice Set the hard cap in wei (ETH plus ERC-20 purchases at their ETH value). Zero removes it.
+    function setHardCap(uint256 newHardCap) external onlyRole(DEFAULT_ADMIN_ROLE) onlyWhileActive {
+        if (newHardCap != 0) {
+            require(newHardCap >= softCap, "Presale: hardCap >= softCap");
+            require(newHardCap > _raisedValueWei(), "Presale: hardCap <= raised");
+        }
+        hardCap = newHardCap;
+        emit HardCapSet(newHardCap);
+    }
+
+    /// @notice Queue a new global minBuy, applied by executeParameterChange after parameterDelay
+    function setMinBuy(uint256 newMinBuy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkMinBuy(newMinBuy);
+        _queueChange(SaleParam.MinBuy, newMinBuy);
+    }
+
+    /// @notice Queue a new global maxPerWallet, applied by executeParameterChange after parameterDelay
+    function setMaxPerWallet(uint256 newMaxPerWallet) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _checkMaxPerWallet(newMaxPerWallet);
+        _queueChange(SaleParam.MaxPerWallet, newMaxPerWallet);
+    }
+
+    // -------------------------
+    // Proceeds tranches
+    // -------------------------
+
+    /// @notice Release the ETH proceeds in milestone tranches instead of withdrawProceeds. Tranche i holds
+    /// `bps[i]` of the proceeds (all shares total 10000), unlocks at `unlockTimes[i]` (0 for none) and, with
+    /// `needsApproval[i]`, once approved. With `haltQuorumBps` set, buyers holding that share of totalRaised can
+    /// vote to halt the tranches not withdrawn yet. Replaces the previous schedule; not combinable with setPayees.
+    function setTranches(
+        uint256[] calldata bps,
+        uint256[] calldata unlockTimes,
+        bool[] calldata needsApproval,
+        uint256 haltQuorumBps
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) onlyWhileActive {
+        require(payeeSplit.payees.length == 0, "Presale: proceeds split between payees");
+        ProceedsTranches.setTranches(trancheSchedule, MAX_TRANCHES, bps, unlockTimes, needsApproval, haltQuorumBps);
+    }
+
+    /// @notice Confirm the milestone of tranche `index` is reached
+    function approveTranche(uint256 index) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        ProceedsTranches.approve(trancheSchedule, index);
+    }
+
+    /// @notice Withdraw tranche `index` once its milestone is met, keeping escrow and referral rewards reserved
+    function withdrawTranche(uint256 index, address payable beneficiary) external onlyRole(TREASURER_ROLE) nonReentrant {
+        _startPayout();
+
+        uint256 amount = ProceedsTranches.withdraw(trancheSchedule, index, _withdrawableProceeds());
+        Address.sendValue(beneficiary, amount);
+        emit Withdrawn(beneficiary, amount);
+    }
+
+    /// @notice Vote with the caller's ETH contribution to halt the remaining tranches. Once the quorum is reached,
+    /// the proceeds left are refunded pro-rata to contributions through requestRefund.
+    function voteToHaltTranches() external nonReentrant whenNotPaused {
+        require(saleEnded, "Presale: sale not ended");
+        require(softCapReached, "Presale: softCap not reached");
+        require(!saleCancelled, "Presale: sale cancelled");
+
+        address voter = _msgSender();
+        // the vote weighs the auction bids at the clearing price, like the pro-rata refund
+        _settleAuctionBids(voter);
+        ProceedsTranches.voteToHalt(
+            trancheSchedule,
+            voter,
+            contributionsWei[voter],
+            totalRaised,
+            _withdrawableProceeds()
+        );
+    }
+
+    /// @dev Require a successful sale before tokens or proceeds leave the contract, and record that they do,
+    /// which rules out cancelling the sale from then on
+    function _startPayout() private {
+        require(saleEnded, "Presale: sale not ended");
+        require(softCapReached, "Presale: softCap not reached");
+        require(!saleCancelled, "Presale: sale cancelled");
+        payoutsStarted = true;
+    }
+
+    // -------------------------
+    // Parameter timelock
+    // -------------------------
+
+    /// @notice Set the delay between queueing and executing a parameter change.
+    /// Once the sale has buyers the delay can only grow, so it cannot be dropped to change parameters instantly.
+    function setParameterDelay(uint256 newDelay) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newDelay <= MAX_PARAMETER_DELAY, "Presale: delay too long");
+        require(newDelay >= parameterDelay || buyers.length() == 0, "Presale: delay can only grow");
+        parameterDelay = newDelay;
+        emit ParameterDelaySet(newDelay);
+    }
+
+    /// @notice Apply a queued change once its delay has passed. It is checked again against the current state.
+    function executeParameterChange(SaleParam param) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        PendingChange memory change = pendingChanges[param];
+        require(change.eta != 0, "Presale: no pending change");
+        require(block.timestamp >= change.eta, "Presale: change still timelocked");
+        delete pendingChanges[param];
+
+        if (param == SaleParam.SoftCap) {
+            _checkSoftCap(change.value);
+            softCap = change.value;
+        } else if (param == SaleParam.MinBuy) {
+            _checkMinBuy(change.value);
+            minBuy = change.value;
+        } else {
+            _checkMaxPerWallet(change.value);
+            maxPerWallet = change.value;
+        }
+        emit ParameterChangeExecuted(param, change.value, change.eta);
+    }
+
+    function cancelParameterChange(SaleParam param) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        PendingChange memory change = pendingChanges[param];
+        require(change.eta != 0, "Presale: no pending change");
+        delete pendingChanges[param];
+        emit ParameterChangeCancelled(param, change.value, change.eta);
+    }
+
+    /// @dev Queueing again replaces the pending change of `param` and restarts its delay
+    function _queueChange(SaleParam param, uint256 value) internal {
+        uint256 eta = block.timestamp + parameterDelay;
+        pendingChanges[param] = PendingChange(value, eta);
+        emit ParameterChangeQueued(param, value, eta);
+    }
+
+    function _checkSoftCap(uint256 newSoftCap) internal view {
+        require(newSoftCap > 0, "Presale: softCap > 0");
+        require(!softCapReached, "Presale: softCap already reached");
+        require(hardCap == 0 || newSoftCap <= hardCap, "Presale: softCap <= hardCap");
+    }
+
+    function _checkMinBuy(uint256 newMinBuy) internal view {
+        require(newMinBuy > 0, "Presale: minBuy > 0");
+        require(newMinBuy <= maxPerWallet, "Presale: minBuy <= maxPerWallet");
+    }
+
+    function _checkMaxPerWallet(uint256 newMaxPerWallet) internal view {
+        require(newMaxPerWallet >= minBuy, "Presale: maxPerWallet >= minBuy");
+    }
+}
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./DynamicPresale.sol";
+
+/// @title DynamicPresaleUpgradeable - DynamicPresale behind a UUPS (ERC-1967) proxy
+/// @notice Same sale as DynamicPresale; DEFAULT_ADMIN_ROLE can upgrade the implementation to fix bugs in a live sale
+/// @dev The token, its decimals, the trusted forwarder and the extension are immutables of the implementation.
+/// Roles and sale parameters live in proxy storage and are set by initialize(). New versions must keep this
+/// storage layout and only append state; scripts/upgrade.ts validates that before switching.
+contract DynamicPresaleUpgradeable is DynamicPresale, Initializable, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address token_, uint8 tokenDecimals_, address trustedForwarder_, address extension_)
+        DynamicPresale(token_, tokenDecimals_, 1, 1, 1, trustedForwarder_, extension_)
+    {
+        _disableInitializers();
+    }
+
+    /// @param admin_ Receives DEFAULT_ADMIN_ROLE and every operational role
+    function initialize(address admin_, uint256 softCap_, uint256 minBuy_, uint256 maxPerWallet_) external initializer {
+        require(admin_ != address(0), "Presale: admin address zero");
+        _grantRoles(admin_);
+        _initSaleParams(softCap_, minBuy_, maxPerWallet_);
+    }
+
+    /// @notice Migrates a proxy of the Ownable version: its owner receives DEFAULT_ADMIN_ROLE and every operational
+    /// role, and parameter changes get the default timelock. Run it as the upgrade call (UPGRADE_CALL=initializeV2);
+    /// proxies initialized with roles have no owner to migrate
+    function initializeV2() external reinitializer(2) {
+        address legacyOwner = _legacyOwner;
+        require(legacyOwner != address(0), "Presale: no legacy owner");
+        delete _legacyOwner;
+        _grantRoles(legacyOwner);
+        parameterDelay = DEFAULT_PARAMETER_DELAY;
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {}
+}
@@ -4,13 +4,16 @@ pragma solidity ^0.8.20;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Capped.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 
 /// @title MyToken - Professional ERC20 Token for Dynamic Presale
-/// @notice Implements minting, burning, pausing, capping and role-based access control
-/// @dev Uses AccessControl for granular permissions, supports capped supply (cap must be > 0)
-contract MyToken is ERC20, ERC20Burnable, ERC20Capped, Pausable, AccessControl {
+/// @notice Implements minting, burning, pausing, capping, EIP-2612 permits, vote delegation and role-based access control
+/// @dev Uses AccessControl for granular permissions, supports capped supply (cap must be > 0).
+/// Voting power is checkpointed by block number and only counts once a holder delegates (to themselves or others).
+contract MyToken is ERC20, ERC20Burnable, ERC20Capped, ERC20Permit, ERC20Votes, Pausable, AccessControl {
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
     bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
     bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
@@ -25,7 +28,7 @@ contract MyToken is ERC20, ERC20Burnable, ERC20Capped, Pausable, AccessControl {
         string memory name_,
         string memory symbol_,
         uint256 cap_
-    ) ERC20(name_, symbol_) ERC20Capped(cap_) {
+    ) ERC20(name_, symbol_) ERC20Capped(cap_) ERC20Permit(name_) {
         require(cap_ > 0, "MyToken: cap is 0");
 
         _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
@@ -65,14 +68,19 @@ contract MyToken is ERC20, ERC20Burnable, ERC20Capped, Pausable, AccessControl {
         emit EmergencyBurn(from, amount, msg.sender);
     }
 
+    /// @dev Runs the cap check (mints only) and the vote checkpoint update; paused tokens cannot move at all
     function _update(
         address from,
         address to,
         uint256 value
-    ) internal override(ERC20, ERC20Capped) whenNotPaused {
+    ) internal override(ERC20, ERC20Capped, ERC20Votes) whenNotPaused {
         super._update(from, to, value);
     }
 
+    function nonces(address owner) public view virtual override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+
     function supportsInterface(
         bytes4 interfaceId
     ) public view virtual override(AccessControl) returns (bool) {
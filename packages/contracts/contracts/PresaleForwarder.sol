@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// @title PresaleForwarder - Trusted ERC-2771 forwarder for DynamicPresale and TokenVesting
+/// @notice Relayers submit EIP-712 signed forward requests, so buyers can claim and release without holding ETH
+/// @dev Domain: name "PresaleForwarder", version "1". Both contracts take its address as their trusted forwarder.
+contract PresaleForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("PresaleForwarder") {}
+}
@@ -6,29 +6,69 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
-
-/// @title TokenVesting - Professional linear vesting contract for Dynamic Presale
-/// @notice Allows beneficiaries to release vested tokens according to schedule with cliff period
-/// @dev Supports multiple schedules per beneficiary, revocable vesting, and emergency functions
-contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+
+/// @title TokenVesting - Professional vesting contract for Dynamic Presale
+/// @notice Allows beneficiaries to release vested tokens according to schedule with cliff period, unlocking linearly, in steps or by an unlock table
+/// @dev Supports multiple schedules per beneficiary, revocable vesting, and emergency functions.
+/// Beneficiaries can release without gas through the trusted ERC-2771 forwarder.
+contract TokenVesting is Ownable, ReentrancyGuard, Pausable, ERC2771Context {
     using SafeERC20 for IERC20;
 
+    /// @dev Linear: cliff then linear. Step: cliff then equal unlocks every stepInterval (e.g. monthly, quarterly).
+    /// Custom: the schedule's unlock table of (timestamp, cumulative bps) points.
+    enum UnlockCurve {
+        Linear,
+        Step,
+        Custom
+    }
+
     struct VestingSchedule {
         uint256 totalAmount; // total tokens allocated to schedule
         uint256 released; // tokens already released
         uint256 start; // start timestamp
-        uint256 duration; // total duration in seconds
-        uint256 cliff; // cliff in seconds from start
+        uint256 duration; // total duration in seconds (Custom: until the last unlock)
+        uint256 cliff; // cliff in seconds from start (Custom: until the first unlock)
         bool revocable; // can owner revoke?
         bool revoked; // already revoked?
+        UnlockCurve curve;
+        uint64 stepInterval; // seconds between Step unlocks
+    }
+
+    struct UnlockPoint {
+        uint256 timestamp;
+        uint256 cumulativeBps; // share of totalAmount vested from `timestamp` on
     }
 
+    /// @dev Reusable schedule shape for createVestingBatch, keyed by keccak256 of its name (e.g. "team-4y-1y-cliff")
+    struct VestingTemplate {
+        uint256 duration; // total duration in seconds, 0 = template not set
+        uint256 cliff; // cliff in seconds from start
+        bool revocable;
+    }
+
+    /// @dev Move of a schedule to another wallet, requested by its beneficiary and accepted by the new wallet
+    struct ScheduleTransfer {
+        address to; // wallet that may accept, address(0) = no request
+        bool approved; // approved by owner, needed while transferApprovalRequired
+    }
+
+    uint256 public constant MAX_VESTING_BATCH = 100;
+    uint256 public constant MAX_UNLOCK_POINTS = 60;
+
     IERC20 public immutable token;
 
     uint256 public totalVestingSchedules;
     uint256 public totalCommitted; 
     mapping(address => VestingSchedule[]) private schedules;
     mapping(address => uint256) public totalVestedAmount; 
+    mapping(address => bool) public vestingCreators; // contracts allowed to create schedules besides the owner (e.g. DynamicPresale)
+    mapping(bytes32 => VestingTemplate) private templates;
+    mapping(address => mapping(uint256 => ScheduleTransfer)) public pendingTransfers; // beneficiary => scheduleId => request
+    mapping(address => mapping(uint256 => address)) public transferredTo; // beneficiary => scheduleId => new wallet
+    bool public transferApprovalRequired;
+    mapping(address => mapping(uint256 => UnlockPoint[])) private unlockTables; // beneficiary => scheduleId => Custom table
 
     event VestingCreated(
         address indexed beneficiary,
@@ -37,7 +77,11 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         uint256 start,
         uint256 duration,
         uint256 cliff,
-        bool revocable
+        bool revocable,
+        UnlockCurve curve,
+        uint256 stepInterval,
+        uint256[] unlockTimes,
+        uint256[] unlockBps
     );
     event TokensReleased(
         address indexed beneficiary,
@@ -49,10 +93,44 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         uint256 indexed scheduleId,
         uint256 unvestedAmount
     );
+    event VestingCreatorSet(address indexed account, bool allowed);
+    event VestingTransferRequested(
+        address indexed from,
+        uint256 indexed scheduleId,
+        address indexed to
+    );
+    event VestingTransferApproved(
+        address indexed from,
+        uint256 indexed scheduleId,
+        address indexed to
+    );
+    event VestingTransferCancelled(address indexed from, uint256 indexed scheduleId);
+    event VestingTransferred(
+        address indexed from,
+        uint256 indexed fromScheduleId,
+        address indexed to,
+        uint256 toScheduleId
+    );
+    event TransferApprovalRequiredSet(bool required);
+    event VestingTemplateSet(
+        bytes32 indexed templateId,
+        string name,
+        uint256 duration,
+        uint256 cliff,
+        bool revocable
+    );
+
+    modifier onlyOwnerOrCreator() {
+        if (!vestingCreators[_msgSender()]) {
+            _checkOwner();
+        }
+        _;
+    }
 
     /// @notice Constructor
     /// @param token_ ERC20 token used for vesting
-    constructor(address token_) Ownable(msg.sender) {
+    /// @param trustedForwarder_ ERC-2771 forwarder relaying signed calls, address(0) for none
+    constructor(address token_, address trustedForwarder_) Ownable(msg.sender) ERC2771Context(trustedForwarder_) {
         require(token_ != address(0), "Vesting: token address zero");
         token = IERC20(token_);
     }
@@ -61,13 +139,46 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
     // Create / Manage vesting
     // -------------------------
 
-    /// @notice Create vesting schedule for beneficiary. Only owner.
+    /// @notice Authorize or deauthorize an account to create vesting schedules. Only owner.
+    /// @param account Address to update (e.g. the presale contract)
+    /// @param allowed Whether `account` may call createVesting
+    function setVestingCreator(address account, bool allowed) external onlyOwner {
+        require(account != address(0), "Vesting: creator zero");
+        vestingCreators[account] = allowed;
+        emit VestingCreatorSet(account, allowed);
+    }
+
+    /// @notice Add, update or remove (duration 0) a named schedule template. Only owner.
+    /// @param name Template name, e.g. "team-4y-1y-cliff"
+    /// @param duration Duration of vesting in seconds, 0 to remove the template
+    /// @param cliff Cliff period in seconds (<= duration)
+    /// @param revocable Whether schedules created from the template can be revoked by owner
+    function setVestingTemplate(
+        string calldata name,
+        uint256 duration,
+        uint256 cliff,
+        bool revocable
+    ) external onlyOwner {
+        require(bytes(name).length > 0, "Vesting: template name empty");
+        require(cliff <= duration, "Vesting: cliff greater than duration");
+
+        bytes32 templateId = keccak256(bytes(name));
+        templates[templateId] = VestingTemplate({
+            duration: duration,
+            cliff: cliff,
+            revocable: revocable
+        });
+        emit VestingTemplateSet(templateId, name, duration, cliff, revocable);
+    }
+
+    /// @notice Create vesting schedule for beneficiary. Only owner or an authorized creator.
     /// @param beneficiary Address of the beneficiary
     /// @param totalAmount Total amount of tokens to vest (in token units)
     /// @param start Start timestamp of vesting (>= now)
     /// @param duration Duration of vesting in seconds (> 0)
     /// @param cliff Cliff period in seconds (<= duration)
     /// @param revocable Whether the vesting can be revoked by owner
+    /// @return scheduleId Index of the new schedule for `beneficiary`
     function createVesting(
         address beneficiary,
         uint256 totalAmount,
@@ -75,18 +186,155 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         uint256 duration,
         uint256 cliff,
         bool revocable
-    ) external onlyOwner whenNotPaused {
+    ) external onlyOwnerOrCreator whenNotPaused returns (uint256 scheduleId) {
+        uint256[] memory none;
+        scheduleId = _createVesting(
+            beneficiary,
+            totalAmount,
+            start,
+            duration,
+            cliff,
+            revocable,
+            UnlockCurve.Linear,
+            0,
+            none,
+            none
+        );
+        _checkCommittedBalance();
+    }
+
+    /// @notice Create a schedule that unlocks in equal steps, e.g. monthly or quarterly. Only owner or an authorized creator.
+    /// @param beneficiary Address of the beneficiary
+    /// @param totalAmount Total amount of tokens to vest (in token units)
+    /// @param start Start timestamp of vesting (>= now)
+    /// @param duration Duration of vesting in seconds (> 0)
+    /// @param cliff Cliff period in seconds (<= duration); steps reached before it unlock at the cliff
+    /// @param stepInterval Seconds between unlocks (> 0, <= duration), e.g. 30 days
+    /// @param revocable Whether the vesting can be revoked by owner
+    /// @return scheduleId Index of the new schedule for `beneficiary`
+    function createStepVesting(
+        address beneficiary,
+        uint256 totalAmount,
+        uint256 start,
+        uint256 duration,
+        uint256 cliff,
+        uint256 stepInterval,
+        bool revocable
+    ) external onlyOwnerOrCreator whenNotPaused returns (uint256 scheduleId) {
+        require(stepInterval > 0 && stepInterval <= duration, "Vesting: invalid step interval");
+        uint256[] memory none;
+        scheduleId = _createVesting(
+            beneficiary,
+            totalAmount,
+            start,
+            duration,
+            cliff,
+            revocable,
+            UnlockCurve.Step,
+            stepInterval,
+            none,
+            none
+        );
+        _checkCommittedBalance();
+    }
+
+    /// @notice Create a schedule following an unlock table. Only owner or an authorized creator.
+    /// @param beneficiary Address of the beneficiary
+    /// @param totalAmount Total amount of tokens to vest (in token units)
+    /// @param start Start timestamp of vesting (>= now)
+    /// @param unlockTimes Increasing unlock timestamps, none before `start` (at most MAX_UNLOCK_POINTS)
+    /// @param unlockBps Share of `totalAmount` vested from each unlock time on, non-decreasing and ending at 10000
+    /// @param revocable Whether the vesting can be revoked by owner
+    /// @return scheduleId Index of the new schedule for `beneficiary`
+    function createCustomVesting(
+        address beneficiary,
+        uint256 totalAmount,
+        uint256 start,
+        uint256[] calldata unlockTimes,
+        uint256[] calldata unlockBps,
+        bool revocable
+    ) external onlyOwnerOrCreator whenNotPaused returns (uint256 scheduleId) {
+        require(unlockTimes.length == unlockBps.length, "Vesting: length mismatch");
+        require(unlockTimes.length > 0, "Vesting: empty unlock table");
+        require(unlockTimes.length <= MAX_UNLOCK_POINTS, "Vesting: too many unlock points");
+        require(unlockTimes[0] >= start, "Vesting: unlock before start");
+        for (uint256 i = 1; i < unlockTimes.length; i++) {
+            require(unlockTimes[i] > unlockTimes[i - 1], "Vesting: unlock times not increasing");
+            require(unlockBps[i] >= unlockBps[i - 1], "Vesting: unlock bps decreasing");
+        }
+        require(unlockBps[unlockBps.length - 1] == 10_000, "Vesting: unlock table must end at 10000");
+
+        scheduleId = _createVesting(
+            beneficiary,
+            totalAmount,
+            start,
+            unlockTimes[unlockTimes.length - 1] - start,
+            unlockTimes[0] - start,
+            revocable,
+            UnlockCurve.Custom,
+            0,
+            unlockTimes,
+            unlockBps
+        );
+        _checkCommittedBalance();
+    }
+
+    /// @notice Create one schedule per beneficiary from a named template. Only owner or an authorized creator.
+    /// @param beneficiaries Addresses of the beneficiaries (at most MAX_VESTING_BATCH)
+    /// @param amounts Tokens to vest for each beneficiary (in token units)
+    /// @param start Start timestamp of every schedule (>= now)
+    /// @param template Name of a template set with setVestingTemplate
+    /// @return scheduleIds Index of each new schedule for its beneficiary
+    function createVestingBatch(
+        address[] calldata beneficiaries,
+        uint256[] calldata amounts,
+        uint256 start,
+        string calldata template
+    ) external onlyOwnerOrCreator whenNotPaused returns (uint256[] memory scheduleIds) {
+        require(beneficiaries.length == amounts.length, "Vesting: length mismatch");
+        require(beneficiaries.length > 0, "Vesting: empty batch");
+        require(beneficiaries.length <= MAX_VESTING_BATCH, "Vesting: batch too large");
+
+        VestingTemplate memory shape = templates[keccak256(bytes(template))];
+        require(shape.duration > 0, "Vesting: unknown template");
+
+        uint256[] memory none;
+        scheduleIds = new uint256[](beneficiaries.length);
+        for (uint256 i = 0; i < beneficiaries.length; i++) {
+            scheduleIds[i] = _createVesting(
+                beneficiaries[i],
+                amounts[i],
+                start,
+                shape.duration,
+                shape.cliff,
+                shape.revocable,
+                UnlockCurve.Linear,
+                0,
+                none,
+                none
+            );
+        }
+        _checkCommittedBalance();
+    }
+
+    function _createVesting(
+        address beneficiary,
+        uint256 totalAmount,
+        uint256 start,
+        uint256 duration,
+        uint256 cliff,
+        bool revocable,
+        UnlockCurve curve,
+        uint256 stepInterval,
+        uint256[] memory unlockTimes,
+        uint256[] memory unlockBps
+    ) internal returns (uint256 scheduleId) {
         require(beneficiary != address(0), "Vesting: beneficiary zero");
         require(totalAmount > 0, "Vesting: zero amount");
         require(duration > 0, "Vesting: zero duration");
         require(cliff <= duration, "Vesting: cliff greater than duration");
         require(start >= block.timestamp, "Vesting: start time in past");
 
-        require(
-            token.balanceOf(address(this)) >= totalCommitted + totalAmount,
-            "Vesting: insufficient token balance for new vesting"
-        );
-
         schedules[beneficiary].push(
             VestingSchedule({
                 totalAmount: totalAmount,
@@ -95,7 +343,9 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
                 duration: duration,
                 cliff: cliff,
                 revocable: revocable,
-                revoked: false
+                revoked: false,
+                curve: curve,
+                stepInterval: SafeCast.toUint64(stepInterval)
             })
         );
 
@@ -103,7 +353,12 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         totalCommitted += totalAmount;
         totalVestingSchedules++;
 
-        uint256 scheduleId = schedules[beneficiary].length - 1;
+        scheduleId = schedules[beneficiary].length - 1;
+        UnlockPoint[] storage table = unlockTables[beneficiary][scheduleId];
+        for (uint256 i = 0; i < unlockTimes.length; i++) {
+            table.push(UnlockPoint({timestamp: unlockTimes[i], cumulativeBps: unlockBps[i]}));
+        }
+
         emit VestingCreated(
             beneficiary,
             scheduleId,
@@ -111,7 +366,19 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
             start,
             duration,
             cliff,
-            revocable
+            revocable,
+            curve,
+            stepInterval,
+            unlockTimes,
+            unlockBps
+        );
+    }
+
+    /// @dev Checked once after the new schedules are booked, so a batch reads the balance a single time
+    function _checkCommittedBalance() internal view {
+        require(
+            token.balanceOf(address(this)) >= totalCommitted,
+            "Vesting: insufficient token balance for new vesting"
         );
     }
 
@@ -121,14 +388,15 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
 
     /// @notice Release vested tokens for all schedules of the caller
     function release() external nonReentrant whenNotPaused {
+        address beneficiary = _msgSender();
         uint256 totalReleasable = 0;
-        VestingSchedule[] storage userSchedules = schedules[msg.sender];
+        VestingSchedule[] storage userSchedules = schedules[beneficiary];
 
         for (uint256 i = 0; i < userSchedules.length; i++) {
             VestingSchedule storage schedule = userSchedules[i];
-            if (schedule.revoked) continue;
+            if (schedule.revoked || transferredTo[beneficiary][i] != address(0)) continue;
 
-            uint256 vested = _vestedAmount(schedule);
+            uint256 vested = _vestedAmount(schedule, unlockTables[beneficiary][i]);
             uint256 unreleased = 0;
             if (vested > schedule.released) {
                 unreleased = vested - schedule.released;
@@ -145,17 +413,17 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
                 totalCommitted = 0;
             }
 
-            if (totalVestedAmount[msg.sender] >= unreleased) {
-                totalVestedAmount[msg.sender] -= unreleased;
+            if (totalVestedAmount[beneficiary] >= unreleased) {
+                totalVestedAmount[beneficiary] -= unreleased;
             } else {
-                totalVestedAmount[msg.sender] = 0;
+                totalVestedAmount[beneficiary] = 0;
             }
 
-            emit TokensReleased(msg.sender, i, unreleased);
+            emit TokensReleased(beneficiary, i, unreleased);
         }
 
         require(totalReleasable > 0, "Vesting: nothing to release");
-        token.safeTransfer(msg.sender, totalReleasable);
+        token.safeTransfer(beneficiary, totalReleasable);
     }
 
     /// @notice Release vested tokens for a specific schedule
@@ -163,7 +431,8 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
     function releaseSchedule(
         uint256 scheduleId
     ) external nonReentrant whenNotPaused {
-        VestingSchedule[] storage userSchedules = schedules[msg.sender];
+        address beneficiary = _msgSender();
+        VestingSchedule[] storage userSchedules = schedules[beneficiary];
         require(
             scheduleId < userSchedules.length,
             "Vesting: invalid schedule ID"
@@ -171,8 +440,9 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
 
         VestingSchedule storage schedule = userSchedules[scheduleId];
         require(!schedule.revoked, "Vesting: schedule revoked");
+        require(transferredTo[beneficiary][scheduleId] == address(0), "Vesting: schedule transferred");
 
-        uint256 vested = _vestedAmount(schedule);
+        uint256 vested = _vestedAmount(schedule, unlockTables[beneficiary][scheduleId]);
         require(vested > schedule.released, "Vesting: nothing to release");
         uint256 unreleased = vested - schedule.released;
 
@@ -184,30 +454,41 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
             totalCommitted = 0;
         }
 
-        if (totalVestedAmount[msg.sender] >= unreleased) {
-            totalVestedAmount[msg.sender] -= unreleased;
+        if (totalVestedAmount[beneficiary] >= unreleased) {
+            totalVestedAmount[beneficiary] -= unreleased;
         } else {
-            totalVestedAmount[msg.sender] = 0;
+            totalVestedAmount[beneficiary] = 0;
         }
 
-        token.safeTransfer(msg.sender, unreleased);
-        emit TokensReleased(msg.sender, scheduleId, unreleased);
+        token.safeTransfer(beneficiary, unreleased);
+        emit TokensReleased(beneficiary, scheduleId, unreleased);
     }
 
     // -------------------------
     // Vesting math
     // -------------------------
 
-    /// @notice Calculate vested amount for a schedule with cliff support
+    /// @notice Calculate vested amount for a schedule with cliff support, following its unlock curve
+    /// @dev `table` is the schedule's unlock table, only read for Custom schedules
     function _vestedAmount(
-        VestingSchedule memory schedule
+        VestingSchedule memory schedule,
+        UnlockPoint[] storage table
     ) internal view returns (uint256) {
         if (block.timestamp < schedule.start + schedule.cliff) {
             return 0;
         } else if (block.timestamp >= schedule.start + schedule.duration) {
             return schedule.totalAmount;
+        } else if (schedule.curve == UnlockCurve.Custom) {
+            uint256 bps = 0;
+            for (uint256 i = 0; i < table.length && table[i].timestamp <= block.timestamp; i++) {
+                bps = table[i].cumulativeBps;
+            }
+            return (schedule.totalAmount * bps) / 10_000;
         } else {
             uint256 elapsed = block.timestamp - schedule.start;
+            if (schedule.curve == UnlockCurve.Step) {
+                elapsed -= elapsed % schedule.stepInterval;
+            }
             uint256 part1 = schedule.totalAmount / schedule.duration;
             uint256 part2 = schedule.totalAmount % schedule.duration;
             return part1 * elapsed + (part2 * elapsed) / schedule.duration;
@@ -234,8 +515,9 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         VestingSchedule storage schedule = userSchedules[scheduleId];
         require(schedule.revocable, "Vesting: not revocable");
         require(!schedule.revoked, "Vesting: already revoked");
+        require(transferredTo[beneficiary][scheduleId] == address(0), "Vesting: schedule transferred");
 
-        uint256 vested = _vestedAmount(schedule);
+        uint256 vested = _vestedAmount(schedule, unlockTables[beneficiary][scheduleId]);
         uint256 unvested = 0;
         if (schedule.totalAmount > vested) {
             unvested = schedule.totalAmount - vested;
@@ -262,6 +544,102 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         emit VestingRevoked(beneficiary, scheduleId, unvested);
     }
 
+    // -------------------------
+    // Schedule transfers
+    // -------------------------
+
+    /// @notice Require the owner's approval before a requested transfer can be accepted. Only owner.
+    /// @param required Whether acceptScheduleTransfer needs approveScheduleTransfer first
+    function setTransferApprovalRequired(bool required) external onlyOwner {
+        transferApprovalRequired = required;
+        emit TransferApprovalRequiredSet(required);
+    }
+
+    /// @notice Ask to move one of the caller's schedules to another wallet, e.g. after a key rotation.
+    /// The new wallet completes the move with acceptScheduleTransfer; a new request replaces the previous one.
+    /// @param scheduleId Index of the caller's schedule
+    /// @param to Wallet that will receive the schedule
+    function requestScheduleTransfer(
+        uint256 scheduleId,
+        address to
+    ) external whenNotPaused {
+        address from = _msgSender();
+        _requireTransferable(from, scheduleId);
+        require(to != address(0), "Vesting: new beneficiary zero");
+        require(to != from, "Vesting: same beneficiary");
+
+        pendingTransfers[from][scheduleId] = ScheduleTransfer({to: to, approved: false});
+        emit VestingTransferRequested(from, scheduleId, to);
+    }
+
+    /// @notice Withdraw a pending transfer request of the caller
+    /// @param scheduleId Index of the caller's schedule
+    function cancelScheduleTransfer(uint256 scheduleId) external {
+        address from = _msgSender();
+        require(pendingTransfers[from][scheduleId].to != address(0), "Vesting: no pending transfer");
+        delete pendingTransfers[from][scheduleId];
+        emit VestingTransferCancelled(from, scheduleId);
+    }
+
+    /// @notice Approve a pending transfer request. Only owner.
+    /// @param from Current beneficiary of the schedule
+    /// @param scheduleId Index of the schedule
+    function approveScheduleTransfer(
+        address from,
+        uint256 scheduleId
+    ) external onlyOwner {
+        ScheduleTransfer storage request = pendingTransfers[from][scheduleId];
+        require(request.to != address(0), "Vesting: no pending transfer");
+        request.approved = true;
+        emit VestingTransferApproved(from, scheduleId, request.to);
+    }
+
+    /// @notice Accept a schedule transfer requested to the caller. The schedule keeps its amounts,
+    /// releases and timing under a new index of the caller; the old entry stays as history and is inactive.
+    /// @param from Current beneficiary of the schedule
+    /// @param scheduleId Index of the schedule
+    /// @return newScheduleId Index of the schedule for the caller
+    function acceptScheduleTransfer(
+        address from,
+        uint256 scheduleId
+    ) external whenNotPaused returns (uint256 newScheduleId) {
+        address to = _msgSender();
+        ScheduleTransfer memory request = pendingTransfers[from][scheduleId];
+        require(request.to != address(0) && request.to == to, "Vesting: no pending transfer");
+        require(!transferApprovalRequired || request.approved, "Vesting: transfer not approved");
+        _requireTransferable(from, scheduleId);
+
+        delete pendingTransfers[from][scheduleId];
+        transferredTo[from][scheduleId] = to;
+
+        VestingSchedule memory schedule = schedules[from][scheduleId];
+        schedules[to].push(schedule);
+        newScheduleId = schedules[to].length - 1;
+        UnlockPoint[] storage table = unlockTables[from][scheduleId];
+        for (uint256 i = 0; i < table.length; i++) {
+            unlockTables[to][newScheduleId].push(table[i]);
+        }
+
+        uint256 remaining = schedule.totalAmount - schedule.released;
+        if (totalVestedAmount[from] >= remaining) {
+            totalVestedAmount[from] -= remaining;
+        } else {
+            totalVestedAmount[from] = 0;
+        }
+        totalVestedAmount[to] += remaining;
+
+        emit VestingTransferred(from, scheduleId, to, newScheduleId);
+    }
+
+    function _requireTransferable(address beneficiary, uint256 scheduleId) internal view {
+        require(
+            scheduleId < schedules[beneficiary].length,
+            "Vesting: invalid schedule ID"
+        );
+        require(!schedules[beneficiary][scheduleId].revoked, "Vesting: schedule revoked");
+        require(transferredTo[beneficiary][scheduleId] == address(0), "Vesting: schedule transferred");
+    }
+
     // -------------------------
     // Admin utilities
     // -------------------------
@@ -305,7 +683,7 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
             scheduleId < schedules[beneficiary].length,
             "Vesting: invalid schedule ID"
         );
-        return _vestedAmount(schedules[beneficiary][scheduleId]);
+        return _vestedAmount(schedules[beneficiary][scheduleId], unlockTables[beneficiary][scheduleId]);
     }
 
     /// @notice Get releasable amount for a specific schedule
@@ -320,8 +698,8 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
             "Vesting: invalid schedule ID"
         );
         VestingSchedule memory schedule = schedules[beneficiary][scheduleId];
-        if (schedule.revoked) return 0;
-        uint256 vested = _vestedAmount(schedule);
+        if (schedule.revoked || transferredTo[beneficiary][scheduleId] != address(0)) return 0;
+        uint256 vested = _vestedAmount(schedule, unlockTables[beneficiary][scheduleId]);
         return (vested > schedule.released) ? (vested - schedule.released) : 0;
     }
 
@@ -334,8 +712,8 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         VestingSchedule[] memory userSchedules = schedules[beneficiary];
 
         for (uint256 i = 0; i < userSchedules.length; i++) {
-            if (userSchedules[i].revoked) continue;
-            uint256 vested = _vestedAmount(userSchedules[i]);
+            if (userSchedules[i].revoked || transferredTo[beneficiary][i] != address(0)) continue;
+            uint256 vested = _vestedAmount(userSchedules[i], unlockTables[beneficiary][i]);
             uint256 unreleased = (vested > userSchedules[i].released)
                 ? (vested - userSchedules[i].released)
                 : 0;
@@ -359,8 +737,46 @@ contract TokenVesting is Ownable, ReentrancyGuard, Pausable {
         return schedules[beneficiary][scheduleId];
     }
 
+    /// @notice Get the unlock table of a Custom schedule, empty for the other curves
+    /// @param beneficiary Address of beneficiary
+    /// @param scheduleId Index of schedule
+    function getUnlockTable(
+        address beneficiary,
+        uint256 scheduleId
+    ) external view returns (UnlockPoint[] memory) {
+        require(
+            scheduleId < schedules[beneficiary].length,
+            "Vesting: invalid schedule ID"
+        );
+        return unlockTables[beneficiary][scheduleId];
+    }
+
+    /// @notice Get a schedule template by name; duration 0 means it is not set
+    /// @param name Template name
+    function getVestingTemplate(
+        string calldata name
+    ) external view returns (VestingTemplate memory) {
+        return templates[keccak256(bytes(name))];
+    }
+
     /// @notice Get total committed tokens across all vesting schedules (not yet distributed)
     function getTotalCommitted() external view returns (uint256) {
         return totalCommitted;
     }
+
+    // -------------------------
+    // ERC-2771
+    // -------------------------
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
+    }
 }
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./TokenVesting.sol";
+
+/// @title TokenVestingUpgradeable - TokenVesting behind a UUPS (ERC-1967) proxy
+/// @notice Same vesting as TokenVesting; the owner can upgrade the implementation without moving schedules
+/// @dev The token and the trusted forwarder are immutables of the implementation; the owner is set by initialize().
+/// New versions must keep this storage layout and only append state.
+contract TokenVestingUpgradeable is TokenVesting, Initializable, UUPSUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address token_, address trustedForwarder_) TokenVesting(token_, trustedForwarder_) {
+        _disableInitializers();
+    }
+
+    function initialize(address owner_) external initializer {
+        if (owner_ == address(0)) revert OwnableInvalidOwner(address(0));
+        _transferOwnership(owner_);
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+}
@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+struct Phase {
+    uint256 priceWei; // price per token unit in wei
+    uint256 supply;   // tokens available in this phase (token units)
+    uint256 sold;     // tokens sold in this phase (token units)
+    uint256 start;    // unix timestamp
+    uint256 end;      // unix timestamp
+    uint256 priceIncrementWei; // bonding curve: price rise per whole token sold (or per step), 0 = flat
+    uint256 stepSize;          // bonding curve: token units per price step, 0 = linear
+    uint256 minBuy;            // wei, 0 = global minBuy
+    uint256 maxPerWallet;      // wei per wallet in this phase, 0 = global maxPerWallet over the whole sale
+}
+
+/// @dev Descending-price auction run in place of a phase's fixed price. Bidders lock a token amount at the
+/// current price and all pay the clearing price: the price when the phase sold out, or at its end otherwise.
+struct Auction {
+    uint256 startPrice;     // wei per whole token at phase start
+    uint256 floorPrice;     // price stops decaying here
+    uint256 decayPerSecond; // wei per whole token per second
+    uint256 clearingPrice;  // set on sell-out or settlement
+    bool settled;
+}
+
+/// @title PhaseConfig - Owner-side phase management for DynamicPresale
+/// @notice Validates and stores phase schedules, curves, limits and auctions on the presale's storage
+/// @dev Deployed once and linked like PhasePricing. None of it runs on the buy path, so the extra call
+/// only costs the owner. The events mirror the ones DynamicPresale declares for its ABI.
+library PhaseConfig {
+    event PhaseAdded(uint256 indexed phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end);
+    event PhaseUpdated(uint256 indexed phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end);
+    event PhaseCurveSet(uint256 indexed phaseId, uint256 priceIncrementWei, uint256 stepSize);
+    event PhaseLimitsSet(uint256 indexed phaseId, uint256 minBuy, uint256 maxPerWallet);
+    event AuctionSet(uint256 indexed phaseId, uint256 startPrice, uint256 floorPrice, uint256 decayPerSecond);
+
+    function addPhase(Phase[] storage phases, uint256 priceWei, uint256 supply, uint256 start, uint256 end) public {
+        require(priceWei > 0, "Presale: price must be greater than 0");
+        require(supply > 0, "Presale: supply must be greater than 0");
+        require(start < end, "Presale: invalid phase time");
+        require(start > block.timestamp, "Presale: start time must be in future");
+
+        for (uint256 i = 0; i < phases.length; i++) {
+            require(start >= phases[i].end || end <= phases[i].start, "Presale: overlapping phases");
+        }
+
+        phases.push(
+            Phase({
+                priceWei: priceWei,
+                supply: supply,
+                sold: 0,
+                start: start,
+                end: end,
+                priceIncrementWei: 0,
+                stepSize: 0,
+                minBuy: 0,
+                maxPerWallet: 0
+            })
+        );
+        emit PhaseAdded(phases.length - 1, priceWei, supply, start, end);
+    }
+
+    /// @dev Spillover may already have sold from an upcoming phase, so supply cannot drop below `sold`
+    function updatePhase(
+        Phase[] storage phases,
+        uint256 phaseId,
+        uint256 priceWei,
+        uint256 supply,
+        uint256 newStart,
+        uint256 newEnd
+    ) public {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        require(priceWei > 0, "Presale: price must be greater than 0");
+        require(supply > 0, "Presale: supply must be greater than 0");
+        require(newStart < newEnd, "Presale: invalid phase time");
+        Phase storage phase = _upcoming(phases, phaseId);
+        require(supply >= phase.sold, "Presale: supply below sold");
+
+        for (uint256 i = 0; i < phases.length; i++) {
+            if (i == phaseId) continue;
+            require(newStart >= phases[i].end || newEnd <= phases[i].start, "Presale: overlapping phases");
+        }
+
+        phase.priceWei = priceWei;
+        phase.supply = supply;
+        phase.start = newStart;
+        phase.end = newEnd;
+        emit PhaseUpdated(phaseId, priceWei, supply, newStart, newEnd);
+    }
+
+    function setCurve(Phase[] storage phases, uint256 phaseId, uint256 priceIncrementWei, uint256 stepSize) public {
+        Phase storage phase = _upcoming(phases, phaseId);
+        require(phase.sold == 0, "Presale: phase has sales");
+        phase.priceIncrementWei = priceIncrementWei;
+        phase.stepSize = stepSize;
+        emit PhaseCurveSet(phaseId, priceIncrementWei, stepSize);
+    }
+
+    /// @param globalMinBuy Sale-wide minBuy, which the phase max must cover when the phase has no own minimum
+    function setLimits(
+        Phase[] storage phases,
+        uint256 phaseId,
+        uint256 minBuy,
+        uint256 maxPerWallet,
+        uint256 globalMinBuy
+    ) public {
+        Phase storage phase = _upcoming(phases, phaseId);
+        require(
+            maxPerWallet == 0 || maxPerWallet >= (minBuy > 0 ? minBuy : globalMinBuy),
+            "Presale: maxPerWallet >= minBuy"
+        );
+
+        phase.minBuy = minBuy;
+        phase.maxPerWallet = maxPerWallet;
+        emit PhaseLimitsSet(phaseId, minBuy, maxPerWallet);
+    }
+
+    function setAuction(
+        Phase[] storage phases,
+        mapping(uint256 => Auction) storage auctions,
+        uint256 phaseId,
+        uint256 startPrice,
+        uint256 floorPrice,
+        uint256 decayPerSecond
+    ) public {
+        Phase storage phase = _upcoming(phases, phaseId);
+        require(floorPrice > 0 && startPrice >= floorPrice, "Presale: invalid auction prices");
+        require(phase.sold == 0, "Presale: phase has sales");
+
+        auctions[phaseId] = Auction({
+            startPrice: startPrice,
+            floorPrice: floorPrice,
+            decayPerSecond: decayPerSecond,
+            clearingPrice: 0,
+            settled: false
+        });
+        emit AuctionSet(phaseId, startPrice, floorPrice, decayPerSecond);
+    }
+
+    /// @dev Phase `phaseId`, which must not have started yet
+    function _upcoming(Phase[] storage phases, uint256 phaseId) private view returns (Phase storage phase) {
+        require(phaseId < phases.length, "Presale: invalid phase ID");
+        phase = phases[phaseId];
+        require(block.timestamp < phase.start, "Presale: cannot update active/past phase");
+    }
+}
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @title PhasePricing - Phase price curves for DynamicPresale
+/// @notice Prices are in wei per whole token and rise with the tokens already sold in the phase:
+/// flat when `increment` is 0, linear (`increment` per whole token sold) when `stepSize` is 0,
+/// and stepwise (`increment` after every `stepSize` token units sold) otherwise.
+/// @dev Deployed once and linked, which keeps the curve math out of the presale bytecode
+library PhasePricing {
+    /// @notice Spot price after `sold` token units
+    function priceAt(uint256 priceWei, uint256 increment, uint256 stepSize, uint256 sold, uint256 unit)
+        public
+        pure
+        returns (uint256)
+    {
+        if (increment == 0) return priceWei;
+        if (stepSize == 0) return priceWei + (increment * sold) / unit;
+        return priceWei + increment * (sold / stepSize);
+    }
+
+    /// @notice Exact cost in wei of `amount` token units bought after `sold` units, rounded down
+    function costOf(
+        uint256 priceWei,
+        uint256 increment,
+        uint256 stepSize,
+        uint256 sold,
+        uint256 amount,
+        uint256 unit
+    ) public pure returns (uint256) {
+        if (increment == 0 || amount == 0) return (amount * priceWei) / unit;
+        if (stepSize == 0) {
+            // integral of priceWei + increment * s / unit over [sold, sold + amount], per unit
+            return (2 * unit * priceWei * amount + increment * amount * (2 * sold + amount)) / (2 * unit * unit);
+        }
+        return (_stepArea(priceWei, increment, stepSize, sold + amount) - _stepArea(priceWei, increment, stepSize, sold))
+            / unit;
+    }
+
+    /// @notice Largest amount of token units, up to `available`, that `budget` wei buys after `sold` units
+    /// @return tokens Token units bought
+    /// @return cost Exact cost of `tokens`, never above `budget`
+    function tokensFor(
+        uint256 priceWei,
+        uint256 increment,
+        uint256 stepSize,
+        uint256 sold,
+        uint256 budget,
+        uint256 available,
+        uint256 unit
+    ) public pure returns (uint256 tokens, uint256 cost) {
+        // the price never drops below priceWei, so this also bounds the curve
+        uint256 hi = (budget * unit) / priceWei;
+        if (hi > available) hi = available;
+        if (increment == 0) return (hi, (hi * priceWei) / unit);
+
+        cost = costOf(priceWei, increment, stepSize, sold, hi, unit);
+        if (cost <= budget) return (hi, cost);
+
+        // cost is monotonic in the amount: binary search the largest amount that fits
+        uint256 lo = 0;
+        while (hi - lo > 1) {
+            uint256 mid = (lo + hi) / 2;
+            if (costOf(priceWei, increment, stepSize, sold, mid, unit) <= budget) {
+                lo = mid;
+            } else {
+                hi = mid;
+            }
+        }
+        return (lo, costOf(priceWei, increment, stepSize, sold, lo, unit));
+    }
+
+    /// @dev Area under the stepwise curve over [0, s], in wei * token units
+    function _stepArea(uint256 priceWei, uint256 increment, uint256 stepSize, uint256 s)
+        private
+        pure
+        returns (uint256)
+    {
+        uint256 steps = s / stepSize;
+        if (steps == 0) return priceWei * s;
+        // full steps contribute increment * stepSize * (0 + 1 + ... + steps - 1), the partial one increment * steps
+        return priceWei * s + increment * ((stepSize * steps * (steps - 1)) / 2 + steps * (s - steps * stepSize));
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/AggregatorV3Interface.sol";
+
+/// @title PriceFeed - Checked ETH/USD oracle reads for DynamicPresale
+/// @notice Converts USD phase prices to wei at the feed's latest answer
+/// @dev Deployed once and linked, like PhasePricing
+library PriceFeed {
+    /// @notice Latest answer of `feed`, rejected when older than `maxAge` seconds or, with `maxDeviationBps`
+    /// set, when it moved more than that from the previous round
+    function latestPrice(AggregatorV3Interface feed, uint256 maxAge, uint256 maxDeviationBps)
+        public
+        view
+        returns (uint256)
+    {
+        (uint80 roundId, int256 answer, , uint256 updatedAt, ) = feed.latestRoundData();
+        require(answer > 0, "Presale: invalid oracle price");
+        require(updatedAt != 0 && block.timestamp - updatedAt <= maxAge, "Presale: stale oracle price");
+        uint256 price = uint256(answer);
+
+        if (maxDeviationBps > 0 && roundId > 1) {
+            // the previous round may not exist across aggregator upgrades, which skips the check
+            try feed.getRoundData(roundId - 1) returns (uint80, int256 previous, uint256, uint256, uint80) {
+                if (previous > 0) {
+                    uint256 prev = uint256(previous);
+                    uint256 diff = price > prev ? price - prev : prev - price;
+                    require(diff * 10_000 <= prev * maxDeviationBps, "Presale: oracle price deviation");
+                }
+            } catch {}
+        }
+        return price;
+    }
+
+    /// @notice Wei per whole token for `usdCents` per whole token at `ethUsd` (feed answer with `feedDecimals`)
+    function usdCentsToWei(uint256 usdCents, uint256 ethUsd, uint8 feedDecimals) public pure returns (uint256) {
+        return (usdCents * 1e18 * 10 ** uint256(feedDecimals)) / (100 * ethUsd);
+    }
+}
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @dev Payees sharing a sale's ETH proceeds. Each is owed their basis points of all proceeds,
+/// the ones already released included, so proceeds that become withdrawable later are split the same way.
+struct PayeeSplit {
+    address[] payees;
+    mapping(address => uint256) shareBps;
+    mapping(address => uint256) released; // payee => ETH paid out
+    uint256 totalReleased;
+}
+
+/// @title ProceedsSplit - Basis-point split of DynamicPresale proceeds between payees
+/// @notice Keeps the payee shares and what each was paid; the presale moves the ETH
+/// @dev Deployed once and linked like PhaseConfig. The event mirrors the one DynamicPresale declares for its ABI.
+library ProceedsSplit {
+    event PayeesSet(address[] payees, uint256[] sharesBps);
+
+    /// @notice Replace the payees; shares must total 10000. An empty list removes the split.
+    function setPayees(
+        PayeeSplit storage split,
+        uint256 maxPayees,
+        address[] calldata newPayees,
+        uint256[] calldata sharesBps
+    ) public {
+        require(newPayees.length == sharesBps.length, "Presale: payees and shares mismatch");
+        require(newPayees.length <= maxPayees, "Presale: too many payees");
+
+        for (uint256 i = 0; i < split.payees.length; i++) {
+            split.shareBps[split.payees[i]] = 0;
+        }
+        delete split.payees;
+
+        uint256 totalBps;
+        for (uint256 i = 0; i < newPayees.length; i++) {
+            require(newPayees[i] != address(0), "Presale: payee address zero");
+            require(sharesBps[i] > 0, "Presale: share zero");
+            require(split.shareBps[newPayees[i]] == 0, "Presale: duplicate payee");
+            split.shareBps[newPayees[i]] = sharesBps[i];
+            split.payees.push(newPayees[i]);
+            totalBps += sharesBps[i];
+        }
+        require(newPayees.length == 0 || totalBps == 10_000, "Presale: shares must total 10000");
+        emit PayeesSet(newPayees, sharesBps);
+    }
+
+    /// @notice ETH owed to `payee` with `withdrawable` wei of proceeds still in the contract
+    function pending(PayeeSplit storage split, address payee, uint256 withdrawable) public view returns (uint256) {
+        uint256 totalProceeds = withdrawable + split.totalReleased;
+        return (totalProceeds * split.shareBps[payee]) / 10_000 - split.released[payee];
+    }
+
+    /// @notice Book everything owed to `payee` as released; the caller pays it out
+    function release(PayeeSplit storage split, address payee, uint256 withdrawable) public returns (uint256 amount) {
+        require(split.shareBps[payee] > 0, "Presale: not a payee");
+        amount = pending(split, payee, withdrawable);
+        require(amount > 0, "Presale: nothing to release");
+        split.released[payee] += amount;
+        split.totalReleased += amount;
+    }
+
+    function payeesOf(PayeeSplit storage split)
+        public
+        view
+        returns (address[] memory accounts, uint256[] memory sharesBps, uint256[] memory released)
+    {
+        accounts = split.payees;
+        sharesBps = new uint256[](accounts.length);
+        released = new uint256[](accounts.length);
+        for (uint256 i = 0; i < accounts.length; i++) {
+            sharesBps[i] = split.shareBps[accounts[i]];
+            released[i] = split.released[accounts[i]];
+        }
+    }
+}
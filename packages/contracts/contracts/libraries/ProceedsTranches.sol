@@ -0,0 +1,137 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @dev Share of the ETH proceeds released once its milestone is met: an unlock time, an approval, or both
+struct Tranche {
+    uint256 bps;        // share of the proceeds in basis points
+    uint256 unlockTime; // unix timestamp, 0 = no time lock
+    bool needsApproval; // also waits for approveTranche
+    bool approved;
+    bool withdrawn;
+}
+
+/// @dev Milestone schedule of a sale's ETH proceeds. Buyers can vote, weighted by their ETH contribution,
+/// to halt the tranches not withdrawn yet; the proceeds left are then refunded pro-rata to contributions.
+struct TrancheSchedule {
+    Tranche[] tranches;
+    uint256 withdrawn;     // ETH paid out through tranches
+    uint256 haltQuorumBps; // share of totalRaised whose votes halt the schedule, 0 = no vote
+    uint256 haltVotesWei;
+    mapping(address => bool) votedToHalt;
+    bool halted;
+    uint256 refundPool;    // proceeds left when halted
+    uint256 refundBase;    // totalRaised when halted
+}
+
+/// @title ProceedsTranches - Milestone-based release of DynamicPresale proceeds
+/// @notice Validates the schedule and books withdrawals, halt votes and refunds; the presale moves the ETH
+/// @dev Deployed once and linked like PhaseConfig. The events mirror the ones DynamicPresale declares for its ABI.
+library ProceedsTranches {
+    event TranchesSet(uint256[] bps, uint256[] unlockTimes, bool[] needsApproval, uint256 haltQuorumBps);
+    event TrancheApproved(uint256 indexed index);
+    event TrancheWithdrawn(uint256 indexed index, uint256 amount);
+    event TrancheHaltVoted(address indexed voter, uint256 weight, uint256 totalVotes);
+    event TranchesHalted(uint256 refundPool);
+
+    /// @notice Replace the schedule; shares must total 10000. An empty list removes it.
+    function setTranches(
+        TrancheSchedule storage schedule,
+        uint256 maxTranches,
+        uint256[] calldata bps,
+        uint256[] calldata unlockTimes,
+        bool[] calldata needsApproval,
+        uint256 haltQuorumBps
+    ) public {
+        require(
+            bps.length == unlockTimes.length && bps.length == needsApproval.length,
+            "Presale: tranche arrays mismatch"
+        );
+        require(bps.length <= maxTranches, "Presale: too many tranches");
+        require(haltQuorumBps <= 10_000, "Presale: quorum too high");
+
+        delete schedule.tranches;
+        uint256 totalBps;
+        for (uint256 i = 0; i < bps.length; i++) {
+            require(bps[i] > 0, "Presale: share zero");
+            schedule.tranches.push(
+                Tranche({
+                    bps: bps[i],
+                    unlockTime: unlockTimes[i],
+                    needsApproval: needsApproval[i],
+                    approved: false,
+                    withdrawn: false
+                })
+            );
+            totalBps += bps[i];
+        }
+        require(bps.length == 0 || totalBps == 10_000, "Presale: shares must total 10000");
+        schedule.haltQuorumBps = haltQuorumBps;
+        emit TranchesSet(bps, unlockTimes, needsApproval, haltQuorumBps);
+    }
+
+    function approve(TrancheSchedule storage schedule, uint256 index) public {
+        require(index < schedule.tranches.length, "Presale: invalid tranche");
+        Tranche storage tranche = schedule.tranches[index];
+        require(tranche.needsApproval, "Presale: tranche needs no approval");
+        require(!tranche.approved, "Presale: tranche already approved");
+        tranche.approved = true;
+        emit TrancheApproved(index);
+    }
+
+    /// @notice Book tranche `index` as withdrawn, with `withdrawable` wei of proceeds still in the contract.
+    /// Its amount is its share of all proceeds, the tranches already withdrawn included.
+    function withdraw(TrancheSchedule storage schedule, uint256 index, uint256 withdrawable)
+        public
+        returns (uint256 amount)
+    {
+        require(!schedule.halted, "Presale: tranches halted");
+        require(index < schedule.tranches.length, "Presale: invalid tranche");
+        Tranche storage tranche = schedule.tranches[index];
+        require(!tranche.withdrawn, "Presale: tranche already withdrawn");
+        require(block.timestamp >= tranche.unlockTime, "Presale: tranche locked");
+        require(!tranche.needsApproval || tranche.approved, "Presale: tranche not approved");
+
+        amount = ((withdrawable + schedule.withdrawn) * tranche.bps) / 10_000;
+        require(amount > 0, "Presale: nothing withdrawable (reserved escrow)");
+        tranche.withdrawn = true;
+        schedule.withdrawn += amount;
+        emit TrancheWithdrawn(index, amount);
+    }
+
+    /// @notice Count `weight` (the voter's ETH contribution) towards halting; returns true once the schedule halts.
+    /// Only possible while a tranche is left to halt
+    function voteToHalt(
+        TrancheSchedule storage schedule,
+        address voter,
+        uint256 weight,
+        uint256 totalRaised,
+        uint256 withdrawable
+    ) public returns (bool) {
+        require(schedule.haltQuorumBps > 0, "Presale: no tranche vote");
+        require(!schedule.halted, "Presale: tranches halted");
+        require(weight > 0, "Presale: no contribution");
+        require(!schedule.votedToHalt[voter], "Presale: already voted");
+        bool pending;
+        for (uint256 i = 0; i < schedule.tranches.length && !pending; i++) {
+            pending = !schedule.tranches[i].withdrawn;
+        }
+        require(pending, "Presale: all tranches withdrawn");
+
+        schedule.votedToHalt[voter] = true;
+        schedule.haltVotesWei += weight;
+        emit TrancheHaltVoted(voter, weight, schedule.haltVotesWei);
+
+        if (schedule.haltVotesWei * 10_000 < totalRaised * schedule.haltQuorumBps) return false;
+        schedule.halted = true;
+        schedule.refundPool = withdrawable;
+        schedule.refundBase = totalRaised;
+        emit TranchesHalted(withdrawable);
+        return true;
+    }
+
+    /// @notice Pro-rata refund of a halted schedule for a buyer who contributed `weight`
+    function refundOf(TrancheSchedule storage schedule, uint256 weight) public view returns (uint256) {
+        if (!schedule.halted || schedule.refundBase == 0) return 0;
+        return (schedule.refundPool * weight) / schedule.refundBase;
+    }
+}
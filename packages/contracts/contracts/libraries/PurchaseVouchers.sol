@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+
+/// @dev Off-chain purchase approval, e.g. from a KYC provider. Signed as EIP-712 typed data.
+struct Voucher {
+    address buyer;     // wallet allowed to buy
+    uint256 maxAmount; // most wei the purchase may send
+    uint256 expiry;    // unix timestamp, inclusive
+    uint256 nonce;     // single use per buyer
+}
+
+/// @title PurchaseVouchers - EIP-712 voucher signatures for DynamicPresale
+/// @notice Domain: name "DynamicPresale", version "1", the chain id and the presale address
+/// @dev Deployed once and linked like PhasePricing. It runs in the presale's context, so `address(this)`
+/// is the verifying contract.
+library PurchaseVouchers {
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant VOUCHER_TYPEHASH =
+        keccak256("Voucher(address buyer,uint256 maxAmount,uint256 expiry,uint256 nonce)");
+
+    /// @notice Address that signed `voucher`, address(0) for a malformed signature
+    function signer(Voucher calldata voucher, bytes calldata signature) public view returns (address) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("DynamicPresale"), keccak256("1"), block.chainid, address(this))
+        );
+        bytes32 structHash = keccak256(
+            abi.encode(VOUCHER_TYPEHASH, voucher.buyer, voucher.maxAmount, voucher.expiry, voucher.nonce)
+        );
+        (address recovered, , ) =
+            ECDSA.tryRecover(MessageHashUtils.toTypedDataHash(domainSeparator, structHash), signature);
+        return recovered;
+    }
+}
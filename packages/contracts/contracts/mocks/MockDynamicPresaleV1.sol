@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "../interfaces/AggregatorV3Interface.sol";
+import "../libraries/PhaseConfig.sol";
+
+/// @title MockDynamicPresaleV1 - Test-only stand-in for the first, Ownable DynamicPresaleUpgradeable
+/// @notice Same parents and leading state as that version, so upgrading it exercises the role migration
+contract MockDynamicPresaleV1 is ReentrancyGuard, Pausable, Ownable, Initializable, UUPSUpgradeable {
+    uint256 public softCap;
+    uint256 public minBuy;
+    uint256 public maxPerWallet;
+    uint256 public hardCap;
+    bool public spilloverEnabled;
+
+    Phase[] public phases;
+
+    uint256 public totalRaised;
+    uint256 public totalTokensSold;
+    bool public saleEnded;
+    bool public softCapReached;
+    bool public phaseLimitsSet;
+    bool public hasAuctions;
+    AggregatorV3Interface public priceFeed;
+    uint8 public priceFeedDecimals;
+    bool public vouchersRequired;
+
+    mapping(address => uint256) public contributionsWei;
+    mapping(address => uint256) public pendingTokens;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() Ownable(msg.sender) {
+        _disableInitializers();
+    }
+
+    function initialize(address owner_, uint256 softCap_, uint256 minBuy_, uint256 maxPerWallet_) external initializer {
+        _transferOwnership(owner_);
+        softCap = softCap_;
+        minBuy = minBuy_;
+        maxPerWallet = maxPerWallet_;
+    }
+
+    function recordPurchase(address buyer, uint256 amountWei, uint256 tokens) external onlyOwner {
+        contributionsWei[buyer] += amountWei;
+        pendingTokens[buyer] += tokens;
+        totalRaised += amountWei;
+        totalTokensSold += tokens;
+    }
+
+    function _authorizeUpgrade(address) internal override onlyOwner {}
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../TokenVestingUpgradeable.sol";
+
+contract MockStorageGap {
+    uint256 internal shiftedSlot;
+}
+
+/// @title MockTokenVestingBadLayout - Test-only incompatible upgrade of TokenVestingUpgradeable
+/// @notice Inherits a state variable ahead of TokenVesting, shifting every existing slot; upgrade checks must reject it
+contract MockTokenVestingBadLayout is MockStorageGap, TokenVestingUpgradeable {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address token_, address trustedForwarder_) TokenVestingUpgradeable(token_, trustedForwarder_) {}
+}
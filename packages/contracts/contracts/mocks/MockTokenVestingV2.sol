@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.22;
+
+import "../TokenVestingUpgradeable.sol";
+
+/// @title MockTokenVestingV2 - Test-only upgrade of TokenVestingUpgradeable
+/// @notice Appends state after the existing layout, as a compatible new version must
+/// @custom:oz-upgrades-from TokenVestingUpgradeable
+contract MockTokenVestingV2 is TokenVestingUpgradeable {
+    uint256 public upgradedAt;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor(address token_, address trustedForwarder_) TokenVestingUpgradeable(token_, trustedForwarder_) {}
+
+    function initializeV2() external reinitializer(2) {
+        upgradedAt = block.timestamp;
+    }
+
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/AggregatorV3Interface.sol";
+
+/// @title MockV3Aggregator - Test-only Chainlink price feed
+/// @notice Anyone can push answers; every update opens a new round stamped with the current block time
+contract MockV3Aggregator is AggregatorV3Interface {
+    uint8 public immutable override decimals;
+
+    uint80 public latestRound;
+    mapping(uint80 => int256) public getAnswer;
+    mapping(uint80 => uint256) public getTimestamp;
+
+    constructor(uint8 decimals_, int256 initialAnswer) {
+        decimals = decimals_;
+        updateAnswer(initialAnswer);
+    }
+
+    function updateAnswer(int256 answer) public {
+        updateRoundData(latestRound + 1, answer, block.timestamp);
+    }
+
+    /// @notice Set a round directly, e.g. to simulate a stale price with an old `updatedAt`
+    function updateRoundData(uint80 roundId, int256 answer, uint256 updatedAt) public {
+        latestRound = roundId;
+        getAnswer[roundId] = answer;
+        getTimestamp[roundId] = updatedAt;
+    }
+
+    function description() external pure override returns (string memory) {
+        return "MockV3Aggregator";
+    }
+
+    function version() external pure override returns (uint256) {
+        return 4;
+    }
+
+    function getRoundData(uint80 roundId)
+        external
+        view
+        override
+        returns (uint80, int256, uint256, uint256, uint80)
+    {
+        return (roundId, getAnswer[roundId], getTimestamp[roundId], getTimestamp[roundId], roundId);
+    }
+
+    function latestRoundData() external view override returns (uint80, int256, uint256, uint256, uint80) {
+        return (latestRound, getAnswer[latestRound], getTimestamp[latestRound], getTimestamp[latestRound], latestRound);
+    }
+}
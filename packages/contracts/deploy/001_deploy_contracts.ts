@@ -28,6 +28,27 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const PHASE_2_PRICE = ethers.parseUnits("0.002", "ether"); // 0.002 ETH per token
   const PHASE_SUPPLY = ethers.parseEther("100000"); // 100k tokens per phase
 
+  // Claim vesting parameters (presale claims: TGE unlock + linear vesting), applied with VESTING_CLAIMS=true
+  const vestingClaims = process.env.VESTING_CLAIMS === "true";
+  const TGE_UNLOCK_BPS = 2000; // 20% unlocked at claim
+  const CLAIM_VESTING_CLIFF = 30 * 24 * 60 * 60; // 30 days
+  const CLAIM_VESTING_DURATION = 180 * 24 * 60 * 60; // 6 months
+
+  // ETH/USD feed for USD-priced phases: a mock on local networks, ETH_USD_FEED elsewhere
+  const ETH_USD_PRICE = 2000n * 10n ** 8n; // $2,000 with 8 feed decimals
+  const PRICE_FEED_MAX_AGE = 60 * 60; // 1 hour
+  const PRICE_FEED_MAX_DEVIATION_BPS = 1000; // 10%
+  const isLocal = hre.network.name === "hardhat" || hre.network.name === "localhost";
+
+  // UPGRADEABLE=true deploys DynamicPresale and TokenVesting behind UUPS proxies; upgrade with scripts/upgrade.ts
+  const upgradeable = process.env.UPGRADEABLE === "true";
+  const uupsProxy = (initArgs: unknown[]) => ({
+    proxyContract: "UUPS",
+    execute: { init: { methodName: "initialize", args: initArgs } },
+    // OpenZeppelin 5 UUPS implementations only expose upgradeToAndCall
+    upgradeFunction: { methodName: "upgradeToAndCall", upgradeArgs: ["{implementation}", "0x"] },
+  });
+
   // Deploy MyToken
   log("Deploying MyToken...");
   const myToken = await deploy("MyToken", {
@@ -39,33 +60,157 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   log(`MyToken deployed at: ${myToken.address}`);
 
-  // Deploy DynamicPresale
-  log("Deploying DynamicPresale...");
-  const dynamicPresale = await deploy("DynamicPresale", {
+  // Deploy PhasePricing (linked into DynamicPresale)
+  log("Deploying PhasePricing...");
+  const phasePricing = await deploy("PhasePricing", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`PhasePricing deployed at: ${phasePricing.address}`);
+
+  // Deploy PhaseConfig, PriceFeed, PurchaseVouchers, ProceedsSplit and ProceedsTranches (linked into DynamicPresale)
+  log("Deploying PhaseConfig...");
+  const phaseConfig = await deploy("PhaseConfig", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`PhaseConfig deployed at: ${phaseConfig.address}`);
+
+  log("Deploying PriceFeed...");
+  const priceFeedLib = await deploy("PriceFeed", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`PriceFeed deployed at: ${priceFeedLib.address}`);
+
+  log("Deploying PurchaseVouchers...");
+  const purchaseVouchers = await deploy("PurchaseVouchers", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`PurchaseVouchers deployed at: ${purchaseVouchers.address}`);
+
+  log("Deploying ProceedsSplit...");
+  const proceedsSplit = await deploy("ProceedsSplit", {
     from: deployer,
-    args: [myToken.address, TOKEN_DECIMALS, SOFT_CAP, MIN_BUY, MAX_PER_WALLET],
     log: true,
     deterministicDeployment: false,
   });
 
+  log(`ProceedsSplit deployed at: ${proceedsSplit.address}`);
+
+  log("Deploying ProceedsTranches...");
+  const proceedsTranches = await deploy("ProceedsTranches", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`ProceedsTranches deployed at: ${proceedsTranches.address}`);
+
+  // Deploy PresaleForwarder (ERC-2771 trusted forwarder for gasless claims and releases)
+  log("Deploying PresaleForwarder...");
+  const presaleForwarder = await deploy("PresaleForwarder", {
+    from: deployer,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`PresaleForwarder deployed at: ${presaleForwarder.address}`);
+
+  const presaleLibraries = {
+    PhasePricing: phasePricing.address,
+    PhaseConfig: phaseConfig.address,
+    PriceFeed: priceFeedLib.address,
+    PurchaseVouchers: purchaseVouchers.address,
+    ProceedsSplit: proceedsSplit.address,
+    ProceedsTranches: proceedsTranches.address,
+  };
+
+  // Deploy DynamicPresaleExtension (admin, auction and settlement logic the presale delegatecalls into)
+  log("Deploying DynamicPresaleExtension...");
+  const presaleExtension = await deploy("DynamicPresaleExtension", {
+    from: deployer,
+    args: [myToken.address, TOKEN_DECIMALS, presaleForwarder.address],
+    libraries: presaleLibraries,
+    log: true,
+    deterministicDeployment: false,
+  });
+
+  log(`DynamicPresaleExtension deployed at: ${presaleExtension.address}`);
+
+  // Deploy DynamicPresale
+  log(`Deploying DynamicPresale${upgradeable ? " (UUPS proxy)" : ""}...`);
+  const dynamicPresale = await deploy(
+    "DynamicPresale",
+    upgradeable
+      ? {
+          contract: "DynamicPresaleUpgradeable",
+          from: deployer,
+          args: [myToken.address, TOKEN_DECIMALS, presaleForwarder.address, presaleExtension.address],
+          libraries: presaleLibraries,
+          proxy: uupsProxy([deployer, SOFT_CAP, MIN_BUY, MAX_PER_WALLET]),
+          log: true,
+          deterministicDeployment: false,
+        }
+      : {
+          from: deployer,
+          args: [
+            myToken.address,
+            TOKEN_DECIMALS,
+            SOFT_CAP,
+            MIN_BUY,
+            MAX_PER_WALLET,
+            presaleForwarder.address,
+            presaleExtension.address,
+          ],
+          libraries: presaleLibraries,
+          log: true,
+          deterministicDeployment: false,
+        }
+  );
+
   log(`DynamicPresale deployed at: ${dynamicPresale.address}`);
 
   // Deploy TokenVesting
-  log("Deploying TokenVesting...");
+  log(`Deploying TokenVesting${upgradeable ? " (UUPS proxy)" : ""}...`);
   const tokenVesting = await deploy("TokenVesting", {
+    ...(upgradeable ? { contract: "TokenVestingUpgradeable", proxy: uupsProxy([deployer]) } : {}),
     from: deployer,
-    args: [myToken.address],
+    args: [myToken.address, presaleForwarder.address],
     log: true,
     deterministicDeployment: false,
   });
 
   log(`TokenVesting deployed at: ${tokenVesting.address}`);
 
+  let ethUsdFeed = process.env.ETH_USD_FEED ?? "";
+  if (isLocal) {
+    log("Deploying MockV3Aggregator...");
+    const mockFeed = await deploy("MockV3Aggregator", {
+      from: deployer,
+      args: [8, ETH_USD_PRICE],
+      log: true,
+      deterministicDeployment: false,
+    });
+    ethUsdFeed = mockFeed.address;
+    log(`MockV3Aggregator deployed at: ${mockFeed.address}`);
+  }
+
   // Setup contracts
   log("Setting up contracts...");
   
   const tokenContract = await ethers.getContractAt("MyToken", myToken.address);
   const presaleContract = await ethers.getContractAt("DynamicPresale", dynamicPresale.address);
+  const vestingContract = await ethers.getContractAt("TokenVesting", tokenVesting.address);
 
   // Grant MINTER_ROLE to presale contract
   const MINTER_ROLE = await tokenContract.MINTER_ROLE();
@@ -73,6 +218,38 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   await grantRoleTx.wait();
   log("✅ MINTER_ROLE granted to DynamicPresale");
 
+  // Let the presale create buyer schedules on TokenVesting and route claims through it
+  if (vestingClaims && !(await vestingContract.vestingCreators(dynamicPresale.address))) {
+    const setCreatorTx = await vestingContract.setVestingCreator(dynamicPresale.address, true);
+    await setCreatorTx.wait();
+    log("✅ DynamicPresale authorized as vesting creator");
+  }
+
+  if (vestingClaims && (await presaleContract.vesting()) !== tokenVesting.address) {
+    const setVestingTx = await presaleContract.setVestingConfig(
+      tokenVesting.address,
+      TGE_UNLOCK_BPS,
+      CLAIM_VESTING_CLIFF,
+      CLAIM_VESTING_DURATION
+    );
+    await setVestingTx.wait();
+    log(`✅ Claim vesting enabled (${TGE_UNLOCK_BPS / 100}% at TGE, rest vested)`);
+  }
+
+  if (ethUsdFeed && (await presaleContract.priceFeed()) !== ethUsdFeed) {
+    const setFeedTx = await presaleContract.setPriceFeed(ethUsdFeed, PRICE_FEED_MAX_AGE, PRICE_FEED_MAX_DEVIATION_BPS);
+    await setFeedTx.wait();
+    log(`✅ ETH/USD price feed set to ${ethUsdFeed}`);
+  }
+
+  // KYC-gated sales: every purchase then needs a voucher signed by VOUCHER_SIGNER
+  const voucherSigner = process.env.VOUCHER_SIGNER ?? "";
+  if (voucherSigner && (await presaleContract.voucherSigner()) !== voucherSigner) {
+    const setSignerTx = await presaleContract.setVoucherSigner(voucherSigner);
+    await setSignerTx.wait();
+    log(`✅ Purchase vouchers required, signed by ${voucherSigner}`);
+  }
+
   // Add presale phases (only if not already added)
   const totalPhases = await presaleContract.totalPhases();
   if (totalPhases === 0n) {
@@ -109,7 +286,19 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   log("----------------------------------------------------");
   log("Contract Addresses:");
   log(`MyToken: ${myToken.address}`);
+  log(`PhasePricing: ${phasePricing.address}`);
+  log(`PhaseConfig: ${phaseConfig.address}`);
+  log(`PriceFeed: ${priceFeedLib.address}`);
+  log(`PurchaseVouchers: ${purchaseVouchers.address}`);
+  log(`ProceedsSplit: ${proceedsSplit.address}`);
+  log(`ProceedsTranches: ${proceedsTranches.address}`);
+  log(`PresaleForwarder: ${presaleForwarder.address}`);
   log(`DynamicPresale: ${dynamicPresale.address}`);
+  if (upgradeable) {
+    log(`DynamicPresale implementation: ${dynamicPresale.implementation}`);
+    log(`TokenVesting implementation: ${tokenVesting.implementation}`);
+  }
+  log(`DynamicPresaleExtension: ${presaleExtension.address}`);
   log(`TokenVesting: ${tokenVesting.address}`);
   log("----------------------------------------------------");
   log("Next Steps:");
@@ -124,18 +313,68 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const deploymentInfo = {
     network: hre.network.name,
     timestamp: new Date().toISOString(),
+    upgradeable,
     contracts: {
       MyToken: {
         address: myToken.address,
         args: [TOKEN_NAME, TOKEN_SYMBOL, TOKEN_CAP.toString()],
       },
+      PhasePricing: {
+        address: phasePricing.address,
+        args: [],
+      },
+      PhaseConfig: {
+        address: phaseConfig.address,
+        args: [],
+      },
+      PriceFeed: {
+        address: priceFeedLib.address,
+        args: [],
+      },
+      PurchaseVouchers: {
+        address: purchaseVouchers.address,
+        args: [],
+      },
+      ProceedsSplit: {
+        address: proceedsSplit.address,
+        args: [],
+      },
+      ProceedsTranches: {
+        address: proceedsTranches.address,
+        args: [],
+      },
+      PresaleForwarder: {
+        address: presaleForwarder.address,
+        args: [],
+      },
+      DynamicPresaleExtension: {
+        address: presaleExtension.address,
+        args: [myToken.address, TOKEN_DECIMALS, presaleForwarder.address],
+        libraries: presaleLibraries,
+      },
       DynamicPresale: {
         address: dynamicPresale.address,
-        args: [myToken.address, TOKEN_DECIMALS, SOFT_CAP.toString(), MIN_BUY.toString(), MAX_PER_WALLET.toString()],
+        // Behind a proxy the sale parameters are initialize() arguments instead (see parameters)
+        args: upgradeable
+          ? [myToken.address, TOKEN_DECIMALS, presaleForwarder.address, presaleExtension.address]
+          : [
+              myToken.address,
+              TOKEN_DECIMALS,
+              SOFT_CAP.toString(),
+              MIN_BUY.toString(),
+              MAX_PER_WALLET.toString(),
+              presaleForwarder.address,
+              presaleExtension.address,
+            ],
+        libraries: presaleLibraries,
+        implementation: dynamicPresale.implementation,
+        extension: presaleExtension.address,
+        ethUsdFeed,
       },
       TokenVesting: {
         address: tokenVesting.address,
-        args: [myToken.address],
+        args: [myToken.address, presaleForwarder.address],
+        implementation: tokenVesting.implementation,
       },
     },
     parameters: {
@@ -149,6 +388,11 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
       PHASE_1_PRICE: PHASE_1_PRICE.toString(),
       PHASE_2_PRICE: PHASE_2_PRICE.toString(),
       PHASE_SUPPLY: PHASE_SUPPLY.toString(),
+      TGE_UNLOCK_BPS,
+      CLAIM_VESTING_CLIFF,
+      CLAIM_VESTING_DURATION,
+      PRICE_FEED_MAX_AGE,
+      PRICE_FEED_MAX_DEVIATION_BPS,
     },
   };
 
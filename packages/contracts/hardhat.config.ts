@@ -1,18 +1,33 @@
 import "hardhat-deploy";
 import "@nomicfoundation/hardhat-toolbox";
+import "@openzeppelin/hardhat-upgrades";
 import * as dotenv from "dotenv";
 import { HardhatUserConfig } from "hardhat/config";
 
 dotenv.config();
 
+const compilerSettings = { optimizer: { enabled: true, runs: 200 }, viaIR: true };
+
+// OpenZeppelin's UUPSUpgradeable needs ^0.8.22; only the proxy variants are built with it
+const upgradeableCompiler = { version: "0.8.22", settings: compilerSettings };
+
 const config: HardhatUserConfig = {
   solidity: {
     compilers: [
       {
         version: "0.8.20",
-        settings: { optimizer: { enabled: true, runs: 200 } },
+        settings: compilerSettings,
       },
     ],
+    overrides: {
+      "contracts/DynamicPresaleUpgradeable.sol": upgradeableCompiler,
+      "contracts/TokenVestingUpgradeable.sol": upgradeableCompiler,
+      "contracts/mocks/MockTokenVestingV2.sol": upgradeableCompiler,
+      "contracts/mocks/MockTokenVestingBadLayout.sol": upgradeableCompiler,
+      "contracts/mocks/MockDynamicPresaleV1.sol": upgradeableCompiler,
+      "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol": upgradeableCompiler,
+      "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol": upgradeableCompiler,
+    },
   },
   namedAccounts: { deployer: 0 },
   networks: {
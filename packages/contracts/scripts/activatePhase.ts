@@ -6,6 +6,9 @@ import { ethers } from "ethers";
  * Simple arg parsing (no dependency)
  * Example usage:
  *  ts-node scripts/activatePhase.ts --action update --phaseId 0 --price 0.0005 --supply 1000000 --duration 86400
+ *
+ * Updates only work on phases that have not started yet. Any of --price, --supply,
+ * --start and --duration left out keeps the phase's current value.
  */
 
 function parseArgs(): Record<string, string> {
@@ -27,7 +30,8 @@ function parseArgs(): Record<string, string> {
 }
 
 const ABI = [
-  "function owner() view returns (address)",
+  "function PHASE_MANAGER_ROLE() view returns (bytes32)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
   "function addPhase(uint256 priceWei, uint256 supply, uint256 start, uint256 end) external",
   "function updatePhase(uint256 phaseId, uint256 priceWei, uint256 supply, uint256 start, uint256 end) external",
   "function getPhase(uint256 phaseId) view returns (uint256 priceWei, uint256 supply, uint256 sold, uint256 start, uint256 end)",
@@ -115,7 +119,7 @@ async function main(): Promise<void> {
     startTs = startArg === "now" ? nowLocal + 60 : Math.floor(Number(startArg));
   }
 
-  const endTs = startTs + duration;
+  let endTs = startTs + duration;
 
   console.log("CONFIG", {
     rpc: RPC,
@@ -129,17 +133,17 @@ async function main(): Promise<void> {
     force,
   });
 
-  // sanity: owner check
+  // sanity: role check
   try {
-    const owner: string = await contract.owner();
-    console.log("Contract owner:", owner);
-    if (owner.toLowerCase() !== wallet.address.toLowerCase()) {
-      console.warn("WARNING: deployer key is NOT the contract owner. The tx will likely revert if owner-only.");
+    const role: string = await contract.PHASE_MANAGER_ROLE();
+    const isManager: boolean = await contract.hasRole(role, wallet.address);
+    if (!isManager) {
+      console.warn("WARNING: deployer key does NOT hold PHASE_MANAGER_ROLE. The tx will likely revert.");
     } else {
-      console.log("Deployer key matches contract owner — OK to proceed.");
+      console.log("Deployer key holds PHASE_MANAGER_ROLE — OK to proceed.");
     }
   } catch (err) {
-    console.warn("Could not read owner() — continuing. Error:", (err as Error).message ?? err);
+    console.warn("Could not read hasRole() — continuing. Error:", (err as Error).message ?? err);
   }
 
   // Before sending tx, some safety checks: read existing phases to avoid accidental overlap (best-effort)
@@ -174,8 +178,37 @@ async function main(): Promise<void> {
           String(existing[3]),
           String(existing[4])
         );
+
+        // keep whatever was not passed on the command line
+        if (args.price === undefined) priceWei = BigInt(existing[0]);
+        if (args.supply === undefined) supplyUnits = BigInt(existing[1]);
+        if (args.start === undefined) startTs = Number(existing[3]);
+        endTs =
+          args.start === undefined && args.duration === undefined
+            ? Number(existing[4])
+            : startTs + (args.duration === undefined ? Number(existing[4]) - Number(existing[3]) : duration);
+
+        const nowOnChain = Number((await provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000));
+        if (Number(existing[3]) <= nowOnChain) {
+          console.error(`Phase ${phaseId} has already started; only upcoming phases can be updated.`);
+          process.exit(1);
+        }
+        if (supplyUnits < BigInt(existing[2])) {
+          console.error(`Supply ${supplyUnits} is below the ${String(existing[2])} tokens already sold.`);
+          process.exit(1);
+        }
+        console.log("update ->", {
+          priceWei: priceWei.toString(),
+          supplyUnits: supplyUnits.toString(),
+          startTs,
+          endTs,
+        });
       } catch (err) {
         console.warn(`Could not read existing phase ${phaseId}:`, (err as Error).message ?? err);
+        if (!force) {
+          console.error("Cannot update a phase that could not be read. Use --force to send anyway.");
+          process.exit(1);
+        }
       }
     }
   } catch (err) {
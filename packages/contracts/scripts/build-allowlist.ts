@@ -0,0 +1,114 @@
+// packages/contracts/scripts/build-allowlist.ts
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+/**
+ * Builds the presale allowlist Merkle tree from a CSV of addresses.
+ * The first column of every row must be an address; a header row and extra columns are ignored.
+ * Example usage:
+ *  npx ts-node scripts/build-allowlist.ts --csv allowlist.csv --out ../frontend/public/allowlist.json --phase 0
+ *
+ * Then set the printed root on chain with setAllowlistRoot(root) or setPhaseAllowlistRoot(phaseId, root).
+ */
+
+function parseArgs(): Record<string, string> {
+  const argv = process.argv.slice(2);
+  const out: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) continue;
+    const key = a.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith("--")) {
+      out[key] = "true";
+    } else {
+      out[key] = next;
+      i++;
+    }
+  }
+  return out;
+}
+
+function readAddresses(csvPath: string): string[] {
+  const raw = fs.readFileSync(csvPath, "utf8");
+  const seen = new Set<string>();
+  const addresses: string[] = [];
+
+  raw.split(/\r?\n/).forEach((line, idx) => {
+    const cell = line.split(",")[0]?.trim();
+    if (!cell) return;
+    if (!ethers.isAddress(cell)) {
+      // tolerate a header row, reject anything else
+      if (idx === 0) return;
+      throw new Error(`Invalid address on line ${idx + 1}: ${cell}`);
+    }
+    const checksummed = ethers.getAddress(cell);
+    if (seen.has(checksummed)) {
+      console.warn(`Skipping duplicate address on line ${idx + 1}: ${checksummed}`);
+      return;
+    }
+    seen.add(checksummed);
+    addresses.push(checksummed);
+  });
+
+  return addresses;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  const csvPath = args.csv;
+  const outPath = args.out ?? "allowlist.json";
+  const phaseId = args.phase !== undefined ? Number(args.phase) : null;
+
+  if (!csvPath) {
+    console.error("❌ Usage: npx ts-node scripts/build-allowlist.ts --csv <file.csv> [--out <file.json>] [--phase <phaseId>]");
+    process.exit(1);
+  }
+  if (phaseId !== null && (!Number.isInteger(phaseId) || phaseId < 0)) {
+    console.error("❌ --phase must be a non-negative integer");
+    process.exit(1);
+  }
+
+  const addresses = readAddresses(path.resolve(csvPath));
+  if (addresses.length === 0) {
+    console.error("❌ No addresses found in", csvPath);
+    process.exit(1);
+  }
+
+  const tree = StandardMerkleTree.of(
+    addresses.map((a) => [a]),
+    ["address"]
+  );
+
+  // Proofs are keyed by lowercase address so the frontend can look up the connected wallet directly
+  const proofs: Record<string, string[]> = {};
+  for (const [i, [address]] of tree.entries()) {
+    proofs[String(address).toLowerCase()] = tree.getProof(i);
+  }
+
+  const output = {
+    root: tree.root,
+    phaseId,
+    total: addresses.length,
+    proofs,
+  };
+
+  fs.mkdirSync(path.dirname(path.resolve(outPath)), { recursive: true });
+  fs.writeFileSync(outPath, JSON.stringify(output, null, 2));
+
+  console.log(`🌳 Allowlist tree built for ${addresses.length} addresses`);
+  console.log(`Root: ${tree.root}`);
+  console.log(`📄 Proofs saved to: ${outPath}`);
+  console.log(
+    phaseId === null
+      ? "Next: call setAllowlistRoot(root) on DynamicPresale"
+      : `Next: call setPhaseAllowlistRoot(${phaseId}, root) on DynamicPresale`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
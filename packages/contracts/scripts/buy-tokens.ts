@@ -1,5 +1,13 @@
 import { ethers } from "hardhat";
 
+/**
+ * Buys tokens for the signer, or with BENEFICIARY=0x... for another wallet through buyFor
+ * (excess and refunds go to REFUND_TO, default the signer).
+ *
+ * Example usage:
+ *  DYNAMICPRESALE_ADDRESS=0x... [BENEFICIARY=0x...] [REFUND_TO=0x...] npx hardhat run scripts/buy-tokens.ts --network sepolia
+ */
+
 async function main() {
   const DYNAMICPRESALE_ADDRESS = process.env.DYNAMICPRESALE_ADDRESS || "";
   
@@ -13,6 +21,18 @@ async function main() {
 
   const dynamicPresale = await ethers.getContractAt("DynamicPresale", DYNAMICPRESALE_ADDRESS);
 
+  // The beneficiary's contribution and limits apply to the purchase
+  const beneficiary = process.env.BENEFICIARY || buyer.address;
+  const refundTo = process.env.REFUND_TO || buyer.address;
+  if (!ethers.isAddress(beneficiary) || !ethers.isAddress(refundTo)) {
+    console.error("❌ BENEFICIARY and REFUND_TO must be addresses");
+    process.exit(1);
+  }
+  const buyingFor = beneficiary.toLowerCase() !== buyer.address.toLowerCase();
+  if (buyingFor) {
+    console.log(`🎁 Buying for ${beneficiary}, excess and refunds to ${refundTo}`);
+  }
+
   // Get buy amount from command line or default to minimum
   const buyAmount = process.argv[2] ? ethers.parseEther(process.argv[2]) : ethers.parseEther("0.01");
   
@@ -31,8 +51,8 @@ async function main() {
     process.exit(1);
   }
 
-  // Check buyer's current contribution
-  const currentContribution = await dynamicPresale.contributionsWei(buyer.address);
+  // Check beneficiary's current contribution
+  const currentContribution = await dynamicPresale.contributionsWei(beneficiary);
   const maxPerWallet = await dynamicPresale.maxPerWallet();
   const remainingCapacity = maxPerWallet - currentContribution;
   
@@ -63,15 +83,17 @@ async function main() {
   // Execute purchase
   console.log("\n🚀 Executing purchase...");
   try {
-    const tx = await dynamicPresale.connect(buyer).buy({ value: buyAmount });
+    const tx = buyingFor
+      ? await dynamicPresale.connect(buyer).buyFor(beneficiary, refundTo, [], { value: buyAmount })
+      : await dynamicPresale.connect(buyer).buy({ value: buyAmount });
     console.log(`Transaction hash: ${tx.hash}`);
     
     const receipt = await tx.wait();
     console.log(`Gas used: ${receipt!.gasUsed}`);
     
     // Check new balances
-    const newContribution = await dynamicPresale.contributionsWei(buyer.address);
-    const pendingTokens = await dynamicPresale.pendingTokens(buyer.address);
+    const newContribution = await dynamicPresale.contributionsWei(beneficiary);
+    const pendingTokens = await dynamicPresale.pendingTokens(beneficiary);
     
     console.log("\n✅ Purchase successful!");
     console.log(`Total contribution: ${ethers.formatEther(newContribution)} ETH`);
@@ -0,0 +1,93 @@
+// packages/contracts/scripts/distribute.ts
+import * as fs from "fs";
+import { ethers, network } from "hardhat";
+
+/**
+ * Pushes purchased tokens to every buyer with DynamicPresale.claimFor, in batches over getBuyers.
+ * Progress is written to a checkpoint file after each confirmed batch, so an interrupted run resumes
+ * where it stopped. Buyers with nothing to claim (already claimed) are skipped on chain.
+ *
+ * Example usage:
+ *  DYNAMICPRESALE_ADDRESS=0x... [BATCH_SIZE=50] [CHECKPOINT_FILE=distribute.json] \
+ *    npx hardhat run scripts/distribute.ts --network sepolia
+ */
+
+interface Checkpoint {
+  presale: string;
+  offset: number; // buyers already processed
+  batches: { offset: number; size: number; txHash: string }[];
+}
+
+function loadCheckpoint(file: string, presale: string): Checkpoint {
+  if (!fs.existsSync(file)) return { presale, offset: 0, batches: [] };
+  const checkpoint = JSON.parse(fs.readFileSync(file, "utf8")) as Checkpoint;
+  if (checkpoint.presale !== presale) {
+    throw new Error(`Checkpoint ${file} belongs to presale ${checkpoint.presale}; remove it or set CHECKPOINT_FILE`);
+  }
+  return checkpoint;
+}
+
+function saveCheckpoint(file: string, checkpoint: Checkpoint): void {
+  fs.writeFileSync(file, JSON.stringify(checkpoint, null, 2));
+}
+
+async function main() {
+  const DYNAMICPRESALE_ADDRESS = process.env.DYNAMICPRESALE_ADDRESS || "";
+
+  if (!DYNAMICPRESALE_ADDRESS || !ethers.isAddress(DYNAMICPRESALE_ADDRESS)) {
+    console.error("❌ Please set DYNAMICPRESALE_ADDRESS environment variable");
+    process.exit(1);
+  }
+
+  const presaleAddress = ethers.getAddress(DYNAMICPRESALE_ADDRESS);
+  const checkpointFile = process.env.CHECKPOINT_FILE || `distribute-${network.name}.json`;
+
+  const [owner] = await ethers.getSigners();
+  const dynamicPresale = await ethers.getContractAt("DynamicPresale", presaleAddress, owner);
+
+  if (!(await dynamicPresale.saleEnded()) || !(await dynamicPresale.softCapReached())) {
+    console.error("❌ Tokens can only be distributed after a successful sale (ended, soft cap reached)");
+    process.exit(1);
+  }
+
+  const maxBatch = Number(await dynamicPresale.MAX_CLAIM_BATCH());
+  const batchSize = Number(process.env.BATCH_SIZE || 50);
+  if (!Number.isInteger(batchSize) || batchSize <= 0 || batchSize > maxBatch) {
+    console.error(`❌ BATCH_SIZE must be between 1 and ${maxBatch}`);
+    process.exit(1);
+  }
+
+  const checkpoint = loadCheckpoint(checkpointFile, presaleAddress);
+  const totalBuyers = Number(await dynamicPresale.totalBuyers());
+
+  console.log("📦 Distributing tokens with account:", owner.address);
+  console.log(`Buyers: ${totalBuyers}, starting at ${checkpoint.offset}, batches of ${batchSize}`);
+  console.log(`Checkpoint: ${checkpointFile}`);
+
+  while (checkpoint.offset < totalBuyers) {
+    const page = await dynamicPresale.getBuyers(checkpoint.offset, batchSize);
+    if (page.length === 0) break;
+
+    const tx = await dynamicPresale.claimFor([...page]);
+    const receipt = await tx.wait();
+    const claimed = receipt!.logs.filter(
+      (log) => dynamicPresale.interface.parseLog(log)?.name === "Claimed"
+    ).length;
+
+    checkpoint.batches.push({ offset: checkpoint.offset, size: page.length, txHash: tx.hash });
+    checkpoint.offset += page.length;
+    saveCheckpoint(checkpointFile, checkpoint);
+
+    console.log(
+      `✅ Buyers ${checkpoint.offset - page.length}-${checkpoint.offset - 1}: ${claimed} claimed, ` +
+        `${page.length - claimed} skipped (${tx.hash})`
+    );
+  }
+
+  console.log(`🎉 Distribution complete: ${checkpoint.offset}/${totalBuyers} buyers processed`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
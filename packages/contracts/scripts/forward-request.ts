@@ -0,0 +1,97 @@
+// packages/contracts/scripts/forward-request.ts
+import { ethers } from "ethers";
+
+/**
+ * EIP-712 forward requests for PresaleForwarder (OpenZeppelin ERC2771Forwarder).
+ * The buyer signs a request for a call such as DynamicPresale.claim() or TokenVesting.release();
+ * a relayer (scripts/relayer.ts) submits it and pays the gas.
+ */
+
+export interface ForwardRequest {
+  from: string; // signer, seen as _msgSender() by the target
+  to: string;
+  value: bigint;
+  gas: bigint; // gas forwarded to the target call
+  nonce: bigint; // forwarder.nonces(from)
+  deadline: bigint; // unix timestamp (uint48)
+  data: string;
+}
+
+/** Argument of ERC2771Forwarder.execute / verify */
+export interface ForwardRequestData {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: string;
+  signature: string;
+}
+
+// Must match ERC2771Forwarder._FORWARD_REQUEST_TYPEHASH
+export const FORWARD_REQUEST_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+export function forwarderDomain(forwarder: string, chainId: bigint | number): ethers.TypedDataDomain {
+  return { name: "PresaleForwarder", version: "1", chainId, verifyingContract: forwarder };
+}
+
+export async function signForwardRequest(
+  signer: ethers.Signer,
+  forwarder: string,
+  chainId: bigint | number,
+  request: ForwardRequest
+): Promise<ForwardRequestData> {
+  const signature = await signer.signTypedData(forwarderDomain(forwarder, chainId), FORWARD_REQUEST_TYPES, request);
+  return {
+    from: request.from,
+    to: request.to,
+    value: request.value,
+    gas: request.gas,
+    deadline: request.deadline,
+    data: request.data,
+    signature,
+  };
+}
+
+/** JSON-safe form of a signed request, as posted to the relayer */
+export function serializeForwardRequest(request: ForwardRequestData): Record<string, string> {
+  return {
+    from: request.from,
+    to: request.to,
+    value: request.value.toString(),
+    gas: request.gas.toString(),
+    deadline: request.deadline.toString(),
+    data: request.data,
+    signature: request.signature,
+  };
+}
+
+export function parseForwardRequest(raw: Record<string, unknown>): ForwardRequestData {
+  const str = (key: string): string => {
+    const v = raw[key];
+    if (typeof v !== "string") throw new Error(`forward request: ${key} missing`);
+    return v;
+  };
+  if (!ethers.isAddress(str("from")) || !ethers.isAddress(str("to"))) {
+    throw new Error("forward request: from/to must be addresses");
+  }
+  return {
+    from: ethers.getAddress(str("from")),
+    to: ethers.getAddress(str("to")),
+    value: BigInt(str("value")),
+    gas: BigInt(str("gas")),
+    deadline: BigInt(str("deadline")),
+    data: str("data"),
+    signature: str("signature"),
+  };
+}
@@ -1,5 +1,34 @@
 import { ethers } from "hardhat";
 
+// Role names accepted by grant-role / revoke-role, mapped to their on-chain identifiers
+const ROLES: Record<string, string> = {
+  DEFAULT_ADMIN: ethers.ZeroHash,
+  PHASE_MANAGER: ethers.id("PHASE_MANAGER_ROLE"),
+  PAUSER: ethers.id("PAUSER_ROLE"),
+  TREASURER: ethers.id("TREASURER_ROLE"),
+};
+
+function parseRole(name: string | undefined): string {
+  const role = name ? ROLES[name.toUpperCase().replace(/_ROLE$/, "")] : undefined;
+  if (!role) {
+    console.error(`❌ Unknown role "${name ?? ""}". Use one of: ${Object.keys(ROLES).join(", ")}`);
+    process.exit(1);
+  }
+  return role;
+}
+
+// Timelocked sale parameters, in DynamicPresaleBase.SaleParam order
+const PARAMS = ["softCap", "minBuy", "maxPerWallet"];
+
+function parseParam(name: string | undefined): number {
+  const param = name ? PARAMS.indexOf(name) : -1;
+  if (param < 0) {
+    console.error(`❌ Unknown parameter "${name ?? ""}". Use one of: ${PARAMS.join(", ")}`);
+    process.exit(1);
+  }
+  return param;
+}
+
 async function main() {
   const DYNAMICPRESALE_ADDRESS = process.env.DYNAMICPRESALE_ADDRESS || "";
   
@@ -35,14 +64,130 @@ async function main() {
       console.log("✅ Sale ended");
       break;
       
-    case "withdraw":
-      const recipient = process.argv[3] || owner.address;
-      console.log(`💰 Withdrawing proceeds to ${recipient}...`);
-      const tx = await dynamicPresale.withdrawProceeds(recipient);
-      await tx.wait();
-      console.log("✅ Proceeds withdrawn");
+    case "cancel":
+      console.log("🚨 Cancelling sale: buyers will be able to request refunds, claims and withdrawals are blocked...");
+      await (await dynamicPresale.cancelSale()).wait();
+      console.log("✅ Sale cancelled");
       break;
       
+    case "withdraw": {
+      if ((await dynamicPresale.getTranches()).tranches.length > 0) {
+        console.error("❌ Proceeds are released in tranches: use tranches and withdraw-tranche");
+        process.exit(1);
+      }
+      const [payees, sharesBps, released] = await dynamicPresale.getPayees();
+      if (payees.length === 0) {
+        const recipient = process.argv[3] || owner.address;
+        console.log(`💰 Withdrawing proceeds to ${recipient}...`);
+        const tx = await dynamicPresale.withdrawProceeds(recipient);
+        await tx.wait();
+        console.log("✅ Proceeds withdrawn");
+        break;
+      }
+
+      // Split proceeds: release every payee's pending share, or only the one given
+      const only = process.argv[3];
+      console.log("💰 Proceeds split:");
+      for (let i = 0; i < payees.length; i++) {
+        const pending = await dynamicPresale.pendingProceeds(payees[i]);
+        console.log(
+          `• ${payees[i]}: ${Number(sharesBps[i]) / 100}%, ` +
+            `${ethers.formatEther(pending)} ETH pending, ${ethers.formatEther(released[i])} ETH released`
+        );
+        if (pending === 0n || (only && only.toLowerCase() !== payees[i].toLowerCase())) continue;
+        await (await dynamicPresale.releaseProceeds(payees[i])).wait();
+        console.log(`  ✅ Released ${ethers.formatEther(pending)} ETH`);
+      }
+      break;
+    }
+
+    case "set-payees": {
+      // address:bps pairs, e.g. 0xTreasury:7000,0xLiquidity:2500,0xPlatform:500
+      const pairs = (process.argv[3] || "").split(",").filter(Boolean).map((pair) => pair.split(":"));
+      if (pairs.length === 0 || pairs.some(([account, bps]) => !ethers.isAddress(account) || !bps)) {
+        console.error("❌ Usage: npm run manage-presale set-payees <address:bps,address:bps,...>");
+        process.exit(1);
+      }
+      console.log(`🧾 Splitting proceeds between ${pairs.length} payees...`);
+      await (await dynamicPresale.setPayees(pairs.map(([account]) => account), pairs.map(([, bps]) => bps))).wait();
+      console.log("✅ Payees set");
+      break;
+    }
+      
+    case "set-tranches": {
+      // bps:unlockTime[:approval] entries, e.g. 3000:0,3000:1735689600,4000:0:approval
+      const entries = (process.argv[3] || "").split(",").filter(Boolean).map((entry) => entry.split(":"));
+      const haltQuorumBps = process.argv[4] || "0";
+      if (entries.length === 0 || entries.some(([bps, unlockTime]) => !bps || !unlockTime)) {
+        console.error("❌ Usage: npm run manage-presale set-tranches <bps:unlockTime[:approval],...> [haltQuorumBps]");
+        console.error("Example: npm run manage-presale set-tranches 3000:0,3000:1735689600,4000:0:approval 5000");
+        process.exit(1);
+      }
+      console.log(`🪜 Releasing proceeds in ${entries.length} tranches, halt quorum ${Number(haltQuorumBps) / 100}%...`);
+      await (
+        await dynamicPresale.setTranches(
+          entries.map(([bps]) => bps),
+          entries.map(([, unlockTime]) => unlockTime),
+          entries.map(([, , approval]) => approval === "approval"),
+          haltQuorumBps
+        )
+      ).wait();
+      console.log("✅ Tranches set");
+      break;
+    }
+
+    case "tranches": {
+      const schedule = await dynamicPresale.getTranches();
+      if (schedule.tranches.length === 0) {
+        console.log("🪜 No tranches: proceeds are paid out by withdraw");
+        break;
+      }
+      console.log(`🪜 Tranches (${ethers.formatEther(schedule.withdrawn)} ETH withdrawn):`);
+      schedule.tranches.forEach((tranche, index) => {
+        const conditions = [];
+        if (tranche.unlockTime > 0n) conditions.push(`unlocks ${new Date(Number(tranche.unlockTime) * 1000).toLocaleString()}`);
+        if (tranche.needsApproval) conditions.push(tranche.approved ? "approved" : "awaiting approval");
+        console.log(
+          `• #${index}: ${Number(tranche.bps) / 100}%${conditions.length > 0 ? `, ${conditions.join(", ")}` : ""}` +
+            (tranche.withdrawn ? " - withdrawn" : "")
+        );
+      });
+      if (schedule.haltQuorumBps > 0n) {
+        console.log(
+          `Halt votes: ${ethers.formatEther(schedule.haltVotesWei)} ETH, quorum ${Number(schedule.haltQuorumBps) / 100}% of raised`
+        );
+      }
+      if (schedule.halted) {
+        console.log(`🚨 Halted: ${ethers.formatEther(schedule.refundPool)} ETH refundable to buyers`);
+      }
+      break;
+    }
+
+    case "approve-tranche": {
+      const index = process.argv[3];
+      if (!index) {
+        console.error("❌ Usage: npm run manage-presale approve-tranche <index>");
+        process.exit(1);
+      }
+      console.log(`✔️ Approving tranche #${index}...`);
+      await (await dynamicPresale.approveTranche(index)).wait();
+      console.log("✅ Tranche approved");
+      break;
+    }
+
+    case "withdraw-tranche": {
+      const index = process.argv[3];
+      const beneficiary = process.argv[4] || owner.address;
+      if (!index || !ethers.isAddress(beneficiary)) {
+        console.error("❌ Usage: npm run manage-presale withdraw-tranche <index> [recipient]");
+        process.exit(1);
+      }
+      console.log(`💰 Withdrawing tranche #${index} to ${beneficiary}...`);
+      await (await dynamicPresale.withdrawTranche(index, beneficiary)).wait();
+      console.log("✅ Tranche withdrawn");
+      break;
+    }
+
     case "add-phase":
       const priceWei = process.argv[3];
       const supply = process.argv[4];
@@ -68,14 +213,121 @@ async function main() {
       console.log("✅ Phase added");
       break;
       
+    case "grant-role":
+    case "revoke-role": {
+      const role = parseRole(process.argv[3]);
+      const account = process.argv[4];
+      if (!account || !ethers.isAddress(account)) {
+        console.error(`❌ Usage: npm run manage-presale ${action} <role> <address>`);
+        process.exit(1);
+      }
+
+      const granting = action === "grant-role";
+      console.log(`🔑 ${granting ? "Granting" : "Revoking"} ${process.argv[3].toUpperCase()} ${granting ? "to" : "from"} ${account}...`);
+      const roleTx = granting
+        ? await dynamicPresale.grantRole(role, account)
+        : await dynamicPresale.revokeRole(role, account);
+      await roleTx.wait();
+      console.log(`✅ Role ${granting ? "granted" : "revoked"}`);
+      break;
+    }
+
+    case "queue-param": {
+      const param = parseParam(process.argv[3]);
+      const value = process.argv[4];
+      if (!value) {
+        console.error("❌ Usage: npm run manage-presale queue-param <softCap|minBuy|maxPerWallet> <wei>");
+        process.exit(1);
+      }
+
+      const setters = [dynamicPresale.setSoftCap, dynamicPresale.setMinBuy, dynamicPresale.setMaxPerWallet];
+      console.log(`⏳ Queueing ${PARAMS[param]} = ${ethers.formatEther(value)} ETH...`);
+      await (await setters[param](value)).wait();
+      const { eta } = await dynamicPresale.pendingChanges(param);
+      console.log(`✅ Queued, executable from ${new Date(Number(eta) * 1000).toLocaleString()}`);
+      break;
+    }
+
+    case "execute-param":
+    case "cancel-param": {
+      const param = parseParam(process.argv[3]);
+      const executing = action === "execute-param";
+      console.log(`${executing ? "▶️ Executing" : "🗑️ Cancelling"} pending ${PARAMS[param]} change...`);
+      const paramTx = executing
+        ? await dynamicPresale.executeParameterChange(param)
+        : await dynamicPresale.cancelParameterChange(param);
+      await paramTx.wait();
+      console.log(`✅ Change ${executing ? "executed" : "cancelled"}`);
+      break;
+    }
+
+    case "pending-params": {
+      const delay = await dynamicPresale.parameterDelay();
+      console.log(`⏳ Parameter delay: ${delay}s`);
+      for (let param = 0; param < PARAMS.length; param++) {
+        const { value, eta } = await dynamicPresale.pendingChanges(param);
+        if (eta === 0n) {
+          console.log(`• ${PARAMS[param]}: nothing queued`);
+        } else {
+          console.log(
+            `• ${PARAMS[param]}: ${ethers.formatEther(value)} ETH, executable from ${new Date(Number(eta) * 1000).toLocaleString()}`
+          );
+        }
+      }
+      break;
+    }
+
+    case "roles": {
+      const account = process.argv[3];
+      if (account) {
+        if (!ethers.isAddress(account)) {
+          console.error("❌ Usage: npm run manage-presale roles [address]");
+          process.exit(1);
+        }
+        console.log(`🔑 Roles of ${account}:`);
+        for (const [name, role] of Object.entries(ROLES)) {
+          console.log(`• ${name}: ${(await dynamicPresale.hasRole(role, account)) ? "yes" : "no"}`);
+        }
+        break;
+      }
+
+      // AccessControl does not enumerate members, so current holders are rebuilt from the role events
+      const granted = await dynamicPresale.queryFilter(dynamicPresale.filters.RoleGranted());
+      const candidates = new Set(granted.map((event) => event.args.account));
+      console.log("🔑 Role holders:");
+      for (const [name, role] of Object.entries(ROLES)) {
+        const holders = [];
+        for (const candidate of candidates) {
+          if (await dynamicPresale.hasRole(role, candidate)) holders.push(candidate);
+        }
+        console.log(`• ${name}: ${holders.length > 0 ? holders.join(", ") : "none"}`);
+      }
+      break;
+    }
+
     default:
       console.log("🔧 Presale Management Tool");
       console.log("Available commands:");
       console.log("• npm run manage-presale pause - Pause presale");
       console.log("• npm run manage-presale unpause - Unpause presale");
       console.log("• npm run manage-presale end - End sale");
-      console.log("• npm run manage-presale withdraw [recipient] - Withdraw proceeds");
+      console.log("• npm run manage-presale cancel - Cancel sale and open refunds (cannot be undone)");
+      console.log("• npm run manage-presale withdraw [recipient|payee] - Withdraw proceeds, or release payee shares");
+      console.log("• npm run manage-presale set-payees <address:bps,...> - Split proceeds between payees");
+      console.log("• npm run manage-presale set-tranches <bps:unlockTime[:approval],...> [haltQuorumBps] - Release proceeds in milestone tranches");
+      console.log("• npm run manage-presale tranches - Show tranches and the halt vote");
+      console.log("• npm run manage-presale approve-tranche <index> - Approve a milestone tranche");
+      console.log("• npm run manage-presale withdraw-tranche <index> [recipient] - Withdraw an unlocked tranche");
       console.log("• npm run manage-presale add-phase <priceWei> <supply> <start> <duration> - Add phase");
+      console.log("• npm run manage-presale grant-role <role> <address> - Grant a role");
+      console.log("• npm run manage-presale revoke-role <role> <address> - Revoke a role");
+      console.log("• npm run manage-presale roles [address] - List role holders, or the roles of one address");
+      console.log(`  Roles: ${Object.keys(ROLES).join(", ")}`);
+      console.log("• npm run manage-presale queue-param <param> <wei> - Queue a timelocked parameter change");
+      console.log("• npm run manage-presale execute-param <param> - Apply a queued change after its delay");
+      console.log("• npm run manage-presale cancel-param <param> - Drop a queued change");
+      console.log("• npm run manage-presale pending-params - Show queued changes");
+      console.log(`  Parameters: ${PARAMS.join(", ")}`);
       break;
   }
 }
@@ -1,5 +1,8 @@
 import { ethers } from "hardhat";
 
+// TokenVesting.UnlockCurve, by value
+const CURVES = ["linear", "step", "custom"];
+
 async function main() {
   const TOKENVESTING_ADDRESS = process.env.TOKENVESTING_ADDRESS || "";
   
@@ -53,6 +56,65 @@ async function main() {
       console.log("✅ Vesting schedule created");
       break;
       
+    case "create-step":
+      // Equal unlocks every stepInterval, e.g. monthly (2592000) or quarterly (7776000)
+      const stepBeneficiary = process.argv[3];
+      const stepAmount = process.argv[4];
+      const stepStart = process.argv[5];
+      const stepDuration = process.argv[6];
+      const stepCliff = process.argv[7];
+      const stepInterval = process.argv[8];
+      const stepRevocable = process.argv[9] === "true";
+
+      if (!stepBeneficiary || !stepAmount || !stepStart || !stepDuration || !stepCliff || !stepInterval) {
+        console.error("❌ Usage: npm run manage-vesting create-step <beneficiary> <amount> <start> <duration> <cliff> <stepInterval> <revocable>");
+        console.error("Example: npm run manage-vesting create-step 0x123... 1000000000000000000000 1700000000 31104000 0 2592000 true");
+        process.exit(1);
+      }
+
+      console.log(`📅 Creating step vesting, unlocking every ${parseInt(stepInterval) / 86400} days...`);
+      await tokenVesting.createStepVesting(
+        stepBeneficiary,
+        stepAmount,
+        parseInt(stepStart),
+        parseInt(stepDuration),
+        parseInt(stepCliff),
+        parseInt(stepInterval),
+        stepRevocable
+      );
+      console.log("✅ Vesting schedule created");
+      break;
+
+    case "create-custom":
+      // Unlock table of unixTime:cumulativeBps points, the last one at 10000
+      const customBeneficiary = process.argv[3];
+      const customAmount = process.argv[4];
+      const customStart = process.argv[5];
+      const customTable = process.argv[6];
+      const customRevocable = process.argv[7] === "true";
+
+      if (!customBeneficiary || !customAmount || !customStart || !customTable) {
+        console.error("❌ Usage: npm run manage-vesting create-custom <beneficiary> <amount> <start> <time:bps,...> <revocable>");
+        console.error("Example: npm run manage-vesting create-custom 0x123... 1000000000000000000000 1700000000 1700000000:1000,1715000000:5000,1730000000:10000 false");
+        process.exit(1);
+      }
+
+      const points = customTable.split(",").map((point) => point.split(":").map((v) => parseInt(v)));
+      console.log(`📅 Creating custom vesting with ${points.length} unlocks...`);
+      for (const [unlockTime, bps] of points) {
+        console.log(`  ${new Date(unlockTime * 1000).toLocaleString()}: ${bps / 100}%`);
+      }
+      await tokenVesting.createCustomVesting(
+        customBeneficiary,
+        customAmount,
+        parseInt(customStart),
+        points.map(([unlockTime]) => unlockTime),
+        points.map(([, bps]) => bps),
+        customRevocable
+      );
+      console.log("✅ Vesting schedule created");
+      break;
+
     case "release":
       const scheduleId = process.argv[3] || "0";
       console.log(`🎁 Releasing vesting schedule ${scheduleId}...`);
@@ -100,8 +162,25 @@ async function main() {
         console.log(`Start: ${new Date(Number(schedule.start) * 1000).toLocaleString()}`);
         console.log(`Cliff: ${new Date(Number(schedule.cliff) * 1000).toLocaleString()}`);
         console.log(`Duration: ${Number(schedule.duration) / 86400} days`);
+        console.log(`Curve: ${CURVES[Number(schedule.curve)]}`);
+        if (Number(schedule.curve) === 1) {
+          console.log(`Step: every ${Number(schedule.stepInterval) / 86400} days`);
+        } else if (Number(schedule.curve) === 2) {
+          const table = await tokenVesting.getUnlockTable(statusBeneficiary, i);
+          for (const point of table) {
+            console.log(`  ${new Date(Number(point.timestamp) * 1000).toLocaleString()}: ${Number(point.cumulativeBps) / 100}%`);
+          }
+        }
         console.log(`Revocable: ${schedule.revocable}`);
         console.log(`Revoked: ${schedule.revoked ? "🔴 YES" : "🟢 NO"}`);
+
+        const movedTo = await tokenVesting.transferredTo(statusBeneficiary, i);
+        const pendingTransfer = await tokenVesting.pendingTransfers(statusBeneficiary, i);
+        if (movedTo !== ethers.ZeroAddress) {
+          console.log(`Transferred to: ${movedTo}`);
+        } else if (pendingTransfer.to !== ethers.ZeroAddress) {
+          console.log(`Pending transfer to: ${pendingTransfer.to}${pendingTransfer.approved ? " (approved)" : ""}`);
+        }
       }
       break;
       
@@ -159,15 +238,162 @@ async function main() {
       console.log("✅ Advisor vesting created");
       break;
       
+    case "set-template":
+      // Named schedule shape for createVestingBatch and create-from-template, e.g. team-4y-1y-cliff 1460 365 true
+      const templateName = process.argv[3];
+      const templateDays = process.argv[4];
+      const templateCliffDays = process.argv[5] || "0";
+      const templateRevocable = process.argv[6] === "true";
+
+      if (!templateName || templateDays === undefined) {
+        console.error("❌ Usage: npm run manage-vesting set-template <name> <durationDays> [cliffDays] [revocable]");
+        console.error("Example: npm run manage-vesting set-template team-4y-1y-cliff 1460 365 true (0 days removes it)");
+        process.exit(1);
+      }
+
+      console.log(`🧩 Setting template "${templateName}"...`);
+      await tokenVesting.setVestingTemplate(
+        templateName,
+        Math.round(Number(templateDays) * 86400),
+        Math.round(Number(templateCliffDays) * 86400),
+        templateRevocable
+      );
+      console.log("✅ Template set");
+      break;
+
+    case "templates":
+      // Templates are only enumerable through their events; show the current value of each name
+      const templateEvents = await tokenVesting.queryFilter(tokenVesting.filters.VestingTemplateSet());
+      const templateNames = [...new Set(templateEvents.map((e) => e.args.name))];
+
+      console.log(`🧩 Vesting templates (${templateNames.length}):`);
+      for (const name of templateNames) {
+        const template = await tokenVesting.getVestingTemplate(name);
+        if (template.duration === 0n) continue;
+        console.log(
+          `• ${name}: ${Number(template.duration) / 86400} days, ${Number(template.cliff) / 86400} days cliff, ` +
+            `${template.revocable ? "revocable" : "not revocable"}`
+        );
+      }
+      break;
+
+    case "create-from-template":
+      const templateBeneficiary = process.argv[3];
+      const templateAmount = process.argv[4];
+      const fromTemplate = process.argv[5];
+      const templateStart = process.argv[6];
+
+      if (!templateBeneficiary || !templateAmount || !fromTemplate) {
+        console.error("❌ Usage: npm run manage-vesting create-from-template <beneficiary> <tokens> <template> [start]");
+        console.error("Example: npm run manage-vesting create-from-template 0x123... 250000 team-4y-1y-cliff");
+        process.exit(1);
+      }
+
+      const templateStartTime = templateStart ? parseInt(templateStart) : Math.floor(Date.now() / 1000) + 86400;
+      console.log(`📅 Creating "${fromTemplate}" vesting of ${templateAmount} tokens for ${templateBeneficiary}...`);
+      console.log(`Start: ${new Date(templateStartTime * 1000).toLocaleString()}`);
+      await tokenVesting.createVestingBatch(
+        [templateBeneficiary],
+        [ethers.parseEther(templateAmount)],
+        templateStartTime,
+        fromTemplate
+      );
+      console.log("✅ Vesting schedule created");
+      break;
+
+    case "request-transfer":
+      // Signed by the current beneficiary, e.g. before rotating to a new wallet
+      const transferScheduleId = process.argv[3];
+      const transferTo = process.argv[4];
+
+      if (transferScheduleId === undefined || !transferTo) {
+        console.error("❌ Usage: npm run manage-vesting request-transfer <scheduleId> <newWallet>");
+        process.exit(1);
+      }
+
+      console.log(`📨 Requesting transfer of schedule ${transferScheduleId} from ${owner.address} to ${transferTo}...`);
+      await tokenVesting.requestScheduleTransfer(parseInt(transferScheduleId), transferTo);
+      console.log("✅ Transfer requested; the new wallet completes it with accept-transfer");
+      if (await tokenVesting.transferApprovalRequired()) {
+        console.log("ℹ️  The owner must approve it first (approve-transfer)");
+      }
+      break;
+
+    case "accept-transfer":
+      // Signed by the new wallet
+      const acceptFrom = process.argv[3];
+      const acceptScheduleId = process.argv[4];
+
+      if (!acceptFrom || acceptScheduleId === undefined) {
+        console.error("❌ Usage: npm run manage-vesting accept-transfer <fromBeneficiary> <scheduleId>");
+        process.exit(1);
+      }
+
+      console.log(`📥 Accepting schedule ${acceptScheduleId} of ${acceptFrom} into ${owner.address}...`);
+      await tokenVesting.acceptScheduleTransfer(acceptFrom, parseInt(acceptScheduleId));
+      const newCount = await tokenVesting.getScheduleCount(owner.address);
+      console.log(`✅ Schedule transferred, now schedule ${newCount - 1n} of ${owner.address}`);
+      break;
+
+    case "cancel-transfer":
+      const cancelScheduleId = process.argv[3];
+
+      if (cancelScheduleId === undefined) {
+        console.error("❌ Usage: npm run manage-vesting cancel-transfer <scheduleId>");
+        process.exit(1);
+      }
+
+      await tokenVesting.cancelScheduleTransfer(parseInt(cancelScheduleId));
+      console.log(`✅ Transfer request for schedule ${cancelScheduleId} cancelled`);
+      break;
+
+    case "approve-transfer":
+      const approveFrom = process.argv[3];
+      const approveScheduleId = process.argv[4];
+
+      if (!approveFrom || approveScheduleId === undefined) {
+        console.error("❌ Usage: npm run manage-vesting approve-transfer <fromBeneficiary> <scheduleId>");
+        process.exit(1);
+      }
+
+      const request = await tokenVesting.pendingTransfers(approveFrom, parseInt(approveScheduleId));
+      console.log(`👍 Approving transfer of schedule ${approveScheduleId} from ${approveFrom} to ${request.to}...`);
+      await tokenVesting.approveScheduleTransfer(approveFrom, parseInt(approveScheduleId));
+      console.log("✅ Transfer approved");
+      break;
+
+    case "require-transfer-approval":
+      const required = process.argv[3];
+
+      if (required !== "true" && required !== "false") {
+        console.error("❌ Usage: npm run manage-vesting require-transfer-approval <true|false>");
+        process.exit(1);
+      }
+
+      await tokenVesting.setTransferApprovalRequired(required === "true");
+      console.log(`✅ Owner approval of schedule transfers ${required === "true" ? "required" : "not required"}`);
+      break;
+
     default:
       console.log("👥 Token Vesting Management Tool");
       console.log("Available commands:");
       console.log("• npm run manage-vesting create <beneficiary> <amount> <start> <duration> <cliff> <revocable>");
+      console.log("• npm run manage-vesting create-step <beneficiary> <amount> <start> <duration> <cliff> <stepInterval> <revocable>");
+      console.log("• npm run manage-vesting create-custom <beneficiary> <amount> <start> <time:bps,...> <revocable>");
       console.log("• npm run manage-vesting create-team <address> <amount> - Quick team setup");
       console.log("• npm run manage-vesting create-advisor <address> <amount> - Quick advisor setup");
+      console.log("• npm run manage-vesting set-template <name> <durationDays> [cliffDays] [revocable] - Add a template");
+      console.log("• npm run manage-vesting templates - List vesting templates");
+      console.log("• npm run manage-vesting create-from-template <beneficiary> <tokens> <template> [start]");
+      console.log("• npm run vesting-batch - Create schedules from a CSV (see scripts/vesting-batch.ts)");
       console.log("• npm run manage-vesting release [scheduleId] - Release vested tokens");
       console.log("• npm run manage-vesting revoke <beneficiary> [scheduleId] - Revoke vesting");
       console.log("• npm run manage-vesting status <beneficiary> - Check vesting status");
+      console.log("• npm run manage-vesting request-transfer <scheduleId> <newWallet> - Move a schedule (beneficiary)");
+      console.log("• npm run manage-vesting accept-transfer <fromBeneficiary> <scheduleId> - Accept it (new wallet)");
+      console.log("• npm run manage-vesting cancel-transfer <scheduleId> - Cancel a transfer request");
+      console.log("• npm run manage-vesting approve-transfer <fromBeneficiary> <scheduleId> - Approve a transfer (owner)");
+      console.log("• npm run manage-vesting require-transfer-approval <true|false> - Toggle owner approval");
       break;
   }
 }
@@ -0,0 +1,92 @@
+// packages/contracts/scripts/relayer.ts
+import http from "http";
+import { ethers } from "hardhat";
+import { parseForwardRequest } from "./forward-request";
+
+/**
+ * Minimal local relayer for gasless claims and vesting releases.
+ * Accepts signed forward requests over HTTP and submits them to PresaleForwarder, paying the gas
+ * from the first Hardhat signer.
+ *
+ * Example usage:
+ *  FORWARDER_ADDRESS=0x... DYNAMICPRESALE_ADDRESS=0x... TOKENVESTING_ADDRESS=0x... \
+ *    npx hardhat run scripts/relayer.ts --network localhost
+ *
+ *  POST http://localhost:8787/relay  { from, to, value, gas, deadline, data, signature }
+ *  → { txHash }
+ *
+ * Only zero-value calls to the presale and vesting contracts, for the functions below, are relayed.
+ */
+
+const RELAYED_FUNCTIONS = [
+  "function claim()",
+  "function requestRefund()",
+  "function withdrawPayments()",
+  "function release()",
+  "function releaseSchedule(uint256 scheduleId)",
+];
+const MAX_BODY_BYTES = 16 * 1024;
+
+async function main() {
+  const FORWARDER_ADDRESS = process.env.FORWARDER_ADDRESS || "";
+  const targets = [process.env.DYNAMICPRESALE_ADDRESS, process.env.TOKENVESTING_ADDRESS]
+    .filter((a): a is string => !!a && ethers.isAddress(a))
+    .map((a) => ethers.getAddress(a));
+  const port = Number(process.env.RELAYER_PORT || 8787);
+
+  if (!FORWARDER_ADDRESS || targets.length === 0) {
+    console.error("❌ Please set FORWARDER_ADDRESS and DYNAMICPRESALE_ADDRESS and/or TOKENVESTING_ADDRESS");
+    process.exit(1);
+  }
+
+  const [relayer] = await ethers.getSigners();
+  const forwarder = await ethers.getContractAt("PresaleForwarder", FORWARDER_ADDRESS, relayer);
+  const selectors = new Set(RELAYED_FUNCTIONS.map((f) => ethers.FunctionFragment.from(f).selector));
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: object) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Headers": "Content-Type",
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "OPTIONS") return reply(204, {});
+    if (req.method !== "POST" || req.url !== "/relay") return reply(404, { error: "POST /relay" });
+
+    let raw = "";
+    req.on("data", (chunk) => {
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) req.destroy();
+    });
+    req.on("end", async () => {
+      try {
+        const request = parseForwardRequest(JSON.parse(raw));
+        if (!targets.includes(request.to)) return reply(400, { error: "target not relayed" });
+        if (request.value !== 0n) return reply(400, { error: "value must be 0" });
+        if (!selectors.has(request.data.slice(0, 10))) return reply(400, { error: "function not relayed" });
+        if (!(await forwarder.verify(request))) return reply(400, { error: "invalid or expired request" });
+
+        const tx = await forwarder.execute(request);
+        console.log(`📨 Relayed ${request.data.slice(0, 10)} for ${request.from} → ${request.to} (${tx.hash})`);
+        reply(200, { txHash: tx.hash });
+      } catch (err) {
+        console.error("❌ Relay failed:", err);
+        reply(500, { error: err instanceof Error ? err.message : String(err) });
+      }
+    });
+  });
+
+  server.listen(port, () => {
+    console.log(`🚀 Relayer ${relayer.address} listening on http://localhost:${port}/relay`);
+    console.log(`   Forwarder: ${FORWARDER_ADDRESS}`);
+    console.log(`   Targets: ${targets.join(", ")}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -5,7 +5,6 @@ import { ethers } from "ethers";
 const ABI = [
   "function totalPhases() view returns (uint256)",
   "function getPhase(uint256) view returns (uint256 priceWei, uint256 supply, uint256 sold, uint256 start, uint256 end)",
-  "function owner() view returns (address)",
   "function getCurrentPhase() view returns (uint256)",
 ];
 
@@ -21,9 +20,6 @@ async function main() {
   const contract = new ethers.Contract(CONTRACT, ABI, provider);
 
   try {
-    const owner = await contract.owner().catch(() => null);
-    console.log("owner:", owner);
-
     const total = Number(await contract.totalPhases());
     console.log("totalPhases:", total);
 
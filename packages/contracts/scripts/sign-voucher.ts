@@ -0,0 +1,116 @@
+// packages/contracts/scripts/sign-voucher.ts
+import { ethers } from "ethers";
+
+/**
+ * Signs EIP-712 purchase vouchers for DynamicPresale.buyWithVoucher.
+ * The key must belong to the presale's voucherSigner (set with setVoucherSigner).
+ * Example usage:
+ *  VOUCHER_SIGNER_KEY=0x... npx ts-node scripts/sign-voucher.ts --presale 0x... --chain-id 11155111 \
+ *    --buyer 0x... --max 1.5 [--ttl 3600] [--nonce 7]
+ *
+ * Prints the voucher and its signature as JSON; the buyer submits both with their purchase.
+ */
+
+export interface Voucher {
+  buyer: string;
+  maxAmount: bigint; // wei the purchase may send
+  expiry: bigint; // unix timestamp, inclusive
+  nonce: bigint; // single use per buyer
+}
+
+// Must match PurchaseVouchers.sol
+export const VOUCHER_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Voucher: [
+    { name: "buyer", type: "address" },
+    { name: "maxAmount", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export function voucherDomain(presale: string, chainId: bigint | number): ethers.TypedDataDomain {
+  return { name: "DynamicPresale", version: "1", chainId, verifyingContract: presale };
+}
+
+export function signVoucher(
+  signer: ethers.Signer,
+  presale: string,
+  chainId: bigint | number,
+  voucher: Voucher
+): Promise<string> {
+  return signer.signTypedData(voucherDomain(presale, chainId), VOUCHER_TYPES, voucher);
+}
+
+/** Random 128-bit nonce, so issuers need no shared counter */
+export function randomNonce(): bigint {
+  return BigInt(ethers.hexlify(ethers.randomBytes(16)));
+}
+
+function parseArgs(): Record<string, string> {
+  const argv = process.argv.slice(2);
+  const out: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith("--")) continue;
+    const key = a.slice(2);
+    const next = argv[i + 1];
+    if (!next || next.startsWith("--")) {
+      out[key] = "true";
+    } else {
+      out[key] = next;
+      i++;
+    }
+  }
+  return out;
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs();
+  const key = process.env.VOUCHER_SIGNER_KEY;
+
+  if (!key || !args.presale || !args["chain-id"] || !args.buyer || !args.max) {
+    console.error(
+      "❌ Usage: VOUCHER_SIGNER_KEY=<key> npx ts-node scripts/sign-voucher.ts --presale <address> --chain-id <id> --buyer <address> --max <eth> [--ttl <seconds>] [--nonce <n>]"
+    );
+    process.exit(1);
+  }
+  if (!ethers.isAddress(args.presale) || !ethers.isAddress(args.buyer)) {
+    console.error("❌ --presale and --buyer must be addresses");
+    process.exit(1);
+  }
+
+  const ttl = Number(args.ttl ?? 3600);
+  const voucher: Voucher = {
+    buyer: ethers.getAddress(args.buyer),
+    maxAmount: ethers.parseEther(args.max),
+    expiry: BigInt(Math.floor(Date.now() / 1000) + ttl),
+    nonce: args.nonce !== undefined ? BigInt(args.nonce) : randomNonce(),
+  };
+
+  const wallet = new ethers.Wallet(key);
+  const signature = await signVoucher(wallet, ethers.getAddress(args.presale), BigInt(args["chain-id"]), voucher);
+
+  console.error(`✍️  Voucher for ${voucher.buyer} signed by ${wallet.address}`);
+  console.log(
+    JSON.stringify(
+      {
+        voucher: {
+          buyer: voucher.buyer,
+          maxAmount: voucher.maxAmount.toString(),
+          expiry: voucher.expiry.toString(),
+          nonce: voucher.nonce.toString(),
+        },
+        signature,
+      },
+      null,
+      2
+    )
+  );
+}
+
+if (require.main === module) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
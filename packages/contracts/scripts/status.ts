@@ -41,6 +41,7 @@ async function main() {
   const softCap = await dynamicPresale.softCap();
   const softCapReached = await dynamicPresale.softCapReached();
   const saleEnded = await dynamicPresale.saleEnded();
+  const saleCancelled = await dynamicPresale.saleCancelled();
   const presalePaused = await dynamicPresale.paused();
 
   console.log(`Total Raised: ${ethers.formatEther(totalRaised)} ETH`);
@@ -49,6 +50,7 @@ async function main() {
   console.log(`Total Buyers: ${totalBuyers}`);
   console.log(`Tokens Sold: ${ethers.formatEther(totalTokensSold)} tokens`);
   console.log(`Sale Ended: ${saleEnded ? "🔴 YES" : "🟢 NO"}`);
+  console.log(`Sale Cancelled: ${saleCancelled ? "🔴 YES (refund mode)" : "🟢 NO"}`);
   console.log(`Presale Paused: ${presalePaused ? "🔴 YES" : "🟢 NO"}`);
 
   console.log("\n=== 📅 PHASE INFORMATION ===");
@@ -107,7 +109,7 @@ async function main() {
   console.log(`Token Balance: ${ethers.formatEther(ownerTokenBalance)} tokens`);
 
   // Check if owner can withdraw proceeds
-  if (saleEnded && softCapReached) {
+  if (saleEnded && softCapReached && !saleCancelled) {
     const contractBalance = await ethers.provider.getBalance(DYNAMICPRESALE_ADDRESS);
     console.log(`Contract ETH Balance: ${ethers.formatEther(contractBalance)} ETH`);
     if (contractBalance > 0) {
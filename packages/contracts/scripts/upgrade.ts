@@ -0,0 +1,130 @@
+// packages/contracts/scripts/upgrade.ts
+import { artifacts, deployments, ethers, upgrades } from "hardhat";
+import type { ContractFactory } from "ethers";
+
+/**
+ * Upgrades a DynamicPresale or TokenVesting UUPS proxy (deployed with UPGRADEABLE=true) to a new implementation.
+ * The new implementation is validated with @openzeppelin/hardhat-upgrades before anything is deployed:
+ * it must be upgrade safe and its storage layout must extend REFERENCE, the contract currently behind the proxy.
+ * Keep the live version in the sources (e.g. DynamicPresaleUpgradeable) and add the fix as a new contract.
+ *
+ * Example usage:
+ *  PROXY_ADDRESS=0x... REFERENCE=DynamicPresaleUpgradeable CONTRACT=DynamicPresaleUpgradeableV2 \
+ *    [UPGRADE_CALL=initializeV2] npx hardhat run scripts/upgrade.ts --network sepolia
+ *
+ * Implementation constructor arguments (token_, tokenDecimals_, trustedForwarder_, extension_, ...) are read from
+ * the proxy's getters of the same name, and linked libraries from the hardhat-deploy deployments. Both versions must
+ * take the same constructor arguments. When the upgrade changes DynamicPresaleExtension, deploy the new one first
+ * (same token, decimals and forwarder) and pass it as EXTENSION=0x...
+ */
+
+// Shared by this script and the upgrade tests
+export const UPGRADE_SAFETY = {
+  kind: "uups" as const,
+  // Constructors only set implementation immutables (token, forwarder, extension); proxy state comes from initialize().
+  // DynamicPresale delegatecalls its extension, which shares the proxy's storage layout
+  unsafeAllow: ["constructor", "state-variable-immutable", "delegatecall"] as (
+    | "constructor"
+    | "state-variable-immutable"
+    | "delegatecall"
+  )[],
+  // PhasePricing, PhaseConfig, PriceFeed, PurchaseVouchers, ProceedsSplit and ProceedsTranches are stateless
+  unsafeAllowLinkedLibraries: true,
+};
+
+/**
+ * Check that `next` is upgrade safe and extends the storage layout of `reference`.
+ * The implementations are encoded with `constructorArgs`, which validateUpgrade reads but does not type
+ */
+export function validateUpgrade(reference: ContractFactory, next: ContractFactory, constructorArgs: unknown[]) {
+  const opts: Parameters<typeof upgrades.validateUpgrade>[2] & { constructorArgs: unknown[] } = {
+    ...UPGRADE_SAFETY,
+    constructorArgs,
+  };
+  return upgrades.validateUpgrade(reference, next, opts);
+}
+
+async function getLinkedFactory(name: string): Promise<ContractFactory> {
+  const artifact = await artifacts.readArtifact(name);
+  const libraries: Record<string, string> = {};
+  for (const libs of Object.values(artifact.linkReferences)) {
+    for (const lib of Object.keys(libs)) {
+      libraries[lib] = (await deployments.get(lib)).address;
+    }
+  }
+  return ethers.getContractFactory(name, { libraries });
+}
+
+async function main() {
+  const PROXY_ADDRESS = process.env.PROXY_ADDRESS || "";
+  const REFERENCE = process.env.REFERENCE || "";
+  const CONTRACT = process.env.CONTRACT || "";
+  const UPGRADE_CALL = process.env.UPGRADE_CALL || "";
+
+  if (!PROXY_ADDRESS || !ethers.isAddress(PROXY_ADDRESS) || !REFERENCE || !CONTRACT) {
+    console.error("❌ Please set PROXY_ADDRESS, REFERENCE (current contract) and CONTRACT (new contract)");
+    process.exit(1);
+  }
+
+  const [owner] = await ethers.getSigners();
+  console.log("🔧 Upgrading with account:", owner.address);
+
+  const referenceFactory = await getLinkedFactory(REFERENCE);
+  const newFactory = await getLinkedFactory(CONTRACT);
+
+  // Immutables of the new implementation mirror the live ones
+  const proxy = new ethers.Contract(PROXY_ADDRESS, newFactory.interface, owner);
+  const constructorArgs = [];
+  for (const input of newFactory.interface.deploy.inputs) {
+    if (input.name === "extension_" && process.env.EXTENSION) {
+      constructorArgs.push(ethers.getAddress(process.env.EXTENSION));
+      continue;
+    }
+    const getter = input.name.replace(/_$/, "");
+    constructorArgs.push(await proxy.getFunction(getter).staticCall());
+  }
+
+  console.log(`🔍 Validating ${CONTRACT} against ${REFERENCE}...`);
+  await validateUpgrade(referenceFactory, newFactory, constructorArgs);
+  console.log("✅ Upgrade safe, storage layout compatible");
+
+  // DynamicPresale upgrades are gated by DEFAULT_ADMIN_ROLE; TokenVesting and the first, Ownable DynamicPresale
+  // by the owner (migrate that one to roles with UPGRADE_CALL=initializeV2)
+  const live = new ethers.Contract(PROXY_ADDRESS, referenceFactory.interface, owner);
+  if (referenceFactory.interface.hasFunction("hasRole")) {
+    const adminRole = await live.getFunction("DEFAULT_ADMIN_ROLE").staticCall();
+    if (!(await live.getFunction("hasRole").staticCall(adminRole, owner.address))) {
+      console.error(`❌ ${owner.address} lacks DEFAULT_ADMIN_ROLE and cannot upgrade`);
+      process.exit(1);
+    }
+  } else {
+    const currentOwner = await live.getFunction("owner").staticCall();
+    if (currentOwner !== owner.address) {
+      console.error(`❌ Only the owner (${currentOwner}) can upgrade`);
+      process.exit(1);
+    }
+  }
+
+  const previous = await upgrades.erc1967.getImplementationAddress(PROXY_ADDRESS);
+  const implementation = await newFactory.deploy(...constructorArgs);
+  await implementation.waitForDeployment();
+  const implementationAddress = await implementation.getAddress();
+  console.log(`📦 ${CONTRACT} implementation deployed at: ${implementationAddress}`);
+
+  const callData = UPGRADE_CALL ? newFactory.interface.encodeFunctionData(UPGRADE_CALL, []) : "0x";
+  const tx = await proxy.getFunction("upgradeToAndCall")(implementationAddress, callData);
+  await tx.wait();
+
+  const current = await upgrades.erc1967.getImplementationAddress(PROXY_ADDRESS);
+  if (current !== implementationAddress) {
+    throw new Error(`Proxy still points to ${current}`);
+  }
+  console.log(`✅ Proxy ${PROXY_ADDRESS} upgraded: ${previous} → ${implementationAddress} (${tx.hash})`);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,201 @@
+// packages/contracts/scripts/vesting-batch.ts
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+
+/**
+ * Creates vesting schedules from a CSV with TokenVesting.createVestingBatch.
+ * Each row is `beneficiary,amount,template[,start]`: amount in whole tokens (decimals allowed), template the name
+ * of an on-chain template (see `manage-vesting set-template`), start a unix timestamp (defaults to START).
+ * A header row is ignored. Rows sharing a template and start are submitted together, in chunks of BATCH_SIZE.
+ *
+ * Before sending anything the script checks every row, that the templates exist, and that the token balance of
+ * the vesting contract covers totalCommitted plus the CSV total. DRY_RUN=true stops after simulating each chunk.
+ * Progress is written to a checkpoint file after each confirmed chunk, so an interrupted run resumes where it stopped.
+ *
+ * Example usage:
+ *  TOKENVESTING_ADDRESS=0x... CSV_FILE=team.csv [START=1767225600] [BATCH_SIZE=50] [DRY_RUN=true] \
+ *    [CHECKPOINT_FILE=vesting-batch.json] npx hardhat run scripts/vesting-batch.ts --network sepolia
+ */
+
+interface Row {
+  line: number;
+  beneficiary: string;
+  amount: bigint;
+  template: string;
+  start: number;
+}
+
+interface Chunk {
+  template: string;
+  start: number;
+  rows: Row[];
+}
+
+interface Checkpoint {
+  vesting: string;
+  csvHash: string; // a resumed run must read the same CSV
+  chunks: { index: number; size: number; txHash: string }[];
+}
+
+function readRows(csvPath: string, decimals: number, defaultStart: number | null): Row[] {
+  const rows: Row[] = [];
+  fs.readFileSync(csvPath, "utf8")
+    .split(/\r?\n/)
+    .forEach((line, idx) => {
+      const cells = line.split(",").map((c) => c.trim());
+      if (!cells[0]) return;
+      if (!ethers.isAddress(cells[0])) {
+        // tolerate a header row, reject anything else
+        if (idx === 0) return;
+        throw new Error(`Invalid address on line ${idx + 1}: ${cells[0]}`);
+      }
+
+      const amount = ethers.parseUnits(cells[1] || "0", decimals);
+      if (amount <= 0n) throw new Error(`Amount must be positive on line ${idx + 1}`);
+      if (!cells[2]) throw new Error(`Missing template on line ${idx + 1}`);
+
+      const start = cells[3] ? Number(cells[3]) : defaultStart;
+      if (start === null || !Number.isInteger(start) || start <= 0) {
+        throw new Error(`Missing or invalid start on line ${idx + 1}; add a start column or set START`);
+      }
+
+      rows.push({ line: idx + 1, beneficiary: ethers.getAddress(cells[0]), amount, template: cells[2], start });
+    });
+  return rows;
+}
+
+function toChunks(rows: Row[], batchSize: number): Chunk[] {
+  const groups = new Map<string, Chunk>();
+  for (const row of rows) {
+    const key = `${row.template}@${row.start}`;
+    if (!groups.has(key)) groups.set(key, { template: row.template, start: row.start, rows: [] });
+    groups.get(key)!.rows.push(row);
+  }
+
+  const chunks: Chunk[] = [];
+  for (const group of groups.values()) {
+    for (let i = 0; i < group.rows.length; i += batchSize) {
+      chunks.push({ template: group.template, start: group.start, rows: group.rows.slice(i, i + batchSize) });
+    }
+  }
+  return chunks;
+}
+
+function loadCheckpoint(file: string, vesting: string, csvHash: string): Checkpoint {
+  if (!fs.existsSync(file)) return { vesting, csvHash, chunks: [] };
+  const checkpoint = JSON.parse(fs.readFileSync(file, "utf8")) as Checkpoint;
+  if (checkpoint.vesting !== vesting || checkpoint.csvHash !== csvHash) {
+    throw new Error(`Checkpoint ${file} belongs to another vesting contract or CSV; remove it or set CHECKPOINT_FILE`);
+  }
+  return checkpoint;
+}
+
+function saveCheckpoint(file: string, checkpoint: Checkpoint): void {
+  fs.writeFileSync(file, JSON.stringify(checkpoint, null, 2));
+}
+
+async function main() {
+  const TOKENVESTING_ADDRESS = process.env.TOKENVESTING_ADDRESS || "";
+  const CSV_FILE = process.env.CSV_FILE || "";
+  const DRY_RUN = process.env.DRY_RUN === "true";
+
+  if (!TOKENVESTING_ADDRESS || !ethers.isAddress(TOKENVESTING_ADDRESS) || !CSV_FILE) {
+    console.error("❌ Please set TOKENVESTING_ADDRESS and CSV_FILE environment variables");
+    process.exit(1);
+  }
+
+  const vestingAddress = ethers.getAddress(TOKENVESTING_ADDRESS);
+  const [owner] = await ethers.getSigners();
+  const tokenVesting = await ethers.getContractAt("TokenVesting", vestingAddress, owner);
+  const token = await ethers.getContractAt("IERC20Metadata", await tokenVesting.token());
+  const decimals = Number(await token.decimals());
+  const symbol = await token.symbol();
+
+  const maxBatch = Number(await tokenVesting.MAX_VESTING_BATCH());
+  const batchSize = Number(process.env.BATCH_SIZE || 50);
+  if (!Number.isInteger(batchSize) || batchSize <= 0 || batchSize > maxBatch) {
+    console.error(`❌ BATCH_SIZE must be between 1 and ${maxBatch}`);
+    process.exit(1);
+  }
+
+  const csvPath = path.resolve(CSV_FILE);
+  const rows = readRows(csvPath, decimals, process.env.START ? Number(process.env.START) : null);
+  if (rows.length === 0) {
+    console.error("❌ No rows found in", CSV_FILE);
+    process.exit(1);
+  }
+
+  // Templates must exist on chain; their shape is printed so the operator can eyeball it
+  const templates = [...new Set(rows.map((r) => r.template))];
+  for (const name of templates) {
+    const template = await tokenVesting.getVestingTemplate(name);
+    if (template.duration === 0n) {
+      console.error(`❌ Unknown template "${name}"; add it with: npm run manage-vesting set-template ${name} ...`);
+      process.exit(1);
+    }
+    const count = rows.filter((r) => r.template === name).length;
+    console.log(
+      `📋 ${name}: ${Number(template.duration) / 86400} days, ${Number(template.cliff) / 86400} days cliff, ` +
+        `${template.revocable ? "revocable" : "not revocable"} (${count} rows)`
+    );
+  }
+
+  const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+  const late = rows.find((r) => r.start < now);
+  if (late) {
+    console.error(`❌ Start on line ${late.line} (${late.start}) is in the past`);
+    process.exit(1);
+  }
+
+  const csvTotal = rows.reduce((sum, r) => sum + r.amount, 0n);
+  const committed = await tokenVesting.totalCommitted();
+  const balance = await token.balanceOf(vestingAddress);
+
+  const csvHash = ethers.id(fs.readFileSync(csvPath, "utf8"));
+  const checkpointFile = process.env.CHECKPOINT_FILE || `vesting-batch-${network.name}.json`;
+  const checkpoint = loadCheckpoint(checkpointFile, vestingAddress, csvHash);
+  const chunks = toChunks(rows, batchSize);
+  const done = new Set(checkpoint.chunks.map((c) => c.index));
+  const pending = chunks.filter((_, i) => !done.has(i));
+  const pendingTotal = pending.reduce((sum, c) => sum + c.rows.reduce((s, r) => s + r.amount, 0n), 0n);
+
+  console.log("👥 Creating vesting schedules with account:", owner.address);
+  console.log(`Rows: ${rows.length}, total ${ethers.formatUnits(csvTotal, decimals)} ${symbol}`);
+  console.log(`Balance: ${ethers.formatUnits(balance, decimals)} ${symbol}, committed ${ethers.formatUnits(committed, decimals)} ${symbol}`);
+  console.log(`Chunks: ${chunks.length} (${pending.length} pending), checkpoint: ${checkpointFile}`);
+
+  if (balance < committed + pendingTotal) {
+    console.error(
+      `❌ Insufficient balance: transfer ${ethers.formatUnits(committed + pendingTotal - balance, decimals)} ${symbol} ` +
+        `more to ${vestingAddress}`
+    );
+    process.exit(1);
+  }
+
+  for (const [i, chunk] of chunks.entries()) {
+    if (done.has(i)) continue;
+    const beneficiaries = chunk.rows.map((r) => r.beneficiary);
+    const amounts = chunk.rows.map((r) => r.amount);
+    const label = `Chunk ${i + 1}/${chunks.length} (${chunk.template}, start ${chunk.start}, ${chunk.rows.length} rows)`;
+
+    if (DRY_RUN) {
+      await tokenVesting.createVestingBatch.staticCall(beneficiaries, amounts, chunk.start, chunk.template);
+      console.log(`🔍 ${label}: simulated`);
+      continue;
+    }
+
+    const tx = await tokenVesting.createVestingBatch(beneficiaries, amounts, chunk.start, chunk.template);
+    await tx.wait();
+    checkpoint.chunks.push({ index: i, size: chunk.rows.length, txHash: tx.hash });
+    saveCheckpoint(checkpointFile, checkpoint);
+    console.log(`✅ ${label} (${tx.hash})`);
+  }
+
+  console.log(DRY_RUN ? "🧪 Dry run complete, nothing was sent" : "🎉 Vesting schedules created");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,8 +1,35 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { DynamicPresale, MyToken } from "../typechain-types";
+import { BigNumberish } from "ethers";
+import { DynamicPresale, MyToken, MockERC20, MockV3Aggregator, PresaleForwarder } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import { Voucher, randomNonce, signVoucher } from "../scripts/sign-voucher";
+import { signForwardRequest } from "../scripts/forward-request";
+
+// DynamicPresale and its extension link the presale libraries, deployed fresh for each presale
+async function deployPresale(
+  token: string,
+  tokenDecimals: number,
+  softCap: BigNumberish,
+  minBuy: BigNumberish,
+  maxPerWallet: BigNumberish,
+  trustedForwarder: string
+) {
+  const libraries: Record<string, string> = {};
+  const names = ["PhasePricing", "PhaseConfig", "PriceFeed", "PurchaseVouchers", "ProceedsSplit", "ProceedsTranches"];
+  for (const name of names) {
+    libraries[name] = await (await (await ethers.getContractFactory(name)).deploy()).getAddress();
+  }
+  const { PhaseConfig, PurchaseVouchers, ...shared } = libraries;
+  const extension = await (
+    await ethers.getContractFactory("DynamicPresaleExtension", { libraries: { ...shared, PhaseConfig } })
+  ).deploy(token, tokenDecimals, trustedForwarder);
+  const factory = await ethers.getContractFactory("DynamicPresale", { libraries: { ...shared, PurchaseVouchers } });
+  const extensionAddress = await extension.getAddress();
+  return factory.deploy(token, tokenDecimals, softCap, minBuy, maxPerWallet, trustedForwarder, extensionAddress);
+}
 
 describe("DynamicPresale", function () {
   let dynamicPresale: DynamicPresale;
@@ -23,6 +50,11 @@ describe("DynamicPresale", function () {
   const MIN_BUY = ethers.parseEther("0.01"); // 0.01 ETH
   const MAX_PER_WALLET = ethers.parseEther("20"); // 20 ETH
 
+  // DynamicPresaleBase.SaleParam
+  const SOFT_CAP_PARAM = 0;
+  const MIN_BUY_PARAM = 1;
+  const MAX_PER_WALLET_PARAM = 2;
+
   // Phase parameters
   const PHASE_0_PRICE = ethers.parseEther("0.0005"); // 0.0005 ETH per token
   const PHASE_1_PRICE = ethers.parseEther("0.001"); // 0.001 ETH per token
@@ -45,13 +77,13 @@ describe("DynamicPresale", function () {
     await myToken.waitForDeployment();
 
     // Deploy DynamicPresale
-    const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-    dynamicPresale = await DynamicPresaleFactory.deploy(
+    dynamicPresale = await deployPresale(
       await myToken.getAddress(),
       TOKEN_DECIMALS,
       SOFT_CAP,
       MIN_BUY,
-      MAX_PER_WALLET
+      MAX_PER_WALLET,
+      ethers.ZeroAddress
     );
     await dynamicPresale.waitForDeployment();
 
@@ -89,28 +121,49 @@ describe("DynamicPresale", function () {
     });
 
     it("Should revert with invalid parameters", async function () {
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      
       // Zero token address
       await expect(
-        DynamicPresaleFactory.deploy(ethers.ZeroAddress, TOKEN_DECIMALS, SOFT_CAP, MIN_BUY, MAX_PER_WALLET)
+        deployPresale(ethers.ZeroAddress, TOKEN_DECIMALS, SOFT_CAP, MIN_BUY, MAX_PER_WALLET, ethers.ZeroAddress)
       ).to.be.revertedWith("Presale: token address zero");
 
       // Zero soft cap
       await expect(
-        DynamicPresaleFactory.deploy(await myToken.getAddress(), TOKEN_DECIMALS, 0, MIN_BUY, MAX_PER_WALLET)
+        deployPresale(await myToken.getAddress(), TOKEN_DECIMALS, 0, MIN_BUY, MAX_PER_WALLET, ethers.ZeroAddress)
       ).to.be.revertedWith("Presale: softCap must be greater than 0");
 
       // Zero min buy
       await expect(
-        DynamicPresaleFactory.deploy(await myToken.getAddress(), TOKEN_DECIMALS, SOFT_CAP, 0, MAX_PER_WALLET)
+        deployPresale(await myToken.getAddress(), TOKEN_DECIMALS, SOFT_CAP, 0, MAX_PER_WALLET, ethers.ZeroAddress)
       ).to.be.revertedWith("Presale: minBuy must be greater than 0");
 
       // Max per wallet less than min buy
       await expect(
-        DynamicPresaleFactory.deploy(await myToken.getAddress(), TOKEN_DECIMALS, SOFT_CAP, MAX_PER_WALLET, MIN_BUY)
+        deployPresale(await myToken.getAddress(), TOKEN_DECIMALS, SOFT_CAP, MAX_PER_WALLET, MIN_BUY, ethers.ZeroAddress)
       ).to.be.revertedWith("Presale: maxPerWallet must be >= minBuy");
     });
+
+    it("Should reject an extension built for another token", async function () {
+      const otherToken = await (await ethers.getContractFactory("MyToken")).deploy("Other", "OTH", TOKEN_CAP);
+      const extension = await ethers.getContractAt("DynamicPresaleExtension", await dynamicPresale.extension());
+      const libraries: Record<string, string> = {};
+      const names = ["PhasePricing", "PriceFeed", "PurchaseVouchers", "ProceedsSplit", "ProceedsTranches"];
+      for (const name of names) {
+        libraries[name] = await (await (await ethers.getContractFactory(name)).deploy()).getAddress();
+      }
+      const factory = await ethers.getContractFactory("DynamicPresale", { libraries });
+
+      await expect(
+        factory.deploy(
+          await otherToken.getAddress(),
+          TOKEN_DECIMALS,
+          SOFT_CAP,
+          MIN_BUY,
+          MAX_PER_WALLET,
+          ethers.ZeroAddress,
+          await extension.getAddress()
+        )
+      ).to.be.revertedWith("Presale: extension mismatch");
+    });
   });
 
   describe("Phase Management", function () {
@@ -176,7 +229,50 @@ describe("DynamicPresale", function () {
     it("Should only allow owner to add phases", async function () {
       await expect(
         dynamicPresale.connect(buyer1).addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End)
-      ).to.be.revertedWithCustomError(dynamicPresale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should update price, supply and times of an upcoming phase", async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      const newSupply = PHASE_SUPPLY * 2n;
+
+      await expect(
+        dynamicPresale.updatePhase(0, PHASE_1_PRICE, newSupply, phase0Start + 60, phase0End + 60)
+      ).to.emit(dynamicPresale, "PhaseUpdated")
+        .withArgs(0, PHASE_1_PRICE, newSupply, phase0Start + 60, phase0End + 60);
+
+      const phase = await dynamicPresale.getPhase(0);
+      expect(phase.priceWei).to.equal(PHASE_1_PRICE);
+      expect(phase.supply).to.equal(newSupply);
+      expect(phase.start).to.equal(phase0Start + 60);
+      expect(phase.end).to.equal(phase0End + 60);
+    });
+
+    it("Should not update a phase that has started", async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+
+      await expect(
+        dynamicPresale.updatePhase(0, PHASE_1_PRICE, PHASE_SUPPLY, phase0Start, phase0End)
+      ).to.be.revertedWith("Presale: cannot update active/past phase");
+    });
+
+    it("Should not shrink an upcoming phase below what spillover already sold", async function () {
+      const smallSupply = ethers.parseEther("1000");
+      await dynamicPresale.addPhase(PHASE_0_PRICE, smallSupply, phase0Start, phase0End);
+      await dynamicPresale.addPhase(PHASE_1_PRICE, PHASE_SUPPLY, phase1Start, phase1End);
+      await dynamicPresale.setSpilloverEnabled(true);
+      await time.increaseTo(phase0Start);
+
+      // 0.5 ETH sells out phase 0, the remaining 0.5 ETH buys 500 tokens from phase 1
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+
+      await expect(
+        dynamicPresale.updatePhase(1, PHASE_1_PRICE, ethers.parseEther("100"), phase1Start, phase1End)
+      ).to.be.revertedWith("Presale: supply below sold");
+      await expect(
+        dynamicPresale.updatePhase(1, 0, PHASE_SUPPLY, phase1Start, phase1End)
+      ).to.be.revertedWith("Presale: price must be greater than 0");
     });
   });
 
@@ -205,7 +301,7 @@ describe("DynamicPresale", function () {
       await expect(
         dynamicPresale.connect(buyer1).buy({ value: buyAmount })
       ).to.emit(dynamicPresale, "Purchased")
-        .withArgs(buyer1.address, 0, buyAmount, expectedTokens);
+        .withArgs(buyer1.address, 0, buyAmount, expectedTokens, buyer1.address);
     });
 
     it("Should handle excess ETH correctly", async function () {
@@ -294,268 +390,2193 @@ describe("DynamicPresale", function () {
     });
   });
 
-  describe("Calculate Tokens", function () {
+  describe("Buying for Another Wallet", function () {
+    // buyer2 is a custodian paying for `beneficiary`, with buyer3 as its refund address
     beforeEach(async function () {
       await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
       await time.increaseTo(phase0Start);
     });
 
-    it("Should calculate tokens correctly", async function () {
-      const ethAmount = ethers.parseEther("1");
-      const [tokens, cost, excess] = await dynamicPresale.calculateTokens(ethAmount);
-      
-      const expectedTokens = (ethAmount * (10n ** BigInt(TOKEN_DECIMALS))) / PHASE_0_PRICE;
-      const expectedCost = (expectedTokens * PHASE_0_PRICE) / (10n ** BigInt(TOKEN_DECIMALS));
-      const expectedExcess = ethAmount - expectedCost;
-      
-      expect(tokens).to.equal(expectedTokens);
-      expect(cost).to.equal(expectedCost);
-      expect(excess).to.equal(expectedExcess);
-    });
-
-    it("Should handle partial fulfillment", async function () {
-      // First, buy most of the phase (but within maxPerWallet limit)
-      const maxWalletCost = MAX_PER_WALLET - ethers.parseEther("0.2"); // Leave room for second buy
-      await dynamicPresale.connect(buyer1).buy({ value: maxWalletCost });
-      
-      // Second buyer partially fills remaining phase
-      const ethAmount = ethers.parseEther("1");
-      const [tokens, cost, excess] = await dynamicPresale.calculateTokens(ethAmount);
-      
-      const remainingTokens = await dynamicPresale.remainingTokensInCurrentPhase();
-      if (remainingTokens > 0) {
-        expect(tokens).to.be.lte(remainingTokens);
-        if (tokens < (ethAmount * (10n ** BigInt(TOKEN_DECIMALS))) / PHASE_0_PRICE) {
-          expect(excess).to.be.gt(0);
-        }
-      }
-    });
-  });
-
-  describe("Claim Tokens", function () {
-    beforeEach(async function () {
-      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
-      await time.increaseTo(phase0Start);
-      
-      // Buy tokens to reach soft cap
-      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
-      await dynamicPresale.endSale();
-    });
+    it("Should credit the beneficiary and record the payer", async function () {
+      const buyAmount = ethers.parseEther("1");
+      const expectedTokens = (buyAmount * (10n ** BigInt(TOKEN_DECIMALS))) / PHASE_0_PRICE;
 
-    it("Should allow claiming tokens after sale ends and soft cap reached", async function () {
-      const pendingTokens = await dynamicPresale.pendingTokens(buyer1.address);
-      
-      await dynamicPresale.connect(buyer1).claim();
-      
-      expect(await myToken.balanceOf(buyer1.address)).to.equal(pendingTokens);
-      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(0);
+      await expect(
+        dynamicPresale.connect(buyer2).buyFor(beneficiary.address, buyer3.address, [], { value: buyAmount })
+      )
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(beneficiary.address, 0, buyAmount, expectedTokens, buyer2.address);
+
+      expect(await dynamicPresale.contributionsWei(beneficiary.address)).to.equal(buyAmount);
+      expect(await dynamicPresale.pendingTokens(beneficiary.address)).to.equal(expectedTokens);
+      expect(await dynamicPresale.contributionsWei(buyer2.address)).to.equal(0);
+      expect(await dynamicPresale.getBuyers(0, 10)).to.deep.equal([beneficiary.address]);
+      expect(await dynamicPresale.sponsoredWei(beneficiary.address, buyer3.address)).to.equal(buyAmount);
+      expect(await dynamicPresale.totalSponsoredWei(beneficiary.address)).to.equal(buyAmount);
     });
 
-    it("Should emit Claimed event", async function () {
-      const pendingTokens = await dynamicPresale.pendingTokens(buyer1.address);
-      
+    it("Should enforce the beneficiary's limits and allowlist", async function () {
+      await dynamicPresale.connect(beneficiary).buy({ value: MAX_PER_WALLET - MIN_BUY });
       await expect(
-        dynamicPresale.connect(buyer1).claim()
-      ).to.emit(dynamicPresale, "Claimed")
-        .withArgs(buyer1.address, pendingTokens);
-    });
+        dynamicPresale.connect(buyer2).buyFor(beneficiary.address, buyer3.address, [], { value: MIN_BUY * 2n })
+      ).to.be.revertedWith("Presale: above max per wallet");
 
-    it("Should revert if sale not ended", async function () {
-      // Deploy fresh presale that hasn't ended
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      const freshPresale = await DynamicPresaleFactory.deploy(
-        await myToken.getAddress(),
-        TOKEN_DECIMALS,
-        SOFT_CAP,
-        MIN_BUY,
-        MAX_PER_WALLET
-      );
-      
-      const MINTER_ROLE = await myToken.MINTER_ROLE();
-      await myToken.grantRole(MINTER_ROLE, await freshPresale.getAddress());
-      
-      const currentTime = await time.latest();
-      await freshPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, currentTime + 100, currentTime + 3700);
-      await time.increase(200);
-      await freshPresale.connect(buyer1).buy({ value: SOFT_CAP });
-      
+      const tree = StandardMerkleTree.of([[buyer1.address]], ["address"]);
+      await dynamicPresale.setAllowlistRoot(tree.root);
       await expect(
-        freshPresale.connect(buyer1).claim()
-      ).to.be.revertedWith("Presale: sale not ended");
+        dynamicPresale.connect(buyer1).buyFor(buyer2.address, buyer1.address, tree.getProof(0), { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+      await expect(
+        dynamicPresale.connect(buyer2).buyFor(buyer1.address, buyer2.address, tree.getProof(0), { value: MIN_BUY })
+      ).to.emit(dynamicPresale, "Purchased");
     });
 
-    it("Should revert if soft cap not reached", async function () {
-      // Deploy new presale with higher soft cap
-      const highSoftCap = ethers.parseEther("100");
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      const newPresale = await DynamicPresaleFactory.deploy(
-        await myToken.getAddress(),
-        TOKEN_DECIMALS,
-        highSoftCap,
-        MIN_BUY,
-        MAX_PER_WALLET
-      );
-      
-      const MINTER_ROLE = await myToken.MINTER_ROLE();
-      await myToken.grantRole(MINTER_ROLE, await newPresale.getAddress());
-      
-      const currentTime = await time.latest();
-      await newPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, currentTime + 100, currentTime + 3700);
-      await time.increase(200);
-      await newPresale.connect(buyer1).buy({ value: MIN_BUY });
-      await newPresale.endSale();
-      
+    it("Should validate the beneficiary and refund address", async function () {
       await expect(
-        newPresale.connect(buyer1).claim()
-      ).to.be.revertedWith("Presale: softCap not reached");
+        dynamicPresale.connect(buyer2).buyFor(ethers.ZeroAddress, buyer3.address, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: beneficiary address zero");
+      await expect(
+        dynamicPresale.connect(buyer2).buyFor(beneficiary.address, ethers.ZeroAddress, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: refund address zero");
     });
 
-    it("Should revert if nothing to claim", async function () {
+    it("Should book each sponsor's ETH under its own refund address", async function () {
+      await dynamicPresale.connect(buyer2).buyFor(beneficiary.address, buyer3.address, [], { value: MIN_BUY });
       await expect(
-        dynamicPresale.connect(buyer2).claim()
-      ).to.be.revertedWith("Presale: nothing to claim");
+        dynamicPresale.connect(buyer1).buyFor(beneficiary.address, buyer1.address, [], { value: MIN_BUY * 2n })
+      ).to.emit(dynamicPresale, "Purchased");
+
+      expect(await dynamicPresale.sponsoredWei(beneficiary.address, buyer3.address)).to.equal(MIN_BUY);
+      expect(await dynamicPresale.sponsoredWei(beneficiary.address, buyer1.address)).to.equal(MIN_BUY * 2n);
+      expect(await dynamicPresale.totalSponsoredWei(beneficiary.address)).to.equal(MIN_BUY * 3n);
+      expect(await dynamicPresale.contributionsWei(beneficiary.address)).to.equal(MIN_BUY * 3n);
     });
-  });
 
-  describe("Refunds", function () {
-    let highSoftCapPresale: DynamicPresale;
+    it("Should queue the excess for the refund address", async function () {
+      await dynamicPresale.setHardCap(ethers.parseEther("15"));
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("12") });
 
-    beforeEach(async function () {
-      // Deploy presale with high soft cap to test refunds
-      const highSoftCap = ethers.parseEther("100");
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      highSoftCapPresale = await DynamicPresaleFactory.deploy(
-        await myToken.getAddress(),
-        TOKEN_DECIMALS,
-        highSoftCap,
-        MIN_BUY,
-        MAX_PER_WALLET
-      );
-      
-      await highSoftCapPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
-      await time.increaseTo(phase0Start);
-      await highSoftCapPresale.connect(buyer1).buy({ value: MIN_BUY });
-      await highSoftCapPresale.endSale();
+      await dynamicPresale
+        .connect(buyer2)
+        .buyFor(beneficiary.address, buyer3.address, [], { value: ethers.parseEther("5") });
+
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(ethers.parseEther("2"));
+      expect(await dynamicPresale.paymentsOf(beneficiary.address)).to.equal(0);
+      expect(await dynamicPresale.sponsoredWei(beneficiary.address, buyer3.address)).to.equal(ethers.parseEther("3"));
     });
 
-    it("Should allow refund when soft cap not reached", async function () {
-      await highSoftCapPresale.connect(buyer1).requestRefund();
-      
-      expect(await highSoftCapPresale.contributionsWei(buyer1.address)).to.equal(0);
-      expect(await highSoftCapPresale.pendingTokens(buyer1.address)).to.equal(0);
+    it("Should refund sponsored ETH to the refund address", async function () {
+      await dynamicPresale.connect(beneficiary).buy({ value: ethers.parseEther("1") });
+      await dynamicPresale
+        .connect(buyer2)
+        .buyFor(beneficiary.address, buyer3.address, [], { value: ethers.parseEther("2") });
+      await dynamicPresale.cancelSale();
+
+      await expect(dynamicPresale.connect(beneficiary).requestRefund())
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(beneficiary.address, ethers.parseEther("1"));
+      await expect(dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address))
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(buyer3.address, ethers.parseEther("2"));
+
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(ethers.parseEther("2"));
+      expect(await dynamicPresale.paymentsOf(beneficiary.address)).to.equal(ethers.parseEther("1"));
+      expect(await dynamicPresale.sponsoredWei(beneficiary.address, buyer3.address)).to.equal(0);
+      expect(await dynamicPresale.contributionsWei(beneficiary.address)).to.equal(0);
+      await expect(dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address)).to.be.revertedWith(
+        "Presale: nothing to refund"
+      );
     });
 
-    it("Should emit RefundRequested event", async function () {
-      await expect(
-        highSoftCapPresale.connect(buyer1).requestRefund()
-      ).to.emit(highSoftCapPresale, "RefundRequested")
-        .withArgs(buyer1.address, MIN_BUY);
+    it("Should not let the beneficiary claim tokens of sponsored ETH refunded to the sponsor", async function () {
+      await dynamicPresale
+        .connect(buyer2)
+        .buyFor(beneficiary.address, buyer3.address, [], { value: ethers.parseEther("2") });
+      await dynamicPresale.endSale();
+      await dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address);
+      await expect(dynamicPresale.connect(beneficiary).claim()).to.be.revertedWith("Presale: softCap not reached");
     });
 
-    it("Should revert refund if soft cap reached", async function () {
-      // Use fresh timestamps to avoid collision
-      const currentTime = await time.latest();
-      const newPhaseStart = currentTime + 100;
-      const newPhaseEnd = newPhaseStart + 3600;
-      
-      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, newPhaseStart, newPhaseEnd);
-      await time.increase(200);
+    it("Should only refund sponsors after the soft cap once the sale is cancelled, which blocks claims", async function () {
       await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale
+        .connect(buyer2)
+        .buyFor(beneficiary.address, buyer3.address, [], { value: ethers.parseEther("2") });
       await dynamicPresale.endSale();
-      
       await expect(
-        dynamicPresale.connect(buyer1).requestRefund()
+        dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address)
       ).to.be.revertedWith("Presale: softCap reached");
+
+      await dynamicPresale.cancelSale();
+      await dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address);
+      await expect(dynamicPresale.connect(beneficiary).claim()).to.be.revertedWith("Presale: sale cancelled");
+      await expect(dynamicPresale.claimFor([beneficiary.address])).to.be.revertedWith("Presale: sale cancelled");
     });
 
-    it("Should revert if nothing to refund", async function () {
+    it("Should refund every sponsor of a beneficiary", async function () {
+      await dynamicPresale
+        .connect(buyer2)
+        .buyFor(beneficiary.address, buyer3.address, [], { value: ethers.parseEther("2") });
+      await dynamicPresale
+        .connect(buyer1)
+        .buyFor(beneficiary.address, buyer1.address, [], { value: ethers.parseEther("1") });
+
       await expect(
-        highSoftCapPresale.connect(buyer2).requestRefund()
-      ).to.be.revertedWith("Presale: nothing to refund");
+        dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address)
+      ).to.be.revertedWith("Presale: sale not ended");
+      await dynamicPresale.cancelSale();
+
+      await dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address);
+      await dynamicPresale.connect(buyer1).requestSponsoredRefund(beneficiary.address);
+      await expect(dynamicPresale.connect(beneficiary).requestRefund()).to.be.revertedWith(
+        "Presale: nothing to refund"
+      );
+
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(ethers.parseEther("2"));
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("1"));
+      expect(await dynamicPresale.totalSponsoredWei(beneficiary.address)).to.equal(0);
     });
   });
 
-  describe("Administrative Functions", function () {
+  describe("Allowlist", function () {
+    const buildTree = (addresses: string[]) =>
+      StandardMerkleTree.of(addresses.map((a) => [a]), ["address"]);
+    const proofFor = (tree: StandardMerkleTree<string[]>, address: string) => {
+      for (const [i, [a]] of tree.entries()) {
+        if (a === address) return tree.getProof(i);
+      }
+      throw new Error(`${address} not in tree`);
+    };
+
     beforeEach(async function () {
       await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
-      await time.increaseTo(phase0Start);
-      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
-      await dynamicPresale.endSale();
+      await dynamicPresale.addPhase(PHASE_1_PRICE, PHASE_SUPPLY, phase1Start, phase1End);
+      await dynamicPresale.addPhase(PHASE_2_PRICE, PHASE_SUPPLY, phase2Start, phase2End);
     });
 
-    it("Should allow owner to withdraw proceeds", async function () {
-      const initialBalance = await ethers.provider.getBalance(beneficiary.address);
-      
-      await dynamicPresale.withdrawProceeds(beneficiary.address);
-      
-      const finalBalance = await ethers.provider.getBalance(beneficiary.address);
-      expect(finalBalance - initialBalance).to.equal(SOFT_CAP);
+    it("Should allow buying with a valid proof", async function () {
+      const tree = buildTree([buyer1.address, buyer2.address]);
+      await dynamicPresale.setAllowlistRoot(tree.root);
+      await time.increaseTo(phase0Start);
+
+      const buyAmount = ethers.parseEther("1");
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithProof(proofFor(tree, buyer1.address), { value: buyAmount })
+      ).to.emit(dynamicPresale, "Purchased");
+
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(buyAmount);
     });
 
-    it("Should emit Withdrawn event", async function () {
+    it("Should reject invalid or missing proofs", async function () {
+      const tree = buildTree([buyer1.address, buyer2.address]);
+      await dynamicPresale.setAllowlistRoot(tree.root);
+      await time.increaseTo(phase0Start);
+
+      // Not in the tree, even when borrowing someone else's proof
       await expect(
-        dynamicPresale.withdrawProceeds(beneficiary.address)
-      ).to.emit(dynamicPresale, "Withdrawn")
-        .withArgs(beneficiary.address, SOFT_CAP);
+        dynamicPresale.connect(buyer3).buyWithProof(proofFor(tree, buyer1.address), { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithProof([ethers.ZeroHash], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
     });
 
-    it("Should allow owner to end sale", async function () {
-      // Create new presale for this test
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      const newPresale = await DynamicPresaleFactory.deploy(
-        await myToken.getAddress(),
-        TOKEN_DECIMALS,
-        SOFT_CAP,
-        MIN_BUY,
-        MAX_PER_WALLET
-      );
-      
-      expect(await newPresale.saleEnded()).to.be.false;
-      
+    it("Should apply phase roots across phase transitions", async function () {
+      const phase0Tree = buildTree([buyer1.address, owner.address]);
+      const phase1Tree = buildTree([buyer2.address, owner.address]);
+      const globalTree = buildTree([buyer3.address, owner.address]);
+
+      await dynamicPresale.setAllowlistRoot(globalTree.root);
+      await dynamicPresale.setPhaseAllowlistRoot(0, phase0Tree.root);
+      await dynamicPresale.setPhaseAllowlistRoot(1, phase1Tree.root);
+
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buyWithProof(proofFor(phase0Tree, buyer1.address), { value: MIN_BUY });
       await expect(
-        newPresale.endSale()
-      ).to.emit(newPresale, "SaleEnded")
-        .withArgs(false); // softCapReached = false
-      
-      expect(await newPresale.saleEnded()).to.be.true;
+        dynamicPresale.connect(buyer2).buyWithProof(proofFor(phase1Tree, buyer2.address), { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+
+      await time.increaseTo(phase1Start);
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithProof(proofFor(phase0Tree, buyer1.address), { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+      await dynamicPresale.connect(buyer2).buyWithProof(proofFor(phase1Tree, buyer2.address), { value: MIN_BUY });
+
+      // Phase 2 has no root of its own and falls back to the global root
+      await time.increaseTo(phase2Start);
+      await expect(
+        dynamicPresale.connect(buyer2).buyWithProof(proofFor(phase1Tree, buyer2.address), { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: not allowlisted");
+      await dynamicPresale.connect(buyer3).buyWithProof(proofFor(globalTree, buyer3.address), { value: MIN_BUY });
+
+      expect(await dynamicPresale.totalBuyers()).to.equal(3);
     });
 
-    it("Should allow owner to set parameters", async function () {
-      const newSoftCap = ethers.parseEther("20");
-      const newMinBuy = ethers.parseEther("0.02");
-      const newMaxPerWallet = ethers.parseEther("40");
-      
-      // Create new presale to test setters
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      const newPresale = await DynamicPresaleFactory.deploy(
-        await myToken.getAddress(),
-        TOKEN_DECIMALS,
-        SOFT_CAP,
-        MIN_BUY,
-        MAX_PER_WALLET
-      );
-      
-      await newPresale.setSoftCap(newSoftCap);
-      await newPresale.setMinBuy(newMinBuy);
-      await newPresale.setMaxPerWallet(newMaxPerWallet);
-      
-      expect(await newPresale.softCap()).to.equal(newSoftCap);
-      expect(await newPresale.minBuy()).to.equal(newMinBuy);
-      expect(await newPresale.maxPerWallet()).to.equal(newMaxPerWallet);
+    it("Should report allowlist membership per phase", async function () {
+      const phase0Tree = buildTree([buyer1.address, buyer2.address]);
+      await dynamicPresale.setPhaseAllowlistRoot(0, phase0Tree.root);
+
+      const proof = proofFor(phase0Tree, buyer1.address);
+      expect(await dynamicPresale.isAllowlisted(0, buyer1.address, proof)).to.be.true;
+      expect(await dynamicPresale.isAllowlisted(0, buyer3.address, proof)).to.be.false;
+      // No root configured for phase 1 => open to everyone
+      expect(await dynamicPresale.isAllowlisted(1, buyer3.address, [])).to.be.true;
     });
 
-    it("Should only allow owner to call admin functions", async function () {
+    it("Should only allow owner to set allowlist roots", async function () {
       await expect(
-        dynamicPresale.connect(buyer1).withdrawProceeds(buyer1.address)
-      ).to.be.revertedWithCustomError(dynamicPresale, "OwnableUnauthorizedAccount");
-      
+        dynamicPresale.connect(buyer1).setAllowlistRoot(ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await expect(
+        dynamicPresale.connect(buyer1).setPhaseAllowlistRoot(0, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await expect(
+        dynamicPresale.setPhaseAllowlistRoot(5, ethers.ZeroHash)
+      ).to.be.revertedWith("Presale: invalid phase ID");
+    });
+  });
+
+  describe("Purchase Vouchers", function () {
+    let chainId: bigint;
+    let presaleAddress: string;
+
+    // beneficiary stands in for the KYC provider's signing key
+    const issue = async (buyer: string, maxAmount: bigint, overrides: Partial<Voucher> = {}, signer = beneficiary) => {
+      const voucher: Voucher = {
+        buyer,
+        maxAmount,
+        expiry: BigInt((await time.latest()) + 3600),
+        nonce: randomNonce(),
+        ...overrides,
+      };
+      return { voucher, signature: await signVoucher(signer, presaleAddress, chainId, voucher) };
+    };
+
+    beforeEach(async function () {
+      chainId = (await ethers.provider.getNetwork()).chainId;
+      presaleAddress = await dynamicPresale.getAddress();
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await expect(dynamicPresale.setVoucherSigner(beneficiary.address))
+        .to.emit(dynamicPresale, "VoucherSignerSet")
+        .withArgs(beneficiary.address);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should buy with a valid voucher and reject replays", async function () {
+      const buyAmount = ethers.parseEther("1");
+      const { voucher, signature } = await issue(buyer1.address, buyAmount);
+
+      await expect(dynamicPresale.connect(buyer1).buyWithVoucher(voucher, signature, { value: buyAmount }))
+        .to.emit(dynamicPresale, "VoucherRedeemed")
+        .withArgs(buyer1.address, voucher.nonce, buyAmount)
+        .and.to.emit(dynamicPresale, "Purchased");
+
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(buyAmount);
+      expect(await dynamicPresale.voucherNonceUsed(buyer1.address, voucher.nonce)).to.be.true;
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(voucher, signature, { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: voucher used");
+    });
+
+    it("Should reject expired, foreign, oversized and badly signed vouchers", async function () {
+      const buyAmount = ethers.parseEther("1");
+
+      const expired = await issue(buyer1.address, buyAmount, { expiry: BigInt(await time.latest()) });
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(expired.voucher, expired.signature, { value: buyAmount })
+      ).to.be.revertedWith("Presale: voucher expired");
+
+      const foreign = await issue(buyer1.address, buyAmount);
+      await expect(
+        dynamicPresale.connect(buyer2).buyWithVoucher(foreign.voucher, foreign.signature, { value: buyAmount })
+      ).to.be.revertedWith("Presale: voucher not for caller");
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(foreign.voucher, foreign.signature, { value: buyAmount + 1n })
+      ).to.be.revertedWith("Presale: above voucher amount");
+
+      const forged = await issue(buyer1.address, buyAmount, {}, buyer1);
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(forged.voucher, forged.signature, { value: buyAmount })
+      ).to.be.revertedWith("Presale: invalid voucher");
+
+      // Raising the amount invalidates the signature
+      await expect(
+        dynamicPresale
+          .connect(buyer1)
+          .buyWithVoucher({ ...foreign.voucher, maxAmount: buyAmount * 2n }, foreign.signature, { value: buyAmount })
+      ).to.be.revertedWith("Presale: invalid voucher");
+    });
+
+    it("Should require vouchers on every purchase path and skip the allowlist", async function () {
+      await dynamicPresale.setAllowlistRoot(ethers.id("kyc-only"));
+
+      await expect(dynamicPresale.connect(buyer1).buy({ value: MIN_BUY })).to.be.revertedWith(
+        "Presale: voucher required"
+      );
+      await expect(dynamicPresale.connect(buyer1).buyWithProof([], { value: MIN_BUY })).to.be.revertedWith(
+        "Presale: voucher required"
+      );
+      await expect(dynamicPresale.connect(buyer1).bid([], { value: MIN_BUY })).to.be.revertedWith(
+        "Presale: voucher required"
+      );
+      await expect(dynamicPresale.connect(buyer1).buyWithToken(ethers.ZeroAddress, 1, [])).to.be.revertedWith(
+        "Presale: voucher required"
+      );
+
+      const { voucher, signature } = await issue(buyer1.address, MIN_BUY);
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(voucher, signature, { value: MIN_BUY })
+      ).to.emit(dynamicPresale, "Purchased");
+    });
+
+    it("Should only allow owner to set the voucher signer", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).setVoucherSigner(buyer1.address)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await dynamicPresale.setVoucherSigner(ethers.ZeroAddress);
+      expect(await dynamicPresale.vouchersRequired()).to.be.false;
+
+      const { voucher, signature } = await issue(buyer1.address, MIN_BUY);
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithVoucher(voucher, signature, { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: vouchers disabled");
+      await expect(dynamicPresale.connect(buyer1).buy({ value: MIN_BUY })).to.emit(dynamicPresale, "Purchased");
+    });
+  });
+
+  describe("Stablecoin Payments", function () {
+    let usdc: MockERC20;
+    const USDC_DECIMALS = 6;
+    const PHASE_0_USDC_PRICE = ethers.parseUnits("1.5", USDC_DECIMALS); // 1.5 USDC per token
+
+    // ETH value of `tokens` at phase 0's ETH price, as the contract computes it
+    const valueWei = (tokens: bigint) => (tokens * PHASE_0_PRICE) / 10n ** BigInt(TOKEN_DECIMALS);
+
+    beforeEach(async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20Factory.deploy("USD Coin", "USDC", USDC_DECIMALS);
+      await usdc.waitForDeployment();
+
+      for (const buyer of [buyer1, buyer2]) {
+        await usdc.mint(buyer.address, ethers.parseUnits("100000", USDC_DECIMALS));
+        await usdc.connect(buyer).approve(await dynamicPresale.getAddress(), ethers.MaxUint256);
+      }
+
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await dynamicPresale.setPhaseTokenPrice(0, await usdc.getAddress(), PHASE_0_USDC_PRICE);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should buy tokens with an accepted ERC-20", async function () {
+      const payAmount = ethers.parseUnits("1500", USDC_DECIMALS);
+      const expectedTokens = ethers.parseEther("1000");
+      const usdcAddress = await usdc.getAddress();
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithToken(usdcAddress, payAmount, [])
+      ).to.emit(dynamicPresale, "PurchasedWithToken")
+        .withArgs(buyer1.address, 0, usdcAddress, payAmount, expectedTokens);
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(expectedTokens);
+      expect(await dynamicPresale.tokenContributions(buyer1.address, usdcAddress)).to.equal(payAmount);
+      expect(await dynamicPresale.totalRaisedInToken(usdcAddress)).to.equal(payAmount);
+      expect(await dynamicPresale.totalRaisedTokenValueWei()).to.equal(valueWei(expectedTokens));
+      expect(await dynamicPresale.totalRaised()).to.equal(0);
+      expect(await usdc.balanceOf(await dynamicPresale.getAddress())).to.equal(payAmount);
+      expect(await dynamicPresale.getPaymentTokens()).to.deep.equal([usdcAddress]);
+    });
+
+    it("Should only pull the cost when the phase supply clips the purchase", async function () {
+      const smallPhaseStart = phase0End + 100;
+      await dynamicPresale.addPhase(PHASE_0_PRICE, ethers.parseEther("100"), smallPhaseStart, smallPhaseStart + 3600);
+      await dynamicPresale.setPhaseTokenPrice(1, await usdc.getAddress(), PHASE_0_USDC_PRICE);
+      await time.increaseTo(smallPhaseStart);
+
+      const before = await usdc.balanceOf(buyer1.address);
+      const [tokens, cost, excess] = await dynamicPresale.calculateTokensWithToken(
+        await usdc.getAddress(),
+        ethers.parseUnits("300", USDC_DECIMALS)
+      );
+      expect(tokens).to.equal(ethers.parseEther("100"));
+      expect(cost).to.equal(ethers.parseUnits("150", USDC_DECIMALS));
+      expect(excess).to.equal(ethers.parseUnits("150", USDC_DECIMALS));
+
+      await dynamicPresale.connect(buyer1).buyWithToken(await usdc.getAddress(), ethers.parseUnits("300", USDC_DECIMALS), []);
+
+      expect(before - (await usdc.balanceOf(buyer1.address))).to.equal(cost);
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(tokens);
+    });
+
+    it("Should require an allowlist proof in allowlisted phases", async function () {
+      const usdcAddress = await usdc.getAddress();
+      const payAmount = ethers.parseUnits("1500", USDC_DECIMALS);
+      const tree = StandardMerkleTree.of([[buyer1.address], [buyer3.address]], ["address"]);
+      await dynamicPresale.setPhaseAllowlistRoot(0, tree.root);
+
+      await expect(dynamicPresale.connect(buyer1).buyWithToken(usdcAddress, payAmount, [])).to.be.revertedWith(
+        "Presale: not allowlisted"
+      );
+      await expect(
+        dynamicPresale.connect(buyer2).buyWithToken(usdcAddress, payAmount, tree.getProof([buyer1.address]))
+      ).to.be.revertedWith("Presale: not allowlisted");
+
+      await expect(dynamicPresale.connect(buyer1).buyWithToken(usdcAddress, payAmount, tree.getProof([buyer1.address])))
+        .to.emit(dynamicPresale, "PurchasedWithToken")
+        .withArgs(buyer1.address, 0, usdcAddress, payAmount, ethers.parseEther("1000"));
+    });
+
+    it("Should reject unaccepted tokens and purchases below min buy", async function () {
+      const MockERC20Factory = await ethers.getContractFactory("MockERC20");
+      const usdt = await MockERC20Factory.deploy("Tether USD", "USDT", USDC_DECIMALS);
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithToken(await usdt.getAddress(), ethers.parseUnits("1500", USDC_DECIMALS), [])
+      ).to.be.revertedWith("Presale: payment token not accepted");
+
+      // 15 USDC buys 10 tokens, worth 0.005 ETH < MIN_BUY
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithToken(await usdc.getAddress(), ethers.parseUnits("15", USDC_DECIMALS), [])
+      ).to.be.revertedWith("Presale: below min buy");
+    });
+
+    it("Should count token purchases towards soft cap and max per wallet", async function () {
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("5") });
+
+      // 10,000 tokens at 0.0005 ETH = 5 ETH worth of USDC
+      await expect(
+        dynamicPresale.connect(buyer2).buyWithToken(await usdc.getAddress(), ethers.parseUnits("15000", USDC_DECIMALS), [])
+      ).to.emit(dynamicPresale, "SoftCapReached")
+        .withArgs(SOFT_CAP);
+      expect(await dynamicPresale.softCapReached()).to.be.true;
+
+      // buyer1 has 5 ETH in, 32,000 tokens (16 ETH worth) would exceed 20 ETH
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithToken(await usdc.getAddress(), ethers.parseUnits("48000", USDC_DECIMALS), [])
+      ).to.be.revertedWith("Presale: above max per wallet");
+    });
+
+    it("Should escrow token refunds in the same token", async function () {
+      const highSoftCap = ethers.parseEther("100");
+      const presale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        highSoftCap,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      const usdcAddress = await usdc.getAddress();
+      const start = (await time.latest()) + 100;
+      await presale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, start, start + 3600);
+      await presale.setPhaseTokenPrice(0, usdcAddress, PHASE_0_USDC_PRICE);
+      await usdc.connect(buyer1).approve(await presale.getAddress(), ethers.MaxUint256);
+      await time.increaseTo(start);
+
+      const payAmount = ethers.parseUnits("1500", USDC_DECIMALS);
+      await presale.connect(buyer1).buyWithToken(usdcAddress, payAmount, []);
+      await presale.connect(buyer1).buy({ value: MIN_BUY });
+      await presale.endSale();
+
+      await expect(presale.connect(buyer1).requestRefund())
+        .to.emit(presale, "TokenRefundRequested")
+        .withArgs(buyer1.address, usdcAddress, payAmount)
+        .and.to.emit(presale, "RefundRequested")
+        .withArgs(buyer1.address, MIN_BUY);
+
+      expect(await presale.tokenPaymentsOf(usdcAddress, buyer1.address)).to.equal(payAmount);
+      expect(await presale.paymentsOf(buyer1.address)).to.equal(MIN_BUY);
+      expect(await presale.totalTokenEscrow(usdcAddress)).to.equal(payAmount);
+
+      const before = await usdc.balanceOf(buyer1.address);
+      await expect(presale.connect(buyer1).withdrawTokenPayments(usdcAddress))
+        .to.emit(presale, "TokenPaymentsWithdrawn")
+        .withArgs(buyer1.address, usdcAddress, payAmount);
+      expect((await usdc.balanceOf(buyer1.address)) - before).to.equal(payAmount);
+      expect(await presale.totalTokenEscrow(usdcAddress)).to.equal(0);
+
+      await expect(presale.connect(buyer1).requestRefund()).to.be.revertedWith("Presale: nothing to refund");
+    });
+
+    it("Should let owner withdraw token proceeds after a successful sale", async function () {
+      const usdcAddress = await usdc.getAddress();
+      const payAmount = ethers.parseUnits("30000", USDC_DECIMALS); // 20,000 tokens = 10 ETH worth
+      await dynamicPresale.connect(buyer1).buyWithToken(usdcAddress, payAmount, []);
+      await dynamicPresale.endSale();
+
+      await expect(
+        dynamicPresale.connect(buyer1).withdrawTokenProceeds(usdcAddress, buyer1.address)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await expect(dynamicPresale.withdrawTokenProceeds(usdcAddress, beneficiary.address))
+        .to.emit(dynamicPresale, "TokenWithdrawn")
+        .withArgs(beneficiary.address, usdcAddress, payAmount);
+      expect(await usdc.balanceOf(beneficiary.address)).to.equal(payAmount);
+    });
+  });
+
+  describe("Referrals", function () {
+    const BONUS_BPS = 500; // 5%
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should bind the referrer and credit bonus tokens", async function () {
+      await dynamicPresale.setReferralConfig(BONUS_BPS, false);
+      const buyAmount = ethers.parseEther("1");
+      const expectedTokens = ethers.parseEther("2000");
+      const expectedBonus = (expectedTokens * BigInt(BONUS_BPS)) / 10000n;
+
+      await expect(dynamicPresale.connect(buyer1).buyWithReferrer(buyer2.address, [], { value: buyAmount }))
+        .to.emit(dynamicPresale, "ReferrerSet")
+        .withArgs(buyer1.address, buyer2.address)
+        .and.to.emit(dynamicPresale, "ReferralRewarded")
+        .withArgs(buyer2.address, buyer1.address, expectedBonus, 0);
+
+      expect(await dynamicPresale.referrerOf(buyer1.address)).to.equal(buyer2.address);
+      expect(await dynamicPresale.referralCount(buyer2.address)).to.equal(1);
+      expect(await dynamicPresale.referralTokensEarned(buyer2.address)).to.equal(expectedBonus);
+      expect(await dynamicPresale.pendingTokens(buyer2.address)).to.equal(expectedBonus);
+
+      // later plain purchases still reward the bound referrer
+      await dynamicPresale.connect(buyer1).buy({ value: buyAmount });
+      expect(await dynamicPresale.referralTokensEarned(buyer2.address)).to.equal(expectedBonus * 2n);
+    });
+
+    it("Should keep the first referrer", async function () {
+      await dynamicPresale.connect(buyer1).buyWithReferrer(buyer2.address, [], { value: MIN_BUY });
+      await dynamicPresale.connect(buyer1).buyWithReferrer(buyer3.address, [], { value: MIN_BUY });
+
+      expect(await dynamicPresale.referrerOf(buyer1.address)).to.equal(buyer2.address);
+      expect(await dynamicPresale.referralCount(buyer3.address)).to.equal(0);
+    });
+
+    it("Should reject self and circular referrals", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithReferrer(buyer1.address, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: self-referral");
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithReferrer(ethers.ZeroAddress, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: referrer zero");
+
+      // buyer1 <- buyer2 <- buyer3, so buyer1 cannot be referred by buyer3
+      await dynamicPresale.connect(buyer2).buyWithReferrer(buyer1.address, [], { value: MIN_BUY });
+      await dynamicPresale.connect(buyer3).buyWithReferrer(buyer2.address, [], { value: MIN_BUY });
+
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithReferrer(buyer2.address, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: circular referral");
+      await expect(
+        dynamicPresale.connect(buyer1).buyWithReferrer(buyer3.address, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: circular referral");
+    });
+
+    it("Should only check a bounded referrer chain for cycles", async function () {
+      const depth = Number(await dynamicPresale.MAX_REFERRAL_DEPTH());
+      const wallets = (await ethers.getSigners()).slice(-(depth + 2));
+
+      // wallets[i + 1] is referred by wallets[i]
+      for (let i = 1; i < wallets.length; i++) {
+        await dynamicPresale.connect(wallets[i]).buyWithReferrer(wallets[i - 1].address, [], { value: MIN_BUY });
+      }
+
+      await expect(
+        dynamicPresale.connect(wallets[0]).buyWithReferrer(wallets[depth].address, [], { value: MIN_BUY })
+      ).to.be.revertedWith("Presale: circular referral");
+      await expect(
+        dynamicPresale.connect(wallets[0]).buyWithReferrer(wallets[depth + 1].address, [], { value: MIN_BUY })
+      ).to.emit(dynamicPresale, "ReferrerSet");
+    });
+
+    it("Should add bonus token referrers to the buyers for claimFor", async function () {
+      await dynamicPresale.setReferralConfig(BONUS_BPS, false);
+      const expectedBonus = (ethers.parseEther("20000") * BigInt(BONUS_BPS)) / 10000n; // 10 ETH of tokens
+
+      await dynamicPresale.connect(buyer1).buyWithReferrer(beneficiary.address, [], { value: SOFT_CAP });
+      await dynamicPresale.endSale();
+
+      expect(await dynamicPresale.getBuyers(0, 10)).to.deep.equal([buyer1.address, beneficiary.address]);
+      await expect(dynamicPresale.claimFor([beneficiary.address]))
+        .to.emit(dynamicPresale, "Claimed")
+        .withArgs(beneficiary.address, expectedBonus);
+      expect(await myToken.balanceOf(beneficiary.address)).to.equal(expectedBonus);
+    });
+
+    it("Should pay ETH rewards only after a successful sale", async function () {
+      await dynamicPresale.setReferralConfig(BONUS_BPS, true);
+      const buyAmount = ethers.parseEther("10");
+      const expectedReward = (buyAmount * BigInt(BONUS_BPS)) / 10000n;
+
+      await dynamicPresale.connect(buyer1).buyWithReferrer(buyer2.address, [], { value: buyAmount });
+      expect(await dynamicPresale.referralRewardsWei(buyer2.address)).to.equal(expectedReward);
+
+      await expect(dynamicPresale.connect(buyer2).claimReferralRewards()).to.be.revertedWith(
+        "Presale: sale not ended"
+      );
+
+      await dynamicPresale.endSale();
+
+      // proceeds exclude unclaimed referral rewards
+      await expect(dynamicPresale.withdrawProceeds(beneficiary.address))
+        .to.emit(dynamicPresale, "Withdrawn")
+        .withArgs(beneficiary.address, buyAmount - expectedReward);
+
+      await expect(dynamicPresale.connect(buyer2).claimReferralRewards())
+        .to.emit(dynamicPresale, "ReferralRewardsClaimed")
+        .withArgs(buyer2.address, expectedReward);
+      expect(await dynamicPresale.paymentsOf(buyer2.address)).to.equal(expectedReward);
+      expect(await dynamicPresale.totalReferralRewardsWei()).to.equal(0);
+
+      await expect(dynamicPresale.connect(buyer2).withdrawPayments()).to.changeEtherBalance(buyer2, expectedReward);
+    });
+
+    it("Should only allow owner to configure referrals within bounds", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).setReferralConfig(BONUS_BPS, false)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await expect(dynamicPresale.setReferralConfig(2001, false)).to.be.revertedWith(
+        "Presale: referral bonus too high"
+      );
+    });
+  });
+
+  describe("Hard Cap and Finalize", function () {
+    const HARD_CAP = ethers.parseEther("15");
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await dynamicPresale.setHardCap(HARD_CAP);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should clip the last purchase, queue the excess and end the sale", async function () {
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("12") });
+
+      const tx = dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("5") });
+      await expect(tx).to.emit(dynamicPresale, "HardCapReached").withArgs(HARD_CAP);
+      await expect(tx).to.emit(dynamicPresale, "SaleEnded").withArgs(true);
+      await expect(tx)
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(buyer2.address, 0, ethers.parseEther("3"), ethers.parseEther("6000"), buyer2.address);
+
+      expect(await dynamicPresale.totalRaised()).to.equal(HARD_CAP);
+      expect(await dynamicPresale.saleEnded()).to.be.true;
+      expect(await dynamicPresale.paymentsOf(buyer2.address)).to.equal(ethers.parseEther("2"));
+
+      await expect(
+        dynamicPresale.connect(buyer3).buy({ value: MIN_BUY })
+      ).to.be.revertedWith("Presale: sale ended");
+    });
+
+    it("Should count unsettled auction bids against the hard cap when clipping a purchase", async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase1Start, phase1End);
+      await dynamicPresale.setPhaseAuction(1, ethers.parseEther("0.002"), PHASE_0_PRICE, ethers.parseEther("0.000001"));
+      await dynamicPresale.addPhase(PHASE_1_PRICE, PHASE_SUPPLY, phase2Start, phase2End);
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("10") });
+      await time.increaseTo(phase1Start);
+      await dynamicPresale.connect(buyer2).bid([], { value: ethers.parseEther("2") });
+      const deposits = await dynamicPresale.totalAuctionDeposits();
+      const room = HARD_CAP - ethers.parseEther("10") - deposits;
+
+      await time.increaseTo(phase2Start);
+      const tx = dynamicPresale.connect(buyer3).buy({ value: ethers.parseEther("5") });
+      await expect(tx)
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(buyer3.address, 2, room, (room * 10n ** 18n) / PHASE_1_PRICE, buyer3.address);
+      await expect(tx).to.emit(dynamicPresale, "SaleEnded").withArgs(true);
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(ethers.parseEther("5") - room);
+
+      // settling the bids cannot push the raise past the cap
+      await dynamicPresale.settleAuction(1);
+      expect(await dynamicPresale.totalRaised()).to.be.lte(HARD_CAP);
+    });
+
+    it("Should end the sale when a purchase lands exactly on the hard cap", async function () {
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("10") });
+      await expect(dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("5") }))
+        .to.emit(dynamicPresale, "SaleEnded")
+        .withArgs(true);
+      expect(await dynamicPresale.paymentsOf(buyer2.address)).to.equal(0);
+    });
+
+    it("Should validate hard cap updates", async function () {
+      await expect(dynamicPresale.setHardCap(SOFT_CAP - 1n)).to.be.revertedWith("Presale: hardCap >= softCap");
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("12") });
+      await expect(dynamicPresale.setHardCap(SOFT_CAP)).to.be.revertedWith("Presale: hardCap <= raised");
+      await expect(dynamicPresale.setSoftCap(HARD_CAP + 1n)).to.be.revertedWith("Presale: softCap already reached");
+
+      await expect(
+        dynamicPresale.connect(buyer1).setHardCap(HARD_CAP)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await expect(dynamicPresale.setHardCap(0)).to.emit(dynamicPresale, "HardCapSet").withArgs(0);
+    });
+
+    it("Should let anyone finalize after the last phase ends", async function () {
+      await expect(dynamicPresale.connect(buyer1).finalize()).to.be.revertedWith("Presale: sale still running");
+
+      await time.increaseTo(phase0End + 1);
+      await expect(dynamicPresale.connect(buyer1).finalize())
+        .to.emit(dynamicPresale, "SaleEnded")
+        .withArgs(false);
+      expect(await dynamicPresale.saleEnded()).to.be.true;
+
+      await expect(dynamicPresale.connect(buyer1).finalize()).to.be.revertedWith("Presale: already ended");
+    });
+  });
+
+  describe("Spillover", function () {
+    const SMALL_SUPPLY = ethers.parseEther("1000"); // 1k tokens = 0.5 ETH at phase 0 price
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, SMALL_SUPPLY, phase0Start, phase0End);
+      await dynamicPresale.addPhase(PHASE_1_PRICE, PHASE_SUPPLY, phase1Start, phase1End);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should clip to the active phase and queue the excess when disabled", async function () {
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(SMALL_SUPPLY);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.5"));
+      expect((await dynamicPresale.getPhase(1)).sold).to.equal(0);
+    });
+
+    it("Should fill the remainder from the next phase at its price", async function () {
+      await expect(dynamicPresale.setSpilloverEnabled(true))
+        .to.emit(dynamicPresale, "SpilloverSet")
+        .withArgs(true);
+
+      const buyAmount = ethers.parseEther("1");
+      const [tokens, cost, excess, fills] = await dynamicPresale.calculateTokens(buyAmount);
+      // 0.5 ETH buys phase 0 out, the other 0.5 ETH buys 500 tokens at 0.001 ETH
+      expect(fills.length).to.equal(2);
+      expect(fills[0].phaseId).to.equal(0);
+      expect(fills[0].tokens).to.equal(SMALL_SUPPLY);
+      expect(fills[1].phaseId).to.equal(1);
+      expect(fills[1].tokens).to.equal(ethers.parseEther("500"));
+      expect(tokens).to.equal(ethers.parseEther("1500"));
+      expect(cost).to.equal(buyAmount);
+      expect(excess).to.equal(0);
+
+      const tx = dynamicPresale.connect(buyer1).buy({ value: buyAmount });
+      await expect(tx)
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(buyer1.address, 0, ethers.parseEther("0.5"), SMALL_SUPPLY, buyer1.address);
+      await expect(tx)
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(buyer1.address, 1, ethers.parseEther("0.5"), ethers.parseEther("500"), buyer1.address);
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(tokens);
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(buyAmount);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(0);
+      expect((await dynamicPresale.getPhase(1)).sold).to.equal(ethers.parseEther("500"));
+    });
+
+    it("Should not change the curve of an upcoming phase that spillover sold into", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      expect((await dynamicPresale.getPhase(1)).sold).to.equal(ethers.parseEther("500"));
+
+      await expect(
+        dynamicPresale.setPhaseCurve(1, ethers.parseEther("0.0001"), ethers.parseEther("100"))
+      ).to.be.revertedWith("Presale: phase has sales");
+    });
+
+    it("Should skip later phases the buyer is not allowlisted for", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+      const tree = StandardMerkleTree.of([[buyer2.address]], ["address"]);
+      await dynamicPresale.setPhaseAllowlistRoot(1, tree.root);
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(SMALL_SUPPLY);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.5"));
+    });
+
+    it("Should stop a spilled remainder at the next phase's wallet cap", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+      await dynamicPresale.setPhaseLimits(1, 0, ethers.parseEther("0.2"));
+
+      const tx = dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      await expect(tx)
+        .to.emit(dynamicPresale, "Purchased")
+        .withArgs(buyer1.address, 1, ethers.parseEther("0.2"), ethers.parseEther("200"), buyer1.address);
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(ethers.parseEther("1200"));
+      expect(await dynamicPresale.phaseContributionsWei(1, buyer1.address)).to.equal(ethers.parseEther("0.2"));
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.3"));
+    });
+
+    it("Should stop a spilled remainder at the sale-wide wallet cap", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+
+      await dynamicPresale.connect(buyer1).buy({ value: MAX_PER_WALLET + ethers.parseEther("1") });
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(MAX_PER_WALLET);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should not spill a remainder below the next phase's min buy", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+      await dynamicPresale.setPhaseLimits(1, ethers.parseEther("1"), 0);
+
+      const [tokens, , excess, fills] = await dynamicPresale.calculateTokens(ethers.parseEther("1"));
+      expect(fills.length).to.equal(1);
+      expect(tokens).to.equal(SMALL_SUPPLY);
+      expect(excess).to.equal(ethers.parseEther("0.5"));
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(SMALL_SUPPLY);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.5"));
+      expect((await dynamicPresale.getPhase(1)).sold).to.equal(0);
+    });
+
+    it("Should respect the hard cap across phases", async function () {
+      await dynamicPresale.setSpilloverEnabled(true);
+      // no buyers yet, so the timelock can still be lifted
+      await dynamicPresale.setParameterDelay(0);
+      await dynamicPresale.setSoftCap(ethers.parseEther("0.5"));
+      await dynamicPresale.executeParameterChange(SOFT_CAP_PARAM);
+      await dynamicPresale.setHardCap(ethers.parseEther("0.7"));
+
+      await expect(dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") }))
+        .to.emit(dynamicPresale, "HardCapReached")
+        .withArgs(ethers.parseEther("0.7"));
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(ethers.parseEther("1200"));
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.3"));
+      expect(await dynamicPresale.saleEnded()).to.be.true;
+    });
+  });
+
+  describe("Phase Limits", function () {
+    const PRIVATE_MIN = ethers.parseEther("1");
+    const PRIVATE_MAX = ethers.parseEther("30"); // above the global 20 ETH cap
+    const PUBLIC_MAX = ethers.parseEther("0.5");
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await dynamicPresale.addPhase(PHASE_1_PRICE, PHASE_SUPPLY, phase1Start, phase1End);
+    });
+
+    it("Should set and expose phase limits", async function () {
+      await expect(dynamicPresale.setPhaseLimits(0, PRIVATE_MIN, PRIVATE_MAX))
+        .to.emit(dynamicPresale, "PhaseLimitsSet")
+        .withArgs(0, PRIVATE_MIN, PRIVATE_MAX);
+
+      const phase = await dynamicPresale.getPhase(0);
+      expect(phase.minBuy).to.equal(PRIVATE_MIN);
+      expect(phase.maxPerWallet).to.equal(PRIVATE_MAX);
+      expect((await dynamicPresale.getPhase(1)).maxPerWallet).to.equal(0);
+
+      await expect(
+        dynamicPresale.connect(buyer1).setPhaseLimits(0, PRIVATE_MIN, PRIVATE_MAX)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+      await expect(
+        dynamicPresale.setPhaseLimits(0, PRIVATE_MIN, ethers.parseEther("0.5"))
+      ).to.be.revertedWith("Presale: maxPerWallet >= minBuy");
+      await expect(dynamicPresale.setPhaseLimits(5, 0, 0)).to.be.revertedWith("Presale: invalid phase ID");
+
+      await time.increaseTo(phase0Start);
+      await expect(
+        dynamicPresale.setPhaseLimits(0, 0, 0)
+      ).to.be.revertedWith("Presale: cannot update active/past phase");
+    });
+
+    it("Should apply the active phase's min buy and cap instead of the global ones", async function () {
+      await dynamicPresale.setPhaseLimits(0, PRIVATE_MIN, PRIVATE_MAX);
+      await time.increaseTo(phase0Start);
+
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("0.5") })
+      ).to.be.revertedWith("Presale: below min buy");
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("25") });
+      expect(await dynamicPresale.phaseContributionsWei(0, buyer1.address)).to.equal(ethers.parseEther("25"));
+
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("6") })
+      ).to.be.revertedWith("Presale: above phase max per wallet");
+    });
+
+    it("Should track contributions per phase against a public phase cap", async function () {
+      await dynamicPresale.setPhaseLimits(1, 0, PUBLIC_MAX);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+
+      await time.increaseTo(phase1Start);
+      await dynamicPresale.connect(buyer1).buy({ value: PUBLIC_MAX });
+      // phase 0 has no cap of its own and is only counted towards the global one
+      expect(await dynamicPresale.phaseContributionsWei(0, buyer1.address)).to.equal(0);
+      expect(await dynamicPresale.phaseContributionsWei(1, buyer1.address)).to.equal(PUBLIC_MAX);
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(ethers.parseEther("1.5"));
+
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: MIN_BUY })
+      ).to.be.revertedWith("Presale: above phase max per wallet");
+      await dynamicPresale.connect(buyer2).buy({ value: PUBLIC_MAX });
+    });
+  });
+
+  describe("Bonding Curve", function () {
+    const CURVE_SUPPLY = ethers.parseEther("1000");
+    const DUST = 10n ** 6n; // token units a wei of rounding can buy at these prices
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, CURVE_SUPPLY, phase0Start, phase0End);
+    });
+
+    it("Should price a linear curve by its exact integral", async function () {
+      // 0.0005 ETH rising by 0.000001 ETH per token sold: 0.0015 ETH once the 1k tokens are gone
+      const increment = ethers.parseEther("0.000001");
+      await expect(dynamicPresale.setPhaseCurve(0, increment, 0))
+        .to.emit(dynamicPresale, "PhaseCurveSet")
+        .withArgs(0, increment, 0);
+      await time.increaseTo(phase0Start);
+
+      // first 500 tokens: 500 * 0.0005 + 0.000001 * 500^2 / 2 = 0.375 ETH
+      const [tokens, cost, excess] = await dynamicPresale.calculateTokens(ethers.parseEther("0.375"));
+      expect(tokens).to.be.closeTo(ethers.parseEther("500"), DUST);
+      expect(cost).to.equal(ethers.parseEther("0.375"));
+      expect(excess).to.equal(0);
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("0.375") });
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(tokens);
+      expect(await dynamicPresale.getPhasePrice(0)).to.equal(ethers.parseEther("0.001"));
+
+      // the other half of the phase costs 0.625 ETH, a later buyer pays more per token
+      await dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("1") });
+      expect(await dynamicPresale.pendingTokens(buyer2.address)).to.equal(CURVE_SUPPLY - tokens);
+      expect(await dynamicPresale.contributionsWei(buyer2.address)).to.be.closeTo(
+        ethers.parseEther("0.625"),
+        1n
+      );
+      expect(await dynamicPresale.paymentsOf(buyer2.address)).to.be.closeTo(ethers.parseEther("0.375"), 1n);
+    });
+
+    it("Should price a stepwise curve by its tiers", async function () {
+      // +0.0001 ETH every 100 tokens
+      await dynamicPresale.setPhaseCurve(0, ethers.parseEther("0.0001"), ethers.parseEther("100"));
+      await time.increaseTo(phase0Start);
+
+      // 250 tokens: 100 * 0.0005 + 100 * 0.0006 + 50 * 0.0007 = 0.145 ETH
+      const [tokens, cost] = await dynamicPresale.calculateTokens(ethers.parseEther("0.145"));
+      expect(tokens).to.be.closeTo(ethers.parseEther("250"), DUST);
+      expect(cost).to.equal(ethers.parseEther("0.145"));
+
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("0.145") });
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(tokens);
+      expect(await dynamicPresale.getPhasePrice(0)).to.equal(ethers.parseEther("0.0007"));
+    });
+
+    it("Should only set curves on upcoming phases", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).setPhaseCurve(0, 1, 0)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await time.increaseTo(phase0Start);
+      await expect(
+        dynamicPresale.setPhaseCurve(0, 1, 0)
+      ).to.be.revertedWith("Presale: cannot update active/past phase");
+    });
+  });
+
+  describe("Dutch Auction", function () {
+    const AUCTION_SUPPLY = ethers.parseEther("1000");
+    const START_PRICE = ethers.parseEther("0.002");
+    const FLOOR_PRICE = ethers.parseEther("0.0005");
+    const DECAY = ethers.parseEther("0.000001"); // per second: the floor is reached after 1500s
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, AUCTION_SUPPLY, phase0Start, phase0End);
+      await expect(dynamicPresale.setPhaseAuction(0, START_PRICE, FLOOR_PRICE, DECAY))
+        .to.emit(dynamicPresale, "AuctionSet")
+        .withArgs(0, START_PRICE, FLOOR_PRICE, DECAY);
+    });
+
+    it("Should clear at the sell-out price and refund overpayment on settlement", async function () {
+      // 0.0015 ETH: 0.6 ETH locks 400 tokens
+      await time.setNextBlockTimestamp(phase0Start + 500);
+      await expect(dynamicPresale.connect(buyer1).bid([], { value: ethers.parseEther("0.6") }))
+        .to.emit(dynamicPresale, "AuctionBidPlaced")
+        .withArgs(buyer1.address, 0, ethers.parseEther("0.0015"), ethers.parseEther("400"), ethers.parseEther("0.6"));
+
+      // 0.001 ETH: only 600 tokens are left, the extra 0.4 ETH is queued right away
+      await time.setNextBlockTimestamp(phase0Start + 1000);
+      await dynamicPresale.connect(buyer2).bid([], { value: ethers.parseEther("1") });
+      expect(await dynamicPresale.paymentsOf(buyer2.address)).to.equal(ethers.parseEther("0.4"));
+      expect(await dynamicPresale.totalAuctionDeposits()).to.equal(ethers.parseEther("1.2"));
+      expect(await dynamicPresale.totalRaised()).to.equal(0);
+
+      await expect(dynamicPresale.settleAuction(0))
+        .to.emit(dynamicPresale, "AuctionSettled")
+        .withArgs(0, ethers.parseEther("0.001"), AUCTION_SUPPLY);
+      expect(await dynamicPresale.totalRaised()).to.equal(ethers.parseEther("1"));
+      expect(await dynamicPresale.totalTokensSold()).to.equal(AUCTION_SUPPLY);
+
+      // buyer1 pays 400 * 0.001 = 0.4 ETH instead of 0.6 ETH
+      await expect(dynamicPresale.connect(buyer3).settleAuctionBid(0, buyer1.address))
+        .to.emit(dynamicPresale, "AuctionBidSettled")
+        .withArgs(buyer1.address, 0, ethers.parseEther("400"), ethers.parseEther("0.4"), ethers.parseEther("0.2"));
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.2"));
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(ethers.parseEther("400"));
+      expect(await dynamicPresale.contributionsWei(buyer1.address)).to.equal(ethers.parseEther("0.4"));
+      expect(await dynamicPresale.totalAuctionDeposits()).to.equal(ethers.parseEther("0.6"));
+
+      await expect(
+        dynamicPresale.settleAuctionBid(0, buyer1.address)
+      ).to.be.revertedWith("Presale: no bid");
+    });
+
+    it("Should clear at the end price when undersubscribed and settle on finalize", async function () {
+      await time.setNextBlockTimestamp(phase0Start + 100);
+      await dynamicPresale.connect(buyer1).bid([], { value: ethers.parseEther("0.19") }); // 100 tokens at 0.0019
+
+      await expect(dynamicPresale.settleAuction(0)).to.be.revertedWith("Presale: auction still running");
+
+      await time.increaseTo(phase0End + 1);
+      await expect(dynamicPresale.finalize())
+        .to.emit(dynamicPresale, "AuctionSettled")
+        .withArgs(0, FLOOR_PRICE, ethers.parseEther("100"));
+
+      // soft cap missed: the refund covers the clearing cost and the overpayment
+      await dynamicPresale.connect(buyer1).requestRefund();
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.19"));
+      expect(await dynamicPresale.totalAuctionDeposits()).to.equal(0);
+    });
+
+    it("Should settle a running auction right away after a cancellation", async function () {
+      await time.setNextBlockTimestamp(phase0Start + 100);
+      await dynamicPresale.connect(buyer1).bid([], { value: ethers.parseEther("0.19") });
+      await dynamicPresale.cancelSale();
+
+      await dynamicPresale.settleAuction(0);
+      await dynamicPresale.connect(buyer1).requestRefund();
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(ethers.parseEther("0.19"));
+      expect(await dynamicPresale.totalAuctionDeposits()).to.equal(0);
+    });
+
+    it("Should keep fixed-price purchases out of auction phases", async function () {
+      await time.increaseTo(phase0Start);
+
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Presale: auction phase");
+      await expect(
+        dynamicPresale.setPhaseAuction(0, FLOOR_PRICE, START_PRICE, DECAY)
+      ).to.be.revertedWith("Presale: cannot update active/past phase");
+      await expect(
+        dynamicPresale.setPhaseAuction(1, START_PRICE, FLOOR_PRICE, DECAY)
+      ).to.be.revertedWith("Presale: invalid phase ID");
+    });
+  });
+
+  describe("USD Pricing", function () {
+    const ETH_USD = 2000n * 10n ** 8n; // $2,000 with the usual 8 feed decimals
+    const MAX_AGE = 600;
+    let feed: MockV3Aggregator;
+
+    beforeEach(async function () {
+      const FeedFactory = await ethers.getContractFactory("MockV3Aggregator");
+      feed = await FeedFactory.deploy(8, ETH_USD);
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+    });
+
+    it("Should convert a USD phase price at the feed answer", async function () {
+      await expect(dynamicPresale.setPriceFeed(await feed.getAddress(), MAX_AGE, 0))
+        .to.emit(dynamicPresale, "PriceFeedSet")
+        .withArgs(await feed.getAddress(), MAX_AGE, 0);
+      expect(await dynamicPresale.priceFeedDecimals()).to.equal(8);
+
+      // $0.50 per token at $2,000 per ETH
+      await expect(dynamicPresale.setPhaseUsdPrice(0, 50))
+        .to.emit(dynamicPresale, "PhaseUsdPriceSet")
+        .withArgs(0, 50);
+      expect(await dynamicPresale.getPhasePrice(0)).to.equal(ethers.parseEther("0.00025"));
+      expect(await dynamicPresale.getEthUsdPrice()).to.equal(ETH_USD);
+
+      await time.increaseTo(phase0Start);
+      const [tokens, cost] = await dynamicPresale.calculateTokens(ethers.parseEther("1"));
+      expect(tokens).to.equal(ethers.parseEther("4000"));
+      expect(cost).to.equal(ethers.parseEther("1"));
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(tokens);
+
+      // ETH doubles: the same dollar price now takes half the wei
+      await feed.updateAnswer(ETH_USD * 2n);
+      await dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("1") });
+      expect(await dynamicPresale.pendingTokens(buyer2.address)).to.equal(ethers.parseEther("8000"));
+
+      // back to priceWei without a USD price
+      await dynamicPresale.setPhaseUsdPrice(0, 0);
+      expect(await dynamicPresale.getPhasePrice(0)).to.equal(PHASE_0_PRICE);
+    });
+
+    it("Should reject stale and invalid feed answers", async function () {
+      await dynamicPresale.setPriceFeed(await feed.getAddress(), MAX_AGE, 0);
+      await dynamicPresale.setPhaseUsdPrice(0, 50);
+      await time.increaseTo(phase0Start);
+
+      await time.increase(MAX_AGE + 1);
+      await expect(dynamicPresale.getPhasePrice(0)).to.be.revertedWith("Presale: stale oracle price");
+      await expect(
+        dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") })
+      ).to.be.revertedWith("Presale: stale oracle price");
+
+      await feed.updateAnswer(0);
+      await expect(dynamicPresale.getEthUsdPrice()).to.be.revertedWith("Presale: invalid oracle price");
+
+      // phases without a USD price never read the feed
+      await dynamicPresale.setPhaseUsdPrice(0, 0);
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("1") });
+    });
+
+    it("Should reject answers that moved too far from the previous round", async function () {
+      await dynamicPresale.setPriceFeed(await feed.getAddress(), MAX_AGE, 1000); // 10%
+      await dynamicPresale.setPhaseUsdPrice(0, 50);
+
+      await feed.updateAnswer((ETH_USD * 125n) / 100n);
+      await expect(dynamicPresale.getPhasePrice(0)).to.be.revertedWith("Presale: oracle price deviation");
+
+      // 2,500 -> 2,600 is a 4% move
+      await feed.updateAnswer(2600n * 10n ** 8n);
+      expect(await dynamicPresale.getPhasePrice(0)).to.equal(ethers.parseEther("0.5") / 2600n);
+    });
+
+    it("Should validate the feed config", async function () {
+      await expect(dynamicPresale.setPhaseUsdPrice(0, 50)).to.be.revertedWith("Presale: no price feed");
+      await expect(
+        dynamicPresale.setPriceFeed(await feed.getAddress(), 0, 0)
+      ).to.be.revertedWith("Presale: zero max price age");
+      await expect(dynamicPresale.getEthUsdPrice()).to.be.revertedWith("Presale: no price feed");
+      await expect(
+        dynamicPresale.connect(buyer1).setPriceFeed(await feed.getAddress(), MAX_AGE, 0)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await dynamicPresale.setPriceFeed(await feed.getAddress(), MAX_AGE, 0);
+      await expect(dynamicPresale.setPhaseUsdPrice(3, 50)).to.be.revertedWith("Presale: invalid phase ID");
+    });
+  });
+
+  describe("Vesting Claim Mode", function () {
+    it("Should validate and set the vesting config", async function () {
+      const vestingAddress = buyer3.address; // any address; claims are covered in Integration tests
+
+      await expect(dynamicPresale.setVestingConfig(vestingAddress, 2000, 100, 1000))
+        .to.emit(dynamicPresale, "VestingConfigSet")
+        .withArgs(vestingAddress, 2000, 100, 1000);
+      expect(await dynamicPresale.vesting()).to.equal(vestingAddress);
+      expect(await dynamicPresale.tgeUnlockBps()).to.equal(2000);
+
+      await expect(dynamicPresale.setVestingConfig(vestingAddress, 10001, 100, 1000)).to.be.revertedWith(
+        "Presale: TGE unlock too high"
+      );
+      await expect(dynamicPresale.setVestingConfig(vestingAddress, 2000, 100, 0)).to.be.revertedWith(
+        "Presale: zero vesting duration"
+      );
+      await expect(dynamicPresale.setVestingConfig(vestingAddress, 2000, 1001, 1000)).to.be.revertedWith(
+        "Presale: cliff greater than duration"
+      );
+      await expect(
+        dynamicPresale.connect(buyer1).setVestingConfig(vestingAddress, 2000, 100, 1000)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not change the vesting config after the sale ended", async function () {
+      await dynamicPresale.endSale();
+      await expect(dynamicPresale.setVestingConfig(ethers.ZeroAddress, 0, 0, 0)).to.be.revertedWith(
+        "Presale: sale ended"
+      );
+    });
+  });
+
+  describe("Calculate Tokens", function () {
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+    });
+
+    it("Should calculate tokens correctly", async function () {
+      const ethAmount = ethers.parseEther("1");
+      const [tokens, cost, excess] = await dynamicPresale.calculateTokens(ethAmount);
+      
+      const expectedTokens = (ethAmount * (10n ** BigInt(TOKEN_DECIMALS))) / PHASE_0_PRICE;
+      const expectedCost = (expectedTokens * PHASE_0_PRICE) / (10n ** BigInt(TOKEN_DECIMALS));
+      const expectedExcess = ethAmount - expectedCost;
+      
+      expect(tokens).to.equal(expectedTokens);
+      expect(cost).to.equal(expectedCost);
+      expect(excess).to.equal(expectedExcess);
+    });
+
+    it("Should handle partial fulfillment", async function () {
+      // First, buy most of the phase (but within maxPerWallet limit)
+      const maxWalletCost = MAX_PER_WALLET - ethers.parseEther("0.2"); // Leave room for second buy
+      await dynamicPresale.connect(buyer1).buy({ value: maxWalletCost });
+      
+      // Second buyer partially fills remaining phase
+      const ethAmount = ethers.parseEther("1");
+      const [tokens, cost, excess] = await dynamicPresale.calculateTokens(ethAmount);
+      
+      const remainingTokens = await dynamicPresale.remainingTokensInCurrentPhase();
+      if (remainingTokens > 0) {
+        expect(tokens).to.be.lte(remainingTokens);
+        if (tokens < (ethAmount * (10n ** BigInt(TOKEN_DECIMALS))) / PHASE_0_PRICE) {
+          expect(excess).to.be.gt(0);
+        }
+      }
+    });
+  });
+
+  describe("Claim Tokens", function () {
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      
+      // Buy tokens to reach soft cap
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.endSale();
+    });
+
+    it("Should allow claiming tokens after sale ends and soft cap reached", async function () {
+      const pendingTokens = await dynamicPresale.pendingTokens(buyer1.address);
+      
+      await dynamicPresale.connect(buyer1).claim();
+      
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(pendingTokens);
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(0);
+    });
+
+    it("Should emit Claimed event", async function () {
+      const pendingTokens = await dynamicPresale.pendingTokens(buyer1.address);
+      
+      await expect(
+        dynamicPresale.connect(buyer1).claim()
+      ).to.emit(dynamicPresale, "Claimed")
+        .withArgs(buyer1.address, pendingTokens);
+    });
+
+    it("Should revert if sale not ended", async function () {
+      // Deploy fresh presale that hasn't ended
+      const freshPresale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        SOFT_CAP,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      
+      const MINTER_ROLE = await myToken.MINTER_ROLE();
+      await myToken.grantRole(MINTER_ROLE, await freshPresale.getAddress());
+      
+      const currentTime = await time.latest();
+      await freshPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, currentTime + 100, currentTime + 3700);
+      await time.increase(200);
+      await freshPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      
+      await expect(
+        freshPresale.connect(buyer1).claim()
+      ).to.be.revertedWith("Presale: sale not ended");
+    });
+
+    it("Should revert if soft cap not reached", async function () {
+      // Deploy new presale with higher soft cap
+      const highSoftCap = ethers.parseEther("100");
+      const newPresale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        highSoftCap,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      
+      const MINTER_ROLE = await myToken.MINTER_ROLE();
+      await myToken.grantRole(MINTER_ROLE, await newPresale.getAddress());
+      
+      const currentTime = await time.latest();
+      await newPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, currentTime + 100, currentTime + 3700);
+      await time.increase(200);
+      await newPresale.connect(buyer1).buy({ value: MIN_BUY });
+      await newPresale.endSale();
+      
+      await expect(
+        newPresale.connect(buyer1).claim()
+      ).to.be.revertedWith("Presale: softCap not reached");
+    });
+
+    it("Should revert if nothing to claim", async function () {
+      await expect(
+        dynamicPresale.connect(buyer2).claim()
+      ).to.be.revertedWith("Presale: nothing to claim");
+    });
+  });
+
+  describe("Batch Claim", function () {
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("1") });
+      await dynamicPresale.connect(buyer3).buy({ value: ethers.parseEther("2") });
+      await dynamicPresale.endSale();
+    });
+
+    it("Should page through buyers", async function () {
+      expect(await dynamicPresale.getBuyers(0, 2)).to.deep.equal([buyer1.address, buyer2.address]);
+      expect(await dynamicPresale.getBuyers(2, 10)).to.deep.equal([buyer3.address]);
+      expect(await dynamicPresale.getBuyers(3, 10)).to.deep.equal([]);
+      expect(await dynamicPresale.getBuyers(1, ethers.MaxUint256)).to.deep.equal([buyer2.address, buyer3.address]);
+    });
+
+    it("Should claim for each buyer and skip wallets with nothing to claim", async function () {
+      const pending1 = await dynamicPresale.pendingTokens(buyer1.address);
+      const pending3 = await dynamicPresale.pendingTokens(buyer3.address);
+      await dynamicPresale.connect(buyer2).claim();
+      const balance2 = await myToken.balanceOf(buyer2.address);
+
+      const tx = dynamicPresale.claimFor([buyer1.address, buyer2.address, beneficiary.address, buyer3.address]);
+      await expect(tx).to.emit(dynamicPresale, "Claimed").withArgs(buyer1.address, pending1);
+      await expect(tx).to.emit(dynamicPresale, "Claimed").withArgs(buyer3.address, pending3);
+
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(pending1);
+      expect(await myToken.balanceOf(buyer2.address)).to.equal(balance2);
+      expect(await myToken.balanceOf(buyer3.address)).to.equal(pending3);
+      expect(await myToken.balanceOf(beneficiary.address)).to.equal(0);
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(0);
+
+      // Already distributed, so the buyer's own claim finds nothing
+      await expect(dynamicPresale.connect(buyer1).claim()).to.be.revertedWith("Presale: nothing to claim");
+    });
+
+    it("Should only let the owner claim for others", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).claimFor([buyer2.address])
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should bound the batch size", async function () {
+      const batch = Array(Number(await dynamicPresale.MAX_CLAIM_BATCH()) + 1).fill(buyer1.address);
+      await expect(dynamicPresale.claimFor(batch)).to.be.revertedWith("Presale: batch too large");
+    });
+  });
+
+  describe("Meta-transactions", function () {
+    let forwarder: PresaleForwarder;
+    let presale: DynamicPresale;
+    let chainId: bigint;
+
+    // Signs `data` as `signer` for the relayer (owner here) to submit
+    const forward = async (signer: SignerWithAddress, data: string) => {
+      const forwarderAddress = await forwarder.getAddress();
+      return signForwardRequest(signer, forwarderAddress, chainId, {
+        from: signer.address,
+        to: await presale.getAddress(),
+        value: 0n,
+        gas: 500_000n,
+        nonce: await forwarder.nonces(signer.address),
+        deadline: BigInt((await time.latest()) + 3600),
+        data,
+      });
+    };
+
+    beforeEach(async function () {
+      chainId = (await ethers.provider.getNetwork()).chainId;
+      forwarder = await (await ethers.getContractFactory("PresaleForwarder")).deploy();
+      presale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        SOFT_CAP,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        await forwarder.getAddress()
+      );
+      await myToken.grantRole(await myToken.MINTER_ROLE(), await presale.getAddress());
+
+      await presale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await presale.connect(buyer1).buy({ value: SOFT_CAP });
+    });
+
+    it("Should claim for the signer of a forwarded request", async function () {
+      await presale.endSale();
+      const pendingTokens = await presale.pendingTokens(buyer1.address);
+      const request = await forward(buyer1, presale.interface.encodeFunctionData("claim"));
+
+      const ethBefore = await ethers.provider.getBalance(buyer1.address);
+      await expect(forwarder.connect(owner).execute(request))
+        .to.emit(presale, "Claimed")
+        .withArgs(buyer1.address, pendingTokens);
+
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(pendingTokens);
+      expect(await ethers.provider.getBalance(buyer1.address)).to.equal(ethBefore);
+      expect(await presale.isTrustedForwarder(await forwarder.getAddress())).to.be.true;
+    });
+
+    it("Should resolve the signer in extension calls", async function () {
+      // Owner operations run in the extension; the forwarded sender must survive the delegatecall
+      const asOwner = await forward(owner, presale.interface.encodeFunctionData("pause"));
+      await forwarder.connect(buyer2).execute(asOwner);
+      expect(await presale.paused()).to.be.true;
+
+      const asBuyer = await forward(buyer1, presale.interface.encodeFunctionData("unpause"));
+      await expect(forwarder.connect(buyer2).execute(asBuyer)).to.be.revertedWithCustomError(
+        forwarder,
+        "FailedCall"
+      );
+      expect(await presale.paused()).to.be.true;
+    });
+
+    it("Should only trust its own forwarder", async function () {
+      await presale.endSale();
+      const other = await (await ethers.getContractFactory("PresaleForwarder")).deploy();
+      const request = await forward(buyer1, presale.interface.encodeFunctionData("claim"));
+
+      await expect(other.execute(request)).to.be.revertedWithCustomError(other, "ERC2771UntrustfulTarget");
+      expect(await presale.pendingTokens(buyer1.address)).to.be.gt(0);
+    });
+  });
+
+  describe("Refunds", function () {
+    let highSoftCapPresale: DynamicPresale;
+
+    beforeEach(async function () {
+      // Deploy presale with high soft cap to test refunds
+      const highSoftCap = ethers.parseEther("100");
+      highSoftCapPresale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        highSoftCap,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      
+      await highSoftCapPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await highSoftCapPresale.connect(buyer1).buy({ value: MIN_BUY });
+      await highSoftCapPresale.endSale();
+    });
+
+    it("Should allow refund when soft cap not reached", async function () {
+      await highSoftCapPresale.connect(buyer1).requestRefund();
+      
+      expect(await highSoftCapPresale.contributionsWei(buyer1.address)).to.equal(0);
+      expect(await highSoftCapPresale.pendingTokens(buyer1.address)).to.equal(0);
+    });
+
+    it("Should emit RefundRequested event", async function () {
+      await expect(
+        highSoftCapPresale.connect(buyer1).requestRefund()
+      ).to.emit(highSoftCapPresale, "RefundRequested")
+        .withArgs(buyer1.address, MIN_BUY);
+    });
+
+    it("Should revert refund if soft cap reached", async function () {
+      // Use fresh timestamps to avoid collision
+      const currentTime = await time.latest();
+      const newPhaseStart = currentTime + 100;
+      const newPhaseEnd = newPhaseStart + 3600;
+      
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, newPhaseStart, newPhaseEnd);
+      await time.increase(200);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.endSale();
+      
+      await expect(
+        dynamicPresale.connect(buyer1).requestRefund()
+      ).to.be.revertedWith("Presale: softCap reached");
+    });
+
+    it("Should revert if nothing to refund", async function () {
+      await expect(
+        highSoftCapPresale.connect(buyer2).requestRefund()
+      ).to.be.revertedWith("Presale: nothing to refund");
+    });
+  });
+
+  describe("Sale Cancellation", function () {
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.connect(buyer2).buy({ value: MIN_BUY });
+    });
+
+    it("Should end the sale in refund mode after the soft cap", async function () {
+      expect(await dynamicPresale.softCapReached()).to.be.true;
+
+      await expect(dynamicPresale.cancelSale())
+        .to.emit(dynamicPresale, "SaleCancelled")
+        .withArgs(SOFT_CAP + MIN_BUY)
+        .and.to.emit(dynamicPresale, "SaleEnded")
+        .withArgs(true);
+
+      expect(await dynamicPresale.saleCancelled()).to.be.true;
+      expect(await dynamicPresale.saleEnded()).to.be.true;
+      await expect(dynamicPresale.connect(buyer3).buy({ value: MIN_BUY })).to.be.revertedWith("Presale: sale ended");
+    });
+
+    it("Should refund every buyer through the escrow", async function () {
+      await dynamicPresale.cancelSale();
+
+      await expect(dynamicPresale.connect(buyer1).requestRefund())
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(buyer1.address, SOFT_CAP);
+      await dynamicPresale.connect(buyer2).requestRefund();
+
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(0);
+      expect(await dynamicPresale.paymentsOf(buyer1.address)).to.equal(SOFT_CAP);
+      await expect(dynamicPresale.connect(buyer1).withdrawPayments()).to.changeEtherBalance(buyer1, SOFT_CAP);
+      await expect(dynamicPresale.connect(buyer2).withdrawPayments()).to.changeEtherBalance(buyer2, MIN_BUY);
+    });
+
+    it("Should release the ETH referral reserve into the refunds", async function () {
+      await dynamicPresale.setReferralConfig(500, true);
+      const buyAmount = ethers.parseEther("2");
+      await dynamicPresale.connect(buyer3).buyWithReferrer(buyer2.address, [], { value: buyAmount });
+      expect(await dynamicPresale.totalReferralRewardsWei()).to.equal(buyAmount / 20n);
+
+      await dynamicPresale.cancelSale();
+      expect(await dynamicPresale.totalReferralRewardsWei()).to.equal(0);
+      await expect(dynamicPresale.connect(buyer2).claimReferralRewards()).to.be.revertedWith("Presale: sale cancelled");
+
+      for (const buyer of [buyer1, buyer2, buyer3]) {
+        await dynamicPresale.connect(buyer).requestRefund();
+      }
+      await expect(dynamicPresale.connect(buyer3).withdrawPayments()).to.changeEtherBalance(buyer3, buyAmount);
+      expect(await dynamicPresale.totalEscrow()).to.equal(
+        await ethers.provider.getBalance(await dynamicPresale.getAddress())
+      );
+    });
+
+    it("Should block claims and withdrawals", async function () {
+      await dynamicPresale.cancelSale();
+
+      await expect(dynamicPresale.connect(buyer1).claim()).to.be.revertedWith("Presale: sale cancelled");
+      await expect(dynamicPresale.claimFor([buyer1.address])).to.be.revertedWith("Presale: sale cancelled");
+      await expect(dynamicPresale.withdrawProceeds(beneficiary.address)).to.be.revertedWith("Presale: sale cancelled");
+    });
+
+    it("Should only cancel the sale once", async function () {
+      await dynamicPresale.cancelSale();
+      await expect(dynamicPresale.cancelSale()).to.be.revertedWith("Presale: sale cancelled");
+    });
+
+    it("Should cancel after finalize() as long as nothing was paid out", async function () {
+      await time.increaseTo(phase0End + 1);
+      await dynamicPresale.finalize();
+
+      await expect(dynamicPresale.cancelSale())
+        .to.emit(dynamicPresale, "SaleCancelled")
+        .withArgs(SOFT_CAP + MIN_BUY)
+        .and.not.to.emit(dynamicPresale, "SaleEnded");
+      await expect(dynamicPresale.connect(buyer1).claim()).to.be.revertedWith("Presale: sale cancelled");
+      await expect(dynamicPresale.connect(buyer1).requestRefund())
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(buyer1.address, SOFT_CAP);
+    });
+
+    it("Should not cancel once tokens or proceeds were paid out", async function () {
+      await dynamicPresale.endSale();
+      await dynamicPresale.connect(buyer2).claim();
+      expect(await dynamicPresale.payoutsStarted()).to.be.true;
+      await expect(dynamicPresale.cancelSale()).to.be.revertedWith("Presale: payouts started");
+    });
+
+    it("Should not cancel once proceeds were withdrawn", async function () {
+      await dynamicPresale.endSale();
+      await dynamicPresale.withdrawProceeds(beneficiary.address);
+      await expect(dynamicPresale.cancelSale()).to.be.revertedWith("Presale: payouts started");
+    });
+
+    it("Should only allow admin to cancel", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).cancelSale()
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Proceeds Split", function () {
+    let treasury: SignerWithAddress;
+    let liquidity: SignerWithAddress;
+    let platform: SignerWithAddress;
+    const SHARES = [6000n, 3000n, 1000n];
+    const RAISED = SOFT_CAP + MIN_BUY;
+
+    beforeEach(async function () {
+      [, , , , , treasury, liquidity, platform] = await ethers.getSigners();
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.connect(buyer2).buy({ value: MIN_BUY });
+    });
+
+    it("Should set payees and their shares", async function () {
+      const accounts = [treasury.address, liquidity.address, platform.address];
+      await expect(dynamicPresale.setPayees(accounts, SHARES))
+        .to.emit(dynamicPresale, "PayeesSet")
+        .withArgs(accounts, SHARES);
+
+      const [payees, shares, released] = await dynamicPresale.getPayees();
+      expect(payees).to.deep.equal(accounts);
+      expect(shares).to.deep.equal(SHARES);
+      expect(released).to.deep.equal([0n, 0n, 0n]);
+    });
+
+    it("Should reject invalid splits", async function () {
+      const accounts = [treasury.address, liquidity.address];
+      await expect(dynamicPresale.setPayees(accounts, [10000n])).to.be.revertedWith(
+        "Presale: payees and shares mismatch"
+      );
+      await expect(dynamicPresale.setPayees(accounts, [6000n, 3000n])).to.be.revertedWith(
+        "Presale: shares must total 10000"
+      );
+      await expect(dynamicPresale.setPayees([treasury.address, treasury.address], [5000n, 5000n])).to.be.revertedWith(
+        "Presale: duplicate payee"
+      );
+      await expect(dynamicPresale.setPayees([treasury.address, ethers.ZeroAddress], [5000n, 5000n])).to.be.revertedWith(
+        "Presale: payee address zero"
+      );
+      await expect(dynamicPresale.setPayees(accounts, [10000n, 0n])).to.be.revertedWith("Presale: share zero");
+      await expect(
+        dynamicPresale.connect(buyer1).setPayees(accounts, [5000n, 5000n])
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only change payees before the sale ends", async function () {
+      await dynamicPresale.endSale();
+      await expect(
+        dynamicPresale.setPayees([treasury.address], [10000n])
+      ).to.be.revertedWith("Presale: sale ended");
+    });
+
+    it("Should release each payee's share", async function () {
+      const payees = [treasury, liquidity, platform];
+      await dynamicPresale.setPayees(payees.map((p) => p.address), SHARES);
+      await dynamicPresale.endSale();
+
+      for (let i = 0; i < payees.length; i++) {
+        const share = (RAISED * SHARES[i]) / 10000n;
+        expect(await dynamicPresale.pendingProceeds(payees[i].address)).to.equal(share);
+        // anyone can trigger a release, the ETH goes to the payee
+        const tx = dynamicPresale.connect(buyer3).releaseProceeds(payees[i].address);
+        await expect(tx).to.emit(dynamicPresale, "Withdrawn").withArgs(payees[i].address, share);
+        await expect(tx).to.changeEtherBalance(payees[i], share);
+        expect(await dynamicPresale.pendingProceeds(payees[i].address)).to.equal(0);
+      }
+
+      const [, , released] = await dynamicPresale.getPayees();
+      expect(released).to.deep.equal(SHARES.map((bps) => (RAISED * bps) / 10000n));
+      await expect(dynamicPresale.releaseProceeds(treasury.address)).to.be.revertedWith("Presale: nothing to release");
+    });
+
+    it("Should replace withdrawProceeds while payees are set", async function () {
+      await dynamicPresale.setPayees([treasury.address, liquidity.address], [5000n, 5000n]);
+      await dynamicPresale.endSale();
+
+      await expect(dynamicPresale.withdrawProceeds(beneficiary.address)).to.be.revertedWith(
+        "Presale: proceeds split between payees"
+      );
+      await expect(dynamicPresale.releaseProceeds(beneficiary.address)).to.be.revertedWith("Presale: not a payee");
+    });
+
+    it("Should clear the previous payees when replaced", async function () {
+      await dynamicPresale.setPayees([treasury.address, liquidity.address], [5000n, 5000n]);
+      await dynamicPresale.setPayees([platform.address], [10000n]);
+      await dynamicPresale.endSale();
+
+      expect(await dynamicPresale.pendingProceeds(treasury.address)).to.equal(0);
+      await expect(dynamicPresale.releaseProceeds(platform.address)).to.changeEtherBalance(platform, RAISED);
+
+      await dynamicPresale.connect(buyer1).claim();
+      expect(await ethers.provider.getBalance(await dynamicPresale.getAddress())).to.equal(0);
+    });
+
+    it("Should only release after a successful sale", async function () {
+      await dynamicPresale.setPayees([treasury.address], [10000n]);
+      await expect(dynamicPresale.releaseProceeds(treasury.address)).to.be.revertedWith("Presale: sale not ended");
+
+      await dynamicPresale.cancelSale();
+      await expect(dynamicPresale.releaseProceeds(treasury.address)).to.be.revertedWith("Presale: sale cancelled");
+    });
+  });
+
+  describe("Proceeds Tranches", function () {
+    const BUYER2_AMOUNT = ethers.parseEther("5");
+    const RAISED = SOFT_CAP + BUYER2_AMOUNT;
+    const MONTH = 30 * 24 * 3600;
+    let milestone: number;
+
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.connect(buyer2).buy({ value: BUYER2_AMOUNT });
+      milestone = phase0End + MONTH;
+    });
+
+    it("Should set the tranche schedule", async function () {
+      await expect(dynamicPresale.setTranches([4000, 3000, 3000], [0, milestone, 0], [false, false, true], 5000))
+        .to.emit(dynamicPresale, "TranchesSet")
+        .withArgs([4000n, 3000n, 3000n], [0n, BigInt(milestone), 0n], [false, false, true], 5000n);
+
+      const [tranches, withdrawn, haltQuorumBps, , halted] = await dynamicPresale.getTranches();
+      expect(tranches.length).to.equal(3);
+      expect(tranches[1].bps).to.equal(3000);
+      expect(tranches[1].unlockTime).to.equal(milestone);
+      expect(tranches[2].needsApproval).to.be.true;
+      expect(withdrawn).to.equal(0);
+      expect(haltQuorumBps).to.equal(5000);
+      expect(halted).to.be.false;
+    });
+
+    it("Should reject invalid schedules", async function () {
+      await expect(dynamicPresale.setTranches([5000, 5000], [0], [false, false], 0)).to.be.revertedWith(
+        "Presale: tranche arrays mismatch"
+      );
+      await expect(dynamicPresale.setTranches([5000, 4000], [0, 0], [false, false], 0)).to.be.revertedWith(
+        "Presale: shares must total 10000"
+      );
+      await expect(dynamicPresale.setTranches([10000, 0], [0, 0], [false, false], 0)).to.be.revertedWith(
+        "Presale: share zero"
+      );
+      await expect(dynamicPresale.setTranches([10000], [0], [false], 10001)).to.be.revertedWith(
+        "Presale: quorum too high"
+      );
+      await expect(
+        dynamicPresale.connect(buyer1).setTranches([10000], [0], [false], 0)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+
+      await dynamicPresale.setPayees([beneficiary.address], [10000]);
+      await expect(dynamicPresale.setTranches([10000], [0], [false], 0)).to.be.revertedWith(
+        "Presale: proceeds split between payees"
+      );
+    });
+
+    it("Should withdraw each tranche once its milestone is met", async function () {
+      await dynamicPresale.setTranches([4000, 3000, 3000], [0, milestone, 0], [false, false, true], 0);
+      await dynamicPresale.endSale();
+
+      await expect(dynamicPresale.withdrawProceeds(beneficiary.address)).to.be.revertedWith(
+        "Presale: proceeds released in tranches"
+      );
+
+      const first = (RAISED * 4000n) / 10000n;
+      const tx = dynamicPresale.withdrawTranche(0, beneficiary.address);
+      await expect(tx).to.emit(dynamicPresale, "TrancheWithdrawn").withArgs(0, first);
+      await expect(tx).to.changeEtherBalance(beneficiary, first);
+      await expect(dynamicPresale.withdrawTranche(0, beneficiary.address)).to.be.revertedWith(
+        "Presale: tranche already withdrawn"
+      );
+
+      // time-locked milestone
+      await expect(dynamicPresale.withdrawTranche(1, beneficiary.address)).to.be.revertedWith("Presale: tranche locked");
+      await time.increaseTo(milestone);
+      await dynamicPresale.withdrawTranche(1, beneficiary.address);
+
+      // approval milestone
+      await expect(dynamicPresale.withdrawTranche(2, beneficiary.address)).to.be.revertedWith(
+        "Presale: tranche not approved"
+      );
+      await expect(dynamicPresale.connect(buyer1).approveTranche(2)).to.be.revertedWithCustomError(
+        dynamicPresale,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(dynamicPresale.approveTranche(2)).to.emit(dynamicPresale, "TrancheApproved").withArgs(2);
+      await dynamicPresale.withdrawTranche(2, beneficiary.address);
+
+      const [, withdrawn] = await dynamicPresale.getTranches();
+      expect(withdrawn).to.equal(RAISED);
+      expect(await ethers.provider.getBalance(await dynamicPresale.getAddress())).to.equal(0);
+    });
+
+    it("Should not take halt votes once every tranche is withdrawn", async function () {
+      await dynamicPresale.setTranches([4000, 6000], [0, 0], [false, false], 5000);
+      await dynamicPresale.endSale();
+      await dynamicPresale.withdrawTranche(0, beneficiary.address);
+      await dynamicPresale.connect(buyer2).voteToHaltTranches();
+      await dynamicPresale.withdrawTranche(1, beneficiary.address);
+
+      await expect(dynamicPresale.connect(buyer1).voteToHaltTranches()).to.be.revertedWith(
+        "Presale: all tranches withdrawn"
+      );
+    });
+
+    it("Should halt the remaining tranches and refund the rest pro-rata", async function () {
+      await dynamicPresale.setTranches([4000, 6000], [0, milestone], [false, false], 5000);
+      await dynamicPresale.endSale();
+      await dynamicPresale.withdrawTranche(0, beneficiary.address);
+      const remaining = RAISED - (RAISED * 4000n) / 10000n;
+
+      // buyer2 holds a third of the contributions, below the 50% quorum
+      await expect(dynamicPresale.connect(buyer2).voteToHaltTranches())
+        .to.emit(dynamicPresale, "TrancheHaltVoted")
+        .withArgs(buyer2.address, BUYER2_AMOUNT, BUYER2_AMOUNT);
+      await expect(dynamicPresale.connect(buyer2).voteToHaltTranches()).to.be.revertedWith("Presale: already voted");
+      await expect(dynamicPresale.connect(buyer3).voteToHaltTranches()).to.be.revertedWith("Presale: no contribution");
+
+      await expect(dynamicPresale.connect(buyer1).voteToHaltTranches())
+        .to.emit(dynamicPresale, "TranchesHalted")
+        .withArgs(remaining);
+      expect((await dynamicPresale.trancheVoteOf(buyer1.address)).voted).to.be.true;
+
+      await time.increaseTo(milestone);
+      await expect(dynamicPresale.withdrawTranche(1, beneficiary.address)).to.be.revertedWith(
+        "Presale: tranches halted"
+      );
+
+      const refund1 = (remaining * SOFT_CAP) / RAISED;
+      expect((await dynamicPresale.trancheVoteOf(buyer1.address)).refund).to.equal(refund1);
+      await expect(dynamicPresale.connect(buyer1).requestRefund())
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(buyer1.address, refund1);
+      await dynamicPresale.connect(buyer2).requestRefund();
+      await expect(dynamicPresale.connect(buyer1).requestRefund()).to.be.revertedWith("Presale: nothing to refund");
+
+      // the refunds come out of the escrow, and bought tokens stay claimable
+      await expect(dynamicPresale.connect(buyer1).withdrawPayments()).to.changeEtherBalance(buyer1, refund1);
+      const tokens = await dynamicPresale.pendingTokens(buyer1.address);
+      await dynamicPresale.connect(buyer1).claim();
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(tokens);
+    });
+
+    it("Should settle auction bids before weighing halt votes and refunds", async function () {
+      // phase 1 is an undersubscribed auction clearing at the 0.0005 ETH floor
+      await dynamicPresale.addPhase(PHASE_1_PRICE, ethers.parseEther("1000"), phase1Start, phase1End);
+      await dynamicPresale.setPhaseAuction(
+        1,
+        ethers.parseEther("0.002"),
+        ethers.parseEther("0.0005"),
+        ethers.parseEther("0.000001")
+      );
+      await time.setNextBlockTimestamp(phase1Start + 500);
+      await dynamicPresale.connect(buyer3).bid([], { value: ethers.parseEther("0.6") }); // 400 tokens at 0.0015
+      await time.setNextBlockTimestamp(phase1Start + 600);
+      await dynamicPresale.connect(beneficiary).bid([], { value: ethers.parseEther("0.14") }); // 100 tokens at 0.0014
+
+      await dynamicPresale.setTranches([4000, 6000], [0, milestone], [false, false], 5000);
+      await time.increaseTo(phase1End + 1);
+      await dynamicPresale.finalize();
+      await dynamicPresale.withdrawTranche(0, owner.address);
+
+      const cost3 = ethers.parseEther("0.2");
+      const costB = ethers.parseEther("0.05");
+      const vote = dynamicPresale.connect(buyer3).voteToHaltTranches();
+      await expect(vote)
+        .to.emit(dynamicPresale, "AuctionBidSettled")
+        .withArgs(buyer3.address, 1, ethers.parseEther("400"), cost3, ethers.parseEther("0.4"));
+      await expect(vote).to.emit(dynamicPresale, "TrancheHaltVoted").withArgs(buyer3.address, cost3, cost3);
+      await dynamicPresale.connect(buyer1).voteToHaltTranches();
+
+      const [, , , , halted, refundPool] = await dynamicPresale.getTranches();
+      expect(halted).to.be.true;
+      const total = RAISED + cost3 + costB;
+      await dynamicPresale.connect(buyer3).requestRefund();
+      await expect(dynamicPresale.connect(beneficiary).requestRefund())
+        .to.emit(dynamicPresale, "AuctionBidSettled")
+        .withArgs(beneficiary.address, 1, ethers.parseEther("100"), costB, ethers.parseEther("0.09"));
+
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(
+        ethers.parseEther("0.4") + (refundPool * cost3) / total
+      );
+      expect(await dynamicPresale.paymentsOf(beneficiary.address)).to.equal(
+        ethers.parseEther("0.09") + (refundPool * costB) / total
+      );
+      expect(await dynamicPresale.totalAuctionDeposits()).to.equal(0);
+    });
+
+    it("Should refund sponsored ETH pro-rata to the refund address after a halt", async function () {
+      const sponsored = ethers.parseEther("1");
+      await dynamicPresale.connect(buyer2).buyFor(beneficiary.address, buyer3.address, [], { value: sponsored });
+      await dynamicPresale.setTranches([4000, 6000], [0, milestone], [false, false], 5000);
+      await dynamicPresale.endSale();
+      await dynamicPresale.withdrawTranche(0, beneficiary.address);
+      await dynamicPresale.connect(buyer1).voteToHaltTranches();
+
+      const total = RAISED + sponsored;
+      const refund = ((total - (total * 4000n) / 10000n) * sponsored) / total;
+      await expect(dynamicPresale.connect(beneficiary).requestRefund()).to.be.revertedWith(
+        "Presale: nothing to refund"
+      );
+      await expect(dynamicPresale.connect(buyer3).requestSponsoredRefund(beneficiary.address))
+        .to.emit(dynamicPresale, "RefundRequested")
+        .withArgs(buyer3.address, refund);
+      expect(await dynamicPresale.paymentsOf(buyer3.address)).to.equal(refund);
+    });
+
+    it("Should only vote on a schedule with a quorum after a successful sale", async function () {
+      await dynamicPresale.setTranches([10000], [0], [false], 0);
+      await expect(dynamicPresale.connect(buyer1).voteToHaltTranches()).to.be.revertedWith("Presale: sale not ended");
+
+      await dynamicPresale.endSale();
+      await expect(dynamicPresale.connect(buyer1).voteToHaltTranches()).to.be.revertedWith("Presale: no tranche vote");
+    });
+  });
+
+  describe("Administrative Functions", function () {
+    beforeEach(async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.endSale();
+    });
+
+    it("Should allow treasurer to withdraw proceeds", async function () {
+      const initialBalance = await ethers.provider.getBalance(beneficiary.address);
+      
+      await dynamicPresale.withdrawProceeds(beneficiary.address);
+      
+      const finalBalance = await ethers.provider.getBalance(beneficiary.address);
+      expect(finalBalance - initialBalance).to.equal(SOFT_CAP);
+    });
+
+    it("Should emit Withdrawn event", async function () {
+      await expect(
+        dynamicPresale.withdrawProceeds(beneficiary.address)
+      ).to.emit(dynamicPresale, "Withdrawn")
+        .withArgs(beneficiary.address, SOFT_CAP);
+    });
+
+    it("Should allow admin to end sale", async function () {
+      // Create new presale for this test
+      const newPresale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        SOFT_CAP,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      
+      expect(await newPresale.saleEnded()).to.be.false;
+      
+      await expect(
+        newPresale.endSale()
+      ).to.emit(newPresale, "SaleEnded")
+        .withArgs(false); // softCapReached = false
+      
+      expect(await newPresale.saleEnded()).to.be.true;
+    });
+
+    it("Should allow admin to set parameters", async function () {
+      const newSoftCap = ethers.parseEther("20");
+      const newMinBuy = ethers.parseEther("0.02");
+      const newMaxPerWallet = ethers.parseEther("40");
+      
+      // Create new presale to test setters
+      const newPresale = await deployPresale(
+        await myToken.getAddress(),
+        TOKEN_DECIMALS,
+        SOFT_CAP,
+        MIN_BUY,
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
+      );
+      
+      await newPresale.setSoftCap(newSoftCap);
+      await newPresale.setMinBuy(newMinBuy);
+      await newPresale.setMaxPerWallet(newMaxPerWallet);
+      await time.increase(await newPresale.parameterDelay());
+      await newPresale.executeParameterChange(SOFT_CAP_PARAM);
+      await newPresale.executeParameterChange(MIN_BUY_PARAM);
+      await newPresale.executeParameterChange(MAX_PER_WALLET_PARAM);
+      
+      expect(await newPresale.softCap()).to.equal(newSoftCap);
+      expect(await newPresale.minBuy()).to.equal(newMinBuy);
+      expect(await newPresale.maxPerWallet()).to.equal(newMaxPerWallet);
+    });
+
+    it("Should only allow role holders to call admin functions", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).withdrawProceeds(buyer1.address)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+      
       await expect(
         dynamicPresale.connect(buyer1).endSale()
-      ).to.be.revertedWithCustomError(dynamicPresale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
       
       await expect(
         dynamicPresale.connect(buyer1).setSoftCap(ethers.parseEther("20"))
-      ).to.be.revertedWithCustomError(dynamicPresale, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Parameter Timelock", function () {
+    it("Should start with the default delay", async function () {
+      expect(await dynamicPresale.parameterDelay()).to.equal(await dynamicPresale.DEFAULT_PARAMETER_DELAY());
+    });
+
+    it("Should queue a change without applying it", async function () {
+      const newSoftCap = ethers.parseEther("15");
+      const tx = await dynamicPresale.setSoftCap(newSoftCap);
+      const eta = BigInt((await time.latest()) + 2 * 24 * 3600);
+
+      await expect(tx).to.emit(dynamicPresale, "ParameterChangeQueued").withArgs(SOFT_CAP_PARAM, newSoftCap, eta);
+      expect(await dynamicPresale.softCap()).to.equal(SOFT_CAP);
+
+      const pending = await dynamicPresale.pendingChanges(SOFT_CAP_PARAM);
+      expect(pending.value).to.equal(newSoftCap);
+      expect(pending.eta).to.equal(eta);
+    });
+
+    it("Should execute a change only after the delay", async function () {
+      const newMaxPerWallet = ethers.parseEther("30");
+      await dynamicPresale.setMaxPerWallet(newMaxPerWallet);
+      const { eta } = await dynamicPresale.pendingChanges(MAX_PER_WALLET_PARAM);
+
+      await expect(
+        dynamicPresale.executeParameterChange(MAX_PER_WALLET_PARAM)
+      ).to.be.revertedWith("Presale: change still timelocked");
+
+      await time.increaseTo(eta);
+      await expect(dynamicPresale.executeParameterChange(MAX_PER_WALLET_PARAM))
+        .to.emit(dynamicPresale, "ParameterChangeExecuted")
+        .withArgs(MAX_PER_WALLET_PARAM, newMaxPerWallet, eta);
+
+      expect(await dynamicPresale.maxPerWallet()).to.equal(newMaxPerWallet);
+      expect((await dynamicPresale.pendingChanges(MAX_PER_WALLET_PARAM)).eta).to.equal(0);
+      await expect(
+        dynamicPresale.executeParameterChange(MAX_PER_WALLET_PARAM)
+      ).to.be.revertedWith("Presale: no pending change");
+    });
+
+    it("Should cancel a pending change", async function () {
+      const newMinBuy = ethers.parseEther("0.05");
+      await dynamicPresale.setMinBuy(newMinBuy);
+      const { eta } = await dynamicPresale.pendingChanges(MIN_BUY_PARAM);
+
+      await expect(dynamicPresale.cancelParameterChange(MIN_BUY_PARAM))
+        .to.emit(dynamicPresale, "ParameterChangeCancelled")
+        .withArgs(MIN_BUY_PARAM, newMinBuy, eta);
+
+      await time.increaseTo(eta);
+      await expect(
+        dynamicPresale.executeParameterChange(MIN_BUY_PARAM)
+      ).to.be.revertedWith("Presale: no pending change");
+      expect(await dynamicPresale.minBuy()).to.equal(MIN_BUY);
+    });
+
+    it("Should recheck a change against the state at execution", async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await dynamicPresale.setSoftCap(ethers.parseEther("15"));
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+
+      await time.increase(await dynamicPresale.parameterDelay());
+      await expect(
+        dynamicPresale.executeParameterChange(SOFT_CAP_PARAM)
+      ).to.be.revertedWith("Presale: softCap already reached");
+    });
+
+    it("Should only let the delay grow once the sale has buyers", async function () {
+      await expect(dynamicPresale.setParameterDelay(3600))
+        .to.emit(dynamicPresale, "ParameterDelaySet")
+        .withArgs(3600);
+
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: MIN_BUY });
+
+      await expect(dynamicPresale.setParameterDelay(0)).to.be.revertedWith("Presale: delay can only grow");
+      await dynamicPresale.setParameterDelay(7200);
+      await expect(
+        dynamicPresale.setParameterDelay((await dynamicPresale.MAX_PARAMETER_DELAY()) + 1n)
+      ).to.be.revertedWith("Presale: delay too long");
+    });
+
+    it("Should only allow admin to manage changes", async function () {
+      await dynamicPresale.setSoftCap(ethers.parseEther("15"));
+
+      await expect(
+        dynamicPresale.connect(buyer1).executeParameterChange(SOFT_CAP_PARAM)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+      await expect(
+        dynamicPresale.connect(buyer1).cancelParameterChange(SOFT_CAP_PARAM)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+      await expect(
+        dynamicPresale.connect(buyer1).setParameterDelay(0)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Roles Management", function () {
+    it("Should grant every role to the deployer", async function () {
+      expect(await dynamicPresale.hasRole(await dynamicPresale.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await dynamicPresale.hasRole(await dynamicPresale.PHASE_MANAGER_ROLE(), owner.address)).to.be.true;
+      expect(await dynamicPresale.hasRole(await dynamicPresale.PAUSER_ROLE(), owner.address)).to.be.true;
+      expect(await dynamicPresale.hasRole(await dynamicPresale.TREASURER_ROLE(), owner.address)).to.be.true;
+    });
+
+    it("Should allow assigned phase manager to manage phases only", async function () {
+      await dynamicPresale.grantRole(await dynamicPresale.PHASE_MANAGER_ROLE(), buyer2.address);
+
+      await dynamicPresale.connect(buyer2).addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      expect(await dynamicPresale.totalPhases()).to.equal(1);
+
+      await expect(
+        dynamicPresale.connect(buyer2).pause()
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should allow assigned pauser to pause only", async function () {
+      await dynamicPresale.grantRole(await dynamicPresale.PAUSER_ROLE(), buyer2.address);
+
+      await dynamicPresale.connect(buyer2).pause();
+      expect(await dynamicPresale.paused()).to.be.true;
+      await dynamicPresale.connect(buyer2).unpause();
+
+      await expect(
+        dynamicPresale.connect(buyer2).addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should allow assigned treasurer to withdraw proceeds", async function () {
+      await dynamicPresale.addPhase(PHASE_0_PRICE, PHASE_SUPPLY, phase0Start, phase0End);
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.endSale();
+      await dynamicPresale.grantRole(await dynamicPresale.TREASURER_ROLE(), buyer2.address);
+
+      await expect(
+        dynamicPresale.connect(buyer2).withdrawProceeds(beneficiary.address)
+      ).to.changeEtherBalance(beneficiary, SOFT_CAP);
+
+      await expect(
+        dynamicPresale.connect(buyer2).setSoftCap(ethers.parseEther("20"))
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should allow admin to revoke roles", async function () {
+      const PAUSER_ROLE = await dynamicPresale.PAUSER_ROLE();
+      await dynamicPresale.grantRole(PAUSER_ROLE, buyer2.address);
+      await dynamicPresale.revokeRole(PAUSER_ROLE, buyer2.address);
+
+      await expect(
+        dynamicPresale.connect(buyer2).pause()
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should only allow admin to grant roles", async function () {
+      await expect(
+        dynamicPresale.connect(buyer1).grantRole(await dynamicPresale.PAUSER_ROLE(), buyer1.address)
+      ).to.be.revertedWithCustomError(dynamicPresale, "AccessControlUnauthorizedAccount");
     });
   });
 
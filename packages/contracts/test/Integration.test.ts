@@ -1,9 +1,33 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { BigNumberish } from "ethers";
 import { DynamicPresale, MyToken, TokenVesting } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 
+// DynamicPresale and its extension link the presale libraries, deployed fresh for each presale
+async function deployPresale(
+  token: string,
+  tokenDecimals: number,
+  softCap: BigNumberish,
+  minBuy: BigNumberish,
+  maxPerWallet: BigNumberish,
+  trustedForwarder: string
+) {
+  const libraries: Record<string, string> = {};
+  const names = ["PhasePricing", "PhaseConfig", "PriceFeed", "PurchaseVouchers", "ProceedsSplit", "ProceedsTranches"];
+  for (const name of names) {
+    libraries[name] = await (await (await ethers.getContractFactory(name)).deploy()).getAddress();
+  }
+  const { PhaseConfig, PurchaseVouchers, ...shared } = libraries;
+  const extension = await (
+    await ethers.getContractFactory("DynamicPresaleExtension", { libraries: { ...shared, PhaseConfig } })
+  ).deploy(token, tokenDecimals, trustedForwarder);
+  const factory = await ethers.getContractFactory("DynamicPresale", { libraries: { ...shared, PurchaseVouchers } });
+  const extensionAddress = await extension.getAddress();
+  return factory.deploy(token, tokenDecimals, softCap, minBuy, maxPerWallet, trustedForwarder, extensionAddress);
+}
+
 // Helper function to compare values with precision tolerance (0.01%)
 function expectApproxEqual(actual: bigint, expected: bigint, tolerancePercent: number = 0.01) {
   const tolerance = (expected * BigInt(Math.floor(tolerancePercent * 100))) / 10000n;
@@ -60,19 +84,19 @@ describe("Integration Tests - Complete Presale Flow", function () {
     await myToken.waitForDeployment();
 
     // Deploy DynamicPresale
-    const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-    dynamicPresale = await DynamicPresaleFactory.deploy(
+    dynamicPresale = await deployPresale(
       await myToken.getAddress(),
       TOKEN_DECIMALS,
       SOFT_CAP,
       MIN_BUY,
-      MAX_PER_WALLET
+      MAX_PER_WALLET,
+      ethers.ZeroAddress
     );
     await dynamicPresale.waitForDeployment();
 
     // Deploy TokenVesting
     const TokenVestingFactory = await ethers.getContractFactory("TokenVesting");
-    tokenVesting = await TokenVestingFactory.deploy(await myToken.getAddress());
+    tokenVesting = await TokenVestingFactory.deploy(await myToken.getAddress(), ethers.ZeroAddress);
     await tokenVesting.waitForDeployment();
 
     // Grant MINTER_ROLE to presale contract
@@ -188,13 +212,13 @@ describe("Integration Tests - Complete Presale Flow", function () {
     it("Should handle failed presale with refunds correctly", async function () {
       // Deploy presale with very high soft cap
       const highSoftCap = ethers.parseEther("1000"); // 1000 ETH (impossible to reach)
-      const DynamicPresaleFactory = await ethers.getContractFactory("DynamicPresale");
-      const failedPresale = await DynamicPresaleFactory.deploy(
+      const failedPresale = await deployPresale(
         await myToken.getAddress(),
         TOKEN_DECIMALS,
         highSoftCap,
         MIN_BUY,
-        MAX_PER_WALLET
+        MAX_PER_WALLET,
+        ethers.ZeroAddress
       );
       await failedPresale.waitForDeployment();
 
@@ -301,6 +325,77 @@ describe("Integration Tests - Complete Presale Flow", function () {
     });
   });
 
+  describe("Presale Claims Through Vesting", function () {
+    const TGE_UNLOCK_BPS = 2000n; // 20%
+    const CLAIM_CLIFF = 30 * 24 * 60 * 60; // 30 days
+    const CLAIM_DURATION = 180 * 24 * 60 * 60; // 6 months
+
+    beforeEach(async function () {
+      await tokenVesting.setVestingCreator(await dynamicPresale.getAddress(), true);
+      await dynamicPresale.setVestingConfig(
+        await tokenVesting.getAddress(),
+        TGE_UNLOCK_BPS,
+        CLAIM_CLIFF,
+        CLAIM_DURATION
+      );
+    });
+
+    it("Should unlock TGE share at claim and vest the rest until release", async function () {
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: ethers.parseEther("6") });
+      await dynamicPresale.connect(buyer2).buy({ value: ethers.parseEther("4") });
+      await dynamicPresale.endSale();
+
+      const pending = await dynamicPresale.pendingTokens(buyer1.address);
+      const tgeAmount = (pending * TGE_UNLOCK_BPS) / 10000n;
+      const vestedAmount = pending - tgeAmount;
+
+      await expect(dynamicPresale.connect(buyer1).claim())
+        .to.emit(dynamicPresale, "ClaimVested")
+        .withArgs(buyer1.address, 0, tgeAmount, vestedAmount)
+        .and.to.emit(tokenVesting, "VestingCreated");
+      const claimedAt = await time.latest();
+
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(tgeAmount);
+      expect(await myToken.balanceOf(await tokenVesting.getAddress())).to.equal(vestedAmount);
+      expect(await dynamicPresale.pendingTokens(buyer1.address)).to.equal(0);
+
+      const schedule = await tokenVesting.getSchedule(buyer1.address, 0);
+      expect(schedule.totalAmount).to.equal(vestedAmount);
+      expect(schedule.start).to.equal(claimedAt);
+      expect(schedule.cliff).to.equal(CLAIM_CLIFF);
+      expect(schedule.duration).to.equal(CLAIM_DURATION);
+      expect(schedule.revocable).to.be.false;
+
+      // Nothing before the cliff
+      await expect(tokenVesting.connect(buyer1).release()).to.be.revertedWith("Vesting: nothing to release");
+
+      // Halfway through, about half of the vested part is releasable
+      await time.increaseTo(claimedAt + CLAIM_DURATION / 2);
+      await tokenVesting.connect(buyer1).release();
+      expectApproxEqual(await myToken.balanceOf(buyer1.address), tgeAmount + vestedAmount / 2n);
+
+      // After the full duration everything is out
+      await time.increaseTo(claimedAt + CLAIM_DURATION);
+      await tokenVesting.connect(buyer1).release();
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(pending);
+      expect(await tokenVesting.getTotalCommitted()).to.equal(0);
+    });
+
+    it("Should revert claims while the presale is not a vesting creator", async function () {
+      await tokenVesting.setVestingCreator(await dynamicPresale.getAddress(), false);
+
+      await time.increaseTo(phase0Start);
+      await dynamicPresale.connect(buyer1).buy({ value: SOFT_CAP });
+      await dynamicPresale.endSale();
+
+      await expect(dynamicPresale.connect(buyer1).claim()).to.be.revertedWithCustomError(
+        tokenVesting,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
   describe("Multi-Phase Purchase Patterns", function () {
     it("Should handle complex buying patterns across phases", async function () {
 
@@ -2,6 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { MyToken } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
 
 describe("MyToken", function () {
   let myToken: MyToken;
@@ -211,6 +212,165 @@ describe("MyToken", function () {
     });
   });
 
+  describe("Permit", function () {
+    const signPermit = async (
+      holder: SignerWithAddress,
+      spender: string,
+      value: bigint,
+      deadline: bigint
+    ) => {
+      const domain = {
+        name: TOKEN_NAME,
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await myToken.getAddress(),
+      };
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const nonce = await myToken.nonces(holder.address);
+      return ethers.Signature.from(
+        await holder.signTypedData(domain, types, { owner: holder.address, spender, value, nonce, deadline })
+      );
+    };
+
+    beforeEach(async function () {
+      await myToken.mint(user1.address, MINT_AMOUNT);
+    });
+
+    it("Should set allowance from a permit signature", async function () {
+      const deadline = BigInt((await time.latest()) + 3600);
+      const { v, r, s } = await signPermit(user1, user2.address, MINT_AMOUNT, deadline);
+
+      // Anyone can submit the signature; the holder pays no gas
+      await expect(myToken.connect(owner).permit(user1.address, user2.address, MINT_AMOUNT, deadline, v, r, s))
+        .to.emit(myToken, "Approval")
+        .withArgs(user1.address, user2.address, MINT_AMOUNT);
+
+      expect(await myToken.allowance(user1.address, user2.address)).to.equal(MINT_AMOUNT);
+      expect(await myToken.nonces(user1.address)).to.equal(1);
+
+      await myToken.connect(user2).transferFrom(user1.address, user2.address, MINT_AMOUNT);
+      expect(await myToken.balanceOf(user2.address)).to.equal(MINT_AMOUNT);
+    });
+
+    it("Should reject expired, replayed and forged permits", async function () {
+      const expired = BigInt(await time.latest());
+      const late = await signPermit(user1, user2.address, MINT_AMOUNT, expired);
+      await expect(
+        myToken.permit(user1.address, user2.address, MINT_AMOUNT, expired, late.v, late.r, late.s)
+      ).to.be.revertedWithCustomError(myToken, "ERC2612ExpiredSignature");
+
+      const deadline = BigInt((await time.latest()) + 3600);
+      const sig = await signPermit(user1, user2.address, MINT_AMOUNT, deadline);
+      await myToken.permit(user1.address, user2.address, MINT_AMOUNT, deadline, sig.v, sig.r, sig.s);
+      await expect(
+        myToken.permit(user1.address, user2.address, MINT_AMOUNT, deadline, sig.v, sig.r, sig.s)
+      ).to.be.revertedWithCustomError(myToken, "ERC2612InvalidSigner");
+
+      const forged = await signPermit(user2, user2.address, MINT_AMOUNT, deadline);
+      await expect(
+        myToken.permit(user1.address, user2.address, MINT_AMOUNT, deadline, forged.v, forged.r, forged.s)
+      ).to.be.revertedWithCustomError(myToken, "ERC2612InvalidSigner");
+    });
+  });
+
+  describe("Votes", function () {
+    beforeEach(async function () {
+      await myToken.mint(user1.address, MINT_AMOUNT);
+    });
+
+    it("Should only count voting power after delegation", async function () {
+      expect(await myToken.getVotes(user1.address)).to.equal(0);
+
+      await expect(myToken.connect(user1).delegate(user1.address))
+        .to.emit(myToken, "DelegateChanged")
+        .withArgs(user1.address, ethers.ZeroAddress, user1.address)
+        .and.to.emit(myToken, "DelegateVotesChanged")
+        .withArgs(user1.address, 0, MINT_AMOUNT);
+
+      expect(await myToken.delegates(user1.address)).to.equal(user1.address);
+      expect(await myToken.getVotes(user1.address)).to.equal(MINT_AMOUNT);
+    });
+
+    it("Should move votes with transfers, mints and burns", async function () {
+      await myToken.connect(user1).delegate(user2.address);
+      await myToken.connect(user2).delegate(user2.address);
+
+      const half = MINT_AMOUNT / 2n;
+      await myToken.connect(user1).transfer(minter.address, half);
+      expect(await myToken.getVotes(user2.address)).to.equal(half);
+
+      await myToken.mint(user2.address, MINT_AMOUNT);
+      expect(await myToken.getVotes(user2.address)).to.equal(half + MINT_AMOUNT);
+
+      await myToken.connect(user2).burn(MINT_AMOUNT);
+      expect(await myToken.getVotes(user2.address)).to.equal(half);
+      expect(await myToken.numCheckpoints(user2.address)).to.equal(4);
+    });
+
+    it("Should record past votes and total supply by block", async function () {
+      await myToken.connect(user1).delegate(user1.address);
+      const before = await ethers.provider.getBlockNumber();
+
+      await myToken.mint(user1.address, MINT_AMOUNT);
+      const after = await ethers.provider.getBlockNumber();
+      await mine();
+
+      expect(await myToken.getPastVotes(user1.address, before)).to.equal(MINT_AMOUNT);
+      expect(await myToken.getPastVotes(user1.address, after)).to.equal(MINT_AMOUNT * 2n);
+      expect(await myToken.getPastTotalSupply(before)).to.equal(MINT_AMOUNT);
+      expect(await myToken.getPastTotalSupply(after)).to.equal(MINT_AMOUNT * 2n);
+      await expect(myToken.getPastVotes(user1.address, after + 1)).to.be.revertedWithCustomError(
+        myToken,
+        "ERC5805FutureLookup"
+      );
+    });
+
+    it("Should delegate by signature", async function () {
+      const expiry = BigInt((await time.latest()) + 3600);
+      const nonce = await myToken.nonces(user1.address);
+      const signature = await user1.signTypedData(
+        {
+          name: TOKEN_NAME,
+          version: "1",
+          chainId: (await ethers.provider.getNetwork()).chainId,
+          verifyingContract: await myToken.getAddress(),
+        },
+        {
+          Delegation: [
+            { name: "delegatee", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "expiry", type: "uint256" },
+          ],
+        },
+        { delegatee: user2.address, nonce, expiry }
+      );
+      const { v, r, s } = ethers.Signature.from(signature);
+
+      await myToken.connect(owner).delegateBySig(user2.address, nonce, expiry, v, r, s);
+      expect(await myToken.delegates(user1.address)).to.equal(user2.address);
+      expect(await myToken.getVotes(user2.address)).to.equal(MINT_AMOUNT);
+    });
+
+    it("Should not move votes while paused", async function () {
+      await myToken.connect(user1).delegate(user1.address);
+      await myToken.pause();
+
+      await expect(myToken.connect(user1).transfer(user2.address, MINT_AMOUNT)).to.be.revertedWithCustomError(
+        myToken,
+        "EnforcedPause"
+      );
+      expect(await myToken.getVotes(user1.address)).to.equal(MINT_AMOUNT);
+    });
+  });
+
   describe("Supports Interface", function () {
     it("Should support AccessControl interface", async function () {
       const INTERFACE_ID_ACCESS_CONTROL = "0x7965db0b";
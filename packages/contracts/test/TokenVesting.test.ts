@@ -1,8 +1,9 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { TokenVesting, MyToken } from "../typechain-types";
+import { TokenVesting, MyToken, PresaleForwarder } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { signForwardRequest } from "../scripts/forward-request";
 
 // Helper function to compare values with precision tolerance (0.01%)
 function expectApproxEqual(actual: bigint, expected: bigint, tolerancePercent: number = 0.01) {
@@ -45,7 +46,7 @@ describe("TokenVesting", function () {
 
     // Deploy TokenVesting
     const TokenVestingFactory = await ethers.getContractFactory("TokenVesting");
-    tokenVesting = await TokenVestingFactory.deploy(await myToken.getAddress());
+    tokenVesting = await TokenVestingFactory.deploy(await myToken.getAddress(), ethers.ZeroAddress);
     await tokenVesting.waitForDeployment();
 
     // Mint tokens to vesting contract
@@ -71,7 +72,7 @@ describe("TokenVesting", function () {
     it("Should revert with zero token address", async function () {
       const TokenVestingFactory = await ethers.getContractFactory("TokenVesting");
       await expect(
-        TokenVestingFactory.deploy(ethers.ZeroAddress)
+        TokenVestingFactory.deploy(ethers.ZeroAddress, ethers.ZeroAddress)
       ).to.be.revertedWith("Vesting: token address zero");
     });
   });
@@ -113,7 +114,7 @@ describe("TokenVesting", function () {
           true
         )
       ).to.emit(tokenVesting, "VestingCreated")
-        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true);
+        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true, 0, 0, [], []);
     });
 
     it("Should allow multiple vesting schedules per beneficiary", async function () {
@@ -195,6 +196,147 @@ describe("TokenVesting", function () {
         )
       ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
     });
+
+    it("Should allow an authorized vesting creator to create vesting", async function () {
+      await expect(tokenVesting.setVestingCreator(beneficiary1.address, true))
+        .to.emit(tokenVesting, "VestingCreatorSet")
+        .withArgs(beneficiary1.address, true);
+
+      await tokenVesting.connect(beneficiary1).createVesting(
+        beneficiary2.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, false
+      );
+      expect(await tokenVesting.getScheduleCount(beneficiary2.address)).to.equal(1);
+
+      await tokenVesting.setVestingCreator(beneficiary1.address, false);
+      await expect(
+        tokenVesting.connect(beneficiary1).createVesting(
+          beneficiary2.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, false
+        )
+      ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should only allow owner to set vesting creators", async function () {
+      await expect(
+        tokenVesting.connect(beneficiary1).setVestingCreator(beneficiary1.address, true)
+      ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
+      await expect(tokenVesting.setVestingCreator(ethers.ZeroAddress, true)).to.be.revertedWith(
+        "Vesting: creator zero"
+      );
+    });
+  });
+
+  describe("Templates and Batch Creation", function () {
+    const TEMPLATE = "team-1y-90d-cliff";
+
+    beforeEach(async function () {
+      await tokenVesting.setVestingTemplate(TEMPLATE, VESTING_DURATION, CLIFF_PERIOD, true);
+    });
+
+    it("Should set, update and remove a template", async function () {
+      const template = await tokenVesting.getVestingTemplate(TEMPLATE);
+      expect(template.duration).to.equal(VESTING_DURATION);
+      expect(template.cliff).to.equal(CLIFF_PERIOD);
+      expect(template.revocable).to.be.true;
+
+      await expect(tokenVesting.setVestingTemplate(TEMPLATE, VESTING_DURATION * 2, 0, false))
+        .to.emit(tokenVesting, "VestingTemplateSet")
+        .withArgs(ethers.id(TEMPLATE), TEMPLATE, VESTING_DURATION * 2, 0, false);
+      expect((await tokenVesting.getVestingTemplate(TEMPLATE)).duration).to.equal(VESTING_DURATION * 2);
+
+      await tokenVesting.setVestingTemplate(TEMPLATE, 0, 0, false);
+      expect((await tokenVesting.getVestingTemplate(TEMPLATE)).duration).to.equal(0);
+    });
+
+    it("Should validate templates and only let the owner set them", async function () {
+      await expect(tokenVesting.setVestingTemplate("", VESTING_DURATION, 0, false)).to.be.revertedWith(
+        "Vesting: template name empty"
+      );
+      await expect(
+        tokenVesting.setVestingTemplate("advisor-2y", CLIFF_PERIOD, VESTING_DURATION, false)
+      ).to.be.revertedWith("Vesting: cliff greater than duration");
+      await expect(
+        tokenVesting.connect(beneficiary1).setVestingTemplate("advisor-2y", VESTING_DURATION, 0, false)
+      ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should create a schedule per beneficiary from a template", async function () {
+      const secondAmount = ethers.parseEther("5000");
+      await tokenVesting.createVesting(
+        beneficiary2.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, false
+      );
+
+      await expect(
+        tokenVesting.createVestingBatch(
+          [beneficiary1.address, beneficiary2.address],
+          [VESTING_AMOUNT, secondAmount],
+          vestingStart,
+          TEMPLATE
+        )
+      )
+        .to.emit(tokenVesting, "VestingCreated")
+        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true, 0, 0, [], [])
+        .and.to.emit(tokenVesting, "VestingCreated")
+        .withArgs(beneficiary2.address, 1, secondAmount, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true, 0, 0, [], []);
+
+      const schedule = await tokenVesting.getSchedule(beneficiary2.address, 1);
+      expect(schedule.totalAmount).to.equal(secondAmount);
+      expect(schedule.revocable).to.be.true;
+      expect(await tokenVesting.totalCommitted()).to.equal(VESTING_AMOUNT * 2n + secondAmount);
+      expect(await tokenVesting.totalVestingSchedules()).to.equal(3);
+    });
+
+    it("Should revert a batch with invalid input", async function () {
+      await expect(
+        tokenVesting.createVestingBatch([beneficiary1.address], [], vestingStart, TEMPLATE)
+      ).to.be.revertedWith("Vesting: length mismatch");
+      await expect(tokenVesting.createVestingBatch([], [], vestingStart, TEMPLATE)).to.be.revertedWith(
+        "Vesting: empty batch"
+      );
+      await expect(
+        tokenVesting.createVestingBatch(
+          Array(101).fill(beneficiary1.address),
+          Array(101).fill(1n),
+          vestingStart,
+          TEMPLATE
+        )
+      ).to.be.revertedWith("Vesting: batch too large");
+      await expect(
+        tokenVesting.createVestingBatch([beneficiary1.address], [VESTING_AMOUNT], vestingStart, "advisor-2y")
+      ).to.be.revertedWith("Vesting: unknown template");
+      await expect(
+        tokenVesting.createVestingBatch(
+          [beneficiary1.address, ethers.ZeroAddress],
+          [VESTING_AMOUNT, VESTING_AMOUNT],
+          vestingStart,
+          TEMPLATE
+        )
+      ).to.be.revertedWith("Vesting: beneficiary zero");
+    });
+
+    it("Should revert a batch whose total exceeds the uncommitted balance", async function () {
+      // 5x VESTING_AMOUNT is minted: each amount fits, the total does not
+      await expect(
+        tokenVesting.createVestingBatch(
+          [beneficiary1.address, beneficiary2.address, beneficiary3.address],
+          [VESTING_AMOUNT * 2n, VESTING_AMOUNT * 2n, VESTING_AMOUNT * 2n],
+          vestingStart,
+          TEMPLATE
+        )
+      ).to.be.revertedWith("Vesting: insufficient token balance for new vesting");
+      expect(await tokenVesting.totalCommitted()).to.equal(0);
+    });
+
+    it("Should only allow the owner or a vesting creator to create a batch", async function () {
+      await expect(
+        tokenVesting.connect(beneficiary1).createVestingBatch([beneficiary2.address], [VESTING_AMOUNT], vestingStart, TEMPLATE)
+      ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
+
+      await tokenVesting.setVestingCreator(beneficiary1.address, true);
+      await tokenVesting.connect(beneficiary1).createVestingBatch(
+        [beneficiary2.address], [VESTING_AMOUNT], vestingStart, TEMPLATE
+      );
+      expect(await tokenVesting.getScheduleCount(beneficiary2.address)).to.equal(1);
+    });
   });
 
   describe("Token Release", function () {
@@ -321,6 +463,207 @@ describe("TokenVesting", function () {
     });
   });
 
+  describe("Unlock Curves", function () {
+    const MONTH = 30 * 24 * 60 * 60;
+    const QUARTER = 3 * MONTH;
+
+    // Same rounding as TokenVesting._vestedAmount for the linear part
+    function linearVested(total: bigint, elapsed: number, duration: number): bigint {
+      const e = BigInt(elapsed);
+      const d = BigInt(duration);
+      return (total / d) * e + ((total % d) * e) / d;
+    }
+
+    it("Should keep linear vesting between cliff and end", async function () {
+      await tokenVesting.createVesting(
+        beneficiary1.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, false
+      );
+      const schedule = await tokenVesting.getSchedule(beneficiary1.address, 0);
+      expect(schedule.curve).to.equal(0);
+      expect(schedule.stepInterval).to.equal(0);
+
+      await time.increaseTo(vestingStart + CLIFF_PERIOD + 12345);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(
+        linearVested(VESTING_AMOUNT, CLIFF_PERIOD + 12345, VESTING_DURATION)
+      );
+    });
+
+    it("Should unlock monthly steps", async function () {
+      await expect(
+        tokenVesting.createStepVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, 12 * MONTH, 0, MONTH, false)
+      )
+        .to.emit(tokenVesting, "VestingCreated")
+        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT, vestingStart, 12 * MONTH, 0, false, 1, MONTH, [], []);
+
+      await time.increaseTo(vestingStart + MONTH - 1);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(0);
+
+      await time.increaseTo(vestingStart + MONTH);
+      const oneStep = linearVested(VESTING_AMOUNT, MONTH, 12 * MONTH);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(oneStep);
+
+      // Flat until the next step
+      await time.increaseTo(vestingStart + 2 * MONTH - 1);
+      expect(await tokenVesting.getReleasableAmount(beneficiary1.address, 0)).to.equal(oneStep);
+
+      await time.increaseTo(vestingStart + 5 * MONTH + 10);
+      await tokenVesting.connect(beneficiary1).releaseSchedule(0);
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal(
+        linearVested(VESTING_AMOUNT, 5 * MONTH, 12 * MONTH)
+      );
+
+      await time.increaseTo(vestingStart + 12 * MONTH);
+      await tokenVesting.connect(beneficiary1).release();
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal(VESTING_AMOUNT);
+    });
+
+    it("Should unlock quarterly steps after a one-year cliff", async function () {
+      const duration = 8 * QUARTER;
+      await tokenVesting.createStepVesting(
+        beneficiary1.address, VESTING_AMOUNT, vestingStart, duration, 4 * QUARTER, QUARTER, true
+      );
+
+      await time.increaseTo(vestingStart + 4 * QUARTER - 1);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(0);
+
+      // The four steps reached during the cliff unlock at once
+      await time.increaseTo(vestingStart + 4 * QUARTER);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(VESTING_AMOUNT / 2n);
+
+      await time.increaseTo(vestingStart + 5 * QUARTER - 1);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(VESTING_AMOUNT / 2n);
+
+      await time.increaseTo(vestingStart + 5 * QUARTER);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal((VESTING_AMOUNT * 5n) / 8n);
+
+      // Revoking returns the steps not reached yet
+      const ownerBalanceBefore = await myToken.balanceOf(owner.address);
+      await tokenVesting.revokeVesting(beneficiary1.address, 0);
+      expect((await myToken.balanceOf(owner.address)) - ownerBalanceBefore).to.equal((VESTING_AMOUNT * 3n) / 8n);
+    });
+
+    it("Should follow a custom unlock table", async function () {
+      const unlockTimes = [vestingStart + 100, vestingStart + 1000, vestingStart + 5000];
+      const unlockBps = [1000, 4000, 10000];
+
+      await expect(
+        tokenVesting.createCustomVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, unlockTimes, unlockBps, false)
+      )
+        .to.emit(tokenVesting, "VestingCreated")
+        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT, vestingStart, 5000, 100, false, 2, 0, unlockTimes, unlockBps);
+
+      const table = await tokenVesting.getUnlockTable(beneficiary1.address, 0);
+      expect(table.map((p) => Number(p.timestamp))).to.deep.equal(unlockTimes);
+      expect(table.map((p) => Number(p.cumulativeBps))).to.deep.equal(unlockBps);
+
+      await time.increaseTo(vestingStart + 99);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(0);
+
+      await time.increaseTo(vestingStart + 100);
+      expect(await tokenVesting.getVestedAmount(beneficiary1.address, 0)).to.equal(VESTING_AMOUNT / 10n);
+
+      await time.increaseTo(vestingStart + 999);
+      expect(await tokenVesting.getReleasableAmount(beneficiary1.address, 0)).to.equal(VESTING_AMOUNT / 10n);
+
+      await time.increaseTo(vestingStart + 1000);
+      await tokenVesting.connect(beneficiary1).release();
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal((VESTING_AMOUNT * 4n) / 10n);
+      expect(await tokenVesting.getTotalReleasableAmount(beneficiary1.address)).to.equal(0);
+
+      await time.increaseTo(vestingStart + 5000);
+      await tokenVesting.connect(beneficiary1).releaseSchedule(0);
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal(VESTING_AMOUNT);
+      expect(await tokenVesting.totalCommitted()).to.equal(0);
+    });
+
+    it("Should revert with invalid curve parameters", async function () {
+      await expect(
+        tokenVesting.createStepVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, 12 * MONTH, 0, 0, false)
+      ).to.be.revertedWith("Vesting: invalid step interval");
+      await expect(
+        tokenVesting.createStepVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, MONTH, 0, QUARTER, false)
+      ).to.be.revertedWith("Vesting: invalid step interval");
+
+      const custom = (times: number[], bps: number[]) =>
+        tokenVesting.createCustomVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, times, bps, false);
+      await expect(custom([vestingStart + 100], [])).to.be.revertedWith("Vesting: length mismatch");
+      await expect(custom([], [])).to.be.revertedWith("Vesting: empty unlock table");
+      await expect(
+        custom(Array.from({ length: 61 }, (_, i) => vestingStart + i + 1), Array(61).fill(10000))
+      ).to.be.revertedWith("Vesting: too many unlock points");
+      await expect(custom([vestingStart - 1, vestingStart + 100], [5000, 10000])).to.be.revertedWith(
+        "Vesting: unlock before start"
+      );
+      await expect(custom([vestingStart + 100, vestingStart + 100], [5000, 10000])).to.be.revertedWith(
+        "Vesting: unlock times not increasing"
+      );
+      await expect(custom([vestingStart + 100, vestingStart + 200], [5000, 4000])).to.be.revertedWith(
+        "Vesting: unlock bps decreasing"
+      );
+      await expect(custom([vestingStart + 100, vestingStart + 200], [5000, 9000])).to.be.revertedWith(
+        "Vesting: unlock table must end at 10000"
+      );
+      // A single unlock at start has no duration
+      await expect(custom([vestingStart], [10000])).to.be.revertedWith("Vesting: zero duration");
+    });
+
+    it("Should move the unlock table with a transferred schedule", async function () {
+      const unlockTimes = [vestingStart + 100, vestingStart + 1000];
+      await tokenVesting.createCustomVesting(
+        beneficiary1.address, VESTING_AMOUNT, vestingStart, unlockTimes, [2500, 10000], false
+      );
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address);
+      await tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0);
+
+      const table = await tokenVesting.getUnlockTable(beneficiary2.address, 0);
+      expect(table.map((p) => Number(p.timestamp))).to.deep.equal(unlockTimes);
+
+      await time.increaseTo(vestingStart + 100);
+      expect(await tokenVesting.getVestedAmount(beneficiary2.address, 0)).to.equal(VESTING_AMOUNT / 4n);
+    });
+  });
+
+  describe("Meta-transactions", function () {
+    let forwarder: PresaleForwarder;
+    let vesting: TokenVesting;
+
+    beforeEach(async function () {
+      forwarder = await (await ethers.getContractFactory("PresaleForwarder")).deploy();
+      const TokenVestingFactory = await ethers.getContractFactory("TokenVesting");
+      vesting = await TokenVestingFactory.deploy(await myToken.getAddress(), await forwarder.getAddress());
+      await myToken.mint(await vesting.getAddress(), VESTING_AMOUNT);
+      await vesting.createVesting(beneficiary1.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, 0, false);
+    });
+
+    it("Should release to the signer of a forwarded request", async function () {
+      await time.increaseTo(vestingStart + VESTING_DURATION);
+      const request = await signForwardRequest(
+        beneficiary1,
+        await forwarder.getAddress(),
+        (await ethers.provider.getNetwork()).chainId,
+        {
+          from: beneficiary1.address,
+          to: await vesting.getAddress(),
+          value: 0n,
+          gas: 300_000n,
+          nonce: await forwarder.nonces(beneficiary1.address),
+          deadline: BigInt((await time.latest()) + 3600),
+          data: vesting.interface.encodeFunctionData("release"),
+        }
+      );
+
+      // beneficiary2 relays and pays the gas
+      await expect(forwarder.connect(beneficiary2).execute(request))
+        .to.emit(vesting, "TokensReleased")
+        .withArgs(beneficiary1.address, 0, VESTING_AMOUNT);
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal(VESTING_AMOUNT);
+      expect(await myToken.balanceOf(beneficiary2.address)).to.equal(0);
+
+      // The nonce is spent, so the request cannot be replayed
+      await expect(forwarder.execute(request)).to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+    });
+  });
+
   describe("Revoke Vesting", function () {
     beforeEach(async function () {
       await tokenVesting.createVesting(
@@ -403,6 +746,140 @@ describe("TokenVesting", function () {
     });
   });
 
+  describe("Schedule Transfers", function () {
+    beforeEach(async function () {
+      // Non-revocable, so a wallet rotation cannot go through revoke and recreate
+      await tokenVesting.createVesting(
+        beneficiary1.address,
+        VESTING_AMOUNT,
+        vestingStart,
+        VESTING_DURATION,
+        CLIFF_PERIOD,
+        false
+      );
+    });
+
+    it("Should move a schedule in two steps and keep its progress", async function () {
+      await time.increaseTo(vestingStart + CLIFF_PERIOD + 1000);
+      await tokenVesting.connect(beneficiary1).releaseSchedule(0);
+      const released = (await tokenVesting.getSchedule(beneficiary1.address, 0)).released;
+
+      await expect(tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address))
+        .to.emit(tokenVesting, "VestingTransferRequested")
+        .withArgs(beneficiary1.address, 0, beneficiary2.address);
+      await expect(tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0))
+        .to.emit(tokenVesting, "VestingTransferred")
+        .withArgs(beneficiary1.address, 0, beneficiary2.address, 0);
+
+      const moved = await tokenVesting.getSchedule(beneficiary2.address, 0);
+      expect(moved.totalAmount).to.equal(VESTING_AMOUNT);
+      expect(moved.released).to.equal(released);
+      expect(moved.start).to.equal(vestingStart);
+      expect(await tokenVesting.transferredTo(beneficiary1.address, 0)).to.equal(beneficiary2.address);
+      expect(await tokenVesting.totalVestedAmount(beneficiary1.address)).to.equal(0);
+      expect(await tokenVesting.totalVestedAmount(beneficiary2.address)).to.equal(VESTING_AMOUNT - released);
+      expect(await tokenVesting.totalCommitted()).to.equal(VESTING_AMOUNT - released);
+
+      // The old entry stays as history but releases nothing
+      expect(await tokenVesting.getScheduleCount(beneficiary1.address)).to.equal(1);
+      expect(await tokenVesting.getReleasableAmount(beneficiary1.address, 0)).to.equal(0);
+      expect(await tokenVesting.getTotalReleasableAmount(beneficiary1.address)).to.equal(0);
+      await expect(tokenVesting.connect(beneficiary1).releaseSchedule(0)).to.be.revertedWith(
+        "Vesting: schedule transferred"
+      );
+      await expect(tokenVesting.connect(beneficiary1).release()).to.be.revertedWith("Vesting: nothing to release");
+
+      await time.increaseTo(vestingStart + VESTING_DURATION);
+      await tokenVesting.connect(beneficiary2).release();
+      expect(await myToken.balanceOf(beneficiary1.address)).to.equal(released);
+      expect(await myToken.balanceOf(beneficiary2.address)).to.equal(VESTING_AMOUNT - released);
+    });
+
+    it("Should only let the requested wallet accept", async function () {
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address);
+      await expect(
+        tokenVesting.connect(beneficiary3).acceptScheduleTransfer(beneficiary1.address, 0)
+      ).to.be.revertedWith("Vesting: no pending transfer");
+
+      // A new request replaces the previous one
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary3.address);
+      await expect(
+        tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0)
+      ).to.be.revertedWith("Vesting: no pending transfer");
+      await tokenVesting.connect(beneficiary3).acceptScheduleTransfer(beneficiary1.address, 0);
+
+      await expect(
+        tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address)
+      ).to.be.revertedWith("Vesting: schedule transferred");
+    });
+
+    it("Should validate and cancel requests", async function () {
+      await expect(
+        tokenVesting.connect(beneficiary1).requestScheduleTransfer(1, beneficiary2.address)
+      ).to.be.revertedWith("Vesting: invalid schedule ID");
+      await expect(
+        tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, ethers.ZeroAddress)
+      ).to.be.revertedWith("Vesting: new beneficiary zero");
+      await expect(
+        tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary1.address)
+      ).to.be.revertedWith("Vesting: same beneficiary");
+
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address);
+      await expect(tokenVesting.connect(beneficiary1).cancelScheduleTransfer(0))
+        .to.emit(tokenVesting, "VestingTransferCancelled")
+        .withArgs(beneficiary1.address, 0);
+      await expect(tokenVesting.connect(beneficiary1).cancelScheduleTransfer(0)).to.be.revertedWith(
+        "Vesting: no pending transfer"
+      );
+      await expect(
+        tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0)
+      ).to.be.revertedWith("Vesting: no pending transfer");
+    });
+
+    it("Should require owner approval when enabled", async function () {
+      await expect(tokenVesting.setTransferApprovalRequired(true))
+        .to.emit(tokenVesting, "TransferApprovalRequiredSet")
+        .withArgs(true);
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(0, beneficiary2.address);
+
+      await expect(
+        tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0)
+      ).to.be.revertedWith("Vesting: transfer not approved");
+      await expect(
+        tokenVesting.connect(beneficiary1).approveScheduleTransfer(beneficiary1.address, 0)
+      ).to.be.revertedWithCustomError(tokenVesting, "OwnableUnauthorizedAccount");
+
+      await expect(tokenVesting.approveScheduleTransfer(beneficiary1.address, 0))
+        .to.emit(tokenVesting, "VestingTransferApproved")
+        .withArgs(beneficiary1.address, 0, beneficiary2.address);
+      await tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 0);
+      expect(await tokenVesting.getScheduleCount(beneficiary2.address)).to.equal(1);
+    });
+
+    it("Should not transfer a revoked schedule or revoke a transferred one", async function () {
+      await tokenVesting.createVesting(
+        beneficiary1.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true
+      );
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(1, beneficiary2.address);
+      await tokenVesting.revokeVesting(beneficiary1.address, 1);
+      await expect(
+        tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 1)
+      ).to.be.revertedWith("Vesting: schedule revoked");
+
+      await tokenVesting.createVesting(
+        beneficiary1.address, VESTING_AMOUNT, vestingStart, VESTING_DURATION, CLIFF_PERIOD, true
+      );
+      await tokenVesting.connect(beneficiary1).requestScheduleTransfer(2, beneficiary2.address);
+      await tokenVesting.connect(beneficiary2).acceptScheduleTransfer(beneficiary1.address, 2);
+      await expect(tokenVesting.revokeVesting(beneficiary1.address, 2)).to.be.revertedWith(
+        "Vesting: schedule transferred"
+      );
+      // The moved schedule stays revocable under its new wallet
+      await tokenVesting.revokeVesting(beneficiary2.address, 0);
+      expect((await tokenVesting.getSchedule(beneficiary2.address, 0)).revoked).to.be.true;
+    });
+  });
+
   describe("Administrative Functions", function () {
     beforeEach(async function () {
       await tokenVesting.createVesting(
@@ -0,0 +1,224 @@
+import { expect } from "chai";
+import { ethers, upgrades } from "hardhat";
+import { DynamicPresaleUpgradeable, MockTokenVestingV2, MyToken, TokenVestingUpgradeable } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { UPGRADE_SAFETY, validateUpgrade } from "../scripts/upgrade";
+
+// DynamicPresaleUpgradeable and its extension link the presale libraries, deployed fresh for each factory
+async function deployLibraries(names: string[]) {
+  const libraries: Record<string, string> = {};
+  for (const name of names) {
+    libraries[name] = await (await (await ethers.getContractFactory(name)).deploy()).getAddress();
+  }
+  return libraries;
+}
+
+async function getUpgradeablePresaleFactory() {
+  const libraries = await deployLibraries([
+    "PhasePricing",
+    "PriceFeed",
+    "PurchaseVouchers",
+    "ProceedsSplit",
+    "ProceedsTranches",
+  ]);
+  return ethers.getContractFactory("DynamicPresaleUpgradeable", { libraries });
+}
+
+async function deployPresaleExtension(token: string, tokenDecimals: number) {
+  const libraries = await deployLibraries([
+    "PhasePricing",
+    "PhaseConfig",
+    "PriceFeed",
+    "ProceedsSplit",
+    "ProceedsTranches",
+  ]);
+  const Extension = await ethers.getContractFactory("DynamicPresaleExtension", { libraries });
+  return (await Extension.deploy(token, tokenDecimals, ethers.ZeroAddress)).getAddress();
+}
+
+describe("Upgrades", function () {
+  let myToken: MyToken;
+  let owner: SignerWithAddress;
+  let buyer1: SignerWithAddress;
+  let beneficiary: SignerWithAddress;
+
+  const TOKEN_DECIMALS = 18;
+  const SOFT_CAP = ethers.parseEther("10");
+  const MIN_BUY = ethers.parseEther("0.01");
+  const MAX_PER_WALLET = ethers.parseEther("20");
+  const PHASE_PRICE = ethers.parseEther("0.0005");
+  const PHASE_SUPPLY = ethers.parseEther("100000");
+
+  beforeEach(async function () {
+    [owner, buyer1, beneficiary] = await ethers.getSigners();
+
+    const MyTokenFactory = await ethers.getContractFactory("MyToken");
+    myToken = await MyTokenFactory.deploy("Dynamic Presale Token", "DPT", ethers.parseEther("100000000"));
+    await myToken.waitForDeployment();
+  });
+
+  describe("DynamicPresaleUpgradeable", function () {
+    let presale: DynamicPresaleUpgradeable;
+    let constructorArgs: unknown[];
+
+    beforeEach(async function () {
+      const extension = await deployPresaleExtension(await myToken.getAddress(), TOKEN_DECIMALS);
+      constructorArgs = [await myToken.getAddress(), TOKEN_DECIMALS, ethers.ZeroAddress, extension];
+      const Factory = await getUpgradeablePresaleFactory();
+      presale = (await upgrades.deployProxy(Factory, [owner.address, SOFT_CAP, MIN_BUY, MAX_PER_WALLET], {
+        ...UPGRADE_SAFETY,
+        constructorArgs,
+      })) as unknown as DynamicPresaleUpgradeable;
+      await presale.waitForDeployment();
+
+      await myToken.grantRole(await myToken.MINTER_ROLE(), await presale.getAddress());
+    });
+
+    it("Should initialize roles and sale parameters in proxy storage", async function () {
+      expect(await presale.hasRole(await presale.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await presale.hasRole(await presale.PHASE_MANAGER_ROLE(), owner.address)).to.be.true;
+      expect(await presale.softCap()).to.equal(SOFT_CAP);
+      expect(await presale.minBuy()).to.equal(MIN_BUY);
+      expect(await presale.maxPerWallet()).to.equal(MAX_PER_WALLET);
+      expect(await presale.token()).to.equal(await myToken.getAddress());
+    });
+
+    it("Should not initialize twice or through the implementation", async function () {
+      await expect(
+        presale.initialize(buyer1.address, SOFT_CAP, MIN_BUY, MAX_PER_WALLET)
+      ).to.be.revertedWithCustomError(presale, "InvalidInitialization");
+
+      const implementation = await ethers.getContractAt(
+        "DynamicPresaleUpgradeable",
+        await upgrades.erc1967.getImplementationAddress(await presale.getAddress())
+      );
+      await expect(
+        implementation.initialize(buyer1.address, SOFT_CAP, MIN_BUY, MAX_PER_WALLET)
+      ).to.be.revertedWithCustomError(implementation, "InvalidInitialization");
+    });
+
+    it("Should sell and keep state across an upgrade", async function () {
+      // addPhase runs on the extension, against the proxy's storage
+      const start = (await time.latest()) + 100;
+      await presale.addPhase(PHASE_PRICE, PHASE_SUPPLY, start, start + 3600);
+      await time.increaseTo(start);
+      await presale.connect(buyer1).buy({ value: SOFT_CAP });
+      const pending = await presale.pendingTokens(buyer1.address);
+
+      const Factory = await getUpgradeablePresaleFactory();
+      const upgraded = await upgrades.upgradeProxy(await presale.getAddress(), Factory, {
+        ...UPGRADE_SAFETY,
+        constructorArgs,
+      });
+
+      expect(await upgraded.getAddress()).to.equal(await presale.getAddress());
+      expect(await presale.pendingTokens(buyer1.address)).to.equal(pending);
+      expect(await presale.totalRaised()).to.equal(SOFT_CAP);
+      expect(await presale.hasRole(await presale.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+
+      await presale.endSale();
+      await presale.connect(buyer1).claim();
+      expect(await myToken.balanceOf(buyer1.address)).to.equal(pending);
+    });
+
+    it("Should migrate a proxy of the Ownable version to roles", async function () {
+      const V1 = await ethers.getContractFactory("MockDynamicPresaleV1");
+      const legacy = await upgrades.deployProxy(V1, [owner.address, SOFT_CAP, MIN_BUY, MAX_PER_WALLET], {
+        ...UPGRADE_SAFETY,
+        constructorArgs: [],
+      });
+      await legacy.waitForDeployment();
+      const pending = ethers.parseEther("2000");
+      await legacy.getFunction("recordPurchase")(buyer1.address, ethers.parseEther("1"), pending);
+
+      const Factory = await getUpgradeablePresaleFactory();
+      const migrated = (await upgrades.upgradeProxy(await legacy.getAddress(), Factory, {
+        ...UPGRADE_SAFETY,
+        constructorArgs,
+        call: { fn: "initializeV2" },
+      })) as unknown as DynamicPresaleUpgradeable;
+
+      for (const role of ["DEFAULT_ADMIN_ROLE", "PHASE_MANAGER_ROLE", "PAUSER_ROLE", "TREASURER_ROLE"] as const) {
+        expect(await migrated.hasRole(await migrated[role](), owner.address)).to.be.true;
+      }
+      expect(await migrated.softCap()).to.equal(SOFT_CAP);
+      expect(await migrated.maxPerWallet()).to.equal(MAX_PER_WALLET);
+      expect(await migrated.totalRaised()).to.equal(ethers.parseEther("1"));
+      expect(await migrated.contributionsWei(buyer1.address)).to.equal(ethers.parseEther("1"));
+      expect(await migrated.pendingTokens(buyer1.address)).to.equal(pending);
+      expect(await migrated.parameterDelay()).to.equal(await migrated.DEFAULT_PARAMETER_DELAY());
+
+      await migrated.pause();
+      await expect(migrated.connect(buyer1).unpause()).to.be.revertedWithCustomError(
+        migrated,
+        "AccessControlUnauthorizedAccount"
+      );
+      await expect(migrated.initializeV2()).to.be.revertedWithCustomError(migrated, "InvalidInitialization");
+    });
+
+    it("Should have no owner to migrate on proxies initialized with roles", async function () {
+      await expect(presale.initializeV2()).to.be.revertedWith("Presale: no legacy owner");
+    });
+
+    it("Should only let the admin upgrade", async function () {
+      const Factory = await getUpgradeablePresaleFactory();
+      const implementation = await Factory.deploy(...(constructorArgs as [string, number, string, string]));
+
+      await expect(
+        presale.connect(buyer1).upgradeToAndCall(await implementation.getAddress(), "0x")
+      ).to.be.revertedWithCustomError(presale, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("TokenVestingUpgradeable", function () {
+    let vesting: TokenVestingUpgradeable;
+    let constructorArgs: unknown[];
+    const VESTING_AMOUNT = ethers.parseEther("1000");
+
+    beforeEach(async function () {
+      constructorArgs = [await myToken.getAddress(), ethers.ZeroAddress];
+      const Factory = await ethers.getContractFactory("TokenVestingUpgradeable");
+      vesting = (await upgrades.deployProxy(Factory, [owner.address], {
+        ...UPGRADE_SAFETY,
+        constructorArgs,
+      })) as unknown as TokenVestingUpgradeable;
+      await vesting.waitForDeployment();
+
+      await myToken.mint(await vesting.getAddress(), VESTING_AMOUNT);
+      const start = (await time.latest()) + 10;
+      await vesting.createVesting(beneficiary.address, VESTING_AMOUNT, start, 1000, 0, false);
+    });
+
+    it("Should keep schedules across a compatible upgrade", async function () {
+      const V2 = await ethers.getContractFactory("MockTokenVestingV2");
+      const upgraded = (await upgrades.upgradeProxy(await vesting.getAddress(), V2, {
+        ...UPGRADE_SAFETY,
+        constructorArgs,
+        call: { fn: "initializeV2" },
+      })) as unknown as MockTokenVestingV2;
+
+      expect(await upgraded.version()).to.equal(2);
+      expect(await upgraded.upgradedAt()).to.be.gt(0);
+      expect(await upgraded.owner()).to.equal(owner.address);
+      expect(await upgraded.totalCommitted()).to.equal(VESTING_AMOUNT);
+      expect(await upgraded.getScheduleCount(beneficiary.address)).to.equal(1);
+    });
+
+    it("Should accept an upgrade that appends state", async function () {
+      const V1 = await ethers.getContractFactory("TokenVestingUpgradeable");
+      const V2 = await ethers.getContractFactory("MockTokenVestingV2");
+      await validateUpgrade(V1, V2, constructorArgs);
+    });
+
+    it("Should reject an upgrade that shifts the storage layout", async function () {
+      const V1 = await ethers.getContractFactory("TokenVestingUpgradeable");
+      const Bad = await ethers.getContractFactory("MockTokenVestingBadLayout");
+
+      await expect(validateUpgrade(V1, Bad, constructorArgs)).to.be.rejectedWith(/storage layout is incompatible/i);
+      await expect(
+        upgrades.upgradeProxy(await vesting.getAddress(), Bad, { ...UPGRADE_SAFETY, constructorArgs })
+      ).to.be.rejectedWith(/storage layout is incompatible/i);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+// packages/frontend/app/api/voucher/route.ts
+/**
+ * Local voucher issuer for KYC-gated sales.
+ *
+ * Signs EIP-712 purchase vouchers with a dev key so the voucher flow can be run end to end
+ * without a KYC provider. It approves every wallet, so it is disabled in production builds;
+ * point NEXT_PUBLIC_VOUCHER_API_URL at the real issuer there.
+ *
+ * Environment variables:
+ * - VOUCHER_SIGNER_KEY (server only): private key of the presale's voucherSigner
+ * - VOUCHER_CHAIN_ID (optional, default Sepolia)
+ * - VOUCHER_TTL_SECONDS (optional, default 900)
+ */
+
+import { NextResponse } from "next/server";
+import { getAddress, isAddress, toHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { sepolia } from "viem/chains";
+import { DYNAMIC_PRESALE_ADDRESS } from "@/lib/addresses";
+
+// Must match PurchaseVouchers.sol
+const VOUCHER_TYPES = {
+  Voucher: [
+    { name: "buyer", type: "address" },
+    { name: "maxAmount", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+export async function POST(req: Request): Promise<NextResponse> {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "dev voucher issuer disabled" }, { status: 404 });
+  }
+
+  const key = process.env.VOUCHER_SIGNER_KEY;
+  if (!key || !/^0x[0-9a-fA-F]{64}$/.test(key)) {
+    return NextResponse.json({ error: "VOUCHER_SIGNER_KEY not configured" }, { status: 500 });
+  }
+
+  let body: { buyer?: unknown; maxAmount?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "invalid JSON body" }, { status: 400 });
+  }
+
+  if (typeof body.buyer !== "string" || !isAddress(body.buyer)) {
+    return NextResponse.json({ error: "buyer must be an address" }, { status: 400 });
+  }
+  if (typeof body.maxAmount !== "string" || !/^[1-9][0-9]*$/.test(body.maxAmount)) {
+    return NextResponse.json({ error: "maxAmount must be a positive wei amount" }, { status: 400 });
+  }
+
+  const ttl = Number(process.env.VOUCHER_TTL_SECONDS ?? 900);
+  const random = crypto.getRandomValues(new Uint8Array(16));
+  const voucher = {
+    buyer: getAddress(body.buyer),
+    maxAmount: BigInt(body.maxAmount),
+    expiry: BigInt(Math.floor(Date.now() / 1000) + ttl),
+    nonce: BigInt(toHex(random)),
+  };
+
+  const account = privateKeyToAccount(key as `0x${string}`);
+  const signature = await account.signTypedData({
+    domain: {
+      name: "DynamicPresale",
+      version: "1",
+      chainId: Number(process.env.VOUCHER_CHAIN_ID ?? sepolia.id),
+      verifyingContract: DYNAMIC_PRESALE_ADDRESS,
+    },
+    types: VOUCHER_TYPES,
+    primaryType: "Voucher",
+    message: voucher,
+  });
+
+  return NextResponse.json({
+    voucher: {
+      buyer: voucher.buyer,
+      maxAmount: voucher.maxAmount.toString(),
+      expiry: voucher.expiry.toString(),
+      nonce: voucher.nonce.toString(),
+    },
+    signature,
+  });
+}
@@ -1,11 +1,15 @@
 import { useCallback } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { usePublicClient } from "wagmi";
-import type { PublicClient } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+import type { Address, PublicClient } from "viem";
 
 import { usePresaleWrite } from "./usePresaleWrite";
 import { PRESALE_KEYS } from "./usePresaleQueries";
-import type { TxHash } from "../types/presale.type";
+import type { MerkleProof, TxHash } from "../types/presale.type";
+import { ERC20AbiParsed } from "@/lib/abi";
+import { DYNAMIC_PRESALE_ADDRESS } from "@/lib/addresses";
+import { fetchVoucher } from "@/lib/voucher";
+import { fetchAllowlistProof } from "@/lib/allowlist";
 
 const DEFAULT_WAIT_TIMEOUT_MS = 60_000;
 
@@ -33,13 +37,27 @@ function normalizeError(e: unknown): string {
 export function usePresaleMutations() {
   const qc = useQueryClient();
   const publicClient = usePublicClient() as PublicClient | undefined;
+  const { address } = useAccount();
 
   const {
     buy: writeBuy,
+    buyFor: writeBuyFor,
+    buyWithVoucher: writeBuyWithVoucher,
+    bid: writeBid,
+    settleAuction: writeSettleAuction,
+    settleAuctionBid: writeSettleAuctionBid,
+    claimReferralRewards: writeClaimReferralRewards,
+    approvePayToken: writeApprovePayToken,
+    buyWithToken: writeBuyWithToken,
+    withdrawTokenPayments: writeWithdrawTokenPayments,
     claim: writeClaim,
+    claimGasless: writeClaimGasless,
     requestRefund: writeRequestRefund,
+    requestSponsoredRefund: writeRequestSponsoredRefund,
+    voteToHaltTranches: writeVoteToHaltTranches,
     addPhase: writeAddPhase,
     endSale: writeEndSale,
+    finalize: writeFinalize,
     withdrawProceeds: writeWithdrawProceeds,
     pause: writePause,
     unpause: writeUnpause,
@@ -73,10 +91,14 @@ export function usePresaleMutations() {
     [qc, publicClient]
   );
 
-  const buyMutation = useMutation<TxHash, unknown, bigint>({
-    mutationFn: async (valueWei: bigint) => {
+  const buyMutation = useMutation<
+    TxHash,
+    unknown,
+    { valueWei: bigint; proof?: MerkleProof; referrer?: string }
+  >({
+    mutationFn: async ({ valueWei, proof, referrer }) => {
       try {
-        const tx = await writeBuy(valueWei);
+        const tx = await writeBuy(valueWei, proof, referrer);
         return tx;
       } catch (e) {
         throw new Error(`buy failed: ${normalizeError(e)}`);
@@ -90,6 +112,176 @@ export function usePresaleMutations() {
     },
   });
 
+  // Buys for another wallet with its allowlist proof; excess and refunds come back to the connected wallet
+  const buyForMutation = useMutation<TxHash, unknown, { valueWei: bigint; beneficiary: Address }>({
+    mutationFn: async ({ valueWei, beneficiary }) => {
+      try {
+        if (!address) throw new Error("wallet not connected");
+        const allowlist = await fetchAllowlistProof(beneficiary);
+        if (allowlist && !allowlist.proof) {
+          throw new Error(`${beneficiary} is not on the allowlist`);
+        }
+        const tx = await writeBuyFor(valueWei, beneficiary, address, allowlist?.proof ?? undefined);
+        return tx;
+      } catch (e) {
+        throw new Error(`buyFor failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  // Requests a fresh voucher for the exact amount, then buys with it
+  const buyWithVoucherMutation = useMutation<TxHash, unknown, { valueWei: bigint }>({
+    mutationFn: async ({ valueWei }) => {
+      try {
+        if (!address) throw new Error("wallet not connected");
+        const signed = await fetchVoucher(address, valueWei);
+        const tx = await writeBuyWithVoucher(valueWei, signed);
+        return tx;
+      } catch (e) {
+        throw new Error(`buyWithVoucher failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const bidMutation = useMutation<
+    TxHash,
+    unknown,
+    { valueWei: bigint; proof?: MerkleProof }
+  >({
+    mutationFn: async ({ valueWei, proof }) => {
+      try {
+        const tx = await writeBid(valueWei, proof);
+        return tx;
+      } catch (e) {
+        throw new Error(`bid failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const settleAuctionMutation = useMutation<TxHash, unknown, number>({
+    mutationFn: async (phaseId) => {
+      try {
+        const tx = await writeSettleAuction(phaseId);
+        return tx;
+      } catch (e) {
+        throw new Error(`settleAuction failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const settleAuctionBidMutation = useMutation<
+    TxHash,
+    unknown,
+    { phaseId: number; bidder: string }
+  >({
+    mutationFn: async ({ phaseId, bidder }) => {
+      try {
+        const tx = await writeSettleAuctionBid(phaseId, bidder);
+        return tx;
+      } catch (e) {
+        throw new Error(`settleAuctionBid failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const claimReferralRewardsMutation = useMutation<TxHash, unknown, void>({
+    mutationFn: async () => {
+      try {
+        const tx = await writeClaimReferralRewards();
+        return tx;
+      } catch (e) {
+        throw new Error(`claimReferralRewards failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const buyWithTokenMutation = useMutation<
+    TxHash,
+    unknown,
+    { payToken: string; amount: bigint; proof?: MerkleProof }
+  >({
+    mutationFn: async ({ payToken, amount, proof }) => {
+      try {
+        // Top up the allowance first; the approval must be mined before buyWithToken pulls funds
+        if (publicClient && address) {
+          const allowance = (await publicClient.readContract({
+            address: payToken as Address,
+            abi: ERC20AbiParsed,
+            functionName: "allowance",
+            args: [address, DYNAMIC_PRESALE_ADDRESS as Address],
+          })) as bigint;
+          if (allowance < amount) {
+            const approveTx = await writeApprovePayToken(payToken, amount);
+            await waitForConfirmationIfPossible(publicClient, approveTx);
+          }
+        }
+        const tx = await writeBuyWithToken(payToken, amount, proof);
+        return tx;
+      } catch (e) {
+        throw new Error(`buyWithToken failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const withdrawTokenPaymentsMutation = useMutation<TxHash, unknown, string>({
+    mutationFn: async (payToken) => {
+      try {
+        const tx = await writeWithdrawTokenPayments(payToken);
+        return tx;
+      } catch (e) {
+        throw new Error(`withdrawTokenPayments failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
   const claimMutation = useMutation<TxHash, unknown, void>({
     mutationFn: async () => {
       try {
@@ -107,6 +299,34 @@ export function usePresaleMutations() {
     },
   });
 
+  // Same as claimMutation, but the relayer submits the transaction and pays the gas
+  const claimGaslessMutation = useMutation<TxHash, unknown, void>({
+    mutationFn: async () => {
+      try {
+        const tx = await writeClaimGasless();
+        // the relayer only hands back a hash: report success once the forwarded claim went through
+        if (publicClient) {
+          const receipt = await publicClient.waitForTransactionReceipt({
+            hash: tx as `0x${string}`,
+            timeout: DEFAULT_WAIT_TIMEOUT_MS,
+          });
+          if (receipt.status !== "success") {
+            throw new Error(`relayed claim reverted (${tx})`);
+          }
+        }
+        return tx;
+      } catch (e) {
+        throw new Error(`claimGasless failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
   const requestRefundMutation = useMutation<TxHash, unknown, void>({
     mutationFn: async () => {
       try {
@@ -124,6 +344,40 @@ export function usePresaleMutations() {
     },
   });
 
+  const requestSponsoredRefundMutation = useMutation<TxHash, unknown, string>({
+    mutationFn: async (beneficiary) => {
+      try {
+        const tx = await writeRequestSponsoredRefund(beneficiary);
+        return tx;
+      } catch (e) {
+        throw new Error(`requestSponsoredRefund failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
+  const voteToHaltTranchesMutation = useMutation<TxHash, unknown, void>({
+    mutationFn: async () => {
+      try {
+        const tx = await writeVoteToHaltTranches();
+        return tx;
+      } catch (e) {
+        throw new Error(`voteToHaltTranches failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
   const addPhaseMutation = useMutation<
     TxHash,
     unknown,
@@ -168,6 +422,23 @@ export function usePresaleMutations() {
     },
   });
 
+  const finalizeMutation = useMutation<TxHash, unknown, void>({
+    mutationFn: async () => {
+      try {
+        const tx = await writeFinalize();
+        return tx;
+      } catch (e) {
+        throw new Error(`finalize failed: ${normalizeError(e)}`);
+      }
+    },
+    onSuccess: async (txHash) => {
+      await invalidateAfterTx(txHash);
+    },
+    onSettled: () => {
+      void qc.invalidateQueries({ queryKey: PRESALE_KEYS.all });
+    },
+  });
+
   const withdrawProceedsMutation = useMutation<TxHash, unknown, string>({
     mutationFn: async (beneficiary) => {
       try {
@@ -221,10 +492,22 @@ export function usePresaleMutations() {
 
   return {
     buyMutation,
+    buyForMutation,
+    buyWithVoucherMutation,
+    bidMutation,
+    settleAuctionMutation,
+    settleAuctionBidMutation,
+    claimReferralRewardsMutation,
+    buyWithTokenMutation,
+    withdrawTokenPaymentsMutation,
     claimMutation,
+    claimGaslessMutation,
     requestRefundMutation,
+    requestSponsoredRefundMutation,
+    voteToHaltTranchesMutation,
     addPhaseMutation,
     endSaleMutation,
+    finalizeMutation,
     withdrawProceedsMutation,
     pauseMutation,
     unpauseMutation,
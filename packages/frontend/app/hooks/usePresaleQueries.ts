@@ -4,7 +4,7 @@ import type { Address } from "viem";
 import { useAccount } from "wagmi";
 
 import { usePresaleRead } from "./usePresaleRead";
-import type { Phase, CalcResult } from "../types/presale.type";
+import type { Phase, CalcResult, PresaleRoles } from "../types/presale.type";
 
 export const PRESALE_KEYS = {
   all: ["presale"] as const,
@@ -19,14 +19,15 @@ export const PRESALE_KEYS = {
   softCapReached: () => [...PRESALE_KEYS.all, "softCapReached"] as const,
   saleEnded: () => [...PRESALE_KEYS.all, "saleEnded"] as const,
   softCap: () => [...PRESALE_KEYS.all, "softCap"] as const,
+  hardCap: () => [...PRESALE_KEYS.all, "hardCap"] as const,
   minBuy: () => [...PRESALE_KEYS.all, "minBuy"] as const,
   maxPerWallet: () => [...PRESALE_KEYS.all, "maxPerWallet"] as const,
   tokenUnit: () => [...PRESALE_KEYS.all, "tokenUnit"] as const,
   hasActivePhase: () => [...PRESALE_KEYS.all, "hasActivePhase"] as const,
   currentPhase: () => [...PRESALE_KEYS.all, "currentPhase"] as const,
   totalBuyers: () => [...PRESALE_KEYS.all, "totalBuyers"] as const,
-  owner: () => [...PRESALE_KEYS.all, "owner"] as const,
   user: (address: string) => ["user", address] as const,
+  userRoles: (address: string) => ["user", address, "roles"] as const,
   userContributions: (address: string) =>
     ["user", address, "contributions"] as const,
   userPendingTokens: (address: string) =>
@@ -161,6 +162,16 @@ export function useSoftCap(options?: QO<bigint>) {
   });
 }
 
+export function useHardCap(options?: QO<bigint>) {
+  const { getHardCap } = usePresaleRead();
+  return useQuery<bigint, Error>({
+    queryKey: PRESALE_KEYS.hardCap(),
+    queryFn: () => getHardCap(),
+    staleTime: 30_000,
+    ...(options ?? {}),
+  });
+}
+
 export function useMinBuy(options?: QO<bigint>) {
   const { getMinBuy } = usePresaleRead();
   return useQuery<bigint, Error>({
@@ -221,11 +232,25 @@ export function useTotalBuyers(options?: QO<number>) {
   });
 }
 
-export function useOwner(options?: QO<Address>) {
-  const { getOwner } = usePresaleRead();
-  return useQuery<Address, Error>({
-    queryKey: PRESALE_KEYS.owner(),
-    queryFn: () => getOwner(),
+export function useMyRoles(options?: QO<PresaleRoles>) {
+  const { address } = useAccount();
+  return useRolesOf(address ?? null, options);
+}
+
+export function useRolesOf(
+  address: string | null,
+  options?: QO<PresaleRoles>
+) {
+  const { getRoles } = usePresaleRead();
+  return useQuery<PresaleRoles, Error>({
+    queryKey: address
+      ? PRESALE_KEYS.userRoles(address)
+      : (["user", "null", "roles"] as const),
+    queryFn: async () => {
+      if (!address) throw new Error("address required");
+      return getRoles(address as Address);
+    },
+    enabled: Boolean(address),
     staleTime: 60_000,
     ...(options ?? {}),
   });
@@ -1,10 +1,31 @@
 import { useCallback, useMemo, useRef } from "react";
-import type { Address } from "viem";
-import { parseAbi } from "viem";
+import type { Address, Hex } from "viem";
+import { keccak256, parseAbi, toHex, zeroHash } from "viem";
 import { usePublicClient } from "wagmi";
 import { DYNAMIC_PRESALE_ADDRESS } from "@/lib/addresses";
 import { DynamicPresaleABI } from "@/lib/abi";
-import type { CalcResult, Phase } from "../types/presale.type";
+import type {
+  AuctionBidInfo,
+  AuctionInfo,
+  CalcResult,
+  EthUsdPrice,
+  Phase,
+  PendingParameterChange,
+  PhaseFill,
+  PresaleRoles,
+  ReferralStats,
+  TrancheSchedule,
+  TrancheVote,
+} from "../types/presale.type";
+import { SALE_PARAMETERS } from "../types/presale.type";
+
+// Role identifiers of DynamicPresaleBase
+const ROLE_IDS: Record<keyof PresaleRoles, Hex> = {
+  admin: zeroHash,
+  phaseManager: keccak256(toHex("PHASE_MANAGER_ROLE")),
+  pauser: keccak256(toHex("PAUSER_ROLE")),
+  treasurer: keccak256(toHex("TREASURER_ROLE")),
+};
 
 function toBigIntSafe(v: unknown): bigint {
   try {
@@ -52,6 +73,10 @@ function normalizePhaseResponse(res: unknown) {
   const sold = get("sold") ?? get(2);
   const start = get("start") ?? get(3);
   const end = get("end") ?? get(4);
+  const priceIncrementWei = get("priceIncrementWei") ?? get(5);
+  const stepSize = get("stepSize") ?? get(6);
+  const minBuy = get("minBuy") ?? get(7);
+  const maxPerWallet = get("maxPerWallet") ?? get(8);
 
   if (
     priceWei === undefined ||
@@ -69,9 +94,27 @@ function normalizePhaseResponse(res: unknown) {
     sold: toBigIntSafe(sold),
     start: toNumberSafe(start, "phase.start"),
     end: toNumberSafe(end, "phase.end"),
+    // absent on deployments that predate bonding curves, which are flat
+    priceIncrementWei: priceIncrementWei === undefined ? BigInt(0) : toBigIntSafe(priceIncrementWei),
+    stepSize: stepSize === undefined ? BigInt(0) : toBigIntSafe(stepSize),
+    // likewise for per-phase limits, which fall back to the global ones
+    minBuy: minBuy === undefined ? BigInt(0) : toBigIntSafe(minBuy),
+    maxPerWallet: maxPerWallet === undefined ? BigInt(0) : toBigIntSafe(maxPerWallet),
   };
 }
 
+function parseFills(res: unknown): PhaseFill[] {
+  if (!Array.isArray(res)) return [];
+  return res.map((f) => {
+    const obj = f as Record<string, unknown>;
+    return {
+      phaseId: toNumberSafe(obj["phaseId"] ?? obj[0], "fill.phaseId"),
+      tokens: toBigIntSafe(obj["tokens"] ?? obj[1]),
+      cost: toBigIntSafe(obj["cost"] ?? obj[2]),
+    };
+  });
+}
+
 export function usePresaleRead() {
   const isServer = typeof window === "undefined";
 
@@ -159,7 +202,10 @@ export function usePresaleRead() {
 
   const getPhase = useCallback(
     async (phaseId: number): Promise<Phase> => {
-      const res = await readRaw("getPhase", [BigInt(phaseId)]);
+      const [res, usdCents] = await Promise.all([
+        readRaw("getPhase", [BigInt(phaseId)]),
+        readRaw("phaseUsdPrices", [BigInt(phaseId)]),
+      ]);
       const normalized = normalizePhaseResponse(res);
       return {
         phaseId,
@@ -168,6 +214,11 @@ export function usePresaleRead() {
         sold: normalized.sold,
         start: normalized.start,
         end: normalized.end,
+        priceIncrementWei: normalized.priceIncrementWei,
+        stepSize: normalized.stepSize,
+        minBuy: normalized.minBuy,
+        maxPerWallet: normalized.maxPerWallet,
+        usdCents: toBigIntSafe(usdCents),
       };
     },
     [readRaw]
@@ -187,6 +238,7 @@ export function usePresaleRead() {
           tokens: toBigIntSafe(res[0]),
           cost: toBigIntSafe(res[1]),
           excess: toBigIntSafe(res[2]),
+          fills: parseFills(res[3]),
         };
       }
       if (res && typeof res === "object") {
@@ -194,10 +246,12 @@ export function usePresaleRead() {
         const tokens = obj["tokens"] ?? obj[0];
         const cost = obj["cost"] ?? obj[1];
         const excess = obj["excess"] ?? obj[2];
+        const fills = obj["fills"] ?? obj[3];
         return {
           tokens: toBigIntSafe(tokens),
           cost: toBigIntSafe(cost),
           excess: toBigIntSafe(excess),
+          fills: parseFills(fills),
         };
       }
       throw new Error(
@@ -215,6 +269,15 @@ export function usePresaleRead() {
     [readRaw]
   );
 
+  // only tracked for phases with their own maxPerWallet
+  const phaseContributionOf = useCallback(
+    async (phaseId: number, wallet: Address): Promise<bigint> => {
+      const res = await readRaw("phaseContributionsWei", [BigInt(phaseId), wallet]);
+      return toBigIntSafe(res);
+    },
+    [readRaw]
+  );
+
   const pendingTokensOf = useCallback(
     async (wallet: Address): Promise<bigint> => {
       const res = await readRaw("pendingTokens", [wallet]);
@@ -243,11 +306,27 @@ export function usePresaleRead() {
     return Boolean(res as unknown as boolean);
   }, [readRaw]);
 
+  const getSaleCancelled = useCallback(async (): Promise<boolean> => {
+    const res = await readRaw("saleCancelled");
+    return Boolean(res as unknown as boolean);
+  }, [readRaw]);
+
+  // true while every purchase needs a signed voucher (KYC-gated sale)
+  const getVouchersRequired = useCallback(async (): Promise<boolean> => {
+    const res = await readRaw("vouchersRequired");
+    return Boolean(res as unknown as boolean);
+  }, [readRaw]);
+
   const getSoftCap = useCallback(async (): Promise<bigint> => {
     const res = await readRaw("softCap");
     return toBigIntSafe(res);
   }, [readRaw]);
 
+  const getHardCap = useCallback(async (): Promise<bigint> => {
+    const res = await readRaw("hardCap");
+    return toBigIntSafe(res);
+  }, [readRaw]);
+
   const getMinBuy = useCallback(async (): Promise<bigint> => {
     const res = await readRaw("minBuy");
     return toBigIntSafe(res);
@@ -280,21 +359,149 @@ export function usePresaleRead() {
     [readRaw]
   );
 
+  const getReferralStats = useCallback(
+    async (acct: Address): Promise<ReferralStats> => {
+      const [referrer, count, tokensEarned, ethEarned] = await Promise.all([
+        readRaw("referrerOf", [acct]),
+        readRaw("referralCount", [acct]),
+        readRaw("referralTokensEarned", [acct]),
+        readRaw("referralRewardsWei", [acct]),
+      ]);
+      const ref = String(referrer) as `0x${string}`;
+      return {
+        referrer: /^0x0{40}$/i.test(ref) ? null : ref,
+        referralCount: toNumberSafe(count, "referralCount"),
+        tokensEarned: toBigIntSafe(tokensEarned),
+        ethEarned: toBigIntSafe(ethEarned),
+      };
+    },
+    [readRaw]
+  );
+
+  // null when the phase sells at a fixed price or along a curve
+  const getAuction = useCallback(
+    async (phaseId: number): Promise<AuctionInfo | null> => {
+      const res = (await readRaw("auctions", [BigInt(phaseId)])) as readonly unknown[];
+      const startPrice = toBigIntSafe(res[0]);
+      if (startPrice === BigInt(0)) return null;
+      return {
+        phaseId,
+        startPrice,
+        floorPrice: toBigIntSafe(res[1]),
+        decayPerSecond: toBigIntSafe(res[2]),
+        clearingPrice: toBigIntSafe(res[3]),
+        settled: Boolean(res[4]),
+      };
+    },
+    [readRaw]
+  );
+
+  // null without a feed; a stale or deviating answer makes the read fail
+  const getEthUsdPrice = useCallback(async (): Promise<EthUsdPrice | null> => {
+    const feed = String(await readRaw("priceFeed"));
+    if (/^0x0{40}$/i.test(feed)) return null;
+    const [answer, decimals] = await Promise.all([
+      readRaw("getEthUsdPrice"),
+      readRaw("priceFeedDecimals"),
+    ]);
+    return {
+      answer: toBigIntSafe(answer),
+      decimals: toNumberSafe(decimals, "priceFeedDecimals"),
+    };
+  }, [readRaw]);
+
+  const getAuctionBid = useCallback(
+    async (phaseId: number, acct: Address): Promise<AuctionBidInfo> => {
+      const res = (await readRaw("auctionBids", [BigInt(phaseId), acct])) as readonly unknown[];
+      return { tokens: toBigIntSafe(res[0]), paid: toBigIntSafe(res[1]) };
+    },
+    [readRaw]
+  );
+
+  // null when claims mint the full balance, otherwise the share (bps) unlocked at claim
+  const getTgeUnlockBps = useCallback(async (): Promise<number | null> => {
+    const vesting = String(await readRaw("vesting"));
+    if (/^0x0{40}$/i.test(vesting)) return null;
+    const res = await readRaw("tgeUnlockBps");
+    return toNumberSafe(res, "tgeUnlockBps");
+  }, [readRaw]);
+
   const escrowBalance = useCallback(async (): Promise<bigint> => {
     const res = await readRaw("escrowBalance");
     return toBigIntSafe(res);
   }, [readRaw]);
 
+  const getTrancheSchedule = useCallback(async (): Promise<TrancheSchedule> => {
+    const res = (await readRaw("getTranches")) as readonly unknown[];
+    const tranches = res[0] as readonly {
+      bps: bigint;
+      unlockTime: bigint;
+      needsApproval: boolean;
+      approved: boolean;
+      withdrawn: boolean;
+    }[];
+    return {
+      tranches: tranches.map((t, index) => ({
+        index,
+        bps: toNumberSafe(t.bps, "tranche.bps"),
+        unlockTime: toNumberSafe(t.unlockTime, "tranche.unlockTime"),
+        needsApproval: Boolean(t.needsApproval),
+        approved: Boolean(t.approved),
+        withdrawn: Boolean(t.withdrawn),
+      })),
+      withdrawn: toBigIntSafe(res[1]),
+      haltQuorumBps: toNumberSafe(res[2], "haltQuorumBps"),
+      haltVotesWei: toBigIntSafe(res[3]),
+      halted: Boolean(res[4]),
+      refundPool: toBigIntSafe(res[5]),
+    };
+  }, [readRaw]);
+
+  const trancheVoteOf = useCallback(
+    async (acct: Address): Promise<TrancheVote> => {
+      const res = (await readRaw("trancheVoteOf", [acct])) as readonly unknown[];
+      return { voted: Boolean(res[0]), refund: toBigIntSafe(res[1]) };
+    },
+    [readRaw]
+  );
+
   const getTotalBuyers = useCallback(async (): Promise<number> => {
     const res = await readRaw("totalBuyers");
     return toNumberSafe(res, "totalBuyers");
   }, [readRaw]);
 
-  const getOwner = useCallback(async (): Promise<Address> => {
-    const res = await readRaw("owner");
-    return res as unknown as Address;
+  // queued softCap/minBuy/maxPerWallet changes, soonest first
+  const getPendingParameterChanges = useCallback(async (): Promise<PendingParameterChange[]> => {
+    const res = (await Promise.all(
+      SALE_PARAMETERS.map((_, i) => readRaw("pendingChanges", [i]))
+    )) as (readonly unknown[])[];
+    return SALE_PARAMETERS.map((parameter, i) => ({
+      parameter,
+      value: toBigIntSafe(res[i][0]),
+      eta: toNumberSafe(res[i][1], "pendingChanges.eta"),
+    }))
+      .filter((change) => change.eta > 0)
+      .sort((a, b) => a.eta - b.eta);
   }, [readRaw]);
 
+  const getRoles = useCallback(
+    async (acct: Address): Promise<PresaleRoles> => {
+      const [admin, phaseManager, pauser, treasurer] = await Promise.all([
+        readRaw("hasRole", [ROLE_IDS.admin, acct]),
+        readRaw("hasRole", [ROLE_IDS.phaseManager, acct]),
+        readRaw("hasRole", [ROLE_IDS.pauser, acct]),
+        readRaw("hasRole", [ROLE_IDS.treasurer, acct]),
+      ]);
+      return {
+        admin: Boolean(admin),
+        phaseManager: Boolean(phaseManager),
+        pauser: Boolean(pauser),
+        treasurer: Boolean(treasurer),
+      };
+    },
+    [readRaw]
+  );
+
   const getTokenDecimals = useCallback(async (): Promise<number> => {
     const res = await readRaw("tokenDecimals");
     return toNumberSafe(res, "tokenDecimals");
@@ -308,25 +515,37 @@ export function usePresaleRead() {
   return {
     getTotalPhases,
     getPhase,
+    getAuction,
+    getAuctionBid,
+    getEthUsdPrice,
     remainingTokensInCurrentPhase,
     calculateTokens,
     contributionsOf,
+    phaseContributionOf,
     pendingTokensOf,
 
     getTotalRaised,
     getTotalTokensSold,
     getSoftCapReached,
     getSaleEnded,
+    getSaleCancelled,
+    getVouchersRequired,
 
     getSoftCap,
+    getHardCap,
     getMinBuy,
     getMaxPerWallet,
     hasActivePhase,
     getCurrentPhaseSafe,
     paymentsOf,
+    getReferralStats,
+    getTgeUnlockBps,
     escrowBalance,
+    getTrancheSchedule,
+    trancheVoteOf,
     getTotalBuyers,
-    getOwner,
+    getPendingParameterChanges,
+    getRoles,
     getTokenDecimals,
     getTokenUnit,
   } as const;
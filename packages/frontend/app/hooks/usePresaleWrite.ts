@@ -1,11 +1,12 @@
 import { useCallback, useMemo } from "react";
 import type { Address, WalletClient, Account } from "viem";
-import { parseAbi } from "viem";
+import { encodeFunctionData, parseAbi } from "viem";
 import type { Abi } from "abitype";
-import { useWalletClient } from "wagmi";
-import type { TxHash } from "../types/presale.type";
-import { DYNAMIC_PRESALE_ADDRESS } from "@/lib/addresses";
-import { DynamicPresaleABI } from "@/lib/abi";
+import { usePublicClient, useWalletClient } from "wagmi";
+import type { MerkleProof, SignedVoucher, TxHash } from "../types/presale.type";
+import { DYNAMIC_PRESALE_ADDRESS, FORWARDER_ADDRESS } from "@/lib/addresses";
+import { DynamicPresaleABI, ERC20AbiParsed, PresaleForwarderAbiParsed } from "@/lib/abi";
+import { FORWARD_REQUEST_TYPES, forwarderDomain, relayForwardRequest } from "@/lib/relayer";
 
 function safeErrorMessage(e: unknown): string {
   if (e instanceof Error) return e.message;
@@ -67,12 +68,34 @@ function walletAccountOrNull(
   return (maybe ?? null) as Account | `0x${string}` | null;
 }
 
+// How long a signed forward request stays valid for the relayer
+const FORWARD_REQUEST_TTL_SECONDS = 600;
+// Gas forwarded with a relayed call: its estimate as a direct call from the signer plus this margin, in percent.
+// A forwarded call that runs out of gas makes the whole relayed transaction revert.
+const FORWARDED_GAS_MARGIN_PERCENT = BigInt(130);
+
+// Above the most expensive call of each method in the contract tests' gas report, with headroom
 const GAS_LIMITS = {
-  buy: BigInt(150_000),
-  claim: BigInt(200_000),
+  buy: BigInt(500_000), // spillover buys fill several phases
+  buyWithProof: BigInt(350_000),
+  buyWithReferrer: BigInt(550_000), // referral bonus and spillover across phases
+  buyFor: BigInt(400_000), // first purchase for a beneficiary, spilling across phases
+  buyWithVoucher: BigInt(400_000), // EIP-712 recovery and nonce write on top of the buy
+  claimReferralRewards: BigInt(120_000),
+  buyWithToken: BigInt(450_000), // ERC-20 transferFrom included
+  bid: BigInt(250_000),
+  settleAuction: BigInt(200_000),
+  settleAuctionBid: BigInt(250_000),
+  approvePayToken: BigInt(80_000),
+  withdrawTokenPayments: BigInt(120_000),
+  // vesting claim mode mints the TGE and vested shares and creates the TokenVesting schedule (~380k)
+  claim: BigInt(500_000),
   requestRefund: BigInt(300_000),
+  requestSponsoredRefund: BigInt(150_000),
+  voteToHaltTranches: BigInt(350_000), // the quorum vote halts the schedule, votes settle the caller's bids
   addPhase: BigInt(600_000),
   endSale: BigInt(200_000),
+  finalize: BigInt(200_000),
   withdrawProceeds: BigInt(200_000),
   pause: BigInt(100_000),
   unpause: BigInt(100_000),
@@ -81,6 +104,7 @@ const GAS_LIMITS = {
 
 export function usePresaleWrite() {
   const { data: maybeWalletClient } = useWalletClient();
+  const publicClient = usePublicClient();
   const contractAddress = DYNAMIC_PRESALE_ADDRESS as Address;
 
   const abi = useMemo<Abi>(() => {
@@ -89,7 +113,11 @@ export function usePresaleWrite() {
   }, []);
 
   const buy = useCallback(
-    async (valueWei: bigint): Promise<TxHash> => {
+    async (
+      valueWei: bigint,
+      proof?: MerkleProof,
+      referrer?: string
+    ): Promise<TxHash> => {
       const walletClient = requireWalletClient(maybeWalletClient);
 
       if (typeof valueWei !== "bigint") {
@@ -99,23 +127,294 @@ export function usePresaleWrite() {
         throw new Error("usePresaleWrite.buy: valueWei must be > 0");
       }
 
+      // Allowlisted phases need the wallet's Merkle proof
+      const withProof = Array.isArray(proof) && proof.length > 0;
+
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = referrer
+          ? await walletClient.writeContract({
+              address: contractAddress,
+              abi,
+              functionName: "buyWithReferrer",
+              args: [toAddress(referrer), withProof ? proof : []],
+              value: valueWei,
+              chain: undefined,
+              account,
+              gas: GAS_LIMITS.buyWithReferrer,
+            })
+          : await walletClient.writeContract({
+              address: contractAddress,
+              abi,
+              functionName: withProof ? "buyWithProof" : "buy",
+              args: withProof ? [proof] : [],
+              value: valueWei,
+              chain: undefined,
+              account,
+              gas: withProof ? GAS_LIMITS.buyWithProof : GAS_LIMITS.buy,
+            });
+
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`buy failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  // KYC-gated sales: the voucher replaces the allowlist proof
+  // credits `beneficiary` (its limits and allowlist apply); excess and refunds go to `refundTo`
+  const buyFor = useCallback(
+    async (
+      valueWei: bigint,
+      beneficiary: string,
+      refundTo: string,
+      proof?: MerkleProof
+    ): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      if (typeof valueWei !== "bigint" || valueWei <= BigInt(0)) {
+        throw new Error("usePresaleWrite.buyFor: valueWei must be a bigint > 0");
+      }
       try {
         const account = walletAccountOrNull(walletClient);
         const txHash = await walletClient.writeContract({
           address: contractAddress,
           abi,
-          functionName: "buy",
-          args: [],
+          functionName: "buyFor",
+          args: [toAddress(beneficiary), toAddress(refundTo), Array.isArray(proof) ? proof : []],
           value: valueWei,
           chain: undefined,
           account,
-          gas: GAS_LIMITS.buy,
+          gas: GAS_LIMITS.buyFor,
         });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`buyFor failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
 
+  const buyWithVoucher = useCallback(
+    async (valueWei: bigint, signed: SignedVoucher): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      if (typeof valueWei !== "bigint" || valueWei <= BigInt(0)) {
+        throw new Error("usePresaleWrite.buyWithVoucher: valueWei must be a bigint > 0");
+      }
+      if (valueWei > signed.voucher.maxAmount) {
+        throw new Error("usePresaleWrite.buyWithVoucher: valueWei exceeds the voucher amount");
+      }
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "buyWithVoucher",
+          args: [signed.voucher, signed.signature],
+          value: valueWei,
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.buyWithVoucher,
+        });
         return txHash as unknown as TxHash;
       } catch (err: unknown) {
         const msg = safeErrorMessage(err);
-        throw new Error(`buy failed: ${msg}`);
+        throw new Error(`buyWithVoucher failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  const bid = useCallback(
+    async (valueWei: bigint, proof?: MerkleProof): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      if (typeof valueWei !== "bigint" || valueWei <= BigInt(0)) {
+        throw new Error("usePresaleWrite.bid: valueWei must be a bigint > 0");
+      }
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "bid",
+          args: [Array.isArray(proof) ? proof : []],
+          value: valueWei,
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.bid,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`bid failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  const settleAuction = useCallback(
+    async (phaseId: number): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "settleAuction",
+          args: [BigInt(phaseId)],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.settleAuction,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`settleAuction failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  const settleAuctionBid = useCallback(
+    async (phaseId: number, bidder: string): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      const b = toAddress(bidder);
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "settleAuctionBid",
+          args: [BigInt(phaseId), b],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.settleAuctionBid,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`settleAuctionBid failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  const claimReferralRewards = useCallback(async (): Promise<TxHash> => {
+    const walletClient = requireWalletClient(maybeWalletClient);
+    try {
+      const account = walletAccountOrNull(walletClient);
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi,
+        functionName: "claimReferralRewards",
+        args: [],
+        chain: undefined,
+        account,
+        gas: GAS_LIMITS.claimReferralRewards,
+      });
+      return txHash as unknown as TxHash;
+    } catch (err: unknown) {
+      const msg = safeErrorMessage(err);
+      throw new Error(`claimReferralRewards failed: ${msg}`);
+    }
+  }, [maybeWalletClient, contractAddress, abi]);
+
+  // weighted by the caller's contribution; reaching the quorum halts the tranches and opens refunds
+  const voteToHaltTranches = useCallback(async (): Promise<TxHash> => {
+    const walletClient = requireWalletClient(maybeWalletClient);
+    try {
+      const account = walletAccountOrNull(walletClient);
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi,
+        functionName: "voteToHaltTranches",
+        args: [],
+        chain: undefined,
+        account,
+        gas: GAS_LIMITS.voteToHaltTranches,
+      });
+      return txHash as unknown as TxHash;
+    } catch (err: unknown) {
+      const msg = safeErrorMessage(err);
+      throw new Error(`voteToHaltTranches failed: ${msg}`);
+    }
+  }, [maybeWalletClient, contractAddress, abi]);
+
+  /* ---------- ERC-20 PAYMENTS ---------- */
+  const approvePayToken = useCallback(
+    async (payToken: string, amount: bigint): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      const token = toAddress(payToken);
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: token,
+          abi: ERC20AbiParsed,
+          functionName: "approve",
+          args: [contractAddress, amount],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.approvePayToken,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`approve failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress]
+  );
+
+  const buyWithToken = useCallback(
+    async (payToken: string, amount: bigint, proof?: MerkleProof): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      const token = toAddress(payToken);
+
+      if (typeof amount !== "bigint" || amount <= BigInt(0)) {
+        throw new Error("usePresaleWrite.buyWithToken: amount must be a bigint > 0");
+      }
+
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "buyWithToken",
+          args: [token, amount, Array.isArray(proof) ? proof : []],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.buyWithToken,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`buyWithToken failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
+  const withdrawTokenPayments = useCallback(
+    async (payToken: string): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      const token = toAddress(payToken);
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "withdrawTokenPayments",
+          args: [token],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.withdrawTokenPayments,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`withdrawTokenPayments failed: ${msg}`);
       }
     },
     [maybeWalletClient, contractAddress, abi]
@@ -141,6 +440,65 @@ export function usePresaleWrite() {
     }
   }, [maybeWalletClient, contractAddress, abi]);
 
+  /* ---------- GASLESS CLAIM (ERC-2771) ---------- */
+  // Signs a forward request for claim() and hands it to the relayer, which pays the gas
+  const claimGasless = useCallback(async (): Promise<TxHash> => {
+    const walletClient = requireWalletClient(maybeWalletClient);
+    if (!FORWARDER_ADDRESS) {
+      throw new Error("claimGasless: NEXT_PUBLIC_FORWARDER_ADDRESS is not configured");
+    }
+    if (!publicClient) {
+      throw new Error("claimGasless: public client is not available");
+    }
+    try {
+      const [from] = await walletClient.getAddresses();
+      const forwarder = toAddress(FORWARDER_ADDRESS);
+      const chainId = await walletClient.getChainId();
+      const nonce = await publicClient.readContract({
+        address: forwarder,
+        abi: PresaleForwarderAbiParsed,
+        functionName: "nonces",
+        args: [from],
+      });
+      // vesting claim mode costs far more than a plain mint, so size the forwarded gas for this claim
+      const estimatedGas = await publicClient.estimateContractGas({
+        address: contractAddress,
+        abi,
+        functionName: "claim",
+        args: [],
+        account: from,
+      });
+      const request = {
+        from,
+        to: contractAddress,
+        value: BigInt(0),
+        gas: (estimatedGas * FORWARDED_GAS_MARGIN_PERCENT) / BigInt(100),
+        nonce: nonce as bigint,
+        deadline: Math.floor(Date.now() / 1000) + FORWARD_REQUEST_TTL_SECONDS,
+        data: encodeFunctionData({ abi, functionName: "claim", args: [] }),
+      };
+      const signature = await walletClient.signTypedData({
+        account: walletAccountOrNull(walletClient) ?? from,
+        domain: forwarderDomain(forwarder, chainId),
+        types: FORWARD_REQUEST_TYPES,
+        primaryType: "ForwardRequest",
+        message: request,
+      });
+      return await relayForwardRequest({
+        from: request.from,
+        to: request.to,
+        value: request.value,
+        gas: request.gas,
+        deadline: BigInt(request.deadline),
+        data: request.data,
+        signature,
+      });
+    } catch (err: unknown) {
+      const msg = safeErrorMessage(err);
+      throw new Error(`claimGasless failed: ${msg}`);
+    }
+  }, [maybeWalletClient, publicClient, contractAddress, abi]);
+
   /* ---------- REQUEST REFUND ---------- */
   const requestRefund = useCallback(async (): Promise<TxHash> => {
     const walletClient = requireWalletClient(maybeWalletClient);
@@ -162,6 +520,31 @@ export function usePresaleWrite() {
     }
   }, [maybeWalletClient, contractAddress, abi]);
 
+  /* ---------- REQUEST SPONSORED REFUND (buyFor refund address) ---------- */
+  const requestSponsoredRefund = useCallback(
+    async (beneficiary: string): Promise<TxHash> => {
+      const walletClient = requireWalletClient(maybeWalletClient);
+      const target = toAddress(beneficiary);
+      try {
+        const account = walletAccountOrNull(walletClient);
+        const txHash = await walletClient.writeContract({
+          address: contractAddress,
+          abi,
+          functionName: "requestSponsoredRefund",
+          args: [target],
+          chain: undefined,
+          account,
+          gas: GAS_LIMITS.requestSponsoredRefund,
+        });
+        return txHash as unknown as TxHash;
+      } catch (err: unknown) {
+        const msg = safeErrorMessage(err);
+        throw new Error(`requestSponsoredRefund failed: ${msg}`);
+      }
+    },
+    [maybeWalletClient, contractAddress, abi]
+  );
+
   /* ---------------- Admin actions ---------------- */
 
   const addPhase = useCallback(
@@ -235,6 +618,27 @@ export function usePresaleWrite() {
     }
   }, [maybeWalletClient, contractAddress, abi]);
 
+  // Permissionless: anyone can end the sale once the last phase is over
+  const finalize = useCallback(async (): Promise<TxHash> => {
+    const walletClient = requireWalletClient(maybeWalletClient);
+    try {
+      const account = walletAccountOrNull(walletClient);
+      const txHash = await walletClient.writeContract({
+        address: contractAddress,
+        abi,
+        functionName: "finalize",
+        args: [],
+        chain: undefined,
+        account,
+        gas: GAS_LIMITS.finalize,
+      });
+      return txHash as unknown as TxHash;
+    } catch (err: unknown) {
+      const msg = safeErrorMessage(err);
+      throw new Error(`finalize failed: ${msg}`);
+    }
+  }, [maybeWalletClient, contractAddress, abi]);
+
   const withdrawProceeds = useCallback(
     async (beneficiary: string): Promise<TxHash> => {
       const walletClient = requireWalletClient(maybeWalletClient);
@@ -301,10 +705,23 @@ export function usePresaleWrite() {
 
   return {
     buy,
+    buyFor,
+    buyWithVoucher,
+    bid,
+    settleAuction,
+    settleAuctionBid,
+    claimReferralRewards,
+    approvePayToken,
+    buyWithToken,
+    withdrawTokenPayments,
     claim,
+    claimGasless,
     requestRefund,
+    requestSponsoredRefund,
+    voteToHaltTranches,
     addPhase,
     endSale,
+    finalize,
     withdrawProceeds,
     pause,
     unpause,
@@ -2,13 +2,38 @@
 
 import React, { JSX, useEffect, useMemo, useState } from 'react';
 import { useAccount } from 'wagmi';
-import { formatUnits } from 'viem';
+import { formatUnits, isAddress, parseUnits } from 'viem';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 import { usePresaleRead } from '@/app/hooks/usePresaleRead';
 import { usePresaleMutations } from '@/app/hooks/usePresaleMutation';
+import { useMyRoles } from '@/app/hooks/usePresaleQueries';
 import { Skeleton, Spinner } from '../components/ui';
-import type { Phase, CalcResult } from '@/app/types/presale.type';
+import { fetchAllowlistProof, type AllowlistLookup } from '@/lib/allowlist';
+import { captureReferrer, referralLink } from '@/lib/referral';
+import { FORWARDER_ADDRESS } from '@/lib/addresses';
+import {
+  auctionPriceAt,
+  formatUsdCents,
+  hasPriceCurve,
+  phaseCurvePoints,
+  phasePriceAt,
+  secondsToFloor,
+  weiToUsdCents,
+  withUsdPrice,
+} from '@/lib/pricing';
+import type {
+  Phase,
+  CalcResult,
+  ReferralStats,
+  AuctionInfo,
+  AuctionBidInfo,
+  EthUsdPrice,
+  PendingParameterChange,
+  SaleParameter,
+  TrancheSchedule,
+  TrancheVote,
+} from '@/app/types/presale.type';
 
 
 const ETH_FORMATTER = new Intl.NumberFormat('en-US', {
@@ -16,6 +41,12 @@ const ETH_FORMATTER = new Intl.NumberFormat('en-US', {
   minimumFractionDigits: 0,
 });
 
+const PARAMETER_LABELS: Record<SaleParameter, string> = {
+  softCap: 'Soft Cap',
+  minBuy: 'Min Buy',
+  maxPerWallet: 'Max Per Wallet',
+};
+
 const TIME_CONSTANTS = {
   MINUTE: 60,
   HOUR: 60 * 60,
@@ -104,6 +135,45 @@ const MetricCard = React.memo(function MetricCard({
 
 MetricCard.displayName = 'MetricCard';
 
+// Bonding-curve phases: price over the phase's supply, with a marker at the tokens sold so far
+function PriceCurve({ phase }: { phase: Phase }): JSX.Element {
+  const points = phaseCurvePoints(phase);
+  const min = points[0].priceWei;
+  const max = points[points.length - 1].priceWei;
+  const range = max > min ? max - min : BigInt(1);
+  const toX = (sold: bigint) =>
+    phase.supply > BigInt(0) ? Number((sold * BigInt(1000)) / phase.supply) / 10 : 0;
+  const toY = (price: bigint) => 36 - Number(((price - min) * BigInt(320)) / range) / 10;
+  const current = phasePriceAt(phase, phase.sold);
+
+  return (
+    <div className="mt-3">
+      <svg
+        viewBox="0 0 100 40"
+        preserveAspectRatio="none"
+        className="w-full h-16"
+        role="img"
+        aria-label={`Price curve for phase ${phase.phaseId}`}
+      >
+        <polyline
+          points={points.map((pt) => `${toX(pt.sold)},${toY(pt.priceWei)}`).join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+          className="text-indigo-500"
+        />
+        <circle cx={toX(phase.sold)} cy={toY(current)} r={1.5} className="fill-amber-500" />
+      </svg>
+      <div className="flex justify-between text-[11px] text-slate-500">
+        <span>{formatUnits(min, 18)} ETH</span>
+        <span>Now {formatUnits(current, 18)} ETH</span>
+        <span>{formatUnits(max, 18)} ETH</span>
+      </div>
+    </div>
+  );
+}
+
 export default function PresaleDashboard(): JSX.Element {
   const { address } = useAccount();
   const [mounted, setMounted] = useState(false);
@@ -114,7 +184,41 @@ export default function PresaleDashboard(): JSX.Element {
 
   const qc = useQueryClient();
 
-  const { buyMutation, claimMutation, requestRefundMutation } = usePresaleMutations();
+  const {
+    buyMutation,
+    buyForMutation,
+    buyWithVoucherMutation,
+    bidMutation,
+    settleAuctionMutation,
+    settleAuctionBidMutation,
+    claimMutation,
+    claimGaslessMutation,
+    requestRefundMutation,
+    voteToHaltTranchesMutation,
+    claimReferralRewardsMutation,
+    finalizeMutation,
+    addPhaseMutation,
+    endSaleMutation,
+    withdrawProceedsMutation,
+    pauseMutation,
+    unpauseMutation,
+  } = usePresaleMutations();
+
+  // Operations panel: each control is shown to the wallets holding its role
+  const rolesQ = useMyRoles();
+  const roles = mounted ? rolesQ.data ?? null : null;
+  const [newPhase, setNewPhase] = useState({ price: '', supply: '', start: '', end: '' });
+
+  // ?ref=0x... from a referral link, persisted across visits
+  const [referrer, setReferrer] = useState<`0x${string}` | null>(null);
+  useEffect(() => setReferrer(captureReferrer()), []);
+
+  // Sign the claim and let the relayer pay the gas (only when a forwarder is configured)
+  const [gaslessClaim, setGaslessClaim] = useState(false);
+
+  // "Send to another wallet": buyFor credits the recipient, excess and refunds come back to this wallet
+  const [sendToOther, setSendToOther] = useState(false);
+  const [recipient, setRecipient] = useState('');
 
   /* ---------- Queries ---------- */
 
@@ -198,6 +302,16 @@ export default function PresaleDashboard(): JSX.Element {
     retry: 1,
   });
 
+  // cancelled sales stay ended and refund every buyer, even past the soft cap
+  const saleCancelledQ = useQuery<boolean, Error>({
+    queryKey: ['presale', 'saleCancelled'],
+    queryFn: async () => presale.getSaleCancelled(),
+    enabled: mounted,
+    staleTime: 15_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
   // calculate tokens for an entered amount (dynamic)
   const [ethToSend, setEthToSend] = useState<string>('0.01');
   const amountWeiForCalc = useMemo<bigint | null>(() => {
@@ -235,6 +349,29 @@ export default function PresaleDashboard(): JSX.Element {
     retry: 1,
   });
 
+  // Dutch auction settings of every phase (phases without one are left out)
+  const auctionsQ = useQuery<AuctionInfo[], Error>({
+    queryKey: ['presale', 'auctions', phasesListQ.data?.length ?? 0],
+    queryFn: async () => {
+      const list = await Promise.all((phasesListQ.data ?? []).map((p) => presale.getAuction(p.phaseId)));
+      return list.filter((a): a is AuctionInfo => a !== null);
+    },
+    enabled: mounted && !!phasesListQ.data,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // ETH/USD feed answer behind USD-priced phases, null when the sale has no feed
+  const ethUsdQ = useQuery<EthUsdPrice | null, Error>({
+    queryKey: ['presale', 'ethUsd'],
+    queryFn: async () => presale.getEthUsdPrice(),
+    enabled: mounted,
+    staleTime: 30_000,
+    refetchOnWindowFocus: false,
+    retry: 0,
+  });
+
   const currentPhaseIndexQ = useQuery<number | null, Error>({
     queryKey: ['presale', 'currentPhaseIndex'],
     queryFn: async () => presale.getCurrentPhaseSafe(),
@@ -253,6 +390,25 @@ export default function PresaleDashboard(): JSX.Element {
     retry: 1,
   });
 
+  const hardCapQ = useQuery<bigint, Error>({
+    queryKey: ['presale', 'hardCap'],
+    queryFn: async () => presale.getHardCap(),
+    enabled: mounted,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // timelocked parameter changes, shown with a countdown until they can take effect
+  const pendingChangesQ = useQuery<PendingParameterChange[], Error>({
+    queryKey: ['presale', 'pendingChanges'],
+    queryFn: async () => presale.getPendingParameterChanges(),
+    enabled: mounted,
+    staleTime: 30_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
   const minBuyQ = useQuery<bigint, Error>({
     queryKey: ['presale', 'minBuy'],
     queryFn: async () => presale.getMinBuy(),
@@ -271,6 +427,66 @@ export default function PresaleDashboard(): JSX.Element {
     retry: 1,
   });
 
+  // allowlist proof for the connected wallet (null when no allowlist is published)
+  const allowlistQ = useQuery<AllowlistLookup | null, Error>({
+    queryKey: ['presale', 'allowlist', clientAddress ?? 'anon'],
+    queryFn: async () => {
+      if (!clientAddress) return null;
+      return fetchAllowlistProof(clientAddress);
+    },
+    enabled: mounted && !!clientAddress,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // KYC-gated sale: purchases go through buyWithVoucher instead of the allowlist
+  const vouchersRequiredQ = useQuery<boolean, Error>({
+    queryKey: ['presale', 'vouchersRequired'],
+    queryFn: async () => presale.getVouchersRequired(),
+    enabled: mounted,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  const tgeUnlockQ = useQuery<number | null, Error>({
+    queryKey: ['presale', 'tgeUnlockBps'],
+    queryFn: async () => presale.getTgeUnlockBps(),
+    enabled: mounted,
+    staleTime: 60_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  const referralQ = useQuery<ReferralStats, Error>({
+    queryKey: ['presale', 'referral', clientAddress ?? 'anon'],
+    queryFn: async () => presale.getReferralStats(clientAddress as `0x${string}`),
+    enabled: mounted && !!clientAddress,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // milestone tranches of the proceeds; empty when they are withdrawn at once
+  const trancheScheduleQ = useQuery<TrancheSchedule, Error>({
+    queryKey: ['presale', 'tranches'],
+    queryFn: async () => presale.getTrancheSchedule(),
+    enabled: mounted,
+    staleTime: 30_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  const trancheVoteQ = useQuery<TrancheVote, Error>({
+    queryKey: ['presale', 'trancheVote', clientAddress ?? 'anon'],
+    queryFn: async () => presale.trancheVoteOf(clientAddress as `0x${string}`),
+    enabled: mounted && !!clientAddress,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
   /* ---------- UX helpers ---------- */
 
   const displayWeiAsEth = (v?: bigint | null): string => {
@@ -315,12 +531,34 @@ export default function PresaleDashboard(): JSX.Element {
 
       const wei = BigInt(Math.floor(amount * 1e18));
 
-      if (minBuyQ.data && wei < minBuyQ.data) {
-        alert(`Amount is below minimum: ${displayWeiAsEth(minBuyQ.data)} ETH`);
+      if (activeMinBuy && wei < activeMinBuy) {
+        alert(`Amount is below minimum: ${displayWeiAsEth(activeMinBuy)} ETH`);
+        return;
+      }
+
+      if (sendToOther) {
+        if (!isAddress(recipient)) {
+          alert('Enter the wallet address to send the tokens to.');
+          return;
+        }
+        if (vouchersRequiredQ.data || isAuctionLive) {
+          alert('Purchases for another wallet are not available in KYC-gated sales or auctions.');
+          return;
+        }
+        // the recipient's limits and allowlist are checked on chain
+        await buyForMutation.mutateAsync({ valueWei: wei, beneficiary: recipient });
+        qc.invalidateQueries({ queryKey: ['presale'] });
+        alert('Transaction submitted. Check your wallet.');
         return;
       }
 
-      if (maxPerWalletQ.data && contributionsQ.data) {
+      if (phaseMaxPerWallet !== null) {
+        const wouldBe = wei + (phaseContributionQ.data ?? BigInt(0));
+        if (wouldBe > phaseMaxPerWallet) {
+          alert(`Purchase would exceed this phase's max per wallet (${displayWeiAsEth(phaseMaxPerWallet)} ETH)`);
+          return;
+        }
+      } else if (maxPerWalletQ.data && contributionsQ.data) {
         const wouldBe = wei + (contributionsQ.data ?? BigInt(0));
         if (wouldBe > maxPerWalletQ.data) {
           alert(`Purchase would exceed max per wallet (${displayWeiAsEth(maxPerWalletQ.data)} ETH)`);
@@ -336,7 +574,31 @@ export default function PresaleDashboard(): JSX.Element {
         return;
       }
 
-      await buyMutation.mutateAsync(wei);
+      if (vouchersRequiredQ.data) {
+        if (isAuctionLive) {
+          alert('Auction bids are closed while purchases require a KYC voucher.');
+          return;
+        }
+        await buyWithVoucherMutation.mutateAsync({ valueWei: wei });
+        qc.invalidateQueries({ queryKey: ['presale'] });
+        alert('Transaction submitted. Check your wallet.');
+        return;
+      }
+
+      const allowlist = allowlistQ.data ?? null;
+      if (allowlist && !allowlist.proof) {
+        alert('This wallet is not on the allowlist for the current sale.');
+        return;
+      }
+
+      // the contract rejects self-referrals; a wallet that already has a referrer keeps it
+      const ref = referrer && referrer.toLowerCase() !== clientAddress?.toLowerCase() ? referrer : undefined;
+
+      if (isAuctionLive) {
+        await bidMutation.mutateAsync({ valueWei: wei, proof: allowlist?.proof ?? undefined });
+      } else {
+        await buyMutation.mutateAsync({ valueWei: wei, proof: allowlist?.proof ?? undefined, referrer: ref });
+      }
       qc.invalidateQueries({ queryKey: ['presale'] });
       alert('Transaction submitted. Check your wallet.');
     } catch (err) {
@@ -354,6 +616,10 @@ export default function PresaleDashboard(): JSX.Element {
       const softCapReached = softCap != null ? totalRaised >= softCap : undefined;
       const pending = pendingTokensQ.data ?? BigInt(0);
 
+      if (saleCancelledQ.data) {
+        alert('The sale was cancelled — claiming disabled. You may request a refund.');
+        return;
+      }
       if (!saleEnded) {
         alert('Sale has not ended yet. You can only claim after the sale ends.');
         return;
@@ -367,9 +633,13 @@ export default function PresaleDashboard(): JSX.Element {
         return;
       }
 
-      await claimMutation.mutateAsync();
+      if (gaslessClaim) {
+        await claimGaslessMutation.mutateAsync();
+      } else {
+        await claimMutation.mutateAsync();
+      }
       qc.invalidateQueries({ queryKey: ['presale'] });
-      alert('Claim transaction submitted.');
+      alert(gaslessClaim ? 'Claim relayed and confirmed — no gas was charged to your wallet.' : 'Claim transaction submitted.');
     } catch (err) {
       console.error('claim failed', err);
       alert('Claim failed — see console for details');
@@ -384,11 +654,23 @@ export default function PresaleDashboard(): JSX.Element {
       const softCapReached = softCap != null ? totalRaised >= softCap : undefined;
       const contributed = contributionsQ.data ?? BigInt(0);
 
+      // a halted tranche schedule refunds what is left of the proceeds pro-rata
+      if (trancheScheduleQ.data?.halted) {
+        if ((trancheVoteQ.data?.refund ?? BigInt(0)) <= BigInt(0)) {
+          alert('Nothing left to refund for this wallet.');
+          return;
+        }
+        await requestRefundMutation.mutateAsync();
+        qc.invalidateQueries({ queryKey: ['presale'] });
+        alert('Refund request submitted.');
+        return;
+      }
+
       if (!saleEnded) {
         alert('Sale has not ended yet. Refunds are only available after sale end if the soft cap was not met.');
         return;
       }
-      if (softCapReached === true) {
+      if (softCapReached === true && !saleCancelledQ.data) {
         alert('Soft cap was reached — refunds are disabled. You may claim tokens instead.');
         return;
       }
@@ -406,11 +688,108 @@ export default function PresaleDashboard(): JSX.Element {
     }
   }
 
+  async function onVoteToHaltTranches(): Promise<void> {
+    try {
+      await voteToHaltTranchesMutation.mutateAsync();
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert('Vote submitted. Tranches halt once the quorum is reached.');
+    } catch (err) {
+      console.error('vote to halt tranches failed', err);
+      alert('Vote failed — see console for details');
+    }
+  }
+
+  async function onClaimReferralRewards(): Promise<void> {
+    try {
+      await claimReferralRewardsMutation.mutateAsync();
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert('Referral rewards queued. Withdraw them from your escrow payments.');
+    } catch (err) {
+      console.error('claim referral rewards failed', err);
+      alert('Claim referral rewards failed — see console for details');
+    }
+  }
+
+  async function onSettleAuction(phaseId: number): Promise<void> {
+    try {
+      await settleAuctionMutation.mutateAsync(phaseId);
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert('Auction settlement submitted.');
+    } catch (err) {
+      console.error('settle auction failed', err);
+      alert('Settle auction failed — see console for details');
+    }
+  }
+
+  async function onSettleMyBid(phaseId: number): Promise<void> {
+    if (!clientAddress) return;
+    try {
+      await settleAuctionBidMutation.mutateAsync({ phaseId, bidder: clientAddress });
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert('Bid settled. Any overpayment is now in your escrow payments.');
+    } catch (err) {
+      console.error('settle bid failed', err);
+      alert('Settle bid failed — see console for details');
+    }
+  }
+
+  async function onFinalize(): Promise<void> {
+    try {
+      await finalizeMutation.mutateAsync();
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert('Finalize transaction submitted.');
+    } catch (err) {
+      console.error('finalize failed', err);
+      alert('Finalize failed — see console for details');
+    }
+  }
+
+  async function onAddPhase(): Promise<void> {
+    try {
+      const startTs = Math.floor(new Date(newPhase.start).getTime() / 1000);
+      const endTs = Math.floor(new Date(newPhase.end).getTime() / 1000);
+      if (!Number.isFinite(startTs) || !Number.isFinite(endTs) || endTs <= startTs) {
+        alert('Enter a start and an end time, the end after the start.');
+        return;
+      }
+      await addPhaseMutation.mutateAsync({
+        priceWei: parseUnits(newPhase.price, 18),
+        supply: parseUnits(newPhase.supply, tokenDecimalsQ.data ?? 18),
+        startTs,
+        endTs,
+      });
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      setNewPhase({ price: '', supply: '', start: '', end: '' });
+      alert('Phase added.');
+    } catch (err) {
+      console.error('add phase failed', err);
+      alert('Add phase failed — see console for details');
+    }
+  }
+
+  async function onAdminAction(label: string, action: () => Promise<unknown>): Promise<void> {
+    try {
+      await action();
+      qc.invalidateQueries({ queryKey: ['presale'] });
+      alert(`${label} submitted.`);
+    } catch (err) {
+      console.error(`${label} failed`, err);
+      alert(`${label} failed — see console for details`);
+    }
+  }
+
   /* ---------- Derived state ---------- */
 
-  const buying = buyMutation.status === 'pending';
-  const claiming = claimMutation.status === 'pending';
+  const buying =
+    buyMutation.status === 'pending' ||
+    buyForMutation.status === 'pending' ||
+    buyWithVoucherMutation.status === 'pending' ||
+    bidMutation.status === 'pending';
+  const settlingAuction = settleAuctionMutation.status === 'pending' || settleAuctionBidMutation.status === 'pending';
+  const claiming = claimMutation.status === 'pending' || claimGaslessMutation.status === 'pending';
   const requestingRefund = requestRefundMutation.status === 'pending';
+  const claimingReferral = claimReferralRewardsMutation.status === 'pending';
+  const votingToHalt = voteToHaltTranchesMutation.status === 'pending';
 
   const isAnyLoading =
     totalRaisedQ.isLoading ||
@@ -427,6 +806,69 @@ export default function PresaleDashboard(): JSX.Element {
   const currentPhase = phasesListQ.data?.find((p) => p.phaseId === currentPhaseIndex) ?? null;
   const hasActive = currentPhase !== null;
 
+  // the active phase's own limits replace the global ones, 0 falls back to them
+  const activeMinBuy = currentPhase && currentPhase.minBuy > BigInt(0) ? currentPhase.minBuy : minBuyQ.data ?? null;
+  const phaseMaxPerWallet =
+    currentPhase && currentPhase.maxPerWallet > BigInt(0) ? currentPhase.maxPerWallet : null;
+
+  const phaseContributionQ = useQuery<bigint, Error>({
+    queryKey: ['presale', 'phaseContribution', currentPhaseIndex ?? -1, clientAddress ?? 'anon'],
+    queryFn: async () => presale.phaseContributionOf(currentPhaseIndex as number, clientAddress as `0x${string}`),
+    enabled: mounted && !!clientAddress && phaseMaxPerWallet !== null,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // The auction shown in the widget: the live one, else the latest that has started (it may still need settling)
+  const auctionPhase = (() => {
+    const auctions = auctionsQ.data ?? [];
+    const live = auctions.find((a) => a.phaseId === currentPhaseIndex);
+    if (live) return live;
+    const now = Math.floor(Date.now() / 1000);
+    const started = auctions.filter((a) => {
+      const p = phasesListQ.data?.find((ph) => ph.phaseId === a.phaseId);
+      return p !== undefined && p.start <= now;
+    });
+    return started.length > 0 ? started[started.length - 1] : null;
+  })();
+  const auctionPhaseInfo = auctionPhase ? phasesListQ.data?.find((p) => p.phaseId === auctionPhase.phaseId) ?? null : null;
+  const isAuctionLive = auctionPhase !== null && auctionPhase.phaseId === currentPhaseIndex;
+
+  const myBidQ = useQuery<AuctionBidInfo, Error>({
+    queryKey: ['presale', 'auctionBid', auctionPhase?.phaseId ?? -1, clientAddress ?? 'anon'],
+    queryFn: async () => presale.getAuctionBid(auctionPhase!.phaseId, clientAddress as `0x${string}`),
+    enabled: mounted && !!clientAddress && auctionPhase !== null,
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+    retry: 1,
+  });
+
+  // live auction price and parameter change countdowns, recomputed every second
+  const pendingChanges = pendingChangesQ.data ?? [];
+  const ticking = Boolean(auctionPhase) || pendingChanges.length > 0;
+  const [nowSec, setNowSec] = useState<number>(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    if (!ticking) return;
+    const t = setInterval(() => setNowSec(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(t);
+  }, [ticking]);
+  const auctionPrice =
+    auctionPhase && auctionPhaseInfo
+      ? auctionPhase.clearingPrice > BigInt(0)
+        ? auctionPhase.clearingPrice
+        : auctionPriceAt(auctionPhase, auctionPhaseInfo, Math.min(nowSec, auctionPhaseInfo.end))
+      : null;
+  const auctionClosed =
+    auctionPhaseInfo !== null &&
+    (nowSec > auctionPhaseInfo.end || auctionPhaseInfo.sold >= auctionPhaseInfo.supply);
+  const myBid = myBidQ.data ?? null;
+  const auctionFloorAt = (() => {
+    if (!auctionPhase || !auctionPhaseInfo) return null;
+    const secs = secondsToFloor(auctionPhase);
+    return secs === null ? null : auctionPhaseInfo.start + secs;
+  })();
+
   // seconds left for active phase (real time)
   const [secsLeft, setSecsLeft] = useState<number | null>(null);
   useEffect(() => {
@@ -476,37 +918,103 @@ export default function PresaleDashboard(): JSX.Element {
     }
   })();
 
+  // Hard cap progress percent (0-100); null when no hard cap is configured
+  const hardCap = hardCapQ.data ?? BigInt(0);
+  const hardCapPercent = (() => {
+    if (hardCap === BigInt(0)) return null;
+    const pct = Number((totalRaised * BigInt(100)) / hardCap);
+    return Number.isFinite(pct) ? Math.max(0, Math.min(100, Math.round(pct))) : 0;
+  })();
+
   // Derived checks for UX: allow/disable actions according to on-chain state
   const remainingTokens = remainingTokensQ.data ?? BigInt(0);
   const contributions = contributionsQ.data ?? BigInt(0);
   const pendingTokens = pendingTokensQ.data ?? BigInt(0);
   const saleEnded = saleEndedQ.data ?? false;
-
-  const canBuy = hasActive && remainingTokens > BigInt(0);
-  const canClaim = saleEnded === true && softCapReached === true && pendingTokens > BigInt(0);
-  const canRequestRefund = saleEnded === true && softCapReached === false && contributions > BigInt(0);
-
-  const buyDisabledReason = !hasActive
-    ? 'No active phase — purchases disabled'
-    : remainingTokens <= BigInt(0)
-      ? 'No tokens remaining in the current phase'
-      : 'Connect your wallet to buy';
-
-  const claimDisabledReason = !saleEnded
-    ? 'Sale not finished — you can only claim after sale end'
-    : softCapReached === false
-      ? 'Soft cap not reached — claim disabled (you may request refund)'
-      : pendingTokens <= BigInt(0)
-        ? 'No pending tokens to claim'
-        : 'Connect your wallet to claim';
-
-  const refundDisabledReason = !saleEnded
-    ? 'Sale not finished — refunds available only after sale ends'
-    : softCapReached === true
-      ? 'Soft cap reached — refunds disabled'
-      : contributions <= BigInt(0)
-        ? 'No contribution found for this wallet'
-        : 'Connect your wallet to request refund';
+  const saleCancelled = saleCancelledQ.data ?? false;
+
+  const vouchersRequired = vouchersRequiredQ.data ?? false;
+  const allowlist = allowlistQ.data ?? null;
+  // a voucher replaces the allowlist check on chain; buying for another wallet checks the recipient's instead
+  const notAllowlisted = !vouchersRequired && !sendToOther && allowlist !== null && !allowlist.proof;
+
+  const canBuy = hasActive && remainingTokens > BigInt(0) && !notAllowlisted && !saleCancelled;
+  // finalize() is permissionless once every phase has ended
+  const allPhasesOver =
+    (phasesListQ.data?.length ?? 0) > 0 &&
+    (phasesListQ.data ?? []).every((p) => p.end < Math.floor(Date.now() / 1000));
+  const canFinalize = !saleEnded && allPhasesOver && !saleEndedQ.isLoading;
+  const finalizing = finalizeMutation.status === 'pending';
+
+  const canClaim = saleEnded === true && softCapReached === true && !saleCancelled && pendingTokens > BigInt(0);
+  const trancheSchedule = trancheScheduleQ.data ?? null;
+  const trancheVote = trancheVoteQ.data ?? null;
+  const tranchesHalted = trancheSchedule?.halted ?? false;
+  const trancheRefund = trancheVote?.refund ?? BigInt(0);
+  const canRequestRefund = tranchesHalted
+    ? trancheRefund > BigInt(0)
+    : saleEnded === true && (softCapReached === false || saleCancelled) && contributions > BigInt(0);
+  const haltVotePercent =
+    trancheSchedule && trancheSchedule.haltQuorumBps > 0 && totalRaised > BigInt(0)
+      ? Math.min(
+          100,
+          Number((trancheSchedule.haltVotesWei * BigInt(1_000_000)) / (totalRaised * BigInt(trancheSchedule.haltQuorumBps)))
+        )
+      : 0;
+  const canVoteToHalt =
+    !!trancheSchedule &&
+    trancheSchedule.haltQuorumBps > 0 &&
+    !tranchesHalted &&
+    trancheSchedule.tranches.some((t) => !t.withdrawn) &&
+    saleEnded === true &&
+    softCapReached === true &&
+    !saleCancelled &&
+    contributions > BigInt(0) &&
+    trancheVote?.voted === false;
+
+  const referral = referralQ.data ?? null;
+  const boundReferrer = referral?.referrer ?? null;
+  const canClaimReferral =
+    saleEnded === true && softCapReached === true && !saleCancelled && (referral?.ethEarned ?? BigInt(0)) > BigInt(0);
+
+  const buyDisabledReason = saleCancelled
+    ? 'Sale cancelled — purchases disabled'
+    : !hasActive
+      ? 'No active phase — purchases disabled'
+      : remainingTokens <= BigInt(0)
+        ? 'No tokens remaining in the current phase'
+        : notAllowlisted
+          ? 'This wallet is not on the allowlist'
+          : 'Connect your wallet to buy';
+
+  const claimDisabledReason = saleCancelled
+    ? 'Sale cancelled — claim disabled (you may request refund)'
+    : !saleEnded
+      ? 'Sale not finished — you can only claim after sale end'
+      : softCapReached === false
+        ? 'Soft cap not reached — claim disabled (you may request refund)'
+        : pendingTokens <= BigInt(0)
+          ? 'No pending tokens to claim'
+          : 'Connect your wallet to claim';
+
+  const refundDisabledReason = tranchesHalted
+    ? 'Nothing left to refund for this wallet'
+    : !saleEnded
+      ? 'Sale not finished — refunds available only after sale ends'
+      : softCapReached === true && !saleCancelled
+        ? 'Soft cap reached — refunds disabled'
+        : contributions <= BigInt(0)
+          ? 'No contribution found for this wallet'
+          : 'Connect your wallet to request refund';
+
+  // with payees set the contract rejects withdrawProceeds; each payee is paid through releaseProceeds
+  const proceedsInTranches = (trancheSchedule?.tranches.length ?? 0) > 0;
+  const canWithdrawProceeds = saleEnded && softCapReached === true && !saleCancelled && !proceedsInTranches;
+  const withdrawDisabledReason = saleCancelled
+    ? 'The sale was cancelled — proceeds are refunded'
+    : !saleEnded || softCapReached !== true
+      ? 'Proceeds are withdrawable after a successful sale'
+      : 'Proceeds are released in tranches';
 
   /* ---------- Render ---------- */
 
@@ -576,6 +1084,121 @@ export default function PresaleDashboard(): JSX.Element {
           />
         </section>
 
+        {saleCancelled && (
+          <section className="flex items-start gap-3 bg-rose-50 border-2 border-rose-300 rounded-xl p-5" role="alert">
+            <div className="text-rose-600">
+              <IconAlertCircle />
+            </div>
+            <div>
+              <h2 className="text-sm font-bold text-rose-900">Sale cancelled</h2>
+              <p className="mt-1 text-sm text-rose-800">
+                The presale was cancelled and will not distribute tokens. Every buyer can request a refund of their
+                contribution below and withdraw it from the escrow.
+              </p>
+            </div>
+          </section>
+        )}
+
+        {/* Milestone tranches of the proceeds */}
+        {trancheSchedule && trancheSchedule.tranches.length > 0 && (
+          <section className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm" aria-label="Proceeds tranches">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h2 className="text-sm font-bold text-slate-900">Proceeds release schedule</h2>
+              <span className="text-xs text-slate-600">
+                {displayWeiAsEth(trancheSchedule.withdrawn)} ETH released to the team
+              </span>
+            </div>
+            <ul className="space-y-2">
+              {trancheSchedule.tranches.map((tranche) => {
+                const [label, unlocked] = formatTimeLeft(tranche.unlockTime - nowSec);
+                const status = tranche.withdrawn
+                  ? 'Released'
+                  : tranchesHalted
+                    ? 'Halted'
+                    : tranche.unlockTime > 0 && !unlocked
+                      ? `Unlocks in ${label}`
+                      : tranche.needsApproval && !tranche.approved
+                        ? 'Awaiting milestone approval'
+                        : 'Unlocked';
+                return (
+                  <li key={tranche.index} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-slate-700">
+                      Tranche {tranche.index + 1}:{' '}
+                      <span className="font-semibold text-slate-900">{tranche.bps / 100}%</span>
+                      {tranche.needsApproval && <span className="text-slate-500"> · milestone</span>}
+                    </span>
+                    <span className={tranche.withdrawn ? 'text-emerald-700' : 'text-slate-600'}>{status}</span>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {trancheSchedule.haltQuorumBps > 0 && (
+              <div className="mt-4 pt-4 border-t border-slate-200">
+                {tranchesHalted ? (
+                  <p className="text-sm text-rose-800">
+                    Buyers voted to halt the remaining tranches. {displayWeiAsEth(trancheSchedule.refundPool)} ETH is
+                    refunded pro-rata to contributions
+                    {trancheRefund > BigInt(0) ? ` — ${displayWeiAsEth(trancheRefund)} ETH for this wallet` : ''}.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-600">
+                      <span>
+                        Halt votes: {displayWeiAsEth(trancheSchedule.haltVotesWei)} ETH of contributions
+                      </span>
+                      <span>Quorum {trancheSchedule.haltQuorumBps / 100}% of raised</span>
+                    </div>
+                    <div className="mt-2 h-2 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full bg-rose-500" style={{ width: `${haltVotePercent}%` }} />
+                    </div>
+                    <button
+                      onClick={onVoteToHaltTranches}
+                      disabled={!clientAddress || votingToHalt || !canVoteToHalt}
+                      className="mt-3 inline-flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium border border-rose-300 text-rose-700 hover:bg-rose-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      aria-busy={votingToHalt}
+                      title={
+                        trancheVote?.voted
+                          ? 'You already voted'
+                          : 'Vote with your contribution to halt the remaining tranches and refund the rest'
+                      }
+                    >
+                      <IconAlertCircle />
+                      <span>{votingToHalt ? 'Voting…' : trancheVote?.voted ? 'Voted to halt' : 'Vote to halt tranches'}</span>
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </section>
+        )}
+
+        {/* Timelocked parameter changes */}
+        {pendingChanges.length > 0 && (
+          <section className="bg-amber-50 border border-amber-200 rounded-xl p-5" aria-label="Pending parameter changes">
+            <div className="flex items-center gap-2 mb-3 text-amber-800">
+              <IconClock />
+              <h2 className="text-sm font-bold">Scheduled parameter changes</h2>
+            </div>
+            <ul className="space-y-2">
+              {pendingChanges.map((change) => {
+                const [label, ready] = formatTimeLeft(change.eta - nowSec);
+                return (
+                  <li key={change.parameter} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-slate-700">
+                      {PARAMETER_LABELS[change.parameter]} →{' '}
+                      <span className="font-semibold text-slate-900">{displayWeiAsEth(change.value)} ETH</span>
+                    </span>
+                    <span className="font-mono text-amber-800">
+                      {ready ? 'Can take effect now' : `Takes effect in ${label}`}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
         {/* Phase Status & Timeline */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
@@ -590,7 +1213,10 @@ export default function PresaleDashboard(): JSX.Element {
                 {phasesListQ.isLoading ? (
                   <Skeleton className="h-40 w-full rounded-lg" />
                 ) : phasesListQ.data && phasesListQ.data.length > 0 ? (
-                  phasesListQ.data.map((p: Phase) => {
+                  phasesListQ.data.map((listed: Phase) => {
+                    // USD-priced phases sell at their converted price, curves start from it
+                    const p = withUsdPrice(listed, ethUsdQ.data);
+                    const spotWei = phasePriceAt(p, p.sold);
                     const now = Math.floor(Date.now() / 1000);
                     const active = now >= p.start && now <= p.end && p.sold < p.supply;
                     const status = active ? 'Live' : now < p.start ? 'Upcoming' : 'Completed';
@@ -619,7 +1245,26 @@ export default function PresaleDashboard(): JSX.Element {
                               </span>
                             </div>
                             <div className="text-xs text-slate-600 space-y-1">
-                              <p>Price: <span className="font-medium text-slate-900">{formatUnits(p.priceWei, 18)} ETH/token</span></p>
+                              {p.usdCents > BigInt(0) ? (
+                                <p>
+                                  Price: <span className="font-medium text-slate-900">{formatUsdCents(p.usdCents)}/token</span>{' '}
+                                  <span className="text-slate-500">
+                                    {ethUsdQ.data
+                                      ? `≈ ${formatUnits(spotWei, 18)} ETH${hasPriceCurve(p) ? ' (bonding curve)' : ''}`
+                                      : ethUsdQ.isError
+                                        ? '(price feed unavailable)'
+                                        : ''}
+                                  </span>
+                                </p>
+                              ) : (
+                                <p>
+                                  Price: <span className="font-medium text-slate-900">{formatUnits(spotWei, 18)} ETH/token</span>{' '}
+                                  <span className="text-slate-500">
+                                    {ethUsdQ.data ? `≈ ${formatUsdCents(weiToUsdCents(spotWei, ethUsdQ.data))}` : ''}
+                                    {hasPriceCurve(p) ? ' (bonding curve)' : ''}
+                                  </span>
+                                </p>
+                              )}
                               <p>Supply: <span className="font-medium text-slate-900">{displayTokens(p.supply)}</span></p>
                             </div>
                           </div>
@@ -638,6 +1283,8 @@ export default function PresaleDashboard(): JSX.Element {
                             />
                           </div>
                         </div>
+
+                        {hasPriceCurve(p) && <PriceCurve phase={p} />}
                       </div>
                     );
                   })
@@ -696,6 +1343,33 @@ export default function PresaleDashboard(): JSX.Element {
                 />
               </div>
               <div className="mt-2 text-xs font-medium text-slate-700">{softCapPercent}% completed</div>
+
+              {hardCapPercent !== null && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between text-xs font-medium text-slate-700">
+                    <span>Hard Cap ({displayWeiAsEth(hardCap)} ETH)</span>
+                    <span>{hardCapPercent}%</span>
+                  </div>
+                  <div className="mt-2 h-2 rounded-full overflow-hidden bg-slate-200">
+                    <div
+                      className={`h-full rounded-full transition-all duration-500 ${hardCapPercent >= 100 ? 'bg-emerald-500' : 'bg-indigo-500'}`}
+                      style={{ width: `${hardCapPercent}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {canFinalize && clientAddress && (
+                <button
+                  onClick={onFinalize}
+                  disabled={finalizing}
+                  className="mt-4 w-full inline-flex items-center justify-center gap-2 font-medium rounded-lg px-4 py-2 text-sm bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-busy={finalizing}
+                  title="All phases are over — anyone can end the sale"
+                >
+                  {finalizing ? 'Finalizing…' : 'Finalize Sale'}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -704,6 +1378,74 @@ export default function PresaleDashboard(): JSX.Element {
           <h2 className="text-2xl font-bold text-slate-900 mb-2">Buy Tokens</h2>
           <p className="text-slate-600 mb-6">Enter ETH amount to see your estimated tokens</p>
 
+          {auctionPhase && auctionPhaseInfo && (
+            <div className="mb-6 rounded-lg border-2 border-amber-300 bg-amber-50 p-4">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-bold text-amber-900">Dutch Auction · Phase {auctionPhase.phaseId}</span>
+                <span className="text-xs font-semibold px-2 py-1 rounded-full bg-amber-100 text-amber-800">
+                  {auctionPhase.settled ? 'Settled' : auctionClosed ? 'Closed' : 'Live'}
+                </span>
+              </div>
+              <div className="text-3xl font-bold text-amber-900">
+                {auctionPrice !== null ? formatUnits(auctionPrice, 18) : '—'} <span className="text-base font-medium">ETH/token</span>
+              </div>
+              <div className="text-xs text-amber-800 mt-1">
+                {auctionPhase.clearingPrice > BigInt(0)
+                  ? 'Clearing price: every bidder pays this'
+                  : `Falls from ${formatUnits(auctionPhase.startPrice, 18)} to ${formatUnits(auctionPhase.floorPrice, 18)} ETH${
+                      auctionFloorAt === null
+                        ? ''
+                        : auctionFloorAt <= nowSec
+                          ? ' (floor reached)'
+                          : ` (floor in ${formatTimeLeft(auctionFloorAt - nowSec)[0]})`
+                    }`}
+              </div>
+              <div className="text-xs text-amber-800 mt-1">
+                {displayTokens(auctionPhaseInfo.sold)} / {displayTokens(auctionPhaseInfo.supply)} tokens bid
+              </div>
+
+              {myBid && myBid.tokens > BigInt(0) && (
+                <div className="mt-3 pt-3 border-t border-amber-200 text-sm text-amber-900 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span>Your bid:</span>
+                    <span>{displayTokens(myBid.tokens)} tokens for {displayWeiAsEth(myBid.paid)} ETH</span>
+                  </div>
+                  {auctionPrice !== null && (
+                    <div className="flex items-center justify-between text-xs">
+                      <span>Refund at {auctionPhase.clearingPrice > BigInt(0) ? 'clearing' : 'current'} price:</span>
+                      <span>
+                        {displayWeiAsEth(
+                          myBid.paid > (myBid.tokens * auctionPrice) / BigInt(10) ** BigInt(18)
+                            ? myBid.paid - (myBid.tokens * auctionPrice) / BigInt(10) ** BigInt(18)
+                            : BigInt(0)
+                        )} ETH
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!auctionPhase.settled && auctionClosed && (
+                <button
+                  onClick={() => onSettleAuction(auctionPhase.phaseId)}
+                  disabled={!clientAddress || settlingAuction}
+                  className="mt-3 w-full px-4 py-2 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {settlingAuction ? 'Settling…' : 'Settle Auction'}
+                </button>
+              )}
+              {auctionPhase.settled && myBid && myBid.tokens > BigInt(0) && (
+                <button
+                  onClick={() => onSettleMyBid(auctionPhase.phaseId)}
+                  disabled={settlingAuction}
+                  className="mt-3 w-full px-4 py-2 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {settlingAuction ? 'Settling…' : 'Settle My Bid'}
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="mb-6">
             <label className="block text-sm font-medium text-slate-900 mb-3">ETH Amount</label>
             <div className="relative">
@@ -722,9 +1464,53 @@ export default function PresaleDashboard(): JSX.Element {
               <span className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-600">ETH</span>
             </div>
             <div className="mt-2 text-xs text-slate-600">
-              {minBuyQ.data && <span>Min: {displayWeiAsEth(minBuyQ.data)} ETH</span>}
-              {maxPerWalletQ.data && <span className="ml-4">Max: {displayWeiAsEth(maxPerWalletQ.data)} ETH</span>}
+              {activeMinBuy && <span>Min: {displayWeiAsEth(activeMinBuy)} ETH</span>}
+              {phaseMaxPerWallet !== null ? (
+                <span className="ml-4">Max this phase: {displayWeiAsEth(phaseMaxPerWallet)} ETH</span>
+              ) : (
+                maxPerWalletQ.data && <span className="ml-4">Max: {displayWeiAsEth(maxPerWalletQ.data)} ETH</span>
+              )}
             </div>
+            {vouchersRequired ? (
+              <div className="mt-2 text-xs font-medium text-indigo-600">
+                KYC-gated sale: a signed voucher is requested when you buy
+              </div>
+            ) : allowlist && !sendToOther && (
+              <div className={`mt-2 text-xs font-medium ${allowlist.proof ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {allowlist.proof ? '✓ Your wallet is on the allowlist' : '✗ Your wallet is not on the allowlist'}
+              </div>
+            )}
+            {(boundReferrer ?? referrer) && !sendToOther && (
+              <div className="mt-2 text-xs text-slate-600">
+                Referred by <span className="font-mono">{boundReferrer ?? referrer}</span>
+              </div>
+            )}
+
+            <label className="mt-4 flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={sendToOther}
+                onChange={(e) => setSendToOther(e.target.checked)}
+                disabled={buying}
+              />
+              Send to another wallet
+            </label>
+            {sendToOther && (
+              <div className="mt-2">
+                <input
+                  type="text"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  disabled={buying}
+                  className={`w-full bg-white border rounded-lg px-4 py-2 font-mono text-sm text-slate-900 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition disabled:opacity-50 ${recipient && !isAddress(recipient) ? 'border-rose-400' : 'border-slate-300'}`}
+                  placeholder="0x… recipient wallet"
+                  aria-label="Recipient wallet"
+                />
+                <p className="mt-1 text-xs text-slate-600">
+                  The recipient gets the tokens and its wallet limits apply; any excess or refund comes back to you.
+                </p>
+              </div>
+            )}
           </div>
 
           <div className="bg-white rounded-lg p-4 mb-6 border border-slate-200">
@@ -755,6 +1541,21 @@ export default function PresaleDashboard(): JSX.Element {
                     <span>{displayWeiAsEth(calculateQuery.data.excess)} ETH</span>
                   </div>
                 )}
+                {calculateQuery.data.fills.length > 1 && (
+                  <div className="pt-2 border-t border-slate-200 space-y-1">
+                    {calculateQuery.data.fills.map((f) => (
+                      <div
+                        key={f.phaseId}
+                        className="flex items-center justify-between text-xs text-slate-500"
+                      >
+                        <span>Phase {f.phaseId}:</span>
+                        <span>
+                          {displayTokens(f.tokens)} for {displayWeiAsEth(f.cost)} ETH
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : null}
           </div>
@@ -774,7 +1575,7 @@ export default function PresaleDashboard(): JSX.Element {
             title={buying ? 'Processing purchase' : (!canBuy ? buyDisabledReason : 'Buy tokens')}
           >
             <IconZap />
-            <span>{buying ? 'Processing…' : 'Buy Now'}</span>
+            <span>{buying ? 'Processing…' : isAuctionLive ? 'Place Bid' : 'Buy Now'}</span>
           </button>
 
           <p className="text-xs text-slate-600 mt-4">
@@ -799,9 +1600,25 @@ export default function PresaleDashboard(): JSX.Element {
                   {displayTokens(pendingTokensQ.data ?? BigInt(0))}
                 </span>
               </div>
+              {tgeUnlockQ.data != null && (
+                <p className="text-xs text-slate-600">
+                  {tgeUnlockQ.data / 100}% is unlocked at claim; the rest vests in TokenVesting and is released over time.
+                </p>
+              )}
             </div>
 
             <div className="space-y-3">
+              {FORWARDER_ADDRESS && (
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={gaslessClaim}
+                    onChange={(e) => setGaslessClaim(e.target.checked)}
+                    disabled={claiming}
+                  />
+                  Claim without gas (sign only; a relayer submits the transaction)
+                </label>
+              )}
               <button
                 onClick={onClaim}
                 disabled={!clientAddress || claiming || !canClaim}
@@ -817,7 +1634,7 @@ export default function PresaleDashboard(): JSX.Element {
                 title={!mounted ? 'Connect wallet to claim' : (!canClaim ? claimDisabledReason : 'Claim your tokens')}
               >
                 <IconCheckCircle />
-                <span>{claiming ? 'Claiming…' : 'Claim Tokens'}</span>
+                <span>{claiming ? 'Claiming…' : gaslessClaim ? 'Sign & Claim Without Gas' : 'Claim Tokens'}</span>
               </button>
 
               <button
@@ -840,6 +1657,160 @@ export default function PresaleDashboard(): JSX.Element {
             </div>
           </div>
 
+          {clientAddress && (
+            <div className="bg-slate-50 border border-slate-200 rounded-xl p-6 shadow-sm">
+              <h3 className="text-lg font-bold text-slate-900 mb-4">Referral Earnings</h3>
+
+              <div className="mb-4">
+                <label className="block text-xs font-medium text-slate-700 mb-1">Your referral link</label>
+                <input
+                  readOnly
+                  value={referralLink(clientAddress)}
+                  onFocus={(e) => e.target.select()}
+                  className="w-full bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs font-mono text-slate-900"
+                  aria-label="Referral link"
+                />
+              </div>
+
+              <div className="space-y-3 mb-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-700">Referred Buyers</span>
+                  <span className="text-slate-900 font-semibold">{referral?.referralCount ?? 0}</span>
+                </div>
+                <div className="h-px bg-slate-200" />
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-700">Bonus Tokens</span>
+                  <span className="text-slate-900 font-semibold">{displayTokens(referral?.tokensEarned ?? BigInt(0))}</span>
+                </div>
+                <div className="h-px bg-slate-200" />
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-700">ETH Rewards</span>
+                  <span className="text-slate-900 font-semibold">{displayWeiAsEth(referral?.ethEarned ?? BigInt(0))} ETH</span>
+                </div>
+              </div>
+
+              <button
+                onClick={onClaimReferralRewards}
+                disabled={claimingReferral || !canClaimReferral}
+                className={`
+                  w-full inline-flex items-center justify-center gap-2 font-medium rounded-lg
+                  transition-all duration-200 shadow-sm hover:shadow-md
+                  disabled:opacity-50 disabled:cursor-not-allowed
+                  px-4 py-2 text-base focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500
+                  ${claimingReferral || !canClaimReferral ? 'bg-slate-200 text-slate-600 cursor-not-allowed' : 'bg-gradient-to-r from-indigo-600 to-indigo-700 hover:from-indigo-700 hover:to-indigo-800 text-white'}
+                `}
+                aria-busy={claimingReferral}
+                aria-disabled={claimingReferral || !canClaimReferral}
+                title={canClaimReferral ? 'Queue your ETH rewards for withdrawal' : 'ETH rewards are claimable after a successful sale'}
+              >
+                <span>{claimingReferral ? 'Claiming…' : 'Claim ETH Rewards'}</span>
+              </button>
+            </div>
+          )}
+
+          {roles && (roles.admin || roles.phaseManager || roles.pauser || roles.treasurer) && (
+            <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
+              <h3 className="text-lg font-bold text-slate-900 mb-1">Operations</h3>
+              <p className="text-xs text-slate-600 mb-4">
+                Your roles:{' '}
+                {[
+                  roles.admin && 'admin',
+                  roles.phaseManager && 'phase manager',
+                  roles.pauser && 'pauser',
+                  roles.treasurer && 'treasurer',
+                ]
+                  .filter(Boolean)
+                  .join(', ')}
+              </p>
+
+              <div className="space-y-4">
+                {roles.phaseManager && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-semibold text-slate-800">Add phase</h4>
+                    <div className="grid grid-cols-2 gap-2">
+                      <input
+                        value={newPhase.price}
+                        onChange={(e) => setNewPhase({ ...newPhase, price: e.target.value })}
+                        placeholder="Price (ETH per token)"
+                        className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs text-slate-900"
+                        aria-label="Phase price in ETH per token"
+                      />
+                      <input
+                        value={newPhase.supply}
+                        onChange={(e) => setNewPhase({ ...newPhase, supply: e.target.value })}
+                        placeholder="Supply (tokens)"
+                        className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs text-slate-900"
+                        aria-label="Phase supply in tokens"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={newPhase.start}
+                        onChange={(e) => setNewPhase({ ...newPhase, start: e.target.value })}
+                        className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs text-slate-900"
+                        aria-label="Phase start"
+                      />
+                      <input
+                        type="datetime-local"
+                        value={newPhase.end}
+                        onChange={(e) => setNewPhase({ ...newPhase, end: e.target.value })}
+                        className="bg-white border border-slate-300 rounded-lg px-3 py-2 text-xs text-slate-900"
+                        aria-label="Phase end"
+                      />
+                    </div>
+                    <button
+                      onClick={onAddPhase}
+                      disabled={addPhaseMutation.status === 'pending' || !newPhase.price || !newPhase.supply}
+                      className="w-full rounded-lg px-4 py-2 text-sm font-medium bg-slate-800 text-white hover:bg-slate-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {addPhaseMutation.status === 'pending' ? 'Adding…' : 'Add Phase'}
+                    </button>
+                  </div>
+                )}
+
+                {roles.pauser && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={() => onAdminAction('Pause', () => pauseMutation.mutateAsync())}
+                      disabled={pauseMutation.status === 'pending'}
+                      className="rounded-lg px-4 py-2 text-sm font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Pause
+                    </button>
+                    <button
+                      onClick={() => onAdminAction('Unpause', () => unpauseMutation.mutateAsync())}
+                      disabled={unpauseMutation.status === 'pending'}
+                      className="rounded-lg px-4 py-2 text-sm font-medium bg-slate-200 text-slate-800 hover:bg-slate-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Unpause
+                    </button>
+                  </div>
+                )}
+
+                {roles.admin && (
+                  <button
+                    onClick={() => onAdminAction('End sale', () => endSaleMutation.mutateAsync())}
+                    disabled={saleEnded || endSaleMutation.status === 'pending'}
+                    title={saleEnded ? 'The sale has ended' : 'End the sale now'}
+                    className="w-full rounded-lg px-4 py-2 text-sm font-medium bg-rose-600 text-white hover:bg-rose-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    End Sale
+                  </button>
+                )}
+
+                {roles.treasurer && clientAddress && (
+                  <button
+                    onClick={() => onAdminAction('Withdraw proceeds', () => withdrawProceedsMutation.mutateAsync(clientAddress))}
+                    disabled={!canWithdrawProceeds || withdrawProceedsMutation.status === 'pending'}
+                    title={canWithdrawProceeds ? 'Withdraw the ETH proceeds to this wallet' : withdrawDisabledReason}
+                    className="w-full rounded-lg px-4 py-2 text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Withdraw Proceeds
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
           <div className="bg-white border border-slate-200 rounded-xl p-6 shadow-sm">
             <h3 className="text-sm font-bold text-slate-900 mb-3">Help</h3>
             <ul className="space-y-2 text-xs text-slate-700">
@@ -1,5 +1,20 @@
 export type TxHash = `0x${string}`;
 
+export type MerkleProof = readonly `0x${string}`[];
+
+// EIP-712 purchase approval, see packages/contracts/scripts/sign-voucher.ts
+export interface PurchaseVoucher {
+  buyer: `0x${string}`;
+  maxAmount: bigint; // wei the purchase may send
+  expiry: bigint; // unix timestamp, inclusive
+  nonce: bigint; // single use per buyer
+}
+
+export interface SignedVoucher {
+  voucher: PurchaseVoucher;
+  signature: `0x${string}`;
+}
+
 export interface Phase {
   phaseId: number;
   priceWei: bigint;
@@ -7,10 +22,91 @@ export interface Phase {
   sold: bigint;
   start: number; 
   end: number;   
+  priceIncrementWei: bigint; // bonding curve: price rise per whole token sold (or per step), 0 = flat
+  stepSize: bigint; // bonding curve: token units per price step, 0 = linear
+  minBuy: bigint; // wei, 0 = global minBuy
+  maxPerWallet: bigint; // wei per wallet in this phase, 0 = global maxPerWallet over the whole sale
+  usdCents: bigint; // US cents per whole token converted at the ETH/USD feed, 0 = priced in wei
+}
+
+export interface EthUsdPrice {
+  answer: bigint; // feed answer, USD per ETH with `decimals` decimals
+  decimals: number;
+}
+
+export interface PhaseFill {
+  phaseId: number;
+  tokens: bigint;
+  cost: bigint;
 }
 
 export interface CalcResult {
   tokens: bigint;
   cost: bigint;
   excess: bigint;
+  fills: PhaseFill[]; // per-phase breakdown when a purchase spills over
+}
+
+export interface AuctionInfo {
+  phaseId: number;
+  startPrice: bigint; // wei per whole token at phase start
+  floorPrice: bigint;
+  decayPerSecond: bigint;
+  clearingPrice: bigint; // 0 until the auction sells out or is settled
+  settled: boolean;
+}
+
+export interface AuctionBidInfo {
+  tokens: bigint;
+  paid: bigint; // at the bid prices, overpayment is refunded on settlement
+}
+
+export interface ReferralStats {
+  referrer: `0x${string}` | null; // who referred this wallet
+  referralCount: number;
+  tokensEarned: bigint;
+  ethEarned: bigint; // unclaimed ETH rewards
+}
+
+// Milestone tranche of the ETH proceeds
+export interface ProceedsTranche {
+  index: number;
+  bps: number; // share of the proceeds
+  unlockTime: number; // unix seconds, 0 = no time lock
+  needsApproval: boolean;
+  approved: boolean;
+  withdrawn: boolean;
+}
+
+// Tranche schedule; buyers can vote to halt the tranches left and get the rest refunded pro-rata
+export interface TrancheSchedule {
+  tranches: ProceedsTranche[]; // empty when withdrawProceeds pays out at once
+  withdrawn: bigint; // wei paid out through tranches
+  haltQuorumBps: number; // share of totalRaised whose votes halt the schedule, 0 = no vote
+  haltVotesWei: bigint;
+  halted: boolean;
+  refundPool: bigint; // wei left at the halt
+}
+
+export interface TrancheVote {
+  voted: boolean;
+  refund: bigint; // wei refundable once halted
+}
+
+// Roles held by a wallet on the presale; admin can grant and revoke the others
+export interface PresaleRoles {
+  admin: boolean;
+  phaseManager: boolean; // phases, auctions, prices, allowlists
+  pauser: boolean;
+  treasurer: boolean; // proceeds withdrawals, batch claims
+}
+
+// Timelocked sale parameters, in DynamicPresaleBase.SaleParam order
+export const SALE_PARAMETERS = ["softCap", "minBuy", "maxPerWallet"] as const;
+export type SaleParameter = (typeof SALE_PARAMETERS)[number];
+
+export interface PendingParameterChange {
+  parameter: SaleParameter;
+  value: bigint; // wei
+  eta: number; // unix seconds from which the admin can execute it
 }
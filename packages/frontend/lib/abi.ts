@@ -2,32 +2,81 @@ import { parseAbi } from "viem";
 
 export const DynamicPresaleABI = [
   "function totalPhases() view returns (uint256)",
-  "function getPhase(uint256) view returns (uint256 priceWei, uint256 supply, uint256 sold, uint256 start, uint256 end)",
-  "function calculateTokens(uint256) view returns (uint256 tokens, uint256 cost, uint256 excess)",
+  "function getPhase(uint256) view returns (uint256 priceWei, uint256 supply, uint256 sold, uint256 start, uint256 end, uint256 priceIncrementWei, uint256 stepSize, uint256 minBuy, uint256 maxPerWallet)",
+  "function getPhasePrice(uint256) view returns (uint256)",
+  "function phaseUsdPrices(uint256) view returns (uint256)",
+  "function priceFeed() view returns (address)",
+  "function priceFeedDecimals() view returns (uint8)",
+  "function getEthUsdPrice() view returns (uint256)",
+  "function auctions(uint256) view returns (uint256 startPrice, uint256 floorPrice, uint256 decayPerSecond, uint256 clearingPrice, bool settled)",
+  "function auctionBids(uint256, address) view returns (uint256 tokens, uint256 paid)",
+  "function getAuctionPrice(uint256) view returns (uint256)",
+  "function totalAuctionDeposits() view returns (uint256)",
+  "function calculateTokens(uint256) view returns (uint256 tokens, uint256 cost, uint256 excess, (uint256 phaseId, uint256 tokens, uint256 cost)[] fills)",
   "function remainingTokensInCurrentPhase() view returns (uint256)",
   "function contributionsWei(address) view returns (uint256)",
+  "function phaseContributionsWei(uint256 phaseId, address) view returns (uint256)",
   "function pendingTokens(address) view returns (uint256)",
   "function totalBuyers() view returns (uint256)",
   "function totalRaised() view returns (uint256)",
   "function totalTokensSold() view returns (uint256)",
   "function softCapReached() view returns (bool)",
   "function saleEnded() view returns (bool)",
+  "function saleCancelled() view returns (bool)",
   "function softCap() view returns (uint256)",
+  "function hardCap() view returns (uint256)",
+  "function spilloverEnabled() view returns (bool)",
   "function minBuy() view returns (uint256)",
   "function maxPerWallet() view returns (uint256)",
+  "function parameterDelay() view returns (uint256)",
+  "function pendingChanges(uint8 param) view returns (uint256 value, uint256 eta)",
   "function hasActivePhase() view returns (bool)",
   "function getCurrentPhase() view returns (uint256)",
   "function paymentsOf(address) view returns (uint256)",
   "function escrowBalance() view returns (uint256)",
-  "function owner() view returns (address)",
+  "function getTranches() view returns ((uint256 bps, uint256 unlockTime, bool needsApproval, bool approved, bool withdrawn)[] tranches, uint256 withdrawn, uint256 haltQuorumBps, uint256 haltVotesWei, bool halted, uint256 refundPool)",
+  "function trancheVoteOf(address buyer) view returns (bool voted, uint256 refund)",
+  "function hasRole(bytes32 role, address account) view returns (bool)",
   "function tokenDecimals() view returns (uint8)",
   "function tokenUnit() view returns (uint256)",
+  "function allowlistRoot() view returns (bytes32)",
+  "function phaseAllowlistRoots(uint256) view returns (bytes32)",
+  "function isAllowlisted(uint256 phaseId, address account, bytes32[] proof) view returns (bool)",
+  "function voucherSigner() view returns (address)",
+  "function vouchersRequired() view returns (bool)",
+  "function voucherNonceUsed(address buyer, uint256 nonce) view returns (bool)",
+  "function phaseTokenPrices(uint256 phaseId, address payToken) view returns (uint256)",
+  "function getPaymentTokens() view returns (address[])",
+  "function calculateTokensWithToken(address payToken, uint256 amount) view returns (uint256 tokens, uint256 cost, uint256 excess)",
+  "function tokenContributions(address buyer, address payToken) view returns (uint256)",
+  "function tokenPaymentsOf(address payToken, address account) view returns (uint256)",
+  "function referralBonusBps() view returns (uint256)",
+  "function referralRewardInEth() view returns (bool)",
+  "function referrerOf(address) view returns (address)",
+  "function referralCount(address) view returns (uint256)",
+  "function referralTokensEarned(address) view returns (uint256)",
+  "function referralRewardsWei(address) view returns (uint256)",
+  "function vesting() view returns (address)",
+  "function tgeUnlockBps() view returns (uint256)",
   "function buy() payable",
+  "function buyWithProof(bytes32[] proof) payable",
+  "function buyFor(address beneficiary, address refundTo, bytes32[] proof) payable",
+  "function buyWithReferrer(address referrer, bytes32[] proof) payable",
+  "function buyWithVoucher((address buyer, uint256 maxAmount, uint256 expiry, uint256 nonce) voucher, bytes signature) payable",
+  "function bid(bytes32[] proof) payable",
+  "function settleAuction(uint256 phaseId)",
+  "function settleAuctionBid(uint256 phaseId, address bidder)",
+  "function claimReferralRewards()",
+  "function buyWithToken(address payToken, uint256 amount, bytes32[] proof)",
+  "function withdrawTokenPayments(address payToken)",
   "function claim()",
   "function requestRefund()",
+  "function requestSponsoredRefund(address beneficiary)",
+  "function voteToHaltTranches()",
   "function addPhase(uint256 priceWei, uint256 supply, uint256 start, uint256 end)",
   "function withdrawProceeds(address beneficiary)",
   "function endSale()",
+  "function finalize()",
   "function pause()",
   "function unpause()",
 ] as const;
@@ -36,9 +85,27 @@ export const DynamicPresaleAbiParsed = parseAbi(
   DynamicPresaleABI as readonly string[]
 );
 
+export const PresaleForwarderABI = [
+  "function nonces(address owner) view returns (uint256)",
+] as const;
+
+export const PresaleForwarderAbiParsed = parseAbi(
+  PresaleForwarderABI as readonly string[]
+);
+
 export const MyTokenABI = [
   "function decimals() view returns (uint8)",
   "function balanceOf(address) view returns (uint256)",
 ] as const;
 
 export const MyTokenAbiParsed = parseAbi(MyTokenABI as readonly string[]);
+
+export const ERC20ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function balanceOf(address) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+] as const;
+
+export const ERC20AbiParsed = parseAbi(ERC20ABI as readonly string[]);
@@ -0,0 +1,43 @@
+import type { MerkleProof } from "@/app/types/presale.type";
+
+// JSON produced by packages/contracts/scripts/build-allowlist.ts
+export const ALLOWLIST_URL =
+  process.env.NEXT_PUBLIC_ALLOWLIST_URL ?? "/allowlist.json";
+
+interface AllowlistFile {
+  root: `0x${string}`;
+  phaseId: number | null;
+  total: number;
+  proofs: Record<string, `0x${string}`[]>;
+}
+
+export interface AllowlistLookup {
+  root: `0x${string}`;
+  phaseId: number | null;
+  proof: MerkleProof | null; // null when the wallet is not on the list
+}
+
+/**
+ * Fetch the allowlist file and pick the proof for `address`.
+ * Returns null when no allowlist is published (sale is open to everyone).
+ */
+export async function fetchAllowlistProof(
+  address: string
+): Promise<AllowlistLookup | null> {
+  const res = await fetch(ALLOWLIST_URL, { cache: "no-store" });
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`fetchAllowlistProof: failed to load allowlist (${res.status})`);
+  }
+
+  const file = (await res.json()) as AllowlistFile;
+  if (!file || typeof file !== "object" || !file.proofs) {
+    throw new Error("fetchAllowlistProof: unexpected allowlist file shape");
+  }
+
+  return {
+    root: file.root,
+    phaseId: file.phaseId ?? null,
+    proof: file.proofs[address.toLowerCase()] ?? null,
+  };
+}
@@ -0,0 +1,78 @@
+import type { AuctionInfo, EthUsdPrice, Phase } from "@/app/types/presale.type";
+
+const TOKEN_UNIT = BigInt(10) ** BigInt(18);
+
+export function hasPriceCurve(phase: Phase): boolean {
+  return phase.priceIncrementWei > BigInt(0);
+}
+
+/**
+ * Spot price (wei per whole token) after `sold` token units, mirroring
+ * PhasePricing.priceAt: flat, linear (stepSize 0) or stepwise.
+ */
+export function phasePriceAt(phase: Phase, sold: bigint): bigint {
+  if (!hasPriceCurve(phase)) return phase.priceWei;
+  if (phase.stepSize === BigInt(0)) {
+    return phase.priceWei + (phase.priceIncrementWei * sold) / TOKEN_UNIT;
+  }
+  return phase.priceWei + phase.priceIncrementWei * (sold / phase.stepSize);
+}
+
+/** Wei per whole token for a USD price in cents, mirroring PriceFeed.usdCentsToWei. */
+export function usdCentsToWei(usdCents: bigint, ethUsd: EthUsdPrice): bigint {
+  return (usdCents * TOKEN_UNIT * BigInt(10) ** BigInt(ethUsd.decimals)) / (BigInt(100) * ethUsd.answer);
+}
+
+/** US cents a wei amount is worth at the feed answer, rounded down. */
+export function weiToUsdCents(wei: bigint, ethUsd: EthUsdPrice): bigint {
+  return (wei * ethUsd.answer * BigInt(100)) / (TOKEN_UNIT * BigInt(10) ** BigInt(ethUsd.decimals));
+}
+
+export function formatUsdCents(cents: bigint): string {
+  const dollars = cents / BigInt(100);
+  const rest = (cents % BigInt(100)).toString().padStart(2, "0");
+  return `$${dollars.toLocaleString("en-US")}.${rest}`;
+}
+
+/**
+ * The phase as the contract prices it right now: a USD-priced phase starts
+ * its curve at the converted price. Unchanged without a USD price or feed.
+ */
+export function withUsdPrice(phase: Phase, ethUsd: EthUsdPrice | null | undefined): Phase {
+  if (phase.usdCents === BigInt(0) || !ethUsd) return phase;
+  return { ...phase, priceWei: usdCentsToWei(phase.usdCents, ethUsd) };
+}
+
+/**
+ * Sample the phase's price curve over its whole supply for plotting.
+ * Returns `samples + 1` points from sold = 0 to sold = supply.
+ */
+export function phaseCurvePoints(
+  phase: Phase,
+  samples = 40
+): { sold: bigint; priceWei: bigint }[] {
+  const points: { sold: bigint; priceWei: bigint }[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const sold = (phase.supply * BigInt(i)) / BigInt(samples);
+    points.push({ sold, priceWei: phasePriceAt(phase, sold) });
+  }
+  return points;
+}
+
+/**
+ * Dutch auction price (wei per whole token) at `nowSec`, mirroring the
+ * contract: linear decay from startPrice at phase start down to floorPrice.
+ */
+export function auctionPriceAt(auction: AuctionInfo, phase: Phase, nowSec: number): bigint {
+  if (nowSec <= phase.start) return auction.startPrice;
+  const drop = auction.decayPerSecond * BigInt(nowSec - phase.start);
+  if (drop >= auction.startPrice - auction.floorPrice) return auction.floorPrice;
+  return auction.startPrice - drop;
+}
+
+/** Seconds from phase start until an auction reaches its floor price (null if it never decays). */
+export function secondsToFloor(auction: AuctionInfo): number | null {
+  if (auction.decayPerSecond === BigInt(0)) return null;
+  const span = auction.startPrice - auction.floorPrice;
+  return Number((span + auction.decayPerSecond - BigInt(1)) / auction.decayPerSecond);
+}
@@ -0,0 +1,36 @@
+import { isAddress } from "viem";
+
+// Referral links look like /presale?ref=0x...
+export const REFERRAL_QUERY_PARAM = "ref";
+export const REFERRER_STORAGE_KEY = "presale:referrer";
+
+/**
+ * Read a referrer from the current URL and persist it, so the link still
+ * applies if the visitor connects a wallet and buys later.
+ * Returns the persisted referrer (if any) when the URL has none.
+ */
+export function captureReferrer(): `0x${string}` | null {
+  if (typeof window === "undefined") return null;
+
+  const fromUrl = new URLSearchParams(window.location.search).get(REFERRAL_QUERY_PARAM);
+  if (fromUrl && isAddress(fromUrl)) {
+    try {
+      window.localStorage.setItem(REFERRER_STORAGE_KEY, fromUrl);
+    } catch {
+      // storage may be unavailable (private mode); the URL value still applies
+    }
+    return fromUrl;
+  }
+
+  try {
+    const stored = window.localStorage.getItem(REFERRER_STORAGE_KEY);
+    return stored && isAddress(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function referralLink(address: string): string {
+  if (typeof window === "undefined") return `/presale?${REFERRAL_QUERY_PARAM}=${address}`;
+  return `${window.location.origin}/presale?${REFERRAL_QUERY_PARAM}=${address}`;
+}
@@ -0,0 +1,60 @@
+import type { TxHash } from "@/app/types/presale.type";
+
+// Relayer that submits signed forward requests: packages/contracts/scripts/relayer.ts by default
+export const RELAYER_URL =
+  process.env.NEXT_PUBLIC_RELAYER_URL ?? "http://localhost:8787/relay";
+
+// Must match ERC2771Forwarder's ForwardRequest typehash
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+} as const;
+
+export function forwarderDomain(forwarder: `0x${string}`, chainId: number) {
+  return { name: "PresaleForwarder", version: "1", chainId, verifyingContract: forwarder } as const;
+}
+
+export interface SignedForwardRequest {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  value: bigint;
+  gas: bigint;
+  deadline: bigint;
+  data: `0x${string}`;
+  signature: `0x${string}`;
+}
+
+/**
+ * Post a signed forward request to the relayer, which executes it and pays the gas.
+ * Throws when the relayer refuses (unsupported call, bad signature, expired deadline).
+ */
+export async function relayForwardRequest(request: SignedForwardRequest): Promise<TxHash> {
+  const res = await fetch(RELAYER_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ...request,
+      value: request.value.toString(),
+      gas: request.gas.toString(),
+      deadline: request.deadline.toString(),
+    }),
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`relayForwardRequest: relayer refused (${res.status}) ${detail}`.trim());
+  }
+
+  const body = (await res.json()) as { txHash?: TxHash };
+  if (!body?.txHash) {
+    throw new Error("relayForwardRequest: unexpected relayer response shape");
+  }
+  return body.txHash;
+}
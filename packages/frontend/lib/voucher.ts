@@ -0,0 +1,45 @@
+import type { SignedVoucher } from "@/app/types/presale.type";
+
+// Voucher issuer: the dev route in app/api/voucher, or a KYC provider's endpoint
+export const VOUCHER_API_URL =
+  process.env.NEXT_PUBLIC_VOUCHER_API_URL ?? "/api/voucher";
+
+interface VoucherResponse {
+  voucher: { buyer: `0x${string}`; maxAmount: string; expiry: string; nonce: string };
+  signature: `0x${string}`;
+}
+
+/**
+ * Ask the issuer for a voucher letting `address` spend up to `maxAmountWei`.
+ * Throws when the issuer refuses (e.g. the wallet has not passed KYC).
+ */
+export async function fetchVoucher(
+  address: string,
+  maxAmountWei: bigint
+): Promise<SignedVoucher> {
+  const res = await fetch(VOUCHER_API_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ buyer: address, maxAmount: maxAmountWei.toString() }),
+    cache: "no-store",
+  });
+  if (!res.ok) {
+    const detail = await res.text().catch(() => "");
+    throw new Error(`fetchVoucher: issuer refused (${res.status}) ${detail}`.trim());
+  }
+
+  const body = (await res.json()) as VoucherResponse;
+  if (!body?.voucher || !body.signature) {
+    throw new Error("fetchVoucher: unexpected voucher response shape");
+  }
+
+  return {
+    voucher: {
+      buyer: body.voucher.buyer,
+      maxAmount: BigInt(body.voucher.maxAmount),
+      expiry: BigInt(body.voucher.expiry),
+      nonce: BigInt(body.voucher.nonce),
+    },
+    signature: body.signature,
+  };
+}
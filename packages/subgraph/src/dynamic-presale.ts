@@ -1,25 +1,62 @@
-import { BigInt, Bytes } from "@graphprotocol/graph-ts";
+import { Address, BigInt, Bytes, store } from "@graphprotocol/graph-ts";
 import {
   Purchased,
+  PurchasedWithToken,
   Claimed,
+  ClaimVested,
   RefundRequested,
   PhaseAdded,
+  PhaseUpdated,
+  PhaseCurveSet,
+  PhaseLimitsSet,
+  PriceFeedSet,
+  PhaseUsdPriceSet,
+  VoucherSignerSet,
+  VoucherRedeemed,
   SoftCapReached,
+  HardCapSet,
+  HardCapReached,
   SaleEnded,
+  SaleCancelled,
   Withdrawn,
+  PayeesSet,
+  TranchesSet,
+  TrancheApproved,
+  TrancheWithdrawn,
+  TrancheHaltVoted,
+  TranchesHalted,
   PaymentsWithdrawn,
-  PaymentQueued as PaymentQueuedEvent
+  PaymentQueued as PaymentQueuedEvent,
+  ReferrerSet,
+  ReferralRewarded,
+  AuctionSet,
+  AuctionBidPlaced,
+  AuctionSettled,
+  AuctionBidSettled,
+  ParameterDelaySet,
+  ParameterChangeQueued,
+  ParameterChangeExecuted,
+  ParameterChangeCancelled
 } from "../generated/DynamicPresale/DynamicPresale";
 import {
   User,
   PresaleStats,
   Phase,
+  PhaseUpdate,
   Purchase,
   Claim,
   Refund,
+  VoucherRedemption,
   Withdrawal,
   PaymentWithdrawal,
-  PaymentQueued as PaymentQueuedEntity
+  PaymentQueued as PaymentQueuedEntity,
+  Referral,
+  Auction,
+  AuctionBid,
+  ParameterChange,
+  Payee,
+  Tranche,
+  TrancheHaltVote
 } from "../generated/schema";
 
 function getOrCreateUser(address: Bytes, timestamp: BigInt): User {
@@ -35,6 +72,10 @@ function getOrCreateUser(address: Bytes, timestamp: BigInt): User {
     user.totalReleased = BigInt.fromI32(0);
     user.tokenBalance = BigInt.fromI32(0);
     user.pendingPayments = BigInt.fromI32(0);
+    user.referralCount = BigInt.fromI32(0);
+    user.referralTokensEarned = BigInt.fromI32(0);
+    user.referralEthEarned = BigInt.fromI32(0);
+    user.votes = BigInt.fromI32(0);
     user.firstInteractionTimestamp = timestamp;
     user.lastInteractionTimestamp = timestamp;
     user.save();
@@ -50,10 +91,22 @@ function getOrCreatePresaleStats(): PresaleStats {
     stats.totalTokensSold = BigInt.fromI32(0);
     stats.totalBuyers = BigInt.fromI32(0);
     stats.softCap = BigInt.fromI32(0);
+    stats.hardCap = BigInt.fromI32(0);
     stats.minBuy = BigInt.fromI32(0);
     stats.maxPerWallet = BigInt.fromI32(0);
+    stats.maxPriceAge = BigInt.fromI32(0);
+    stats.maxPriceDeviationBps = BigInt.fromI32(0);
+    stats.parameterDelay = BigInt.fromI32(0);
     stats.softCapReached = false;
+    stats.hardCapReached = false;
     stats.saleEnded = false;
+    stats.cancelled = false;
+    stats.payees = [];
+    stats.totalTranches = BigInt.fromI32(0);
+    stats.trancheHaltQuorumBps = BigInt.fromI32(0);
+    stats.trancheHaltVotes = BigInt.fromI32(0);
+    stats.tranchesHalted = false;
+    stats.trancheRefundPool = BigInt.fromI32(0);
     stats.totalPhases = BigInt.fromI32(0);
     stats.totalPurchases = BigInt.fromI32(0);
     stats.totalClaims = BigInt.fromI32(0);
@@ -69,6 +122,7 @@ export function handlePurchased(event: Purchased): void {
   let user = getOrCreateUser(event.params.buyer, event.block.timestamp);
   let stats = getOrCreatePresaleStats();
   
+  let isFirstPurchase = user.totalTokensPurchased.equals(BigInt.fromI32(0)) && user.totalContributed.equals(BigInt.fromI32(0));
   user.totalContributed = user.totalContributed.plus(event.params.ethAmount);
   user.totalTokensPurchased = user.totalTokensPurchased.plus(event.params.tokensAmount);
   user.lastInteractionTimestamp = event.block.timestamp;
@@ -77,8 +131,11 @@ export function handlePurchased(event: Purchased): void {
   let purchaseId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
   let purchase = new Purchase(purchaseId);
   purchase.buyer = user.id;
+  purchase.payer = event.params.payer;
   purchase.phase = event.params.phaseId.toString();
   purchase.ethAmount = event.params.ethAmount;
+  purchase.paymentToken = Address.zero();
+  purchase.paymentAmount = event.params.ethAmount;
   purchase.tokensAmount = event.params.tokensAmount;
   purchase.timestamp = event.block.timestamp;
   purchase.blockNumber = event.block.number;
@@ -100,7 +157,7 @@ export function handlePurchased(event: Purchased): void {
   stats.totalTokensSold = stats.totalTokensSold.plus(event.params.tokensAmount);
   stats.totalPurchases = stats.totalPurchases.plus(BigInt.fromI32(1));
   
-  if (user.totalContributed == event.params.ethAmount) {
+  if (isFirstPurchase) {
     stats.totalBuyers = stats.totalBuyers.plus(BigInt.fromI32(1));
   }
   
@@ -108,6 +165,50 @@ export function handlePurchased(event: Purchased): void {
   stats.save();
 }
 
+export function handlePurchasedWithToken(event: PurchasedWithToken): void {
+  let user = getOrCreateUser(event.params.buyer, event.block.timestamp);
+  let stats = getOrCreatePresaleStats();
+
+  // ERC-20 payments are not ETH, so totalContributed/totalRaised are left untouched
+  let isFirstPurchase = user.totalTokensPurchased.equals(BigInt.fromI32(0)) && user.totalContributed.equals(BigInt.fromI32(0));
+  user.totalTokensPurchased = user.totalTokensPurchased.plus(event.params.tokensAmount);
+  user.lastInteractionTimestamp = event.block.timestamp;
+  user.save();
+
+  let purchaseId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+  let purchase = new Purchase(purchaseId);
+  purchase.buyer = user.id;
+  purchase.payer = event.params.buyer;
+  purchase.phase = event.params.phaseId.toString();
+  purchase.ethAmount = BigInt.fromI32(0);
+  purchase.paymentToken = event.params.payToken;
+  purchase.paymentAmount = event.params.paidAmount;
+  purchase.tokensAmount = event.params.tokensAmount;
+  purchase.timestamp = event.block.timestamp;
+  purchase.blockNumber = event.block.number;
+  purchase.transactionHash = event.transaction.hash;
+  purchase.save();
+
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase != null) {
+    phase.sold = phase.sold.plus(event.params.tokensAmount);
+    phase.remaining = phase.supply.minus(phase.sold);
+    if (phase.sold >= phase.supply) {
+      phase.isCompleted = true;
+      phase.isActive = false;
+    }
+    phase.save();
+  }
+
+  stats.totalTokensSold = stats.totalTokensSold.plus(event.params.tokensAmount);
+  stats.totalPurchases = stats.totalPurchases.plus(BigInt.fromI32(1));
+  if (isFirstPurchase) {
+    stats.totalBuyers = stats.totalBuyers.plus(BigInt.fromI32(1));
+  }
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
 export function handleClaimed(event: Claimed): void {
   let user = getOrCreateUser(event.params.buyer, event.block.timestamp);
   let stats = getOrCreatePresaleStats();
@@ -131,6 +232,21 @@ export function handleClaimed(event: Claimed): void {
   stats.save();
 }
 
+export function handleClaimVested(event: ClaimVested): void {
+  // The contract emits ClaimVested right after Claimed, so the Claim entity sits one log earlier
+  let claimId = event.transaction.hash.toHexString() + "-" + event.logIndex.minus(BigInt.fromI32(1)).toString();
+  let claim = Claim.load(claimId);
+  if (claim == null) return;
+
+  claim.tgeAmount = event.params.tgeAmount;
+  claim.vestedAmount = event.params.vestedAmount;
+  if (event.params.vestedAmount.gt(BigInt.fromI32(0))) {
+    // Same id scheme as VestingSchedule in token-vesting.ts
+    claim.vestingSchedule = event.params.buyer.toHexString() + "-" + event.params.scheduleId.toString();
+  }
+  claim.save();
+}
+
 export function handleRefundRequested(event: RefundRequested): void {
   let user = getOrCreateUser(event.params.buyer, event.block.timestamp);
   let stats = getOrCreatePresaleStats();
@@ -181,6 +297,11 @@ export function handlePhaseAdded(event: PhaseAdded): void {
   let phase = new Phase(event.params.phaseId.toString());
   phase.phaseId = event.params.phaseId;
   phase.priceWei = event.params.priceWei;
+  phase.priceIncrementWei = BigInt.fromI32(0);
+  phase.stepSize = BigInt.fromI32(0);
+  phase.minBuy = BigInt.fromI32(0);
+  phase.maxPerWallet = BigInt.fromI32(0);
+  phase.usdPriceCents = BigInt.fromI32(0);
   phase.supply = event.params.supply;
   phase.sold = BigInt.fromI32(0);
   phase.remaining = event.params.supply;
@@ -197,6 +318,107 @@ export function handlePhaseAdded(event: PhaseAdded): void {
   stats.save();
 }
 
+export function handlePhaseUpdated(event: PhaseUpdated): void {
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase == null) return;
+
+  let update = new PhaseUpdate(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  );
+  update.phase = phase.id;
+  update.previousPriceWei = phase.priceWei;
+  update.priceWei = event.params.priceWei;
+  update.previousSupply = phase.supply;
+  update.supply = event.params.supply;
+  update.previousStartTime = phase.startTime;
+  update.startTime = event.params.start;
+  update.previousEndTime = phase.endTime;
+  update.endTime = event.params.end;
+  update.timestamp = event.block.timestamp;
+  update.blockNumber = event.block.number;
+  update.transactionHash = event.transaction.hash;
+  update.save();
+
+  phase.priceWei = event.params.priceWei;
+  phase.supply = event.params.supply;
+  phase.remaining = event.params.supply.minus(phase.sold);
+  phase.startTime = event.params.start;
+  phase.endTime = event.params.end;
+  phase.save();
+
+  let stats = getOrCreatePresaleStats();
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handlePhaseCurveSet(event: PhaseCurveSet): void {
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase == null) return;
+
+  phase.priceIncrementWei = event.params.priceIncrementWei;
+  phase.stepSize = event.params.stepSize;
+  phase.save();
+
+  let stats = getOrCreatePresaleStats();
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handlePhaseLimitsSet(event: PhaseLimitsSet): void {
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase == null) return;
+
+  phase.minBuy = event.params.minBuy;
+  phase.maxPerWallet = event.params.maxPerWallet;
+  phase.save();
+
+  let stats = getOrCreatePresaleStats();
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handlePriceFeedSet(event: PriceFeedSet): void {
+  let stats = getOrCreatePresaleStats();
+  stats.priceFeed = event.params.feed.equals(Address.zero()) ? null : event.params.feed;
+  stats.maxPriceAge = event.params.maxAge;
+  stats.maxPriceDeviationBps = event.params.maxDeviationBps;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handlePhaseUsdPriceSet(event: PhaseUsdPriceSet): void {
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase == null) return;
+
+  phase.usdPriceCents = event.params.usdCents;
+  phase.save();
+
+  let stats = getOrCreatePresaleStats();
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleVoucherSignerSet(event: VoucherSignerSet): void {
+  let stats = getOrCreatePresaleStats();
+  stats.voucherSigner = event.params.signer.equals(Address.zero()) ? null : event.params.signer;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleVoucherRedeemed(event: VoucherRedeemed): void {
+  // Purchased follows in the same transaction and updates the buyer's totals
+  let user = getOrCreateUser(event.params.buyer, event.block.timestamp);
+
+  let redemption = new VoucherRedemption(event.transaction.hash.toHexString() + "-" + event.logIndex.toString());
+  redemption.buyer = user.id;
+  redemption.nonce = event.params.nonce;
+  redemption.ethAmount = event.params.ethAmount;
+  redemption.timestamp = event.block.timestamp;
+  redemption.blockNumber = event.block.number;
+  redemption.transactionHash = event.transaction.hash;
+  redemption.save();
+}
+
 export function handleSoftCapReached(event: SoftCapReached): void {
   let stats = getOrCreatePresaleStats();
   stats.softCapReached = true;
@@ -204,6 +426,20 @@ export function handleSoftCapReached(event: SoftCapReached): void {
   stats.save();
 }
 
+export function handleHardCapSet(event: HardCapSet): void {
+  let stats = getOrCreatePresaleStats();
+  stats.hardCap = event.params.hardCap;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleHardCapReached(event: HardCapReached): void {
+  let stats = getOrCreatePresaleStats();
+  stats.hardCapReached = true;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
 export function handleSaleEnded(event: SaleEnded): void {
   let stats = getOrCreatePresaleStats();
   stats.saleEnded = true;
@@ -213,17 +449,69 @@ export function handleSaleEnded(event: SaleEnded): void {
   stats.save();
 }
 
+export function handleSaleCancelled(event: SaleCancelled): void {
+  let stats = getOrCreatePresaleStats();
+  stats.cancelled = true;
+  stats.cancelledTimestamp = event.block.timestamp;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
 export function handleWithdrawn(event: Withdrawn): void {
   let withdrawalId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
   let withdrawal = new Withdrawal(withdrawalId);
   withdrawal.beneficiary = event.params.beneficiary;
   withdrawal.amount = event.params.amount;
+
+  // withdrawProceeds is blocked while payees are set, so a Withdrawn to a current payee is a releaseProceeds
+  let payee = Payee.load(event.params.beneficiary.toHexString());
+  if (payee != null && payee.shareBps.gt(BigInt.fromI32(0))) {
+    payee.released = payee.released.plus(event.params.amount);
+    payee.save();
+    withdrawal.payee = payee.id;
+    withdrawal.shareBps = payee.shareBps;
+  }
+
   withdrawal.timestamp = event.block.timestamp;
   withdrawal.blockNumber = event.block.number;
   withdrawal.transactionHash = event.transaction.hash;
   withdrawal.save();
 }
 
+export function handlePayeesSet(event: PayeesSet): void {
+  let stats = getOrCreatePresaleStats();
+
+  // setPayees replaces the whole split
+  let previous = stats.payees;
+  for (let i = 0; i < previous.length; i++) {
+    let removed = Payee.load(previous[i]);
+    if (removed != null) {
+      removed.shareBps = BigInt.fromI32(0);
+      removed.save();
+    }
+  }
+
+  let accounts = event.params.payees;
+  let shares = event.params.sharesBps;
+  let ids: string[] = [];
+  for (let i = 0; i < accounts.length; i++) {
+    let id = accounts[i].toHexString();
+    let payee = Payee.load(id);
+    if (payee == null) {
+      payee = new Payee(id);
+      payee.address = accounts[i];
+      payee.released = BigInt.fromI32(0);
+    }
+    payee.shareBps = shares[i];
+    payee.save();
+    ids.push(id);
+  }
+
+  stats.payees = ids;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
 export function handlePaymentsWithdrawn(event: PaymentsWithdrawn): void {
   let user = getOrCreateUser(event.params.payee, event.block.timestamp);
   
@@ -256,3 +544,257 @@ export function handlePaymentsWithdrawn(event: PaymentsWithdrawn): void {
   stats.lastUpdatedTimestamp = event.block.timestamp;
   stats.save();
 }
+
+export function handleReferrerSet(event: ReferrerSet): void {
+  let referrer = getOrCreateUser(event.params.referrer, event.block.timestamp);
+  referrer.referralCount = referrer.referralCount.plus(BigInt.fromI32(1));
+  referrer.lastInteractionTimestamp = event.block.timestamp;
+  referrer.save();
+
+  let buyer = getOrCreateUser(event.params.buyer, event.block.timestamp);
+  buyer.referrer = referrer.id;
+  buyer.lastInteractionTimestamp = event.block.timestamp;
+  buyer.save();
+}
+
+export function handleReferralRewarded(event: ReferralRewarded): void {
+  let referrer = getOrCreateUser(event.params.referrer, event.block.timestamp);
+  referrer.referralTokensEarned = referrer.referralTokensEarned.plus(event.params.tokensAmount);
+  referrer.referralEthEarned = referrer.referralEthEarned.plus(event.params.ethAmount);
+  referrer.lastInteractionTimestamp = event.block.timestamp;
+  referrer.save();
+
+  let buyer = getOrCreateUser(event.params.buyer, event.block.timestamp);
+
+  let id = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+  let referral = new Referral(id);
+  referral.referrer = referrer.id;
+  referral.buyer = buyer.id;
+  referral.tokensAmount = event.params.tokensAmount;
+  referral.ethAmount = event.params.ethAmount;
+  referral.timestamp = event.block.timestamp;
+  referral.blockNumber = event.block.number;
+  referral.transactionHash = event.transaction.hash;
+  referral.save();
+}
+
+export function handleAuctionSet(event: AuctionSet): void {
+  let id = event.params.phaseId.toString();
+  let auction = Auction.load(id);
+  if (auction == null) {
+    auction = new Auction(id);
+    auction.phase = id;
+    auction.settled = false;
+    auction.tokensBid = BigInt.fromI32(0);
+    auction.totalPaid = BigInt.fromI32(0);
+    auction.bidCount = BigInt.fromI32(0);
+  }
+  auction.startPrice = event.params.startPrice;
+  auction.floorPrice = event.params.floorPrice;
+  auction.decayPerSecond = event.params.decayPerSecond;
+  auction.save();
+}
+
+export function handleAuctionBidPlaced(event: AuctionBidPlaced): void {
+  let auction = Auction.load(event.params.phaseId.toString());
+  if (auction == null) return;
+  let user = getOrCreateUser(event.params.bidder, event.block.timestamp);
+  user.lastInteractionTimestamp = event.block.timestamp;
+  user.save();
+
+  let bid = new AuctionBid(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  );
+  bid.auction = auction.id;
+  bid.bidder = user.id;
+  bid.price = event.params.price;
+  bid.tokensAmount = event.params.tokens;
+  bid.ethAmount = event.params.paid;
+  bid.timestamp = event.block.timestamp;
+  bid.blockNumber = event.block.number;
+  bid.transactionHash = event.transaction.hash;
+  bid.save();
+
+  auction.tokensBid = auction.tokensBid.plus(event.params.tokens);
+  auction.totalPaid = auction.totalPaid.plus(event.params.paid);
+  auction.bidCount = auction.bidCount.plus(BigInt.fromI32(1));
+  auction.save();
+
+  let phase = Phase.load(event.params.phaseId.toString());
+  if (phase != null) {
+    phase.sold = phase.sold.plus(event.params.tokens);
+    phase.remaining = phase.supply.minus(phase.sold);
+    if (phase.sold >= phase.supply) {
+      phase.isCompleted = true;
+      phase.isActive = false;
+    }
+    phase.save();
+  }
+
+  let stats = getOrCreatePresaleStats();
+  stats.totalPurchases = stats.totalPurchases.plus(BigInt.fromI32(1));
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleAuctionSettled(event: AuctionSettled): void {
+  let auction = Auction.load(event.params.phaseId.toString());
+  if (auction == null) return;
+  auction.clearingPrice = event.params.clearingPrice;
+  auction.settled = true;
+  auction.settledAtTimestamp = event.block.timestamp;
+  auction.save();
+
+  // bids only count towards the totals at the clearing price (18-decimal sale token)
+  let stats = getOrCreatePresaleStats();
+  stats.totalRaised = stats.totalRaised.plus(
+    event.params.tokensSold
+      .times(event.params.clearingPrice)
+      .div(BigInt.fromI32(10).pow(18))
+  );
+  stats.totalTokensSold = stats.totalTokensSold.plus(event.params.tokensSold);
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleAuctionBidSettled(event: AuctionBidSettled): void {
+  let user = getOrCreateUser(event.params.bidder, event.block.timestamp);
+  let stats = getOrCreatePresaleStats();
+
+  let isFirstPurchase = user.totalTokensPurchased.equals(BigInt.fromI32(0)) && user.totalContributed.equals(BigInt.fromI32(0));
+  user.totalContributed = user.totalContributed.plus(event.params.cost);
+  user.totalTokensPurchased = user.totalTokensPurchased.plus(event.params.tokens);
+  user.lastInteractionTimestamp = event.block.timestamp;
+  user.save();
+
+  if (isFirstPurchase) {
+    stats.totalBuyers = stats.totalBuyers.plus(BigInt.fromI32(1));
+  }
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+// DynamicPresaleBase.SaleParam order
+const SALE_PARAMS = ["softCap", "minBuy", "maxPerWallet"];
+
+function parameterChangeId(param: i32, eta: BigInt): string {
+  return SALE_PARAMS[param] + "-" + eta.toString();
+}
+
+export function handleParameterDelaySet(event: ParameterDelaySet): void {
+  let stats = getOrCreatePresaleStats();
+  stats.parameterDelay = event.params.delay;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleParameterChangeQueued(event: ParameterChangeQueued): void {
+  let change = new ParameterChange(parameterChangeId(event.params.param, event.params.eta));
+  change.parameter = SALE_PARAMS[event.params.param];
+  change.value = event.params.value;
+  change.eta = event.params.eta;
+  change.status = "queued";
+  change.queuedAtTimestamp = event.block.timestamp;
+  change.queuedTransactionHash = event.transaction.hash;
+  change.save();
+}
+
+export function handleParameterChangeExecuted(event: ParameterChangeExecuted): void {
+  let change = ParameterChange.load(parameterChangeId(event.params.param, event.params.eta));
+  if (change != null) {
+    change.status = "executed";
+    change.resolvedAtTimestamp = event.block.timestamp;
+    change.resolvedTransactionHash = event.transaction.hash;
+    change.save();
+  }
+
+  let stats = getOrCreatePresaleStats();
+  if (event.params.param == 0) {
+    stats.softCap = event.params.value;
+  } else if (event.params.param == 1) {
+    stats.minBuy = event.params.value;
+  } else {
+    stats.maxPerWallet = event.params.value;
+  }
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleParameterChangeCancelled(event: ParameterChangeCancelled): void {
+  let change = ParameterChange.load(parameterChangeId(event.params.param, event.params.eta));
+  if (change == null) return;
+  change.status = "cancelled";
+  change.resolvedAtTimestamp = event.block.timestamp;
+  change.resolvedTransactionHash = event.transaction.hash;
+  change.save();
+}
+
+export function handleTranchesSet(event: TranchesSet): void {
+  let stats = getOrCreatePresaleStats();
+
+  // setTranches replaces the whole schedule
+  let count = event.params.bps.length;
+  for (let i = count; i < stats.totalTranches.toI32(); i++) {
+    store.remove("Tranche", i.toString());
+  }
+
+  for (let i = 0; i < count; i++) {
+    let tranche = new Tranche(i.toString());
+    tranche.index = BigInt.fromI32(i);
+    tranche.bps = event.params.bps[i];
+    tranche.unlockTime = event.params.unlockTimes[i];
+    tranche.needsApproval = event.params.needsApproval[i];
+    tranche.approved = false;
+    tranche.withdrawn = false;
+    tranche.save();
+  }
+
+  stats.totalTranches = BigInt.fromI32(count);
+  stats.trancheHaltQuorumBps = event.params.haltQuorumBps;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleTrancheApproved(event: TrancheApproved): void {
+  let tranche = Tranche.load(event.params.index.toString());
+  if (tranche == null) return;
+  tranche.approved = true;
+  tranche.save();
+}
+
+export function handleTrancheWithdrawn(event: TrancheWithdrawn): void {
+  let tranche = Tranche.load(event.params.index.toString());
+  if (tranche == null) return;
+  tranche.withdrawn = true;
+  tranche.amount = event.params.amount;
+  tranche.withdrawnTimestamp = event.block.timestamp;
+  tranche.withdrawnTransactionHash = event.transaction.hash;
+  tranche.save();
+}
+
+export function handleTrancheHaltVoted(event: TrancheHaltVoted): void {
+  let user = getOrCreateUser(event.params.voter, event.block.timestamp);
+  user.lastInteractionTimestamp = event.block.timestamp;
+  user.save();
+
+  let vote = new TrancheHaltVote(event.transaction.hash.toHexString() + "-" + event.logIndex.toString());
+  vote.voter = user.id;
+  vote.weight = event.params.weight;
+  vote.totalVotes = event.params.totalVotes;
+  vote.timestamp = event.block.timestamp;
+  vote.transactionHash = event.transaction.hash;
+  vote.save();
+
+  let stats = getOrCreatePresaleStats();
+  stats.trancheHaltVotes = event.params.totalVotes;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
+
+export function handleTranchesHalted(event: TranchesHalted): void {
+  let stats = getOrCreatePresaleStats();
+  stats.tranchesHalted = true;
+  stats.trancheRefundPool = event.params.refundPool;
+  stats.lastUpdatedTimestamp = event.block.timestamp;
+  stats.save();
+}
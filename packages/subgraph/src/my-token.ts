@@ -1,6 +1,6 @@
 import { BigInt, Bytes, Address } from "@graphprotocol/graph-ts";
-import { Transfer } from "../generated/MyToken/MyToken";
-import { User, TokenTransfer } from "../generated/schema";
+import { Transfer, DelegateChanged, DelegateVotesChanged } from "../generated/MyToken/MyToken";
+import { User, TokenTransfer, DelegateChange, DelegateVotesChange } from "../generated/schema";
 
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
@@ -16,6 +16,10 @@ function getOrCreateUser(address: Bytes, timestamp: BigInt): User {
     user.totalReleased = BigInt.fromI32(0);
     user.tokenBalance = BigInt.fromI32(0);
     user.pendingPayments = BigInt.fromI32(0);
+    user.referralCount = BigInt.fromI32(0);
+    user.referralTokensEarned = BigInt.fromI32(0);
+    user.referralEthEarned = BigInt.fromI32(0);
+    user.votes = BigInt.fromI32(0);
     user.firstInteractionTimestamp = timestamp;
     user.lastInteractionTimestamp = timestamp;
     user.save();
@@ -57,3 +61,46 @@ export function handleTransfer(event: Transfer): void {
   transfer.transactionHash = event.transaction.hash;
   transfer.save();
 }
+
+export function handleDelegateChanged(event: DelegateChanged): void {
+  let delegator = getOrCreateUser(event.params.delegator, event.block.timestamp);
+
+  let change = new DelegateChange(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  );
+  change.delegator = delegator.id;
+  if (!event.params.fromDelegate.equals(Address.zero())) {
+    change.fromDelegate = getOrCreateUser(event.params.fromDelegate, event.block.timestamp).id;
+  }
+  if (event.params.toDelegate.equals(Address.zero())) {
+    delegator.delegate = null;
+  } else {
+    let toUser = getOrCreateUser(event.params.toDelegate, event.block.timestamp);
+    change.toDelegate = toUser.id;
+    delegator.delegate = toUser.id;
+  }
+  change.timestamp = event.block.timestamp;
+  change.blockNumber = event.block.number;
+  change.transactionHash = event.transaction.hash;
+  change.save();
+
+  delegator.lastInteractionTimestamp = event.block.timestamp;
+  delegator.save();
+}
+
+export function handleDelegateVotesChanged(event: DelegateVotesChanged): void {
+  let delegate = getOrCreateUser(event.params.delegate, event.block.timestamp);
+  delegate.votes = event.params.newVotes;
+  delegate.save();
+
+  let change = new DelegateVotesChange(
+    event.transaction.hash.toHexString() + "-" + event.logIndex.toString()
+  );
+  change.delegate = delegate.id;
+  change.previousVotes = event.params.previousVotes;
+  change.newVotes = event.params.newVotes;
+  change.timestamp = event.block.timestamp;
+  change.blockNumber = event.block.number;
+  change.transactionHash = event.transaction.hash;
+  change.save();
+}
@@ -3,6 +3,7 @@ import {
   VestingCreated,
   TokensReleased,
   VestingRevoked,
+  VestingTransferred,
 } from "../generated/TokenVesting/TokenVesting";
 import {
   User,
@@ -23,6 +24,10 @@ function getOrCreateUser(address: Bytes, timestamp: BigInt): User {
     user.totalReleased = BigInt.fromI32(0);
     user.tokenBalance = BigInt.fromI32(0);
     user.pendingPayments = BigInt.fromI32(0);
+    user.referralCount = BigInt.fromI32(0);
+    user.referralTokensEarned = BigInt.fromI32(0);
+    user.referralEthEarned = BigInt.fromI32(0);
+    user.votes = BigInt.fromI32(0);
     user.firstInteractionTimestamp = timestamp;
     user.lastInteractionTimestamp = timestamp;
     user.save();
@@ -30,6 +35,13 @@ function getOrCreateUser(address: Bytes, timestamp: BigInt): User {
   return user;
 }
 
+// UnlockCurve enum of TokenVesting
+function curveName(curve: i32): string {
+  if (curve == 1) return "STEP";
+  if (curve == 2) return "CUSTOM";
+  return "LINEAR";
+}
+
 function getOrCreateVestingStats(): VestingStats {
   let stats = VestingStats.load("1");
   if (stats == null) {
@@ -61,6 +73,10 @@ export function handleVestingCreated(event: VestingCreated): void {
   schedule.startTime = event.params.start;
   schedule.duration = event.params.duration;
   schedule.cliff = event.params.cliff;
+  schedule.curve = curveName(event.params.curve);
+  schedule.stepInterval = event.params.stepInterval;
+  schedule.unlockTimes = event.params.unlockTimes;
+  schedule.unlockBps = event.params.unlockBps;
   schedule.revocable = event.params.revocable;
   schedule.revoked = false;
   schedule.revokedAt = null;
@@ -68,6 +84,9 @@ export function handleVestingCreated(event: VestingCreated): void {
   schedule.createdAtTimestamp = event.block.timestamp;
   schedule.createdAtBlockNumber = event.block.number;
   schedule.lastReleasedTimestamp = null;
+  schedule.transferredTo = null;
+  schedule.transferredFrom = null;
+  schedule.transferredAt = null;
   schedule.save();
 
   user.totalVested = user.totalVested.plus(event.params.totalAmount);
@@ -145,3 +164,57 @@ export function handleVestingRevoked(event: VestingRevoked): void {
   stats.lastUpdatedTimestamp = event.block.timestamp;
   stats.save();
 }
+
+export function handleVestingTransferred(event: VestingTransferred): void {
+  let oldId =
+    event.params.from.toHexString() +
+    "-" +
+    event.params.fromScheduleId.toString();
+  let old = VestingSchedule.load(oldId);
+  if (old == null) return;
+
+  let fromUser = getOrCreateUser(event.params.from, event.block.timestamp);
+  let toUser = getOrCreateUser(event.params.to, event.block.timestamp);
+
+  let newId =
+    event.params.to.toHexString() + "-" + event.params.toScheduleId.toString();
+  let schedule = new VestingSchedule(newId);
+  schedule.beneficiary = toUser.id;
+  schedule.scheduleId = event.params.toScheduleId;
+  schedule.totalAmount = old.totalAmount;
+  schedule.released = old.released;
+  schedule.remaining = old.remaining;
+  schedule.startTime = old.startTime;
+  schedule.duration = old.duration;
+  schedule.cliff = old.cliff;
+  schedule.curve = old.curve;
+  schedule.stepInterval = old.stepInterval;
+  schedule.unlockTimes = old.unlockTimes;
+  schedule.unlockBps = old.unlockBps;
+  schedule.revocable = old.revocable;
+  schedule.revoked = false;
+  schedule.revokedAt = null;
+  schedule.revokedAmount = null;
+  schedule.transferredTo = null;
+  schedule.transferredFrom = oldId;
+  schedule.transferredAt = event.block.timestamp;
+  schedule.createdAtTimestamp = old.createdAtTimestamp;
+  schedule.createdAtBlockNumber = old.createdAtBlockNumber;
+  schedule.lastReleasedTimestamp = old.lastReleasedTimestamp;
+  schedule.save();
+
+  // The unreleased part follows the schedule; what the old wallet was released stays with it
+  let moved = old.remaining;
+  old.transferredTo = newId;
+  old.transferredAt = event.block.timestamp;
+  old.remaining = BigInt.fromI32(0);
+  old.save();
+
+  fromUser.totalVested = fromUser.totalVested.minus(moved);
+  fromUser.lastInteractionTimestamp = event.block.timestamp;
+  fromUser.save();
+
+  toUser.totalVested = toUser.totalVested.plus(moved);
+  toUser.lastInteractionTimestamp = event.block.timestamp;
+  toUser.save();
+}